@@ -17,10 +17,13 @@ import Signup from "@/pages/Signup";
 import VerifyEmail from "@/pages/VerifyEmail";
 import KYCUpload from "@/pages/KYCUpload";
 import ResetPassword from "@/pages/ResetPassword";
+import ResetTxnPin from "@/pages/ResetTxnPin";
 import CompleteInvitation from "@/pages/CompleteInvitation";
 import MyTeam from "@/pages/MyTeam";
 import ProductCatalog from "@/pages/ProductCatalog";
 import MyPurchases from "@/pages/MyPurchases";
+import MyWallet from "@/pages/MyWallet";
+import MyCart from "@/pages/MyCart";
 import PendingUserDashboard from "@/pages/PendingUserDashboard";
 
 function Router() {
@@ -58,6 +61,7 @@ function Router() {
       
       {/* Change password available to all authenticated users */}
       <Route path="/change-password" component={ChangePassword} />
+      <Route path="/reset-txn-pin" component={ResetTxnPin} />
       
       {/* Pending user specific routes */}
       {user?.status === 'pending' && (
@@ -75,6 +79,8 @@ function Router() {
           <Route path="/my-team" component={MyTeam} />
           <Route path="/products" component={ProductCatalog} />
           <Route path="/my-purchases" component={MyPurchases} />
+          <Route path="/my-wallet" component={MyWallet} />
+          <Route path="/my-cart" component={MyCart} />
           
           {/* Role-based routes */}
           {user?.role === 'founder' && <Route path="/founder" component={FounderDashboard} />}
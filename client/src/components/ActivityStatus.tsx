@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Activity } from "lucide-react";
+import { format } from "date-fns";
+
+interface ActivityStatusData {
+  activated: boolean;
+  activationDate: string | null;
+  firstPurchaseAmount: number;
+  activeThisMonth: boolean;
+  monthStart: string;
+  repurchaseBV: number;
+  requiredBV: number;
+  qualifiedForNextMonth: boolean;
+}
+
+// Whether the member's ID is activated and earning binary income this month
+export default function ActivityStatus() {
+  const { data: activity } = useQuery<ActivityStatusData>({
+    queryKey: ['/api/activity'],
+  });
+
+  if (!activity) return null;
+
+  const progress = activity.requiredBV > 0 ? Math.min(100, (activity.repurchaseBV / activity.requiredBV) * 100) : 100;
+
+  return (
+    <Card className="mb-8" data-testid="activity-status">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-semibold text-gray-800 flex items-center">
+          <Activity className="mr-2 h-5 w-5 text-volt-light" />
+          ID Status
+        </CardTitle>
+        {!activity.activated ? (
+          <Badge className="bg-gray-100 text-gray-800">Not activated</Badge>
+        ) : activity.activeThisMonth ? (
+          <Badge className="bg-green-100 text-green-800">Active this month</Badge>
+        ) : (
+          <Badge className="bg-red-100 text-red-800">Inactive this month</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!activity.activated ? (
+          <p className="text-sm text-gray-600">
+            Activate your ID with a first purchase of at least ₹{activity.firstPurchaseAmount.toLocaleString('en-IN')} (before GST).
+            Binary income is only paid to activated IDs.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Activated {activity.activationDate && format(new Date(activity.activationDate), 'dd MMM yyyy')}.
+              {!activity.activeThisMonth && ' Binary income for this month lapses because last month\'s repurchase BV was below the requirement.'}
+            </p>
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span>Repurchase BV in {format(new Date(activity.monthStart), 'MMMM')}</span>
+                <span className="font-medium">
+                  {activity.repurchaseBV.toLocaleString('en-IN')} / {activity.requiredBV.toLocaleString('en-IN')} BV
+                </span>
+              </div>
+              <Progress value={progress} />
+              <p className="text-xs text-gray-500 mt-1">
+                {activity.qualifiedForNextMonth
+                  ? 'You stay active for next month\'s payouts.'
+                  : `Buy ${(activity.requiredBV - activity.repurchaseBV).toLocaleString('en-IN')} BV more of repurchase products this month to stay active next month.`}
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
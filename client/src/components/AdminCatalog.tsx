@@ -0,0 +1,734 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Package, Plus, Download, Upload, ImagePlus, Trash2, Star } from "lucide-react";
+import { format } from "date-fns";
+import type { Product, ProductCategory, ProductImage, ProductVariant, ProductPriceChange } from "@shared/schema";
+
+interface CatalogProduct extends Product {
+  variants: ProductVariant[];
+  images: ProductImage[];
+}
+
+const emptyProduct = {
+  name: '', description: '', category: '', purchaseType: 'first_purchase', hsnCode: '', price: '', bv: '', gst: '18',
+};
+const emptyVariant = { sku: '', name: '', capacity: '', colour: '', price: '', bv: '', gst: '18' };
+const emptyPriceChange = { variantId: 'product', price: '', bv: '', gst: '', effectiveFrom: '' };
+
+const formatPrice = (price: string) => `₹${parseFloat(price).toLocaleString('en-IN')}`;
+
+// Products, their categories, images, variants and scheduled prices
+export default function AdminCatalog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<CatalogProduct | 'new' | null>(null);
+  const [productForm, setProductForm] = useState(emptyProduct);
+  const [managingId, setManagingId] = useState<string | null>(null);
+  const [variantForm, setVariantForm] = useState(emptyVariant);
+  const [priceForm, setPriceForm] = useState(emptyPriceChange);
+  const [categoryForm, setCategoryForm] = useState({ slug: '', name: '' });
+
+  const { data: products = [], isLoading } = useQuery<CatalogProduct[]>({
+    queryKey: ['/api/admin/products'],
+  });
+  const { data: categories = [] } = useQuery<ProductCategory[]>({
+    queryKey: ['/api/admin/product-categories'],
+  });
+  const managing = products.find(product => product.id === managingId) || null;
+  const { data: priceChanges = [] } = useQuery<ProductPriceChange[]>({
+    queryKey: [`/api/admin/products/${managingId}/price-changes`],
+    enabled: !!managingId,
+  });
+
+  const invalidateCatalog = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/product') });
+    queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/product-categories'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update the catalog",
+      variant: "destructive",
+    });
+  };
+
+  // Every catalog change goes through the same request-then-refresh cycle
+  const catalogMutation = useMutation({
+    mutationFn: async ({ method, url, data }: { method: string; url: string; data?: unknown; success?: string }) => {
+      const response = await apiRequest(method, url, data);
+      return response.json();
+    },
+    onSuccess: (result: any, variables) => {
+      invalidateCatalog();
+      toast({ title: variables.success || result?.message || "Catalog updated" });
+    },
+    onError,
+  });
+  const send = (method: string, url: string, data?: unknown, success?: string, onDone?: () => void) =>
+    catalogMutation.mutate({ method, url, data, success }, { onSuccess: () => onDone?.() });
+
+  const importMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', '/api/admin/catalog/import', { content });
+      return response.json();
+    },
+    onSuccess: (result: { created: number; updated: number; skipped: { line: number; name: string; reason: string }[] }) => {
+      invalidateCatalog();
+      const skipped = result.skipped.length > 0
+        ? ` Skipped: ${result.skipped.map(s => `line ${s.line} (${s.reason})`).join(', ')}`
+        : '';
+      toast({
+        title: "Catalog imported",
+        description: `${result.created} created, ${result.updated} updated.${skipped}`,
+      });
+    },
+    onError,
+  });
+
+  const handleCatalogFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      importMutation.mutate(await file.text());
+    }
+  };
+
+  const openProduct = (product: CatalogProduct | 'new') => {
+    setProductForm(product === 'new' ? { ...emptyProduct, category: categories[0]?.slug || '' } : {
+      name: product.name,
+      description: product.description || '',
+      category: product.category,
+      purchaseType: product.purchaseType,
+      hsnCode: product.hsnCode || '',
+      price: product.price,
+      bv: product.bv,
+      gst: product.gst,
+    });
+    setEditing(product);
+  };
+
+  const saveProduct = () => {
+    const data = {
+      ...productForm,
+      description: productForm.description || undefined,
+      hsnCode: productForm.hsnCode || undefined,
+    };
+    send(
+      editing === 'new' ? 'POST' : 'PATCH',
+      editing === 'new' ? '/api/admin/products' : `/api/admin/products/${(editing as CatalogProduct).id}`,
+      data,
+      editing === 'new' ? 'Product created' : 'Product updated',
+      () => setEditing(null)
+    );
+  };
+
+  const addVariant = () => {
+    send('POST', `/api/admin/products/${managingId}/variants`, {
+      ...variantForm,
+      sku: variantForm.sku.toUpperCase(),
+      capacity: variantForm.capacity || undefined,
+      colour: variantForm.colour || undefined,
+    }, 'Variant added', () => setVariantForm(emptyVariant));
+  };
+
+  const schedulePrice = () => {
+    send('POST', `/api/admin/products/${managingId}/price-changes`, {
+      variantId: priceForm.variantId === 'product' ? undefined : priceForm.variantId,
+      price: priceForm.price,
+      bv: priceForm.bv || undefined,
+      gst: priceForm.gst || undefined,
+      effectiveFrom: new Date(priceForm.effectiveFrom).toISOString(),
+    }, 'Price change scheduled', () => setPriceForm(emptyPriceChange));
+  };
+
+  const categoryName = (slug: string) => categories.find(c => c.slug === slug)?.name || slug;
+  const variantName = (variantId: string | null) =>
+    variantId ? managing?.variants.find(v => v.id === variantId)?.name || 'Variant' : 'Product';
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+          <Package className="mr-2 h-5 w-5 text-volt-light" />
+          Product Catalog
+        </CardTitle>
+        <CardDescription>
+          Categories, products, images, variants and scheduled price changes
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="products">
+          <TabsList>
+            <TabsTrigger value="products">Products</TabsTrigger>
+            <TabsTrigger value="categories">Categories</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="products" className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <Button size="sm" onClick={() => openProduct('new')} disabled={categories.length === 0} data-testid="button-new-product">
+                <Plus className="mr-2 h-4 w-4" />
+                New Product
+              </Button>
+              <Button asChild variant="outline" size="sm">
+                <a href="/api/admin/catalog/export">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </a>
+              </Button>
+              <Label htmlFor="catalog-file" className="cursor-pointer">
+                <span className="inline-flex items-center rounded-md border px-3 py-2 text-sm hover:bg-gray-50">
+                  <Upload className="mr-2 h-4 w-4" />
+                  {importMutation.isPending ? 'Importing...' : 'Import CSV'}
+                </span>
+              </Label>
+              <input
+                id="catalog-file"
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                disabled={importMutation.isPending}
+                onChange={handleCatalogFile}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              The exported file lists each product followed by its variants. Rows without a SKU are products
+              (leave Product ID blank to create one); rows with a SKU are variants. Blank cells keep the current value.
+            </p>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-600 text-center py-6">Loading products...</p>
+            ) : products.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-6">No products yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>BV</TableHead>
+                    <TableHead>GST</TableHead>
+                    <TableHead>Variants</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {products.map(product => (
+                    <TableRow key={product.id} data-testid={`catalog-row-${product.id}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          {product.imageUrl ? (
+                            <img src={product.imageUrl} alt="" className="h-10 w-10 rounded object-cover" />
+                          ) : (
+                            <div className="h-10 w-10 rounded bg-gray-100" />
+                          )}
+                          <div>
+                            <div className="font-medium">{product.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {product.purchaseType === 'first_purchase' ? '1st Purchase' : '2nd Purchase'}
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell>{categoryName(product.category)}</TableCell>
+                      <TableCell>{formatPrice(product.price)}</TableCell>
+                      <TableCell>{product.bv}</TableCell>
+                      <TableCell>{product.gst}%</TableCell>
+                      <TableCell>{product.variants.length}</TableCell>
+                      <TableCell>
+                        <Badge className={product.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                          {product.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openProduct(product)} data-testid={`button-edit-product-${product.id}`}>
+                            Edit
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setManagingId(product.id)} data-testid={`button-manage-product-${product.id}`}>
+                            Images & Variants
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => send('PATCH', `/api/admin/products/${product.id}`, { isActive: !product.isActive },
+                              product.isActive ? 'Product deactivated' : 'Product activated')}
+                            disabled={catalogMutation.isPending}
+                          >
+                            {product.isActive ? 'Deactivate' : 'Activate'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => send('DELETE', `/api/admin/products/${product.id}`)}
+                            disabled={catalogMutation.isPending}
+                            data-testid={`button-delete-product-${product.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="categories" className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  value={categoryForm.name}
+                  onChange={(e) => setCategoryForm({
+                    name: e.target.value,
+                    slug: e.target.value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''),
+                  })}
+                  placeholder="Water Purifier"
+                  data-testid="input-category-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-slug">Slug</Label>
+                <Input
+                  id="category-slug"
+                  value={categoryForm.slug}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, slug: e.target.value })}
+                  placeholder="water_purifier"
+                />
+              </div>
+              <Button
+                onClick={() => send('POST', '/api/admin/product-categories', categoryForm, 'Category created',
+                  () => setCategoryForm({ slug: '', name: '' }))}
+                disabled={!categoryForm.name || !categoryForm.slug || catalogMutation.isPending}
+                data-testid="button-add-category"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Category
+              </Button>
+            </div>
+
+            {categories.length === 0 ? (
+              <p className="text-sm text-gray-600 text-center py-6">No categories yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Slug</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map(category => (
+                    <TableRow key={category.id}>
+                      <TableCell className="font-medium">{category.name}</TableCell>
+                      <TableCell className="font-mono text-sm">{category.slug}</TableCell>
+                      <TableCell>{products.filter(product => product.category === category.slug).length}</TableCell>
+                      <TableCell>
+                        <Badge className={category.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                          {category.isActive ? 'Active' : 'Hidden'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => send('PATCH', `/api/admin/product-categories/${category.id}`, { isActive: !category.isActive })}
+                            disabled={catalogMutation.isPending}
+                          >
+                            {category.isActive ? 'Hide' : 'Show'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => send('DELETE', `/api/admin/product-categories/${category.id}`)}
+                            disabled={catalogMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      {/* Product Dialog */}
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Product' : `Edit ${productForm.name}`}</DialogTitle>
+            <DialogDescription>Variants can be added once the product exists</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="product-name">Name</Label>
+              <Input
+                id="product-name"
+                value={productForm.name}
+                onChange={(e) => setProductForm({ ...productForm, name: e.target.value })}
+                data-testid="input-product-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="product-description">Description</Label>
+              <Textarea
+                id="product-description"
+                value={productForm.description}
+                onChange={(e) => setProductForm({ ...productForm, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Category</Label>
+                <Select value={productForm.category} onValueChange={(category) => setProductForm({ ...productForm, category })}>
+                  <SelectTrigger data-testid="select-product-category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.slug}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Purchase type</Label>
+                <Select value={productForm.purchaseType} onValueChange={(purchaseType) => setProductForm({ ...productForm, purchaseType })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="first_purchase">First Purchase</SelectItem>
+                    <SelectItem value="second_purchase">Second Purchase</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="product-price">Price</Label>
+                <Input id="product-price" value={productForm.price} onChange={(e) => setProductForm({ ...productForm, price: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="product-bv">BV</Label>
+                <Input id="product-bv" value={productForm.bv} onChange={(e) => setProductForm({ ...productForm, bv: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="product-gst">GST %</Label>
+                <Input id="product-gst" value={productForm.gst} onChange={(e) => setProductForm({ ...productForm, gst: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="product-hsn">HSN</Label>
+                <Input id="product-hsn" value={productForm.hsnCode} onChange={(e) => setProductForm({ ...productForm, hsnCode: e.target.value })} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={saveProduct}
+              disabled={!productForm.name || !productForm.category || catalogMutation.isPending}
+              data-testid="button-save-product"
+            >
+              {catalogMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Images, Variants and Scheduled Prices Dialog */}
+      <Dialog open={!!managing} onOpenChange={(open) => !open && setManagingId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{managing?.name}</DialogTitle>
+            <DialogDescription>The first image is shown in the catalog</DialogDescription>
+          </DialogHeader>
+          {managing && (
+            <Tabs defaultValue="images">
+              <TabsList>
+                <TabsTrigger value="images">Images</TabsTrigger>
+                <TabsTrigger value="variants">Variants</TabsTrigger>
+                <TabsTrigger value="prices">Scheduled Prices</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="images" className="space-y-4">
+                <ObjectUploader
+                  key={managing.id}
+                  maxNumberOfFiles={5}
+                  onGetUploadParameters={async () => {
+                    const response = await apiRequest('POST', '/api/admin/products/images/upload-url');
+                    const { uploadURL } = await response.json();
+                    return { method: 'PUT' as const, url: uploadURL };
+                  }}
+                  onComplete={async (result) => {
+                    // Attach one at a time so the images keep their upload order
+                    try {
+                      for (const file of result.successful || []) {
+                        await apiRequest('POST', `/api/admin/products/${managing.id}/images`, { uploadURL: file.uploadURL });
+                      }
+                      toast({ title: "Images added" });
+                    } catch (error) {
+                      onError(error as Error);
+                    }
+                    invalidateCatalog();
+                  }}
+                >
+                  <ImagePlus className="mr-2 h-4 w-4" />
+                  Upload Images
+                </ObjectUploader>
+                {managing.images.length === 0 ? (
+                  <p className="text-sm text-gray-600">No images yet.</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-3">
+                    {managing.images.map((image, index) => (
+                      <div key={image.id} className="border rounded p-2 space-y-2">
+                        <img src={image.url} alt="" className="h-32 w-full object-cover rounded" />
+                        <div className="flex justify-between">
+                          {index === 0 ? (
+                            <Badge className="bg-yellow-100 text-yellow-800">Primary</Badge>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => send('POST', `/api/admin/products/${managing.id}/images/${image.id}/primary`)}
+                              disabled={catalogMutation.isPending}
+                            >
+                              <Star className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => send('DELETE', `/api/admin/products/${managing.id}/images/${image.id}`)}
+                            disabled={catalogMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="variants" className="space-y-4">
+                {managing.variants.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Variant</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>BV</TableHead>
+                        <TableHead>GST</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {managing.variants.map(variant => (
+                        <TableRow key={variant.id}>
+                          <TableCell className="font-mono text-sm">{variant.sku}</TableCell>
+                          <TableCell>
+                            <div>{variant.name}</div>
+                            <div className="text-xs text-gray-500">{[variant.capacity, variant.colour].filter(Boolean).join(' / ')}</div>
+                          </TableCell>
+                          <TableCell>{formatPrice(variant.price)}</TableCell>
+                          <TableCell>{variant.bv}</TableCell>
+                          <TableCell>{variant.gst}%</TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => send('PATCH', `/api/admin/products/${managing.id}/variants/${variant.id}`,
+                                  { isActive: !variant.isActive }, variant.isActive ? 'Variant deactivated' : 'Variant activated')}
+                                disabled={catalogMutation.isPending}
+                              >
+                                {variant.isActive ? 'Deactivate' : 'Activate'}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => send('DELETE', `/api/admin/products/${managing.id}/variants/${variant.id}`)}
+                                disabled={catalogMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <div className="grid grid-cols-4 gap-3">
+                  <div>
+                    <Label htmlFor="variant-sku">SKU</Label>
+                    <Input id="variant-sku" value={variantForm.sku} onChange={(e) => setVariantForm({ ...variantForm, sku: e.target.value })} placeholder="WP-10L-WHT" />
+                  </div>
+                  <div>
+                    <Label htmlFor="variant-name">Name</Label>
+                    <Input id="variant-name" value={variantForm.name} onChange={(e) => setVariantForm({ ...variantForm, name: e.target.value })} placeholder="10 L / White" />
+                  </div>
+                  <div>
+                    <Label htmlFor="variant-capacity">Capacity</Label>
+                    <Input id="variant-capacity" value={variantForm.capacity} onChange={(e) => setVariantForm({ ...variantForm, capacity: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="variant-colour">Colour</Label>
+                    <Input id="variant-colour" value={variantForm.colour} onChange={(e) => setVariantForm({ ...variantForm, colour: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="variant-price">Price</Label>
+                    <Input id="variant-price" value={variantForm.price} onChange={(e) => setVariantForm({ ...variantForm, price: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="variant-bv">BV</Label>
+                    <Input id="variant-bv" value={variantForm.bv} onChange={(e) => setVariantForm({ ...variantForm, bv: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="variant-gst">GST %</Label>
+                    <Input id="variant-gst" value={variantForm.gst} onChange={(e) => setVariantForm({ ...variantForm, gst: e.target.value })} />
+                  </div>
+                  <div className="flex items-end">
+                    <Button
+                      onClick={addVariant}
+                      disabled={!variantForm.sku || !variantForm.name || !variantForm.price || !variantForm.bv || catalogMutation.isPending}
+                      data-testid="button-add-variant"
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Variant
+                    </Button>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="prices" className="space-y-4">
+                <div className="grid grid-cols-5 gap-3">
+                  <div>
+                    <Label>Applies to</Label>
+                    <Select value={priceForm.variantId} onValueChange={(variantId) => setPriceForm({ ...priceForm, variantId })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="product">Product</SelectItem>
+                        {managing.variants.map(variant => (
+                          <SelectItem key={variant.id} value={variant.id}>{variant.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="price-change-price">New price</Label>
+                    <Input id="price-change-price" value={priceForm.price} onChange={(e) => setPriceForm({ ...priceForm, price: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label htmlFor="price-change-bv">New BV</Label>
+                    <Input id="price-change-bv" value={priceForm.bv} onChange={(e) => setPriceForm({ ...priceForm, bv: e.target.value })} placeholder="Unchanged" />
+                  </div>
+                  <div>
+                    <Label htmlFor="price-change-gst">New GST %</Label>
+                    <Input id="price-change-gst" value={priceForm.gst} onChange={(e) => setPriceForm({ ...priceForm, gst: e.target.value })} placeholder="Unchanged" />
+                  </div>
+                  <div>
+                    <Label htmlFor="price-change-from">Effective from</Label>
+                    <Input
+                      id="price-change-from"
+                      type="datetime-local"
+                      value={priceForm.effectiveFrom}
+                      onChange={(e) => setPriceForm({ ...priceForm, effectiveFrom: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <Button
+                  onClick={schedulePrice}
+                  disabled={!priceForm.price || !priceForm.effectiveFrom || catalogMutation.isPending}
+                  data-testid="button-schedule-price"
+                >
+                  Schedule Price Change
+                </Button>
+
+                {priceChanges.length === 0 ? (
+                  <p className="text-sm text-gray-600">No price changes scheduled.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Applies to</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>BV</TableHead>
+                        <TableHead>GST</TableHead>
+                        <TableHead>Effective from</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {priceChanges.map(change => (
+                        <TableRow key={change.id}>
+                          <TableCell>{variantName(change.variantId)}</TableCell>
+                          <TableCell>{formatPrice(change.price)}</TableCell>
+                          <TableCell>{change.bv ?? '-'}</TableCell>
+                          <TableCell>{change.gst ? `${change.gst}%` : '-'}</TableCell>
+                          <TableCell>{format(new Date(change.effectiveFrom), 'dd MMM yyyy HH:mm')}</TableCell>
+                          <TableCell>
+                            <Badge className={
+                              change.status === 'scheduled' ? 'bg-yellow-100 text-yellow-800'
+                                : change.status === 'applied' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                            }>
+                              {change.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {change.status === 'scheduled' && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => send('DELETE', `/api/admin/products/${managing.id}/price-changes/${change.id}`, undefined, 'Price change cancelled')}
+                                disabled={catalogMutation.isPending}
+                              >
+                                Cancel
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { FileText, History, Upload } from "lucide-react";
+import type { CompensationPlan } from "@shared/schema";
+import type { CompensationPlanDefinition } from "@shared/compensationPlan";
+
+interface ActivePlan {
+  planId: string;
+  version: number;
+  name: string;
+  effectiveFrom: string | null;
+  definition: CompensationPlanDefinition;
+}
+
+export default function AdminCompensationPlans() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [definitionText, setDefinitionText] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: activePlan, isLoading } = useQuery<ActivePlan>({
+    queryKey: ["/api/compensation-plan/active"],
+  });
+
+  const { data: versions = [] } = useQuery<CompensationPlan[]>({
+    queryKey: ["/api/admin/compensation-plans"],
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      let definition: unknown;
+      try {
+        definition = JSON.parse(definitionText);
+      } catch {
+        throw new Error("Plan definition is not valid JSON");
+      }
+      const response = await apiRequest('POST', '/api/admin/compensation-plans', {
+        name,
+        effectiveFrom,
+        definition,
+        notes: notes || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (plan: CompensationPlan) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/compensation-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/compensation-plan/active"] });
+      setName('');
+      setEffectiveFrom('');
+      setNotes('');
+      toast({
+        title: "Plan published",
+        description: `Version ${plan.version} takes effect on ${new Date(plan.effectiveFrom).toLocaleDateString('en-IN')}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to publish compensation plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const loadActiveDefinition = () => {
+    if (activePlan) {
+      setDefinitionText(JSON.stringify(activePlan.definition, null, 2));
+    }
+  };
+
+  if (isLoading || !activePlan) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto mb-2"></div>
+          <p className="text-sm text-gray-600">Loading compensation plan...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileText className="mr-2 h-5 w-5 text-volt-light" />
+            Active Plan: {activePlan.name}
+            <Badge variant="secondary" className="ml-2">v{activePlan.version}</Badge>
+          </CardTitle>
+          <CardDescription>
+            {activePlan.effectiveFrom
+              ? `Effective since ${new Date(activePlan.effectiveFrom).toLocaleDateString('en-IN')}`
+              : 'Built-in default plan (no version published yet)'}
+            {' '}· Sponsor income {(activePlan.definition.sponsorIncomeRate * 100).toFixed(1)}%
+            {' '}· Binary matching {(activePlan.definition.binary.matchingRate * 100).toFixed(1)}%
+            {' '}· Franchise income {(activePlan.definition.franchiseIncomeRate * 100).toFixed(1)}%
+            {' '}· Activation ₹{activePlan.definition.activation.firstPurchaseAmount.toLocaleString('en-IN')}
+            {' '}· Monthly repurchase {activePlan.definition.activation.monthlyRepurchaseBV.toLocaleString('en-IN')} BV
+            {activePlan.definition.consistencySlabs.map(slab => (
+              <span key={slab.name}>
+                {' '}· {slab.name}: {slab.streakMonths} months + {slab.teamBV.toLocaleString('en-IN')} team BV = ₹{slab.amount.toLocaleString('en-IN')}
+              </span>
+            ))}
+            {activePlan.definition.rewardPools.map(pool => (
+              <span key={pool.type}>
+                {' '}· {pool.name}: {(pool.turnoverRate * 100).toFixed(1)}% of turnover for {pool.minRank}+ with {pool.minMatchedBV.toLocaleString('en-IN')} matched BV
+              </span>
+            ))}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rank</TableHead>
+                  <TableHead className="text-right">Team BV</TableHead>
+                  <TableHead className="text-right">Left / Right BV</TableHead>
+                  <TableHead className="text-right">Directs</TableHead>
+                  <TableHead className="text-right">Bonus</TableHead>
+                  <TableHead className="text-right">Daily / Weekly Cap</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {activePlan.definition.ranks.map((rank) => (
+                  <TableRow key={rank.name}>
+                    <TableCell className="font-medium">{rank.name}</TableCell>
+                    <TableCell className="text-right">{rank.teamBV.toLocaleString('en-IN')}</TableCell>
+                    <TableCell className="text-right">
+                      {rank.leftBV.toLocaleString('en-IN')} / {rank.rightBV.toLocaleString('en-IN')}
+                    </TableCell>
+                    <TableCell className="text-right">{rank.directRecruits}</TableCell>
+                    <TableCell className="text-right">₹{rank.bonus.toLocaleString('en-IN')}</TableCell>
+                    <TableCell className="text-right">
+                      ₹{rank.dailyCap.toLocaleString('en-IN')} / ₹{rank.weeklyCap.toLocaleString('en-IN')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Upload className="mr-2 h-5 w-5 text-volt-light" />
+            Publish New Version
+          </CardTitle>
+          <CardDescription>
+            Published versions are immutable. Periods starting before the effective date keep using the previous version.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="plan-name">Version Name</Label>
+              <Input id="plan-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. FY 2025-26 Plan" />
+            </div>
+            <div>
+              <Label htmlFor="plan-effective">Effective From</Label>
+              <Input id="plan-effective" type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <Label htmlFor="plan-definition">Plan Definition (JSON)</Label>
+              <Button variant="outline" size="sm" onClick={loadActiveDefinition}>
+                Load Active Definition
+              </Button>
+            </div>
+            <Textarea
+              id="plan-definition"
+              className="font-mono text-xs min-h-[300px]"
+              value={definitionText}
+              onChange={(e) => setDefinitionText(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="plan-notes">Notes</Label>
+            <Input id="plan-notes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="What changed in this version" />
+          </div>
+          <Button
+            className="volt-gradient text-white"
+            disabled={!name || !effectiveFrom || !definitionText || publishMutation.isPending}
+            onClick={() => publishMutation.mutate()}
+          >
+            {publishMutation.isPending ? 'Publishing...' : 'Publish Version'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5 text-volt-light" />
+            Version History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">No versions published yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead>Published</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map((version) => (
+                  <TableRow key={version.id}>
+                    <TableCell>
+                      v{version.version}
+                      {version.version === activePlan.version && (
+                        <Badge className="ml-2 bg-green-100 text-green-800">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{version.name}</TableCell>
+                    <TableCell>{new Date(version.effectiveFrom).toLocaleDateString('en-IN')}</TableCell>
+                    <TableCell>{version.createdAt ? new Date(version.createdAt).toLocaleString('en-IN') : '-'}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{version.notes || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
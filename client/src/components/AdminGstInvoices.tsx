@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileText, Receipt } from "lucide-react";
+import { format } from "date-fns";
+import type { Invoice } from "@shared/schema";
+
+const formatPrice = (price: string | null | undefined) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(parseFloat(price || '0'));
+};
+
+const sum = (invoices: Invoice[], pick: (invoice: Invoice) => string) =>
+  invoices
+    .filter(invoice => invoice.status === 'issued')
+    .reduce((total, invoice) => total + parseFloat(pick(invoice)), 0)
+    .toFixed(2);
+
+export default function AdminGstInvoices() {
+  const [month, setMonth] = useState(() => format(new Date(), 'yyyy-MM'));
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: [`/api/admin/invoices?month=${month}`],
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+
+  const totals = [
+    { label: 'Taxable Value', value: sum(invoices, invoice => invoice.taxableValue) },
+    { label: 'CGST', value: sum(invoices, invoice => invoice.cgstAmount) },
+    { label: 'SGST', value: sum(invoices, invoice => invoice.sgstAmount) },
+    { label: 'IGST', value: sum(invoices, invoice => invoice.igstAmount) },
+    { label: 'Invoice Value', value: sum(invoices, invoice => invoice.totalAmount) },
+  ];
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+          <Receipt className="mr-2 h-5 w-5 text-volt-light" />
+          GST Invoices
+        </CardTitle>
+        <CardDescription>
+          Tax invoices issued for paid orders and the monthly GSTR-1 sales export
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label htmlFor="gst-month">Month</Label>
+            <Input
+              id="gst-month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-44"
+              data-testid="input-gst-month"
+            />
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/admin/gst/gstr1?month=${month}&section=invoices`}>
+              <Download className="mr-2 h-4 w-4" />
+              GSTR-1 Invoices CSV
+            </a>
+          </Button>
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/admin/gst/gstr1?month=${month}&section=hsn`}>
+              <Download className="mr-2 h-4 w-4" />
+              HSN Summary CSV
+            </a>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {totals.map(total => (
+            <div key={total.label} className="rounded-lg border p-3">
+              <div className="text-xs text-gray-500">{total.label}</div>
+              <div className="font-semibold">{formatPrice(total.value)}</div>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600 text-center py-6">Loading invoices...</p>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center py-6">No invoices issued in this month.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Invoice</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Buyer</TableHead>
+                <TableHead>Place of Supply</TableHead>
+                <TableHead>Taxable</TableHead>
+                <TableHead>Tax</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map((invoice) => (
+                <TableRow key={invoice.id} data-testid={`invoice-row-${invoice.id}`}>
+                  <TableCell className="font-mono text-sm">{invoice.invoiceNumber}</TableCell>
+                  <TableCell>{format(new Date(invoice.invoiceDate), 'dd MMM yyyy')}</TableCell>
+                  <TableCell>
+                    <div>{invoice.buyerName}</div>
+                    {invoice.buyerUserId && <div className="text-xs text-gray-500">{invoice.buyerUserId}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {invoice.placeOfSupply}
+                    <div className="text-xs text-gray-500">{invoice.supplyType === 'intra_state' ? 'CGST + SGST' : 'IGST'}</div>
+                  </TableCell>
+                  <TableCell>{formatPrice(invoice.taxableValue)}</TableCell>
+                  <TableCell>{formatPrice(invoice.totalTax)}</TableCell>
+                  <TableCell>{formatPrice(invoice.totalAmount)}</TableCell>
+                  <TableCell>
+                    <Badge className={invoice.status === 'issued' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                      {invoice.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button asChild variant="ghost" size="sm">
+                      <a href={`/api/admin/invoices/${invoice.id}/pdf`}>
+                        <FileText className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,494 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Boxes, Plus, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import type { StockPoint, StockLevel, StockMovement, Order, Product, FranchiseRequest } from "@shared/schema";
+
+interface StockLevelRow extends StockLevel {
+  productName: string | null;
+  available: number;
+}
+
+interface LowStockRow extends StockLevelRow {
+  stockPoint: { code: string; name: string };
+}
+
+interface StockOrderRow extends Order {
+  user: { userId: string | null; firstName: string | null; lastName: string | null; mobile: string | null } | null;
+}
+
+const EMPTY_POINT = { code: '', name: '', type: 'warehouse', franchiseRequestId: '', address: '', city: '', state: '', pincode: '', phone: '' };
+
+const formatPrice = (price: string | null | undefined) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(parseFloat(price || '0'));
+};
+
+export default function AdminInventory() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [createOpen, setCreateOpen] = useState(false);
+  const [pointForm, setPointForm] = useState(EMPTY_POINT);
+  const [movement, setMovement] = useState({ productId: '', type: 'stock_in', quantity: '1', note: '' });
+
+  const { data: stockPoints = [] } = useQuery<StockPoint[]>({
+    queryKey: ['/api/admin/stock-points'],
+  });
+  const pointId = selectedId || stockPoints[0]?.id || '';
+  const selected = stockPoints.find(point => point.id === pointId);
+
+  const { data: levels = [] } = useQuery<StockLevelRow[]>({
+    queryKey: [`/api/admin/stock-points/${pointId}/stock`],
+    enabled: !!pointId,
+  });
+  const { data: stockOrders = [] } = useQuery<StockOrderRow[]>({
+    queryKey: [`/api/admin/stock-points/${pointId}/orders`],
+    enabled: !!pointId,
+  });
+  const { data: movements = [] } = useQuery<StockMovement[]>({
+    queryKey: [`/api/admin/stock-points/${pointId}/movements`],
+    enabled: !!pointId,
+  });
+  const { data: lowStock = [] } = useQuery<LowStockRow[]>({
+    queryKey: ['/api/admin/inventory/low-stock'],
+  });
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+  const { data: franchiseRequests = [] } = useQuery<FranchiseRequest[]>({
+    queryKey: ['/api/admin/franchise-requests'],
+    enabled: createOpen,
+  });
+
+  const invalidateInventory = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return key.startsWith('/api/admin/stock-points') || key.startsWith('/api/admin/inventory');
+      },
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Inventory update failed",
+      variant: "destructive",
+    });
+  };
+
+  const createPointMutation = useMutation({
+    mutationFn: async () => {
+      const body = Object.fromEntries(Object.entries(pointForm).filter(([, value]) => value !== ''));
+      const response = await apiRequest('POST', '/api/admin/stock-points', body);
+      return response.json();
+    },
+    onSuccess: (point: StockPoint) => {
+      invalidateInventory();
+      setSelectedId(point.id);
+      setCreateOpen(false);
+      setPointForm(EMPTY_POINT);
+      toast({ title: "Stock point created", description: `${point.code} - ${point.name}` });
+    },
+    onError,
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (point: StockPoint) => {
+      const response = await apiRequest('PATCH', `/api/admin/stock-points/${point.id}`, { isActive: !point.isActive });
+      return response.json();
+    },
+    onSuccess: invalidateInventory,
+    onError,
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/stock-points/${pointId}/movements`, {
+        productId: movement.productId,
+        type: movement.type,
+        quantity: parseInt(movement.quantity, 10),
+        note: movement.note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateInventory();
+      setMovement({ ...movement, quantity: '1', note: '' });
+      toast({ title: movement.type === 'stock_in' ? "Stock added" : "Stock removed" });
+    },
+    onError,
+  });
+
+  const thresholdMutation = useMutation({
+    mutationFn: async ({ productId, lowStockThreshold }: { productId: string; lowStockThreshold: number }) => {
+      const response = await apiRequest('PATCH', `/api/admin/stock-points/${pointId}/stock/${productId}`, { lowStockThreshold });
+      return response.json();
+    },
+    onSuccess: invalidateInventory,
+    onError,
+  });
+
+  const editThreshold = (level: StockLevelRow) => {
+    const value = window.prompt(`Low-stock alert threshold for ${level.productName || 'this product'}`, String(level.lowStockThreshold));
+    if (value === null) return;
+    const lowStockThreshold = parseInt(value, 10);
+    if (isNaN(lowStockThreshold) || lowStockThreshold < 0) return;
+    thresholdMutation.mutate({ productId: level.productId, lowStockThreshold });
+  };
+
+  const approvedRequests = franchiseRequests.filter(request => request.status === 'approved');
+
+  return (
+    <div className="space-y-6">
+      <Card className="hover:shadow-lg transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+            <Boxes className="mr-2 h-5 w-5 text-volt-light" />
+            Inventory
+          </CardTitle>
+          <CardDescription>
+            Stock at warehouses and franchise points; orders reserve stock until they are shipped or handed over
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-72">
+              <Label>Stock point</Label>
+              <Select value={pointId} onValueChange={setSelectedId}>
+                <SelectTrigger data-testid="select-stock-point">
+                  <SelectValue placeholder="No stock points yet" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stockPoints.map(point => (
+                    <SelectItem key={point.id} value={point.id}>
+                      {point.code} - {point.name}{point.isActive ? '' : ' (inactive)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selected && (
+              <Button
+                variant="outline"
+                onClick={() => toggleActiveMutation.mutate(selected)}
+                disabled={toggleActiveMutation.isPending}
+                data-testid="button-toggle-stock-point"
+              >
+                {selected.isActive ? 'Deactivate' : 'Activate'}
+              </Button>
+            )}
+            <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+              <DialogTrigger asChild>
+                <Button className="volt-gradient text-white" data-testid="button-new-stock-point">
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Stock Point
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>New Stock Point</DialogTitle>
+                </DialogHeader>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label>Code</Label>
+                    <Input
+                      value={pointForm.code}
+                      onChange={(e) => setPointForm({ ...pointForm, code: e.target.value.toUpperCase() })}
+                      placeholder="FR-PUNE-01"
+                      data-testid="input-stock-point-code"
+                    />
+                  </div>
+                  <div>
+                    <Label>Type</Label>
+                    <Select value={pointForm.type} onValueChange={(type) => setPointForm({ ...pointForm, type, franchiseRequestId: '' })}>
+                      <SelectTrigger data-testid="select-stock-point-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="warehouse">Warehouse</SelectItem>
+                        <SelectItem value="franchise">Franchise</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Label>Name</Label>
+                    <Input
+                      value={pointForm.name}
+                      onChange={(e) => setPointForm({ ...pointForm, name: e.target.value })}
+                      data-testid="input-stock-point-name"
+                    />
+                  </div>
+                  {pointForm.type === 'franchise' && (
+                    <div className="col-span-2">
+                      <Label>Approved franchise request</Label>
+                      <Select value={pointForm.franchiseRequestId} onValueChange={(franchiseRequestId) => setPointForm({ ...pointForm, franchiseRequestId })}>
+                        <SelectTrigger data-testid="select-franchise-request">
+                          <SelectValue placeholder="Select a franchise" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {approvedRequests.map(request => (
+                            <SelectItem key={request.id} value={request.id}>
+                              {request.franchiseType} - {request.userId}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="col-span-2">
+                    <Label>Address</Label>
+                    <Input value={pointForm.address} onChange={(e) => setPointForm({ ...pointForm, address: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>City</Label>
+                    <Input value={pointForm.city} onChange={(e) => setPointForm({ ...pointForm, city: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>State</Label>
+                    <Input value={pointForm.state} onChange={(e) => setPointForm({ ...pointForm, state: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>Pincode</Label>
+                    <Input value={pointForm.pincode} onChange={(e) => setPointForm({ ...pointForm, pincode: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>Phone</Label>
+                    <Input value={pointForm.phone} onChange={(e) => setPointForm({ ...pointForm, phone: e.target.value })} />
+                  </div>
+                </div>
+                <Button
+                  className="volt-gradient text-white"
+                  onClick={() => createPointMutation.mutate()}
+                  disabled={createPointMutation.isPending || !pointForm.code || !pointForm.name}
+                  data-testid="button-create-stock-point"
+                >
+                  {createPointMutation.isPending ? 'Creating...' : 'Create'}
+                </Button>
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          {selected && (
+            <Tabs defaultValue="stock">
+              <TabsList>
+                <TabsTrigger value="stock">Stock</TabsTrigger>
+                <TabsTrigger value="orders">Orders</TabsTrigger>
+                <TabsTrigger value="movements">Movements</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="stock" className="space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="w-64">
+                    <Label>Product</Label>
+                    <Select value={movement.productId} onValueChange={(productId) => setMovement({ ...movement, productId })}>
+                      <SelectTrigger data-testid="select-movement-product">
+                        <SelectValue placeholder="Select product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map(product => (
+                          <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-36">
+                    <Label>Movement</Label>
+                    <Select value={movement.type} onValueChange={(type) => setMovement({ ...movement, type })}>
+                      <SelectTrigger data-testid="select-movement-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="stock_in">Stock in</SelectItem>
+                        <SelectItem value="stock_out">Stock out</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-24">
+                    <Label>Quantity</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={movement.quantity}
+                      onChange={(e) => setMovement({ ...movement, quantity: e.target.value })}
+                      data-testid="input-movement-quantity"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-48">
+                    <Label>Note</Label>
+                    <Input value={movement.note} onChange={(e) => setMovement({ ...movement, note: e.target.value })} />
+                  </div>
+                  <Button
+                    onClick={() => movementMutation.mutate()}
+                    disabled={movementMutation.isPending || !movement.productId || !(parseInt(movement.quantity, 10) > 0)}
+                    data-testid="button-record-movement"
+                  >
+                    Record
+                  </Button>
+                </div>
+
+                {levels.length === 0 ? (
+                  <p className="text-sm text-gray-600 text-center py-6">No stock at this point yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>On hand</TableHead>
+                        <TableHead>Reserved</TableHead>
+                        <TableHead>Available</TableHead>
+                        <TableHead>Alert at</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {levels.map(level => (
+                        <TableRow key={level.id} data-testid={`stock-row-${level.productId}`}>
+                          <TableCell>{level.productName || 'Product'}</TableCell>
+                          <TableCell>{level.quantity}</TableCell>
+                          <TableCell>{level.reserved}</TableCell>
+                          <TableCell>
+                            {level.available <= level.lowStockThreshold ? (
+                              <Badge className="bg-red-100 text-red-800">{level.available}</Badge>
+                            ) : level.available}
+                          </TableCell>
+                          <TableCell>
+                            <Button size="sm" variant="ghost" onClick={() => editThreshold(level)}>
+                              {level.lowStockThreshold}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="orders">
+                {stockOrders.length === 0 ? (
+                  <p className="text-sm text-gray-600 text-center py-6">No orders at this point.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Order</TableHead>
+                        <TableHead>Member</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Paid</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stockOrders.map(order => (
+                        <TableRow key={order.id} data-testid={`stock-order-${order.id}`}>
+                          <TableCell className="font-mono">{order.orderNumber}</TableCell>
+                          <TableCell>
+                            <div>{[order.user?.firstName, order.user?.lastName].filter(Boolean).join(' ')}</div>
+                            {order.user?.userId && <div className="text-xs text-gray-500">{order.user.userId}</div>}
+                          </TableCell>
+                          <TableCell>{formatPrice(order.totalAmount)}</TableCell>
+                          <TableCell>{order.paidAt && format(new Date(order.paidAt), 'dd MMM yyyy')}</TableCell>
+                          <TableCell>
+                            {order.status === 'paid' ? (
+                              <Badge className="bg-blue-100 text-blue-800">{order.deliveryStatus}</Badge>
+                            ) : (
+                              <Badge className="bg-gray-100 text-gray-800">{order.status}</Badge>
+                            )}
+                            {order.fulfilledAt && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                Left stock {format(new Date(order.fulfilledAt), 'dd MMM')}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="movements">
+                {movements.length === 0 ? (
+                  <p className="text-sm text-gray-600 text-center py-6">No stock movements yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Movement</TableHead>
+                        <TableHead>Quantity</TableHead>
+                        <TableHead>Note</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {movements.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{entry.createdAt && format(new Date(entry.createdAt), 'dd MMM yyyy HH:mm')}</TableCell>
+                          <TableCell>{products.find(product => product.id === entry.productId)?.name || 'Product'}</TableCell>
+                          <TableCell className="capitalize">{entry.type.replace('_', ' ')}</TableCell>
+                          <TableCell>{entry.quantity}</TableCell>
+                          <TableCell className="text-sm text-gray-600">{entry.note}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="hover:shadow-lg transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+            <AlertTriangle className="mr-2 h-5 w-5 text-orange-500" />
+            Low Stock
+          </CardTitle>
+          <CardDescription>Products whose available stock is at or below their alert threshold</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {lowStock.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">All stock levels are healthy.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stock point</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Available</TableHead>
+                  <TableHead>Alert at</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lowStock.map(level => (
+                  <TableRow key={level.id}>
+                    <TableCell>{level.stockPoint.code} - {level.stockPoint.name}</TableCell>
+                    <TableCell>{level.productName || 'Product'}</TableCell>
+                    <TableCell>{level.available}</TableCell>
+                    <TableCell>{level.lowStockThreshold}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
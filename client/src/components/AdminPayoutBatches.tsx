@@ -0,0 +1,340 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Download, Eye, Layers, Send, Upload } from "lucide-react";
+import type { PayoutBatch } from "@shared/schema";
+import {
+  formatAmount,
+  withdrawalStatusBadge,
+  WithdrawalDetailsCell,
+  WithdrawalUserCell,
+  type WithdrawalRow,
+} from "./AdminWithdrawals";
+
+export default function AdminPayoutBatches() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [transactionId, setTransactionId] = useState('');
+  const [failedIds, setFailedIds] = useState<string[]>([]);
+  const [usdtInputs, setUsdtInputs] = useState<Record<string, { rate: string; txHash: string }>>({});
+
+  const { data: batches = [] } = useQuery<PayoutBatch[]>({
+    queryKey: ["/api/admin/payout-batches"],
+  });
+
+  const { data: batchDetail } = useQuery<{ batch: PayoutBatch; withdrawals: WithdrawalRow[] }>({
+    queryKey: [`/api/admin/payout-batches/${selectedBatchId}`],
+    enabled: !!selectedBatchId,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/payout-batches/${selectedBatchId}/complete`, {
+        transactionId,
+        results: failedIds.map(withdrawalId => ({ withdrawalId, status: 'failed', reason: 'Payout failed at bank' })),
+      });
+      return response.json();
+    },
+    onSuccess: (batch: PayoutBatch) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/withdrawals') ||
+          String(query.queryKey[0]).startsWith('/api/admin/payout-batches'),
+      });
+      setTransactionId('');
+      setFailedIds([]);
+      toast({
+        title: "Payout recorded",
+        description: `${batch.processedCount} paid, ${batch.failedCount} failed and returned to wallets`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to record payout", variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', `/api/admin/payout-batches/${selectedBatchId}/import`, { content });
+      return response.json();
+    },
+    onSuccess: (result: { processed: number; failed: number; skipped: { line: number; reference: string; reason: string }[] }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/withdrawals') ||
+          String(query.queryKey[0]).startsWith('/api/admin/payout-batches'),
+      });
+      const skipped = result.skipped.length > 0
+        ? ` Skipped: ${result.skipped.map(s => `line ${s.line} (${s.reason})`).join(', ')}`
+        : '';
+      toast({
+        title: "Bank response imported",
+        description: `${result.processed} paid, ${result.failed} failed.${skipped}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to import bank response", variant: "destructive" });
+    },
+  });
+
+  const handleResponseFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      importMutation.mutate(await file.text());
+    }
+  };
+
+  const usdtPayoutMutation = useMutation({
+    mutationFn: async ({ withdrawalId, rate, txHash }: { withdrawalId: string; rate: string; txHash: string }) => {
+      const response = await apiRequest('POST', `/api/admin/withdrawals/${withdrawalId}/usdt-payout`, {
+        inrPerUsdt: rate,
+        txHash,
+      });
+      return response.json();
+    },
+    onSuccess: (withdrawal: WithdrawalRow) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/withdrawals') ||
+          String(query.queryKey[0]).startsWith('/api/admin/payout-batches'),
+      });
+      toast({ title: "USDT payout recorded", description: `${withdrawal.usdtAmount} USDT sent` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to record USDT payout", variant: "destructive" });
+    },
+  });
+
+  const setUsdtInput = (withdrawalId: string, field: 'rate' | 'txHash', value: string) => {
+    setUsdtInputs(inputs => ({
+      ...inputs,
+      [withdrawalId]: { ...(inputs[withdrawalId] || { rate: '', txHash: '' }), [field]: value },
+    }));
+  };
+
+  const toggleFailed = (withdrawalId: string, failed: boolean) => {
+    setFailedIds(ids => failed ? [...ids, withdrawalId] : ids.filter(id => id !== withdrawalId));
+  };
+
+  const selectBatch = (batchId: string) => {
+    setSelectedBatchId(batchId);
+    setTransactionId('');
+    setFailedIds([]);
+  };
+
+  const selectedBatch = batchDetail?.batch;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Layers className="mr-2 h-5 w-5 text-volt-light" />
+            Payout Batches
+          </CardTitle>
+          <CardDescription>Approved withdrawals are paid out in batches; failed payouts are returned to the user's wallet</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {batches.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">No payout batches yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                    <TableHead className="text-right">Net Payout</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.map((batch) => (
+                    <TableRow key={batch.id} className={batch.id === selectedBatchId ? 'bg-gray-50' : ''}>
+                      <TableCell className="font-mono text-sm">{batch.batchNumber}</TableCell>
+                      <TableCell className="uppercase text-sm">{batch.withdrawalType}</TableCell>
+                      <TableCell>
+                        {batch.status === 'processed'
+                          ? <Badge className="bg-green-100 text-green-800">Processed</Badge>
+                          : <Badge className="bg-yellow-100 text-yellow-800">Awaiting Payout</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {batch.requestCount}
+                        {batch.status === 'processed' && batch.failedCount > 0 && (
+                          <span className="text-red-600 text-xs ml-1">({batch.failedCount} failed)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(batch.totalAmount)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatAmount(batch.totalNetAmount)}</TableCell>
+                      <TableCell className="font-mono text-xs">{batch.transactionId || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => selectBatch(batch.id)}>
+                          <Eye className="mr-1 h-3 w-3" />
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedBatch && batchDetail && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Batch {selectedBatch.batchNumber}</CardTitle>
+            {selectedBatch.processedAt && (
+              <CardDescription>
+                Processed on {new Date(selectedBatch.processedAt).toLocaleString('en-IN')}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Net Payout</TableHead>
+                    <TableHead>Status</TableHead>
+                    {selectedBatch.withdrawalType === 'usdt' && <TableHead>On-chain Payout</TableHead>}
+                    {selectedBatch.status === 'created' && <TableHead className="text-center">Failed</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batchDetail.withdrawals.map((withdrawal) => (
+                    <TableRow key={withdrawal.id}>
+                      <TableCell><WithdrawalUserCell withdrawal={withdrawal} /></TableCell>
+                      <TableCell><WithdrawalDetailsCell withdrawal={withdrawal} /></TableCell>
+                      <TableCell className="text-right font-medium">{formatAmount(withdrawal.netAmount ?? withdrawal.amount)}</TableCell>
+                      <TableCell>
+                        {withdrawalStatusBadge(withdrawal.status)}
+                        {withdrawal.transactionId && (
+                          <p className="text-xs font-mono text-gray-500 mt-1">{withdrawal.transactionId}</p>
+                        )}
+                      </TableCell>
+                      {selectedBatch.withdrawalType === 'usdt' && (
+                        <TableCell>
+                          {withdrawal.status === 'batched' ? (
+                            <div className="flex items-center gap-2">
+                              <Input
+                                className="w-24"
+                                placeholder="₹/USDT"
+                                value={usdtInputs[withdrawal.id]?.rate || ''}
+                                onChange={(e) => setUsdtInput(withdrawal.id, 'rate', e.target.value)}
+                              />
+                              <Input
+                                className="w-56 font-mono text-xs"
+                                placeholder="Transaction hash"
+                                value={usdtInputs[withdrawal.id]?.txHash || ''}
+                                onChange={(e) => setUsdtInput(withdrawal.id, 'txHash', e.target.value)}
+                              />
+                              <Button
+                                size="sm"
+                                disabled={!usdtInputs[withdrawal.id]?.rate || !usdtInputs[withdrawal.id]?.txHash || usdtPayoutMutation.isPending}
+                                onClick={() => usdtPayoutMutation.mutate({ withdrawalId: withdrawal.id, ...usdtInputs[withdrawal.id] })}
+                              >
+                                Save
+                              </Button>
+                            </div>
+                          ) : withdrawal.usdtAmount ? (
+                            <div className="text-sm">
+                              <p>{withdrawal.usdtAmount} USDT @ ₹{withdrawal.usdtRate}</p>
+                            </div>
+                          ) : '-'}
+                        </TableCell>
+                      )}
+                      {selectedBatch.status === 'created' && (
+                        <TableCell className="text-center">
+                          <Checkbox
+                            checked={failedIds.includes(withdrawal.id)}
+                            disabled={withdrawal.status !== 'batched'}
+                            onCheckedChange={(checked) => toggleFailed(withdrawal.id, checked === true)}
+                          />
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {selectedBatch.status === 'created' && selectedBatch.withdrawalType === 'bank' && (
+              <div className="flex flex-wrap items-center gap-3 border-b pb-4">
+                <Button asChild variant="outline" size="sm">
+                  <a href={`/api/admin/payout-batches/${selectedBatch.id}/export?format=csv&mode=NEFT`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    NEFT CSV
+                  </a>
+                </Button>
+                <Button asChild variant="outline" size="sm">
+                  <a href={`/api/admin/payout-batches/${selectedBatch.id}/export?format=fixed&mode=NEFT`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    NEFT Fixed-Width
+                  </a>
+                </Button>
+                <Button asChild variant="outline" size="sm">
+                  <a href={`/api/admin/payout-batches/${selectedBatch.id}/export?format=csv&mode=IMPS`}>
+                    <Download className="mr-2 h-4 w-4" />
+                    IMPS CSV
+                  </a>
+                </Button>
+                <Label htmlFor="bank-response" className="cursor-pointer">
+                  <span className="inline-flex items-center rounded-md border px-3 py-2 text-sm hover:bg-gray-50">
+                    <Upload className="mr-2 h-4 w-4" />
+                    {importMutation.isPending ? 'Importing...' : 'Import Bank Response'}
+                  </span>
+                </Label>
+                <input
+                  id="bank-response"
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  disabled={importMutation.isPending}
+                  onChange={handleResponseFile}
+                />
+              </div>
+            )}
+
+            {selectedBatch.status === 'created' && (
+              <div className="flex flex-col md:flex-row md:items-end gap-3">
+                <div className="flex-1">
+                  <Label htmlFor="batch-reference">Bank / Transaction Reference</Label>
+                  <Input
+                    id="batch-reference"
+                    value={transactionId}
+                    onChange={(e) => setTransactionId(e.target.value)}
+                    placeholder="UTR or transaction hash for the batch"
+                  />
+                </div>
+                <Button
+                  className="volt-gradient text-white"
+                  disabled={!transactionId || completeMutation.isPending}
+                  onClick={() => completeMutation.mutate()}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  {completeMutation.isPending ? 'Recording...' : 'Record Payout'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Calendar, Eye, Lock, Plus, RotateCcw, CheckCircle, Clock } from "lucide-react";
+import type { PayoutCycle, PayoutStatement } from "@shared/schema";
+
+interface StatementRow {
+  userId: string;
+  rank: string | null;
+  periodLeftBV: string | number | null;
+  periodRightBV: string | number | null;
+  matchedBV: string | number | null;
+  closingLeftCarryBV: string | number | null;
+  closingRightCarryBV: string | number | null;
+  sponsorIncome: string | number | null;
+  salesBonus: string | number | null;
+  cappedAmount: string | number | null;
+  lapsedAmount: string | number | null;
+  totalAmount: string | number | null;
+  status?: string | null;
+}
+
+interface CyclePreview {
+  computedUntil: string;
+  totalUsers: number;
+  totalSponsorIncome: number;
+  totalSalesBonus: number;
+  totalPayout: number;
+  statements: StatementRow[];
+}
+
+const formatAmount = (value: string | number | null | undefined) =>
+  `₹${parseFloat(String(value ?? 0)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatBV = (value: string | number | null | undefined) =>
+  parseFloat(String(value ?? 0)).toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+const formatPeriod = (cycle: PayoutCycle) => {
+  const end = new Date(new Date(cycle.periodEnd).getTime() - 1);
+  return `${new Date(cycle.periodStart).toLocaleDateString('en-IN')} - ${end.toLocaleDateString('en-IN')}`;
+};
+
+const statusBadge = (status: string) => {
+  switch (status) {
+    case 'open':
+      return <Badge className="bg-blue-100 text-blue-800">Open</Badge>;
+    case 'closed':
+      return <Badge className="bg-yellow-100 text-yellow-800">Closed</Badge>;
+    case 'locked':
+      return <Badge className="bg-green-100 text-green-800">Locked</Badge>;
+    default:
+      return <Badge variant="secondary">{status}</Badge>;
+  }
+};
+
+function StatementTable({ statements }: { statements: StatementRow[] }) {
+  if (statements.length === 0) {
+    return <p className="text-sm text-gray-600 text-center py-6">No commissions in this period.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead>Rank</TableHead>
+            <TableHead className="text-right">Left BV</TableHead>
+            <TableHead className="text-right">Right BV</TableHead>
+            <TableHead className="text-right">Matched BV</TableHead>
+            <TableHead className="text-right">Carry L / R</TableHead>
+            <TableHead className="text-right">Sponsor Income</TableHead>
+            <TableHead className="text-right">Sales Bonus</TableHead>
+            <TableHead className="text-right">Capped</TableHead>
+            <TableHead className="text-right">Lapsed</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {statements.map((statement) => (
+            <TableRow key={statement.userId}>
+              <TableCell className="font-mono text-xs">{statement.userId}</TableCell>
+              <TableCell>{statement.rank || '-'}</TableCell>
+              <TableCell className="text-right">{formatBV(statement.periodLeftBV)}</TableCell>
+              <TableCell className="text-right">{formatBV(statement.periodRightBV)}</TableCell>
+              <TableCell className="text-right">{formatBV(statement.matchedBV)}</TableCell>
+              <TableCell className="text-right">
+                {formatBV(statement.closingLeftCarryBV)} / {formatBV(statement.closingRightCarryBV)}
+              </TableCell>
+              <TableCell className="text-right">{formatAmount(statement.sponsorIncome)}</TableCell>
+              <TableCell className="text-right">{formatAmount(statement.salesBonus)}</TableCell>
+              <TableCell className="text-right text-red-600">{formatAmount(statement.cappedAmount)}</TableCell>
+              <TableCell className="text-right text-red-600">{formatAmount(statement.lapsedAmount)}</TableCell>
+              <TableCell className="text-right font-medium">{formatAmount(statement.totalAmount)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function AdminPayoutCycles() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cycleType, setCycleType] = useState<'weekly' | 'monthly'>('weekly');
+  const [selectedCycleId, setSelectedCycleId] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { data: cycles = [], isLoading } = useQuery<PayoutCycle[]>({
+    queryKey: ["/api/admin/payout-cycles"],
+  });
+
+  const { data: cycleDetails } = useQuery<{ cycle: PayoutCycle; statements: PayoutStatement[] }>({
+    queryKey: [`/api/admin/payout-cycles/${selectedCycleId}`],
+    enabled: !!selectedCycleId && !showPreview,
+  });
+
+  const { data: preview, isFetching: previewLoading } = useQuery<CyclePreview>({
+    queryKey: [`/api/admin/payout-cycles/${selectedCycleId}/preview`],
+    enabled: !!selectedCycleId && showPreview,
+    staleTime: 0,
+  });
+
+  const invalidateCycles = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/payout-cycles"] });
+    if (selectedCycleId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/payout-cycles/${selectedCycleId}`] });
+    }
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/payout-cycles', { cycleType });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateCycles();
+      toast({ title: "Cycle opened", description: `A new ${cycleType} payout cycle has been opened` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to open payout cycle", variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ cycleId, action }: { cycleId: string; action: 'close' | 'reopen' | 'lock' }) => {
+      const response = await apiRequest('POST', `/api/admin/payout-cycles/${cycleId}/${action}`, {});
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      invalidateCycles();
+      const messages = {
+        close: "Statements have been snapshotted for review",
+        reopen: "Statements were discarded and the cycle is open again",
+        lock: "Commissions have been credited to wallets",
+      };
+      toast({ title: "Cycle updated", description: messages[action] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update payout cycle", variant: "destructive" });
+    },
+  });
+
+  const handleAction = (cycleId: string, action: 'close' | 'reopen' | 'lock') => {
+    if (action === 'lock' && !confirm("Locking credits all statements to user wallets and cannot be undone. Continue?")) {
+      return;
+    }
+    actionMutation.mutate({ cycleId, action });
+  };
+
+  const selectCycle = (cycleId: string, previewMode: boolean) => {
+    setSelectedCycleId(cycleId);
+    setShowPreview(previewMode);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto mb-2"></div>
+          <p className="text-sm text-gray-600">Loading payout cycles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const selectedCycle = cycles.find(c => c.id === selectedCycleId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Calendar className="mr-2 h-5 w-5 text-volt-light" />
+            Payout Cycles
+          </CardTitle>
+          <CardDescription>
+            Commissions are computed per cycle and credited to wallets only when a cycle is locked
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3 mb-4">
+            <Select value={cycleType} onValueChange={(value) => setCycleType(value as 'weekly' | 'monthly')}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button className="volt-gradient text-white" onClick={() => openMutation.mutate()} disabled={openMutation.isPending}>
+              <Plus className="mr-2 h-4 w-4" />
+              Open Next Cycle
+            </Button>
+          </div>
+
+          {cycles.length === 0 ? (
+            <div className="text-center py-8">
+              <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No payout cycles yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Users</TableHead>
+                    <TableHead className="text-right">Total Payout</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cycles.map((cycle) => (
+                    <TableRow key={cycle.id} className={cycle.id === selectedCycleId ? 'bg-gray-50' : ''}>
+                      <TableCell>{formatPeriod(cycle)}</TableCell>
+                      <TableCell className="capitalize">{cycle.cycleType}</TableCell>
+                      <TableCell>{statusBadge(cycle.status)}</TableCell>
+                      <TableCell className="text-right">{cycle.totalUsers ?? 0}</TableCell>
+                      <TableCell className="text-right">{formatAmount(cycle.totalPayout)}</TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        {cycle.status === 'open' ? (
+                          <>
+                            <Button size="sm" variant="outline" onClick={() => selectCycle(cycle.id, true)}>
+                              <Eye className="mr-1 h-3 w-3" />
+                              Preview
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={actionMutation.isPending || new Date(cycle.periodEnd) > new Date()}
+                              onClick={() => handleAction(cycle.id, 'close')}
+                            >
+                              <CheckCircle className="mr-1 h-3 w-3" />
+                              Close
+                            </Button>
+                          </>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => selectCycle(cycle.id, false)}>
+                            <Eye className="mr-1 h-3 w-3" />
+                            Statements
+                          </Button>
+                        )}
+                        {cycle.status === 'closed' && (
+                          <>
+                            <Button size="sm" variant="outline" disabled={actionMutation.isPending} onClick={() => handleAction(cycle.id, 'reopen')}>
+                              <RotateCcw className="mr-1 h-3 w-3" />
+                              Reopen
+                            </Button>
+                            <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white" disabled={actionMutation.isPending} onClick={() => handleAction(cycle.id, 'lock')}>
+                              <Lock className="mr-1 h-3 w-3" />
+                              Lock &amp; Credit
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedCycle && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {showPreview ? 'Preview' : 'Statements'} - {formatPeriod(selectedCycle)}
+            </CardTitle>
+            {showPreview && preview && (
+              <CardDescription>
+                Dry run computed until {new Date(preview.computedUntil).toLocaleString('en-IN')}: {preview.totalUsers} users,
+                sponsor income {formatAmount(preview.totalSponsorIncome)}, sales bonus {formatAmount(preview.totalSalesBonus)},
+                total {formatAmount(preview.totalPayout)}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {showPreview ? (
+              previewLoading || !preview ? (
+                <p className="text-sm text-gray-600 text-center py-6">Computing preview...</p>
+              ) : (
+                <StatementTable statements={preview.statements} />
+              )
+            ) : (
+              <StatementTable statements={cycleDetails?.statements || []} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Undo2 } from "lucide-react";
+import { format } from "date-fns";
+import type { PurchaseReturn } from "@shared/schema";
+
+interface ReturnRow extends PurchaseReturn {
+  productName: string | null;
+  orderNumber: string | null;
+  paymentMethod: string | null;
+  user: { userId: string | null; firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+interface Reversal {
+  clawbacks: { userId: string; sourceType: string; amount: string; recoveredAmount: string }[];
+  carryForwardUsers: number;
+  revokedRanks: { userId: string; rank: string }[];
+}
+
+const STATUS_FILTERS: Record<string, string> = {
+  open: 'requested,approved',
+  requested: 'requested',
+  approved: 'approved',
+  refunded: 'refunded',
+  rejected: 'rejected',
+  all: '',
+};
+
+const formatPrice = (price: string | null | undefined) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(parseFloat(price || '0'));
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'requested': return 'bg-yellow-100 text-yellow-800';
+    case 'approved': return 'bg-blue-100 text-blue-800';
+    case 'refunded': return 'bg-green-100 text-green-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export default function AdminReturns() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState('open');
+
+  const { data: returns = [], isLoading } = useQuery<ReturnRow[]>({
+    queryKey: [`/api/admin/returns?status=${STATUS_FILTERS[filter]}`],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: 'approve' | 'reject' | 'refund'; body: Record<string, unknown> }) => {
+      const response = await apiRequest('POST', `/api/admin/returns/${id}/${action}`, body);
+      return response.json();
+    },
+    onSuccess: (request: PurchaseReturn) => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/returns') });
+      toast({ title: `Return ${request.status}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reject = (request: ReturnRow) => {
+    const notes = window.prompt('Reason for rejecting this return');
+    if (notes === null) return;
+    actionMutation.mutate({ id: request.id, action: 'reject', body: { notes } });
+  };
+
+  const refund = (request: ReturnRow, refundMethod: 'wallet' | 'original') => {
+    const target = refundMethod === 'wallet' ? "the member's wallet" : 'the original payment method';
+    if (!window.confirm(`Refund ${formatPrice(request.refundAmount)} to ${target}? Income and BV from this purchase will be reversed.`)) return;
+    actionMutation.mutate({ id: request.id, action: 'refund', body: { refundMethod } });
+  };
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+          <Undo2 className="mr-2 h-5 w-5 text-volt-light" />
+          Returns & Refunds
+        </CardTitle>
+        <CardDescription>
+          Approve returns and refund them; sponsor income, BV and ranks earned on the purchase are reversed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="w-48">
+          <Select value={filter} onValueChange={setFilter}>
+            <SelectTrigger data-testid="select-return-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="requested">Requested</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="refunded">Refunded</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600 text-center py-6">Loading returns...</p>
+        ) : returns.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center py-6">No returns to show.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Requested</TableHead>
+                <TableHead>Member</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {returns.map((request) => {
+                const reversal = request.reversal as Reversal | null;
+                return (
+                  <TableRow key={request.id} data-testid={`return-row-${request.id}`}>
+                    <TableCell>{request.createdAt && format(new Date(request.createdAt), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      <div>{[request.user?.firstName, request.user?.lastName].filter(Boolean).join(' ') || request.user?.email}</div>
+                      {request.user?.userId && <div className="text-xs text-gray-500">{request.user.userId}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <div>{request.productName || 'Product'}</div>
+                      {request.orderNumber && <div className="text-xs text-gray-500 font-mono">{request.orderNumber}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {formatPrice(request.refundAmount)}
+                      <div className="text-xs text-gray-500 capitalize">{request.paymentMethod}</div>
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="text-sm">{request.reason}</div>
+                      {request.adminNotes && <div className="text-xs text-gray-500 mt-1">Note: {request.adminNotes}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(request.status)}>{request.status}</Badge>
+                      {reversal && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {reversal.clawbacks.length} clawbacks, {reversal.revokedRanks.length} ranks revoked
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-2">
+                        {request.status === 'requested' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => actionMutation.mutate({ id: request.id, action: 'approve', body: {} })}
+                              disabled={actionMutation.isPending}
+                              data-testid={`button-approve-return-${request.id}`}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => reject(request)}
+                              disabled={actionMutation.isPending}
+                              data-testid={`button-reject-return-${request.id}`}
+                            >
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {request.status === 'approved' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => refund(request, 'wallet')}
+                              disabled={actionMutation.isPending}
+                              data-testid={`button-refund-wallet-${request.id}`}
+                            >
+                              Refund to Wallet
+                            </Button>
+                            {request.paymentMethod === 'gateway' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => refund(request, 'original')}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-refund-original-${request.id}`}
+                              >
+                                Refund to Gateway
+                              </Button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Trophy, Eye, Download, Play, Clock } from "lucide-react";
+import type { RewardPoolRun, RewardPoolReport, RewardPoolPayout } from "@shared/schema";
+
+const formatAmount = (value: string | number | null | undefined) =>
+  `₹${parseFloat(String(value ?? 0)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatBV = (value: string | number | null | undefined) =>
+  parseFloat(String(value ?? 0)).toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+const formatMonth = (month: string | Date) =>
+  new Date(month).toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+// Last month, as yyyy-mm for the month input
+const previousMonth = () => {
+  const now = new Date();
+  const month = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export default function AdminRewardPools() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(previousMonth());
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const { data: runs = [], isLoading } = useQuery<RewardPoolRun[]>({
+    queryKey: ["/api/admin/reward-pools/runs"],
+  });
+
+  const { data: runDetails } = useQuery<{ run: RewardPoolRun; reports: RewardPoolReport[]; payouts: RewardPoolPayout[] }>({
+    queryKey: [`/api/admin/reward-pools/runs/${selectedRunId}`],
+    enabled: !!selectedRunId,
+  });
+
+  const distributeMutation = useMutation({
+    mutationFn: async () => {
+      const [year, monthIndex] = month.split('-').map(Number);
+      const response = await apiRequest('POST', '/api/admin/reward-pools/runs', { month: new Date(year, monthIndex - 1, 1).toISOString() });
+      return response.json();
+    },
+    onSuccess: (data: { run: RewardPoolRun; credited: number; failed: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reward-pools/runs"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/reward-pools/runs/${data.run.id}`] });
+      setSelectedRunId(data.run.id);
+      toast({
+        title: "Reward pools distributed",
+        description: `${data.credited} payouts credited${data.failed > 0 ? `, ${data.failed} failed (retry to credit them)` : ''}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to distribute reward pools", variant: "destructive" });
+    },
+  });
+
+  const handleDistribute = () => {
+    if (!confirm(`Distribute the reward pools for ${formatMonth(`${month}-01T00:00:00`)}? Payouts are credited to wallets and cannot be undone.`)) {
+      return;
+    }
+    distributeMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mx-auto mb-2"></div>
+          <p className="text-sm text-gray-600">Loading reward pools...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const poolNames = new Map((runDetails?.reports || []).map(report => [report.id, report.poolName]));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Trophy className="mr-2 h-5 w-5 text-volt-light" />
+            Reward Pools
+          </CardTitle>
+          <CardDescription>
+            Each month a share of company-wide BV funds the car, travel, leadership, house and millionaire club pools,
+            split by shares among qualifying ranks. Months are distributed automatically once their payout cycles are closed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3 mb-4">
+            <Input type="month" className="w-48" value={month} onChange={(e) => setMonth(e.target.value)} />
+            <Button className="volt-gradient text-white" onClick={handleDistribute} disabled={!month || distributeMutation.isPending}>
+              <Play className="mr-2 h-4 w-4" />
+              Distribute Month
+            </Button>
+          </div>
+
+          {runs.length === 0 ? (
+            <div className="text-center py-8">
+              <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No reward pools distributed yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Month</TableHead>
+                    <TableHead className="text-right">Turnover BV</TableHead>
+                    <TableHead className="text-right">Distributed</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id} className={run.id === selectedRunId ? 'bg-gray-50' : ''}>
+                      <TableCell>{formatMonth(run.month)}</TableCell>
+                      <TableCell className="text-right">{formatBV(run.turnoverBV)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(run.totalAmount)}</TableCell>
+                      <TableCell><Badge variant="secondary">v{run.planVersion}</Badge></TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button size="sm" variant="outline" onClick={() => setSelectedRunId(run.id)}>
+                          <Eye className="mr-1 h-3 w-3" />
+                          Report
+                        </Button>
+                        <Button size="sm" variant="outline" asChild>
+                          <a href={`/api/admin/reward-pools/runs/${run.id}/report`}>
+                            <Download className="mr-1 h-3 w-3" />
+                            CSV
+                          </a>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {runDetails && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Pool Report - {formatMonth(runDetails.run.month)}</CardTitle>
+              <CardDescription>
+                Company turnover {formatBV(runDetails.run.turnoverBV)} BV · {formatAmount(runDetails.run.totalAmount)} distributed
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pool</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Pool Amount</TableHead>
+                      <TableHead>Qualification</TableHead>
+                      <TableHead className="text-right">Qualifiers</TableHead>
+                      <TableHead className="text-right">Shares</TableHead>
+                      <TableHead className="text-right">Share Value</TableHead>
+                      <TableHead className="text-right">Distributed</TableHead>
+                      <TableHead className="text-right">Undistributed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runDetails.reports.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="font-medium">{report.poolName}</TableCell>
+                        <TableCell className="text-right">{(parseFloat(report.turnoverRate) * 100).toFixed(2)}%</TableCell>
+                        <TableCell className="text-right">{formatAmount(report.poolAmount)}</TableCell>
+                        <TableCell className="text-sm">{report.minRank}+, {formatBV(report.minMatchedBV)} matched BV</TableCell>
+                        <TableCell className="text-right">{report.qualifiers ?? 0}</TableCell>
+                        <TableCell className="text-right">{report.totalShares ?? 0}</TableCell>
+                        <TableCell className="text-right">{formatAmount(report.shareValue)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(report.distributedAmount)}</TableCell>
+                        <TableCell className="text-right text-gray-500">{formatAmount(report.undistributedAmount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Payouts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {runDetails.payouts.length === 0 ? (
+                <p className="text-sm text-gray-600 text-center py-6">Nobody qualified for a pool this month.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pool</TableHead>
+                        <TableHead>User</TableHead>
+                        <TableHead>Rank</TableHead>
+                        <TableHead className="text-right">Matched BV</TableHead>
+                        <TableHead className="text-right">Shares</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {runDetails.payouts.map((payout) => (
+                        <TableRow key={payout.id}>
+                          <TableCell>{poolNames.get(payout.reportId) ?? payout.poolType}</TableCell>
+                          <TableCell className="font-mono text-xs">{payout.userId}</TableCell>
+                          <TableCell>{payout.rank}</TableCell>
+                          <TableCell className="text-right">{formatBV(payout.matchedBV)}</TableCell>
+                          <TableCell className="text-right">{payout.shares}</TableCell>
+                          <TableCell className="text-right font-medium">{formatAmount(payout.amount)}</TableCell>
+                          <TableCell>
+                            {payout.status === 'credited'
+                              ? <Badge className="bg-green-100 text-green-800">Credited</Badge>
+                              : <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Truck, Download, Upload, History } from "lucide-react";
+import { format } from "date-fns";
+import type { Order, ShipmentEvent } from "@shared/schema";
+
+interface ShipmentRow extends Order {
+  user: { userId: string | null; firstName: string | null; lastName: string | null; mobile: string | null } | null;
+  stockPoint: { code: string; name: string; type: string } | null;
+}
+
+type ShipmentStatus = 'packed' | 'shipped' | 'delivered' | 'failed';
+
+const STATUS_FILTERS: Record<string, string> = {
+  open: 'pending,packed,shipped,failed',
+  pending: 'pending',
+  packed: 'packed',
+  shipped: 'shipped',
+  delivered: 'delivered',
+  failed: 'failed',
+  all: '',
+};
+
+// Mirrors the transitions the server accepts
+const NEXT_STATUSES: Record<string, ShipmentStatus[]> = {
+  pending: ['packed', 'shipped', 'delivered', 'failed'],
+  packed: ['shipped', 'delivered', 'failed'],
+  shipped: ['delivered', 'failed'],
+  failed: ['packed', 'shipped', 'delivered'],
+  delivered: [],
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'packed': return 'bg-purple-100 text-purple-800';
+    case 'shipped': return 'bg-blue-100 text-blue-800';
+    case 'delivered': return 'bg-green-100 text-green-800';
+    case 'failed': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export default function AdminShipments() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState('open');
+  const [updating, setUpdating] = useState<ShipmentRow | null>(null);
+  const [form, setForm] = useState<{ status: ShipmentStatus | ''; courier: string; trackingId: string; note: string }>({
+    status: '', courier: '', trackingId: '', note: '',
+  });
+  const [historyOrder, setHistoryOrder] = useState<ShipmentRow | null>(null);
+
+  const { data: shipments = [], isLoading } = useQuery<ShipmentRow[]>({
+    queryKey: [`/api/admin/shipments?status=${STATUS_FILTERS[filter]}`],
+  });
+
+  const { data: history = [] } = useQuery<ShipmentEvent[]>({
+    queryKey: [`/api/admin/orders/${historyOrder?.id}/shipment`],
+    enabled: !!historyOrder,
+  });
+
+  const invalidateShipments = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/shipments') });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update shipment",
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/orders/${updating!.id}/shipment`, {
+        status: form.status,
+        courier: form.courier || undefined,
+        trackingId: form.trackingId || undefined,
+        note: form.note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      invalidateShipments();
+      setUpdating(null);
+      toast({ title: `Order ${order.orderNumber} ${order.deliveryStatus}` });
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', '/api/admin/shipments/import', { content });
+      return response.json();
+    },
+    onSuccess: (result: { updated: number; skipped: { line: number; orderNumber: string; reason: string }[] }) => {
+      invalidateShipments();
+      const skipped = result.skipped.length > 0
+        ? ` Skipped: ${result.skipped.map(s => `line ${s.line} (${s.reason})`).join(', ')}`
+        : '';
+      toast({
+        title: "Shipment file imported",
+        description: `${result.updated} orders updated.${skipped}`,
+      });
+    },
+    onError,
+  });
+
+  const handleShipmentFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      importMutation.mutate(await file.text());
+    }
+  };
+
+  const openUpdate = (shipment: ShipmentRow) => {
+    setForm({
+      status: NEXT_STATUSES[shipment.deliveryStatus]?.[0] || '',
+      courier: shipment.courier || '',
+      trackingId: shipment.trackingId || '',
+      note: '',
+    });
+    setUpdating(shipment);
+  };
+
+  const needsTracking = form.status === 'shipped' && (!form.courier.trim() || !form.trackingId.trim());
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+          <Truck className="mr-2 h-5 w-5 text-volt-light" />
+          Shipments
+        </CardTitle>
+        <CardDescription>
+          Mark paid orders packed, shipped, delivered or failed; buyers are notified of every change
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="w-48">
+            <Select value={filter} onValueChange={setFilter}>
+              <SelectTrigger data-testid="select-shipment-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="packed">Packed</SelectItem>
+                <SelectItem value="shipped">Shipped</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <a href={`/api/admin/shipments/export?status=${STATUS_FILTERS[filter]}`}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <Label htmlFor="shipment-file" className="cursor-pointer">
+            <span className="inline-flex items-center rounded-md border px-3 py-2 text-sm hover:bg-gray-50">
+              <Upload className="mr-2 h-4 w-4" />
+              {importMutation.isPending ? 'Importing...' : 'Upload Status CSV'}
+            </span>
+          </Label>
+          <input
+            id="shipment-file"
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            disabled={importMutation.isPending}
+            onChange={handleShipmentFile}
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Upload a CSV with Order Number and Status columns (packed, shipped, delivered or failed), plus
+          Courier and Tracking ID for shipped orders. The exported file can be filled in and uploaded as is.
+        </p>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600 text-center py-6">Loading shipments...</p>
+        ) : shipments.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center py-6">No orders to show.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Member</TableHead>
+                <TableHead>Ship from</TableHead>
+                <TableHead>Delivery address</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shipments.map((shipment) => (
+                <TableRow key={shipment.id} data-testid={`shipment-row-${shipment.id}`}>
+                  <TableCell>
+                    <div className="font-mono">{shipment.orderNumber}</div>
+                    <div className="text-xs text-gray-500">
+                      {shipment.paidAt && `Paid ${format(new Date(shipment.paidAt), 'dd MMM yyyy')}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{[shipment.user?.firstName, shipment.user?.lastName].filter(Boolean).join(' ')}</div>
+                    <div className="text-xs text-gray-500">{shipment.user?.mobile || shipment.user?.userId}</div>
+                  </TableCell>
+                  <TableCell>{shipment.stockPoint ? `${shipment.stockPoint.code}` : '-'}</TableCell>
+                  <TableCell className="max-w-xs text-sm">{shipment.deliveryAddress}</TableCell>
+                  <TableCell>
+                    <Badge className={getStatusColor(shipment.deliveryStatus)}>{shipment.deliveryStatus}</Badge>
+                    {shipment.trackingId && (
+                      <div className="text-xs text-gray-500 mt-1">{shipment.courier}: {shipment.trackingId}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      {NEXT_STATUSES[shipment.deliveryStatus]?.length > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openUpdate(shipment)}
+                          data-testid={`button-update-shipment-${shipment.id}`}
+                        >
+                          Update
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setHistoryOrder(shipment)}
+                        data-testid={`button-shipment-history-${shipment.id}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Status Update Dialog */}
+      <Dialog open={!!updating} onOpenChange={(open) => !open && setUpdating(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Update Order {updating?.orderNumber}</DialogTitle>
+            <DialogDescription>Currently {updating?.deliveryStatus}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label>Status</Label>
+              <Select value={form.status} onValueChange={(status) => setForm({ ...form, status: status as ShipmentStatus })}>
+                <SelectTrigger data-testid="select-shipment-next-status">
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(updating ? NEXT_STATUSES[updating.deliveryStatus] || [] : []).map(status => (
+                    <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.status === 'shipped' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="shipment-courier">Courier</Label>
+                  <Input
+                    id="shipment-courier"
+                    value={form.courier}
+                    onChange={(e) => setForm({ ...form, courier: e.target.value })}
+                    placeholder="Delhivery"
+                    data-testid="input-shipment-courier"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="shipment-tracking">Tracking number</Label>
+                  <Input
+                    id="shipment-tracking"
+                    value={form.trackingId}
+                    onChange={(e) => setForm({ ...form, trackingId: e.target.value })}
+                    data-testid="input-shipment-tracking"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="shipment-note">Note</Label>
+              <Input
+                id="shipment-note"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder={form.status === 'failed' ? 'Reason the delivery failed' : 'Optional'}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpdating(null)}>Cancel</Button>
+            <Button
+              onClick={() => updateMutation.mutate()}
+              disabled={!form.status || needsTracking || updateMutation.isPending}
+              data-testid="button-save-shipment"
+            >
+              {updateMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* History Dialog */}
+      <Dialog open={!!historyOrder} onOpenChange={(open) => !open && setHistoryOrder(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Shipment History {historyOrder?.orderNumber}</DialogTitle>
+          </DialogHeader>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-600">No status changes yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {history.map(event => (
+                <li key={event.id} className="flex items-start gap-3">
+                  <Badge className={getStatusColor(event.status)}>{event.status}</Badge>
+                  <div className="text-sm">
+                    <div>
+                      {event.createdAt && format(new Date(event.createdAt), 'dd MMM yyyy HH:mm')}
+                      <span className="text-gray-500"> via {event.source}</span>
+                    </div>
+                    {event.trackingId && <div className="text-gray-500">{event.courier}: {event.trackingId}</div>}
+                    {event.note && <div className="text-gray-500">{event.note}</div>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -16,6 +16,8 @@ import {
   RefreshCw
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { placementStrategyLabels } from "@/components/PlacementPreferenceSettings";
+import type { PlacementStrategy } from "@shared/schema";
 
 interface UserForPlacement {
   id: string;
@@ -33,6 +35,7 @@ interface ReferralFormData {
   placementType: 'strategic' | 'auto' | 'root';
   placementSide: 'left' | 'right';
   parentId: string; // Add parent user selection
+  placementStrategy: PlacementStrategy | 'sponsor'; // Auto placement only; 'sponsor' keeps the sponsor's own
 }
 
 export function AdminReferralLinkGeneration() {
@@ -42,7 +45,8 @@ export function AdminReferralLinkGeneration() {
   const [referralFormData, setReferralFormData] = useState<ReferralFormData>({
     placementType: 'strategic',
     placementSide: 'left',
-    parentId: ''
+    parentId: '',
+    placementStrategy: 'sponsor'
   });
   const [generatedLink, setGeneratedLink] = useState<string>('');
   const [isGeneratingLink, setIsGeneratingLink] = useState(false);
@@ -72,6 +76,10 @@ export function AdminReferralLinkGeneration() {
         payload.parentId = referralFormData.parentId;
       }
       
+      if (referralFormData.placementType === 'auto' && referralFormData.placementStrategy !== 'sponsor') {
+        payload.placementStrategy = referralFormData.placementStrategy;
+      }
+      
       const response = await apiRequest('POST', '/api/referral/generate', payload);
 
       const data = await response.json();
@@ -130,7 +138,8 @@ export function AdminReferralLinkGeneration() {
     setReferralFormData({
       placementType: 'strategic',
       placementSide: 'left',
-      parentId: ''
+      parentId: '',
+      placementStrategy: 'sponsor'
     });
     setGeneratedLink('');
   };
@@ -269,6 +278,29 @@ export function AdminReferralLinkGeneration() {
                         Choose which side of the binary tree this user will be placed on
                       </p>
                     </div>
+
+                    {referralFormData.placementType === 'auto' && (
+                      <div>
+                        <Label htmlFor="placementStrategy">Spillover Strategy</Label>
+                        <Select
+                          value={referralFormData.placementStrategy}
+                          onValueChange={(value: PlacementStrategy | 'sponsor') => setReferralFormData(prev => ({ ...prev, placementStrategy: value }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="sponsor">Sponsor's own setting</SelectItem>
+                            {(Object.keys(placementStrategyLabels) as PlacementStrategy[]).map((value) => (
+                              <SelectItem key={value} value={value}>{placementStrategyLabels[value]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500 mt-1">
+                          How the system finds a free slot for users registering through this link
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   <Button 
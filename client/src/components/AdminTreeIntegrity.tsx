@@ -0,0 +1,154 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GitBranch, RefreshCw, Wrench, CheckCircle } from "lucide-react";
+
+type TreeIssueType = 'orphan' | 'invalid_position' | 'duplicate_slot' | 'pointer_mismatch' | 'dangling_pointer' | 'cycle' | 'wrong_level';
+
+interface TreeIssue {
+  type: TreeIssueType;
+  userId: string;
+  memberId: string | null;
+  detail: string;
+  repair: Record<string, string | null> | null;
+}
+
+interface TreeIntegrityReport {
+  mode: 'dry_run' | 'apply';
+  checkedUsers: number;
+  issues: TreeIssue[];
+  counts: Partial<Record<TreeIssueType, number>>;
+  repairable: number;
+  repairedUsers: number;
+  skippedUsers: number;
+  bvRebuild: { repairs: unknown[] } | null;
+}
+
+const issueLabels: Record<TreeIssueType, string> = {
+  orphan: 'Orphan',
+  invalid_position: 'Invalid position',
+  duplicate_slot: 'Duplicate slot',
+  pointer_mismatch: 'Pointer mismatch',
+  dangling_pointer: 'Dangling pointer',
+  cycle: 'Cycle',
+  wrong_level: 'Wrong level',
+};
+
+const formatRepair = (repair: Record<string, string | null>) =>
+  Object.entries(repair).map(([field, value]) => `${field} → ${value ?? 'empty'}`).join(', ');
+
+export default function AdminTreeIntegrity() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: report, isFetching, refetch } = useQuery<TreeIntegrityReport>({
+    queryKey: ["/api/admin/tree/integrity"],
+  });
+
+  const repairMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/tree/integrity', { mode: 'apply' });
+      return response.json();
+    },
+    onSuccess: (data: TreeIntegrityReport) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tree/integrity"] });
+      toast({
+        title: "Tree repaired",
+        description: `${data.repairedUsers} users repaired${data.skippedUsers > 0 ? `, ${data.skippedUsers} changed meanwhile (run again)` : ''}${data.bvRebuild ? `, ${data.bvRebuild.repairs.length} BV totals rebuilt` : ''}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to repair the tree", variant: "destructive" });
+    },
+  });
+
+  const handleRepair = () => {
+    if (!report || !confirm(`Apply ${report.repairable} automatic repairs to the binary tree? Changes are recorded in the audit log.`)) {
+      return;
+    }
+    repairMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <GitBranch className="mr-2 h-5 w-5 text-volt-light" />
+            Binary Tree Integrity
+          </CardTitle>
+          <CardDescription>
+            Checks that parents' child pointers, positions and levels agree with each user's own parent.
+            Pointers and levels are repaired automatically; duplicate slots, cycles and orphans without a
+            parent pointing at them need a placement override.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3 mb-4">
+            <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+              Run Check
+            </Button>
+            <Button
+              className="volt-gradient text-white"
+              onClick={handleRepair}
+              disabled={!report || report.repairable === 0 || repairMutation.isPending}
+            >
+              <Wrench className="mr-2 h-4 w-4" />
+              Apply Repairs
+            </Button>
+          </div>
+
+          {!report ? (
+            <p className="text-sm text-gray-600">Checking the tree...</p>
+          ) : report.issues.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <p className="text-gray-600">All {report.checkedUsers} users are consistent.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 mb-4">
+                <Badge variant="secondary">{report.checkedUsers} users checked</Badge>
+                {(Object.keys(report.counts) as TreeIssueType[]).map((type) => (
+                  <Badge key={type} className="bg-red-100 text-red-800">{issueLabels[type]}: {report.counts[type]}</Badge>
+                ))}
+                <Badge className="bg-green-100 text-green-800">{report.repairable} repairable</Badge>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Issue</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Detail</TableHead>
+                      <TableHead>Repair</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.issues.map((issue, index) => (
+                      <TableRow key={`${issue.userId}-${issue.type}-${index}`}>
+                        <TableCell><Badge variant="outline">{issueLabels[issue.type]}</Badge></TableCell>
+                        <TableCell className="font-mono text-xs">{issue.memberId ?? issue.userId}</TableCell>
+                        <TableCell className="text-sm">{issue.detail}</TableCell>
+                        <TableCell className="text-sm">
+                          {issue.repair
+                            ? <span className="text-green-700">{formatRepair(issue.repair)}</span>
+                            : <span className="text-gray-500">Manual</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
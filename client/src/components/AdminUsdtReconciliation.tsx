@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Coins } from "lucide-react";
+import { formatAmount, withdrawalStatusBadge } from "./AdminWithdrawals";
+
+interface UsdtPayoutRow {
+  withdrawalId: string;
+  userDisplayId: string | null;
+  userName: string;
+  networkType: string | null;
+  address: string | null;
+  status: string | null;
+  netAmount: string;
+  usdtRate: string | null;
+  usdtAmount: string | null;
+  txHash: string | null;
+  processedAt: string | null;
+  issues: string[];
+}
+
+interface UsdtReconciliation {
+  totals: { networkType: string; payouts: number; netInr: string; usdt: string }[];
+  rows: UsdtPayoutRow[];
+  issueCount: number;
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const shorten = (value: string | null) =>
+  value && value.length > 16 ? `${value.slice(0, 8)}...${value.slice(-6)}` : value || '-';
+
+export default function AdminUsdtReconciliation() {
+  const [from, setFrom] = useState(toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(toDateInput(new Date(Date.now() + 24 * 60 * 60 * 1000)));
+
+  const { data, isLoading } = useQuery<UsdtReconciliation>({
+    queryKey: [`/api/admin/usdt-payouts/reconciliation?from=${from}&to=${to}`],
+    enabled: !!from && !!to,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Coins className="mr-2 h-5 w-5 text-volt-light" />
+            USDT Payout Reconciliation
+          </CardTitle>
+          <CardDescription>
+            On-chain payouts with their rate snapshots and transaction hashes, checked for gaps and duplicates
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <Label htmlFor="usdt-from">From</Label>
+              <Input id="usdt-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="usdt-to">To (exclusive)</Label>
+              <Input id="usdt-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            {data && (
+              data.issueCount > 0
+                ? <Badge className="bg-red-100 text-red-800">{data.issueCount} issues</Badge>
+                : <Badge className="bg-green-100 text-green-800">Reconciled</Badge>
+            )}
+          </div>
+
+          {data && data.totals.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {data.totals.map((total) => (
+                <div key={total.networkType} className="rounded-lg border p-4">
+                  <p className="text-sm text-gray-600">{total.networkType}</p>
+                  <p className="text-2xl font-bold text-gray-800">{parseFloat(total.usdt).toLocaleString('en-IN', { maximumFractionDigits: 6 })} USDT</p>
+                  <p className="text-sm text-gray-500">{total.payouts} payouts · {formatAmount(total.netInr)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading || !data ? (
+            <p className="text-sm text-gray-600 text-center py-6">Loading USDT payouts...</p>
+          ) : data.rows.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">No USDT payouts in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Network / Address</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Net INR</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead className="text-right">USDT</TableHead>
+                    <TableHead>Tx Hash</TableHead>
+                    <TableHead>Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.rows.map((row) => (
+                    <TableRow key={row.withdrawalId} className={row.issues.length > 0 ? 'bg-red-50' : ''}>
+                      <TableCell>
+                        <p className="font-medium">{row.userName || '-'}</p>
+                        <p className="text-xs text-gray-500">{row.userDisplayId}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm">{row.networkType}</p>
+                        <p className="text-xs font-mono text-gray-500" title={row.address || ''}>{shorten(row.address)}</p>
+                      </TableCell>
+                      <TableCell>{withdrawalStatusBadge(row.status)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(row.netAmount)}</TableCell>
+                      <TableCell className="text-right">{row.usdtRate ? `₹${row.usdtRate}` : '-'}</TableCell>
+                      <TableCell className="text-right font-medium">{row.usdtAmount || '-'}</TableCell>
+                      <TableCell className="font-mono text-xs" title={row.txHash || ''}>{shorten(row.txHash)}</TableCell>
+                      <TableCell>
+                        {row.issues.map((issue) => (
+                          <p key={issue} className="text-xs text-red-600 flex items-center">
+                            <AlertTriangle className="mr-1 h-3 w-3" />
+                            {issue}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle, Clock, DollarSign, Layers, XCircle } from "lucide-react";
+import type { WithdrawalRequest } from "@shared/schema";
+
+export interface WithdrawalRow extends WithdrawalRequest {
+  user: { userId: string | null; firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+type WithdrawalView = 'pending' | 'approved' | 'rejected';
+
+const VIEW_STATUSES: Record<WithdrawalView, string> = {
+  pending: 'pending',
+  approved: 'approved,batched,processed,failed',
+  rejected: 'rejected',
+};
+
+export const formatAmount = (value: string | number | null | undefined) =>
+  `₹${parseFloat(String(value ?? 0)).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const withdrawalStatusBadge = (status: string | null) => {
+  switch (status) {
+    case 'pending':
+      return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+    case 'approved':
+      return <Badge className="bg-blue-100 text-blue-800">Approved</Badge>;
+    case 'batched':
+      return <Badge className="bg-purple-100 text-purple-800">Batched</Badge>;
+    case 'processed':
+      return <Badge className="bg-green-100 text-green-800">Processed</Badge>;
+    case 'failed':
+      return <Badge className="bg-red-100 text-red-800">Failed</Badge>;
+    case 'rejected':
+      return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+    default:
+      return <Badge variant="secondary">{status || '-'}</Badge>;
+  }
+};
+
+export function WithdrawalUserCell({ withdrawal }: { withdrawal: WithdrawalRow }) {
+  const name = [withdrawal.user?.firstName, withdrawal.user?.lastName].filter(Boolean).join(' ');
+  return (
+    <div>
+      <p className="font-medium">{name || withdrawal.user?.userId || withdrawal.userId}</p>
+      <p className="text-sm text-gray-500">{withdrawal.user?.email || '-'}</p>
+    </div>
+  );
+}
+
+export function WithdrawalDetailsCell({ withdrawal }: { withdrawal: WithdrawalRow }) {
+  if (withdrawal.withdrawalType === 'usdt') {
+    const address = withdrawal.usdtWalletAddress || '';
+    return (
+      <div className="text-sm">
+        <p className="font-mono">{address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address}</p>
+        <p className="text-gray-500">{withdrawal.networkType} Network</p>
+      </div>
+    );
+  }
+
+  const bank = (withdrawal.bankDetails || {}) as { bankName?: string; accountNumber?: string; ifscCode?: string };
+  return (
+    <div className="text-sm">
+      <p>{bank.bankName || '-'}</p>
+      <p className="text-gray-500">
+        {bank.accountNumber ? `****${bank.accountNumber.slice(-4)}` : '-'}{bank.ifscCode ? ` · ${bank.ifscCode}` : ''}
+      </p>
+    </div>
+  );
+}
+
+const typeLabel = (withdrawal: WithdrawalRow) => (
+  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+    withdrawal.withdrawalType === 'usdt' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'
+  }`}>
+    {withdrawal.withdrawalType === 'usdt' ? `USDT (${withdrawal.networkType})` : 'Bank Transfer'}
+  </span>
+);
+
+export default function AdminWithdrawals({ view }: { view: WithdrawalView }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryUrl = `/api/admin/withdrawals?status=${VIEW_STATUSES[view]}`;
+
+  const { data: withdrawals = [], isLoading } = useQuery<WithdrawalRow[]>({
+    queryKey: [queryUrl],
+  });
+
+  const invalidateWithdrawals = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/admin/withdrawals') ||
+        String(query.queryKey[0]).startsWith('/api/admin/payout-batches'),
+    });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, status, adminNotes }: { id: string; status: 'approved' | 'rejected'; adminNotes?: string }) => {
+      const response = await apiRequest('PATCH', `/api/admin/withdrawals/${id}`, { status, adminNotes });
+      return response.json();
+    },
+    onSuccess: (_data, { status }) => {
+      invalidateWithdrawals();
+      toast({
+        title: status === 'approved' ? "Withdrawal approved" : "Withdrawal rejected",
+        description: status === 'approved'
+          ? "The request is ready to be added to a payout batch"
+          : "Held funds have been returned to the user's wallet",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update withdrawal", variant: "destructive" });
+    },
+  });
+
+  const batchMutation = useMutation({
+    mutationFn: async (withdrawalType: 'bank' | 'usdt') => {
+      const response = await apiRequest('POST', '/api/admin/payout-batches', { withdrawalType });
+      return response.json();
+    },
+    onSuccess: (batch) => {
+      invalidateWithdrawals();
+      toast({ title: "Payout batch created", description: `${batch.batchNumber} with ${batch.requestCount} requests` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create payout batch", variant: "destructive" });
+    },
+  });
+
+  const handleReject = (id: string) => {
+    const reason = prompt("Reason for rejection");
+    if (reason === null) return;
+    reviewMutation.mutate({ id, status: 'rejected', adminNotes: reason || undefined });
+  };
+
+  const titles = {
+    pending: { icon: <DollarSign className="mr-2 h-5 w-5 text-volt-light" />, text: 'Pending Withdrawal Requests' },
+    approved: { icon: <CheckCircle className="mr-2 h-5 w-5 text-green-600" />, text: 'Approved Withdrawal Requests' },
+    rejected: { icon: <XCircle className="mr-2 h-5 w-5 text-red-600" />, text: 'Rejected Withdrawal Requests' },
+  };
+
+  const approvedCount = (type: 'bank' | 'usdt') =>
+    withdrawals.filter(w => w.status === 'approved' && w.withdrawalType === type).length;
+
+  return (
+    <Card className="hover:shadow-lg transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
+          {titles[view].icon}
+          {titles[view].text}
+        </CardTitle>
+        {view === 'pending' && (
+          <CardDescription>Requested amounts are already on hold; rejecting a request returns them to the wallet</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        {view === 'approved' && (
+          <div className="flex flex-wrap gap-3 mb-4">
+            <Button
+              className="volt-gradient text-white"
+              disabled={batchMutation.isPending || approvedCount('bank') === 0}
+              onClick={() => batchMutation.mutate('bank')}
+            >
+              <Layers className="mr-2 h-4 w-4" />
+              Batch Bank Payouts ({approvedCount('bank')})
+            </Button>
+            <Button
+              variant="outline"
+              disabled={batchMutation.isPending || approvedCount('usdt') === 0}
+              onClick={() => batchMutation.mutate('usdt')}
+            >
+              <Layers className="mr-2 h-4 w-4" />
+              Batch USDT Payouts ({approvedCount('usdt')})
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600 text-center py-6">Loading withdrawals...</p>
+        ) : withdrawals.length === 0 ? (
+          <div className="text-center py-8">
+            <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No {view} withdrawal requests.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">TDS / Charges</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>{view === 'rejected' ? 'Reason' : 'Status'}</TableHead>
+                  <TableHead>Date</TableHead>
+                  {view === 'pending' && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {withdrawals.map((withdrawal) => (
+                  <TableRow key={withdrawal.id}>
+                    <TableCell><WithdrawalUserCell withdrawal={withdrawal} /></TableCell>
+                    <TableCell>{typeLabel(withdrawal)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(withdrawal.amount)}</TableCell>
+                    <TableCell className="text-right text-sm text-gray-600">
+                      {formatAmount(withdrawal.tdsAmount)} / {formatAmount(withdrawal.adminCharge)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(withdrawal.netAmount ?? withdrawal.amount)}</TableCell>
+                    <TableCell><WithdrawalDetailsCell withdrawal={withdrawal} /></TableCell>
+                    <TableCell>
+                      {view === 'rejected' ? (
+                        <p className="text-sm text-red-600">{withdrawal.adminNotes || '-'}</p>
+                      ) : (
+                        <div className="space-y-1">
+                          {withdrawalStatusBadge(withdrawal.status)}
+                          {withdrawal.transactionId && (
+                            <p className="text-xs font-mono text-gray-500">{withdrawal.transactionId}</p>
+                          )}
+                          {withdrawal.status === 'failed' && withdrawal.adminNotes && (
+                            <p className="text-xs text-red-600">{withdrawal.adminNotes}</p>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {withdrawal.createdAt ? new Date(withdrawal.createdAt).toLocaleDateString('en-IN') : '-'}
+                    </TableCell>
+                    {view === 'pending' && (
+                      <TableCell className="text-right whitespace-nowrap space-x-2">
+                        <Button
+                          size="sm"
+                          className="volt-gradient text-white"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => reviewMutation.mutate({ id: withdrawal.id, status: 'approved' })}
+                        >
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 border-red-200 hover:bg-red-50"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => handleReject(withdrawal.id)}
+                        >
+                          Reject
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,124 +1,171 @@
+import { Fragment, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Users, ChevronDown, TrendingUp, DollarSign } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Users, ChevronDown, ChevronRight, TrendingUp, Search, Crosshair, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 
-interface BinaryTreeNode {
+interface TreeExplorerNode {
   id: string;
-  firstName: string | null;
-  lastName: string | null;
-  email: string | null;
-  packageAmount: string | null;
-  idStatus: string | null;
+  memberId: string | null;
+  name: string;
+  parentId: string | null;
   position: string | null;
-  level: string | null;
-  leftChild?: BinaryTreeNode;
-  rightChild?: BinaryTreeNode;
+  depth: number;
+  rank: string | null;
+  idStatus: string | null;
+  leftBV: string;
+  rightBV: string;
+  leftChildId: string | null;
+  rightChildId: string | null;
 }
 
-interface TreeNodeProps {
-  node: BinaryTreeNode | null;
-  position: 'root' | 'left' | 'right';
-  onNodeClick?: (node: BinaryTreeNode) => void;
+interface TreeExplorerPage {
+  node: TreeExplorerNode;
+  path: TreeExplorerNode[];
+  levels: number;
+  nodes: TreeExplorerNode[];
+  counts: { total: number; left: number; right: number; active: number };
 }
 
-const TreeNode = ({ node, position, onNodeClick }: TreeNodeProps) => {
-  if (!node) {
-    return (
-      <div className="flex flex-col items-center">
-        <div className="w-32 h-20 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg flex items-center justify-center bg-gray-50 dark:bg-gray-800/50">
-          <div className="text-center">
-            <Users className="h-6 w-6 text-gray-400 mx-auto mb-1" />
-            <p className="text-xs text-gray-500">Open Position</p>
-            <Badge variant="outline" className="text-xs mt-1">
-              {position === 'left' ? 'Left' : 'Right'}
-            </Badge>
-          </div>
-        </div>
-      </div>
-    );
-  }
+interface TreeSearchResult {
+  id: string;
+  memberId: string | null;
+  name: string;
+  depth: number;
+  leg: string | null;
+}
+
+// Levels fetched per page; deeper members load as nodes are expanded
+const EXPLORER_LEVELS = 3;
+
+const explorerUrl = (nodeId: string | null) =>
+  `/api/binary-tree/explorer?${new URLSearchParams({ ...(nodeId ? { nodeId } : {}), levels: String(EXPLORER_LEVELS) })}`;
+
+const formatBV = (value: string | number | null | undefined) =>
+  parseFloat(String(value ?? 0)).toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+const initials = (name: string) =>
+  name.split(' ').filter(Boolean).slice(0, 2).map(part => part[0]).join('').toUpperCase() || '?';
+
+const OpenPosition = ({ position }: { position: 'left' | 'right' }) => (
+  <div className="flex items-center gap-2 py-2 pl-8 text-xs text-gray-500">
+    <div className="w-6 h-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-full" />
+    Open position
+    <Badge variant="outline" className="text-xs">{position === 'left' ? 'Left' : 'Right'}</Badge>
+  </div>
+);
+
+interface TreeBranchProps {
+  node: TreeExplorerNode;
+  nodes: Map<string, TreeExplorerNode>;
+  relativeDepth: number; // Below the node at the top of the view
+  onFocus: (nodeId: string) => void;
+}
+
+// A member with their two slots; children outside the loaded page are fetched when expanded
+const TreeBranch = ({ node, nodes, relativeDepth, onFocus }: TreeBranchProps) => {
+  const hasChildren = !!(node.leftChildId || node.rightChildId);
+  const loaded = [node.leftChildId, node.rightChildId].every(id => !id || nodes.has(id));
+  const [expanded, setExpanded] = useState(loaded && relativeDepth < 2);
 
-  const displayName = `${node.firstName || 'Unknown'} ${node.lastName || ''}`.trim();
+  const { data: page, isFetching } = useQuery<TreeExplorerPage>({
+    queryKey: [explorerUrl(node.id)],
+    enabled: expanded && !loaded,
+  });
+  const childNodes = loaded ? nodes : page ? new Map(page.nodes.map(child => [child.id, child])) : null;
   const isActive = node.idStatus === 'Active';
 
   return (
-    <div className="flex flex-col items-center">
-      <Card 
-        className={`w-32 cursor-pointer transition-all hover:shadow-lg hover:-translate-y-1 ${
-          isActive ? 'border-green-500 dark:border-green-400' : 'border-gray-300 dark:border-gray-600'
-        }`}
-        onClick={() => onNodeClick?.(node)}
-      >
-        <CardContent className="p-3">
-          <div className="text-center">
-            <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-teal-600 rounded-full flex items-center justify-center text-white font-semibold text-xs mx-auto mb-2">
-              {(node.firstName?.[0] || '?')}{(node.lastName?.[0] || '')}
-            </div>
-            <h4 className="text-xs font-semibold text-gray-900 dark:text-gray-100 truncate">
-              {displayName}
-            </h4>
-            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
-              {node.email}
-            </p>
-            <div className="mt-2 space-y-1">
-              <Badge 
-                variant={isActive ? 'default' : 'secondary'}
-                className={`text-xs ${isActive ? 'bg-green-600' : ''}`}
-              >
-                {node.idStatus || 'Inactive'}
-              </Badge>
-              {node.packageAmount && (
-                <div className="flex items-center justify-center text-xs text-green-600 dark:text-green-400">
-                  <DollarSign className="h-3 w-3 mr-1" />
-                  {node.packageAmount}
-                </div>
-              )}
-              <Badge variant="outline" className="text-xs">
-                {position === 'root' ? 'You' : position === 'left' ? 'Left' : 'Right'}
-              </Badge>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-    </div>
-  );
-};
+    <div>
+      <div className="flex items-center gap-2 py-2 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800/50" data-testid={`tree-node-${node.id}`}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => setExpanded(!expanded)}
+          disabled={!hasChildren}
+          aria-label={expanded ? 'Collapse' : 'Expand'}
+        >
+          {isFetching
+            ? <Loader2 className="h-4 w-4 animate-spin" />
+            : hasChildren && (expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+        </Button>
+        <div className="w-8 h-8 bg-gradient-to-r from-green-500 to-teal-600 rounded-full flex items-center justify-center text-white font-semibold text-xs shrink-0">
+          {initials(node.name)}
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{node.name || 'Unknown'}</p>
+          <p className="text-xs text-gray-500 font-mono">{node.memberId ?? node.id}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-1 ml-2">
+          {relativeDepth > 0 && node.position && (
+            <Badge variant="outline" className="text-xs">{node.position === 'left' ? 'Left' : 'Right'}</Badge>
+          )}
+          {node.rank && <Badge variant="secondary" className="text-xs">{node.rank}</Badge>}
+          <Badge className={`text-xs ${isActive ? 'bg-green-600' : 'bg-gray-400'}`}>{isActive ? 'Active' : 'Inactive'}</Badge>
+          <span className="text-xs text-gray-600 dark:text-gray-400 ml-1">
+            L {formatBV(node.leftBV)} · R {formatBV(node.rightBV)} BV
+          </span>
+        </div>
+        {relativeDepth > 0 && (
+          <Button variant="ghost" size="sm" className="ml-auto text-xs" onClick={() => onFocus(node.id)}>
+            <Crosshair className="mr-1 h-3 w-3" />
+            Focus
+          </Button>
+        )}
+      </div>
 
-const BinaryTreeLevel = ({ 
-  leftNode, 
-  rightNode, 
-  onNodeClick 
-}: { 
-  leftNode: BinaryTreeNode | null; 
-  rightNode: BinaryTreeNode | null;
-  onNodeClick?: (node: BinaryTreeNode) => void;
-}) => {
-  return (
-    <div className="flex justify-center items-center space-x-8 md:space-x-16">
-      <TreeNode node={leftNode} position="left" onNodeClick={onNodeClick} />
-      <TreeNode node={rightNode} position="right" onNodeClick={onNodeClick} />
+      {expanded && childNodes && (
+        <div className="ml-3 pl-4 border-l border-gray-200 dark:border-gray-700">
+          {(['left', 'right'] as const).map(side => {
+            const childId = side === 'left' ? node.leftChildId : node.rightChildId;
+            const child = childId ? childNodes.get(childId) : undefined;
+            return child
+              ? <TreeBranch key={side} node={child} nodes={childNodes} relativeDepth={relativeDepth + 1} onFocus={onFocus} />
+              : <OpenPosition key={side} position={side} />;
+          })}
+        </div>
+      )}
     </div>
   );
 };
 
 export default function BinaryTreeView() {
   const { user } = useAuth();
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
 
-  const { data: treeData, isLoading } = useQuery<BinaryTreeNode>({
-    queryKey: ["/api/binary-tree"],
+  const { data: page, isLoading, error } = useQuery<TreeExplorerPage>({
+    queryKey: [explorerUrl(focusId)],
     enabled: !!user?.id,
   });
 
-  const { data: directRecruits = [] } = useQuery<any[]>({
-    queryKey: ["/api/direct-recruits"],
-    enabled: !!user?.id,
+  const { data: searchResults, isFetching: isSearching } = useQuery<TreeSearchResult[]>({
+    queryKey: [`/api/binary-tree/search?${new URLSearchParams({ q: search })}`],
+    enabled: search.length >= 2,
   });
 
-  const handleNodeClick = (node: BinaryTreeNode) => {
-    console.log('Node clicked:', node);
-    // Could implement drill-down functionality here
+  const jumpTo = (nodeId: string | null) => {
+    setFocusId(nodeId === user?.id ? null : nodeId);
+    setSearch('');
+    setSearchInput('');
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
   };
 
   if (isLoading) {
@@ -150,238 +197,129 @@ export default function BinaryTreeView() {
           Binary MLM Tree Structure
         </CardTitle>
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          Your binary network showing left and right positions. Each member can have maximum 2 direct recruits.
+          Your binary network showing left and right positions. Expand members to load their downline, or search to jump to anyone in your team.
         </p>
       </CardHeader>
       <CardContent>
-        <div className="space-y-8">
-          {/* Root Level - You */}
-          <div className="flex justify-center">
-            <TreeNode 
-              node={user ? {
-                id: user.id || '',
-                firstName: user.firstName,
-                lastName: user.lastName,
-                email: user.email || '',
-                packageAmount: (user as any).packageAmount || '0.00',
-                idStatus: 'Active',
-                position: 'root',
-                level: '0'
-              } : null} 
-              position="root" 
-              onNodeClick={handleNodeClick}
-            />
+        <div className="space-y-6">
+          {/* Search the downline */}
+          <div>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <Input
+                placeholder="Search by name, member ID or mobile"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                data-testid="input-tree-search"
+              />
+              <Button type="submit" variant="outline" disabled={searchInput.trim().length < 2}>
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </form>
+            {search.length >= 2 && (
+              <div className="mt-2 border rounded-md max-h-64 overflow-y-auto">
+                {isSearching ? (
+                  <p className="p-3 text-sm text-gray-500">Searching...</p>
+                ) : !searchResults || searchResults.length === 0 ? (
+                  <p className="p-3 text-sm text-gray-500">No members in your downline match "{search}".</p>
+                ) : (
+                  searchResults.map(result => (
+                    <button
+                      key={result.id}
+                      type="button"
+                      className="w-full flex items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-800/50"
+                      onClick={() => jumpTo(result.id)}
+                      data-testid={`search-result-${result.id}`}
+                    >
+                      <span>
+                        <span className="font-medium">{result.name || 'Unknown'}</span>
+                        <span className="ml-2 font-mono text-xs text-gray-500">{result.memberId ?? result.id}</span>
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {result.leg === 'left' ? 'Left' : 'Right'} leg · level {result.depth}
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
           </div>
 
-          {/* Connection Lines */}
-          <div className="flex justify-center">
-            <div className="relative w-64 h-8">
-              <div className="absolute top-0 left-1/2 w-px h-4 bg-gray-300 dark:bg-gray-600 transform -translate-x-1/2"></div>
-              <div className="absolute top-4 left-8 right-8 h-px bg-gray-300 dark:bg-gray-600"></div>
-              <div className="absolute top-4 left-8 w-px h-4 bg-gray-300 dark:bg-gray-600"></div>
-              <div className="absolute top-4 right-8 w-px h-4 bg-gray-300 dark:bg-gray-600"></div>
+          {error || !page ? (
+            <div className="text-center py-8">
+              <p className="text-gray-600">{(error as Error | null)?.message || 'Your binary tree could not be loaded.'}</p>
+              {focusId && (
+                <Button variant="outline" className="mt-4" onClick={() => jumpTo(null)}>Back to my tree</Button>
+              )}
             </div>
-          </div>
-
-          {/* Level 1 - Binary Tree Children */}
-          <BinaryTreeLevel 
-            leftNode={treeData?.leftChild || null}
-            rightNode={treeData?.rightChild || null}
-            onNodeClick={handleNodeClick}
-          />
-
-          {/* Level 2 - Show grandchildren */}
-          {(treeData?.leftChild?.leftChild || treeData?.leftChild?.rightChild || treeData?.rightChild?.leftChild || treeData?.rightChild?.rightChild) && (
+          ) : (
             <>
-              {/* Connection Lines for Level 2 */}
-              <div className="flex justify-center space-x-8 md:space-x-16">
-                {/* Left side connections */}
-                <div className="relative w-32 h-8">
-                  {treeData?.leftChild && (treeData.leftChild.leftChild || treeData.leftChild.rightChild) && (
-                    <>
-                      <div className="absolute top-0 left-1/2 w-px h-4 bg-gray-300 dark:bg-gray-600 transform -translate-x-1/2"></div>
-                      <div className="absolute top-4 left-4 right-4 h-px bg-gray-300 dark:bg-gray-600"></div>
-                      <div className="absolute top-4 left-4 w-px h-4 bg-gray-300 dark:bg-gray-600"></div>
-                      <div className="absolute top-4 right-4 w-px h-4 bg-gray-300 dark:bg-gray-600"></div>
-                    </>
-                  )}
-                </div>
-                {/* Right side connections */}
-                <div className="relative w-32 h-8">
-                  {treeData?.rightChild && (treeData.rightChild.leftChild || treeData.rightChild.rightChild) && (
-                    <>
-                      <div className="absolute top-0 left-1/2 w-px h-4 bg-gray-300 dark:bg-gray-600 transform -translate-x-1/2"></div>
-                      <div className="absolute top-4 left-4 right-4 h-px bg-gray-300 dark:bg-gray-600"></div>
-                      <div className="absolute top-4 left-4 w-px h-4 bg-gray-300 dark:bg-gray-600"></div>
-                      <div className="absolute top-4 right-4 w-px h-4 bg-gray-300 dark:bg-gray-600"></div>
-                    </>
-                  )}
-                </div>
-              </div>
+              {/* Path from you down to the member in focus */}
+              <Breadcrumb>
+                <BreadcrumbList>
+                  {page.path.map((member, index) => (
+                    <Fragment key={member.id}>
+                      {index > 0 && <BreadcrumbSeparator />}
+                      <BreadcrumbItem>
+                        {index === page.path.length - 1 ? (
+                          <BreadcrumbPage>{index === 0 ? 'You' : member.name || member.memberId}</BreadcrumbPage>
+                        ) : (
+                          <BreadcrumbLink asChild>
+                            <button type="button" onClick={() => jumpTo(member.id)}>
+                              {index === 0 ? 'You' : member.name || member.memberId}
+                            </button>
+                          </BreadcrumbLink>
+                        )}
+                      </BreadcrumbItem>
+                    </Fragment>
+                  ))}
+                </BreadcrumbList>
+              </Breadcrumb>
 
-              {/* Level 2 nodes */}
-              <div className="flex justify-center space-x-8 md:space-x-16">
-                {/* Left side level 2 */}
-                <BinaryTreeLevel 
-                  leftNode={treeData?.leftChild?.leftChild || null}
-                  rightNode={treeData?.leftChild?.rightChild || null}
-                  onNodeClick={handleNodeClick}
-                />
-                {/* Right side level 2 */}
-                <BinaryTreeLevel 
-                  leftNode={treeData?.rightChild?.leftChild || null}
-                  rightNode={treeData?.rightChild?.rightChild || null}
-                  onNodeClick={handleNodeClick}
+              <div className="overflow-x-auto">
+                <TreeBranch
+                  key={page.node.id}
+                  node={page.node}
+                  nodes={new Map(page.nodes.map(node => [node.id, node]))}
+                  relativeDepth={0}
+                  onFocus={jumpTo}
                 />
               </div>
+
+              {/* Legs of the member in focus */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <Users className="h-6 w-6 text-green-500 mx-auto mb-2" />
+                    <p className="text-2xl font-bold">{page.counts.left}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Left Members</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <Users className="h-6 w-6 text-teal-500 mx-auto mb-2" />
+                    <p className="text-2xl font-bold">{page.counts.right}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Right Members</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <TrendingUp className="h-6 w-6 text-green-500 mx-auto mb-2" />
+                    <p className="text-2xl font-bold">{formatBV(page.node.leftBV)}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Left BV</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-4 text-center">
+                    <TrendingUp className="h-6 w-6 text-teal-500 mx-auto mb-2" />
+                    <p className="text-2xl font-bold">{formatBV(page.node.rightBV)}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Right BV</p>
+                  </CardContent>
+                </Card>
+              </div>
             </>
           )}
 
-          {/* Enhanced Tree Statistics */}
-          <div className="mt-8 grid grid-cols-1 md:grid-cols-4 gap-4">
-            <Card>
-              <CardContent className="p-4 text-center">
-                <Users className="h-6 w-6 text-blue-500 mx-auto mb-2" />
-                <p className="text-2xl font-bold">{directRecruits.length}</p>
-                <p className="text-sm text-gray-600 dark:text-gray-400">Direct Recruits</p>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardContent className="p-4 text-center">
-                <div className="w-6 h-6 bg-green-500 rounded-full mx-auto mb-2 flex items-center justify-center">
-                  <div className="w-2 h-2 bg-white rounded-full"></div>
-                </div>
-                <p className="text-2xl font-bold">
-                  {treeData?.leftChild ? 1 : 0}
-                </p>
-                <p className="text-sm text-gray-600 dark:text-gray-400">Left Position</p>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardContent className="p-4 text-center">
-                <div className="w-6 h-6 bg-teal-500 rounded-full mx-auto mb-2 flex items-center justify-center">
-                  <div className="w-2 h-2 bg-white rounded-full"></div>
-                </div>
-                <p className="text-2xl font-bold">
-                  {treeData?.rightChild ? 1 : 0}
-                </p>
-                <p className="text-sm text-gray-600 dark:text-gray-400">Right Position</p>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardContent className="p-4 text-center">
-                <TrendingUp className="h-6 w-6 text-purple-500 mx-auto mb-2" />
-                <p className="text-2xl font-bold">
-                  {treeData?.totalBV ? parseFloat(treeData.totalBV).toFixed(2) : '0.00'}
-                </p>
-                <p className="text-sm text-gray-600 dark:text-gray-400">Total BV</p>
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Tree Performance Metrics */}
-          <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm text-gray-600">Left Leg Performance</CardTitle>
-              </CardHeader>
-              <CardContent className="pt-0">
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Members:</span>
-                    <span className="font-medium">
-                      {treeData?.leftChild ? 
-                        (treeData.leftChild.leftChild ? 1 : 0) + (treeData.leftChild.rightChild ? 1 : 0) + 1 
-                        : 0
-                      }
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>BV:</span>
-                    <span className="font-medium text-green-600">
-                      ₹{treeData?.leftBV || '0.00'}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Status:</span>
-                    <Badge variant={treeData?.leftChild ? 'default' : 'secondary'} className="text-xs">
-                      {treeData?.leftChild ? 'Active' : 'Empty'}
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm text-gray-600">Right Leg Performance</CardTitle>
-              </CardHeader>
-              <CardContent className="pt-0">
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Members:</span>
-                    <span className="font-medium">
-                      {treeData?.rightChild ? 
-                        (treeData.rightChild.leftChild ? 1 : 0) + (treeData.rightChild.rightChild ? 1 : 0) + 1 
-                        : 0
-                      }
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>BV:</span>
-                    <span className="font-medium text-green-600">
-                      ₹{treeData?.rightBV || '0.00'}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Status:</span>
-                    <Badge variant={treeData?.rightChild ? 'default' : 'secondary'} className="text-xs">
-                      {treeData?.rightChild ? 'Active' : 'Empty'}
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm text-gray-600">Tree Balance</CardTitle>
-              </CardHeader>
-              <CardContent className="pt-0">
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Left/Right Ratio:</span>
-                    <span className="font-medium">
-                      {treeData?.leftChild && treeData?.rightChild ? '1:1' : 
-                       treeData?.leftChild || treeData?.rightChild ? '1:0' : '0:0'
-                      }
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Depth:</span>
-                    <span className="font-medium">
-                      {Math.max(
-                        treeData?.leftChild ? 2 : 1,
-                        treeData?.rightChild ? 2 : 1
-                      )}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span>Growth:</span>
-                    <Badge variant="outline" className="text-xs">
-                      {treeData?.leftChild && treeData?.rightChild ? 'Balanced' : 
-                       treeData?.leftChild || treeData?.rightChild ? 'Growing' : 'Empty'
-                      }
-                    </Badge>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          </div>
-
           {/* Binary MLM Rules */}
           <Card className="mt-6">
             <CardHeader>
@@ -412,4 +350,4 @@ export default function BinaryTreeView() {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Award, CheckCircle, Circle } from "lucide-react";
+import { format } from "date-fns";
+
+interface ConsistencySlab {
+  name: string;
+  streakMonths: number;
+  teamBV: number;
+  amount: number;
+}
+
+interface ConsistencyAward {
+  id: string;
+  month: string;
+  slab: string;
+  streakMonths: number;
+  amount: string;
+  status: string;
+}
+
+interface ConsistencyStatusData {
+  monthStart: string;
+  streakMonths: number;
+  repurchaseBV: number;
+  requiredBV: number;
+  qualifiesThisMonth: boolean;
+  teamBV: number;
+  eligibleSlab: ConsistencySlab | null;
+  slabs: ConsistencySlab[];
+  awards: ConsistencyAward[];
+}
+
+// Repurchase streak and the consistency bonus this month is on course for
+export default function ConsistencyBonus() {
+  const { data: status } = useQuery<ConsistencyStatusData>({
+    queryKey: ['/api/consistency-bonus'],
+  });
+
+  if (!status || status.slabs.length === 0) return null;
+
+  const month = format(new Date(status.monthStart), 'MMMM');
+  const nextStreak = status.streakMonths + 1;
+  const progress = status.requiredBV > 0 ? Math.min(100, (status.repurchaseBV / status.requiredBV) * 100) : 100;
+
+  return (
+    <Card className="mb-8" data-testid="consistency-bonus">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg font-semibold text-gray-800 flex items-center">
+          <Award className="mr-2 h-5 w-5 text-volt-light" />
+          Consistency Bonus
+        </CardTitle>
+        <Badge className="bg-blue-100 text-blue-800">
+          {status.streakMonths} month streak
+        </Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span>Your repurchase BV in {month}</span>
+            <span className="font-medium">
+              {status.repurchaseBV.toLocaleString('en-IN')} / {status.requiredBV.toLocaleString('en-IN')} BV
+            </span>
+          </div>
+          <Progress value={progress} />
+          <p className="text-xs text-gray-500 mt-1">
+            Team repurchase BV in {month}: {status.teamBV.toLocaleString('en-IN')} BV
+          </p>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {status.eligibleSlab
+            ? `As things stand, ${month} pays the ${status.eligibleSlab.name} bonus of ₹${status.eligibleSlab.amount.toLocaleString('en-IN')} when it is settled next month.`
+            : status.qualifiesThisMonth
+              ? `${month} extends your streak to ${nextStreak} months, but no bonus slab is reached yet.`
+              : `Buy ${(status.requiredBV - status.repurchaseBV).toLocaleString('en-IN')} BV more of repurchase products in ${month} to extend your streak to ${nextStreak} months.`}
+        </p>
+
+        <div className="space-y-2">
+          {status.slabs.map((slab) => {
+            const reached = status.qualifiesThisMonth && nextStreak >= slab.streakMonths && status.teamBV >= slab.teamBV;
+            return (
+              <div key={slab.name} className="flex items-center justify-between text-sm" data-testid={`consistency-slab-${slab.name}`}>
+                <span className="flex items-center">
+                  {reached
+                    ? <CheckCircle className="mr-2 h-4 w-4 text-green-600" />
+                    : <Circle className="mr-2 h-4 w-4 text-gray-300" />}
+                  {slab.name}: {slab.streakMonths} months, {slab.teamBV.toLocaleString('en-IN')} team BV
+                </span>
+                <span className="font-medium">₹{slab.amount.toLocaleString('en-IN')}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {status.awards.length > 0 && (
+          <div className="border-t pt-3 space-y-1">
+            <p className="text-sm font-medium text-gray-800">Recent awards</p>
+            {status.awards.slice(0, 3).map((award) => (
+              <div key={award.id} className="flex justify-between text-sm text-gray-600">
+                <span>{format(new Date(award.month), 'MMM yyyy')} · {award.slab} ({award.streakMonths} months)</span>
+                <span>
+                  ₹{parseFloat(award.amount).toLocaleString('en-IN')}
+                  {award.status !== 'credited' && ' (pending)'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
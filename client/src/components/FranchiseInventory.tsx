@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { StockPoint, StockLevel, Order } from "@shared/schema";
+
+interface StockLevelRow extends StockLevel {
+  productName: string | null;
+  available: number;
+}
+
+interface StockOrderRow extends Order {
+  user: { userId: string | null; firstName: string | null; lastName: string | null; mobile: string | null } | null;
+}
+
+// Stock and pickup orders at the franchise points the signed-in member runs
+export default function FranchiseInventory() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState('');
+
+  const { data: stockPoints = [], isLoading } = useQuery<StockPoint[]>({
+    queryKey: ['/api/franchise/stock-points'],
+  });
+  const pointId = selectedId || stockPoints[0]?.id || '';
+
+  const { data: levels = [] } = useQuery<StockLevelRow[]>({
+    queryKey: [`/api/franchise/stock-points/${pointId}/stock`],
+    enabled: !!pointId,
+  });
+  const { data: stockOrders = [] } = useQuery<StockOrderRow[]>({
+    queryKey: [`/api/franchise/stock-points/${pointId}/orders`],
+    enabled: !!pointId,
+  });
+
+  const shipmentMutation = useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: 'packed' | 'delivered' }) => {
+      const response = await apiRequest('POST', `/api/franchise/orders/${orderId}/shipment`, { status });
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/franchise/stock-points') });
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      toast({
+        title: order.deliveryStatus === 'delivered' ? "Order handed over" : "Order packed",
+        description: order.deliveryStatus === 'delivered'
+          ? `${order.orderNumber} - franchise income credited to your wallet`
+          : `${order.orderNumber} - the member has been told it is ready`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-white/70">Loading stock...</p>;
+  }
+  if (stockPoints.length === 0) {
+    return (
+      <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+        <CardContent className="p-6">
+          <p className="text-white/70">No stock point has been set up for your franchise yet. Please contact the admin team.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {stockPoints.length > 1 && (
+        <div className="w-72">
+          <Select value={pointId} onValueChange={setSelectedId}>
+            <SelectTrigger data-testid="select-franchise-stock-point">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stockPoints.map(point => (
+                <SelectItem key={point.id} value={point.id}>{point.code} - {point.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+        <CardHeader>
+          <CardTitle className="text-white">Stock</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {levels.length === 0 ? (
+            <p className="text-white/70">No stock at this point yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-white/70">Product</TableHead>
+                  <TableHead className="text-white/70">On hand</TableHead>
+                  <TableHead className="text-white/70">Reserved</TableHead>
+                  <TableHead className="text-white/70">Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {levels.map(level => (
+                  <TableRow key={level.id}>
+                    <TableCell className="text-white">{level.productName || 'Product'}</TableCell>
+                    <TableCell className="text-white">{level.quantity}</TableCell>
+                    <TableCell className="text-white">{level.reserved}</TableCell>
+                    <TableCell className="text-white">
+                      {level.available <= level.lowStockThreshold ? (
+                        <Badge className="bg-red-100 text-red-800">{level.available} - low</Badge>
+                      ) : level.available}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-black/20 backdrop-blur-sm border-white/10">
+        <CardHeader>
+          <CardTitle className="text-white">Pickup Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {stockOrders.length === 0 ? (
+            <p className="text-white/70">No orders to hand over.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-white/70">Order</TableHead>
+                  <TableHead className="text-white/70">Member</TableHead>
+                  <TableHead className="text-white/70">Paid</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stockOrders.map(order => (
+                  <TableRow key={order.id}>
+                    <TableCell className="text-white font-mono">{order.orderNumber}</TableCell>
+                    <TableCell className="text-white">
+                      <div>{[order.user?.firstName, order.user?.lastName].filter(Boolean).join(' ')}</div>
+                      {order.user?.mobile && <div className="text-xs text-white/60">{order.user.mobile}</div>}
+                    </TableCell>
+                    <TableCell className="text-white">{order.paidAt && format(new Date(order.paidAt), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      {order.status !== 'paid' ? (
+                        <Badge className="bg-gray-100 text-gray-800">{order.status}</Badge>
+                      ) : order.deliveryStatus === 'delivered' || order.deliveryStatus === 'shipped' ? (
+                        <Badge className="bg-green-100 text-green-800">{order.deliveryStatus === 'delivered' ? 'Handed over' : 'Shipped'}</Badge>
+                      ) : (
+                        <div className="flex gap-2">
+                          {order.deliveryStatus === 'pending' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => shipmentMutation.mutate({ orderId: order.id, status: 'packed' })}
+                              disabled={shipmentMutation.isPending}
+                              data-testid={`button-pack-${order.id}`}
+                            >
+                              Packed
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            onClick={() => shipmentMutation.mutate({ orderId: order.id, status: 'delivered' })}
+                            disabled={shipmentMutation.isPending}
+                            data-testid={`button-hand-over-${order.id}`}
+                          >
+                            Hand Over
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
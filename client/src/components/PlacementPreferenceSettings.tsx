@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GitBranch } from "lucide-react";
+import type { PlacementStrategy } from "@shared/schema";
+
+interface PlacementPreference {
+  placementStrategy: PlacementStrategy;
+  preferredLeg: 'left' | 'right' | null;
+}
+
+interface PlacementPreview {
+  parentId: string;
+  position: 'left' | 'right';
+  strategy: PlacementStrategy;
+  parentMemberId: string | null;
+  parentName: string;
+}
+
+export const placementStrategyLabels: Record<PlacementStrategy, string> = {
+  bfs: 'Balanced (first free slot, level by level)',
+  extreme_left: 'Extreme left (bottom of the outer left line)',
+  extreme_right: 'Extreme right (bottom of the outer right line)',
+  weaker_leg_bv: 'Weaker leg by BV',
+  weaker_leg_count: 'Weaker leg by member count',
+  preferred_leg: 'My preferred leg',
+};
+
+// Spillover strategy for own recruits, with where the next one would land
+export default function PlacementPreferenceSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [strategy, setStrategy] = useState<PlacementStrategy>('bfs');
+  const [preferredLeg, setPreferredLeg] = useState<'left' | 'right'>('left');
+
+  const { data: preference } = useQuery<PlacementPreference>({
+    queryKey: ['/api/placement/preference'],
+  });
+
+  useEffect(() => {
+    if (!preference) return;
+    setStrategy(preference.placementStrategy);
+    setPreferredLeg(preference.preferredLeg || 'left');
+  }, [preference]);
+
+  // Preview follows the selection, saved or not
+  const previewParams = new URLSearchParams({ strategy, ...(strategy === 'preferred_leg' ? { preferredLeg } : {}) });
+  const { data: preview } = useQuery<PlacementPreview>({
+    queryKey: [`/api/placement/preview?${previewParams}`],
+    enabled: !!preference,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', '/api/placement/preference', {
+        placementStrategy: strategy,
+        preferredLeg: strategy === 'preferred_leg' ? preferredLeg : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/placement/preference'] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/placement/preview') });
+      toast({ title: "Placement preference saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save placement preference", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GitBranch className="mr-2 h-5 w-5" />
+          Recruit Placement
+        </CardTitle>
+        <CardDescription>
+          How your new recruits spill over into your binary tree. Referral links can set their own strategy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Spillover strategy</Label>
+            <Select value={strategy} onValueChange={(value: PlacementStrategy) => setStrategy(value)}>
+              <SelectTrigger data-testid="select-placement-strategy">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(placementStrategyLabels) as PlacementStrategy[]).map((value) => (
+                  <SelectItem key={value} value={value}>{placementStrategyLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {strategy === 'preferred_leg' && (
+            <div>
+              <Label>Preferred leg</Label>
+              <Select value={preferredLeg} onValueChange={(value: 'left' | 'right') => setPreferredLeg(value)}>
+                <SelectTrigger data-testid="select-preferred-leg">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="left">Left</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-600" data-testid="text-placement-preview">
+          {preview
+            ? `Your next recruit would be placed under ${preview.parentMemberId ?? preview.parentId}${preview.parentName ? ` (${preview.parentName})` : ''} on the ${preview.position}.`
+            : 'Working out where your next recruit would be placed...'}
+        </p>
+
+        <Button
+          className="volt-gradient text-white"
+          onClick={() => saveMutation.mutate()}
+          disabled={!preference || saveMutation.isPending}
+          data-testid="button-save-placement"
+        >
+          Save Preference
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,12 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { 
   Trophy, 
   TrendingUp, 
@@ -13,9 +17,12 @@ import {
   DollarSign,
   BarChart3,
   Zap,
-  Crown
+  Crown,
+  CalendarRange
 } from "lucide-react";
+import { format, addDays, startOfMonth, subMonths } from "date-fns";
 import { apiRequest } from "@/lib/queryClient";
+import { getNextRank, getRankRequirement, type CompensationPlanDefinition } from "@shared/compensationPlan";
 
 interface TeamBusinessMetrics {
   currentRank: string;
@@ -27,72 +34,230 @@ interface TeamBusinessMetrics {
   totalDownline: number;
   rankProgress: number;
   nextRankRequirements: {
-    teamBV: string;
-    leftBV: string;
-    rightBV: string;
+    teamBV: number;
+    leftBV: number;
+    rightBV: number;
     directRecruits: number;
   };
 }
 
+// Progress towards a requirement; requirements of 0 are already met
+const requirementProgress = (value: number, target: number) =>
+  target > 0 ? Math.min((value / target) * 100, 100) : 100;
+
+type LedgerInterval = 'day' | 'week' | 'month';
+
+interface LegVolume {
+  selfBV: number;
+  leftBV: number;
+  rightBV: number;
+  teamBV: number;
+}
+
+interface LegVolumeSummary extends LegVolume {
+  periods: (LegVolume & { periodStart: string })[];
+}
+
+const formatBV = (value: number) => value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+// Date input value (yyyy-MM-dd) for a day
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const rangePresets = [
+  { label: 'This Month', from: () => startOfMonth(new Date()), to: () => new Date() },
+  { label: 'Last Month', from: () => startOfMonth(subMonths(new Date(), 1)), to: () => addDays(startOfMonth(new Date()), -1) },
+  { label: 'Last 3 Months', from: () => startOfMonth(subMonths(new Date(), 2)), to: () => new Date() },
+];
+
+const intervalLabels: Record<LedgerInterval, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' };
+
+// Own and leg BV from the dated BV ledger for any date range
+function LegVolumeByPeriod() {
+  const [from, setFrom] = useState(toDateInput(startOfMonth(new Date())));
+  const [to, setTo] = useState(toDateInput(new Date()));
+  const [interval, setLedgerInterval] = useState<LedgerInterval>('month');
+
+  // Both days are inclusive here; the API takes the end exclusive
+  const fromDate = new Date(`${from}T00:00:00`);
+  const toDate = addDays(new Date(`${to}T00:00:00`), 1);
+  const validRange = !!from && !!to && fromDate < toDate;
+  const params = validRange
+    ? new URLSearchParams({ from: fromDate.toISOString(), to: toDate.toISOString(), interval }).toString()
+    : '';
+
+  const { data: summary, isLoading } = useQuery<LegVolumeSummary>({
+    queryKey: [`/api/bv-ledger/summary?${params}`],
+    enabled: validRange,
+  });
+
+  const periodLabel = (periodStart: string) => {
+    const start = new Date(periodStart);
+    if (interval === 'month') return format(start, 'MMM yyyy');
+    if (interval === 'week') return `Week of ${format(start, 'dd MMM yyyy')}`;
+    return format(start, 'dd MMM yyyy');
+  };
+
+  return (
+    <Card data-testid="leg-volume-by-period">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="h-5 w-5" />
+          Leg Volume by Period
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="text-xs text-gray-500 block mb-1">From</label>
+            <Input type="date" className="w-44" value={from} max={to} onChange={(e) => setFrom(e.target.value)} data-testid="input-ledger-from" />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 block mb-1">To</label>
+            <Input type="date" className="w-44" value={to} min={from} onChange={(e) => setTo(e.target.value)} data-testid="input-ledger-to" />
+          </div>
+          {rangePresets.map((preset) => (
+            <Button
+              key={preset.label}
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setFrom(toDateInput(preset.from()));
+                setTo(toDateInput(preset.to()));
+              }}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+
+        {!validRange ? (
+          <p className="text-sm text-red-600">Choose a start date on or before the end date.</p>
+        ) : isLoading || !summary ? (
+          <p className="text-sm text-gray-600">Loading leg volume...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-4 bg-green-50 rounded-lg text-center">
+                <p className="text-sm text-green-900">Left Leg BV</p>
+                <p className="text-xl font-bold text-green-600">{formatBV(summary.leftBV)}</p>
+              </div>
+              <div className="p-4 bg-teal-50 rounded-lg text-center">
+                <p className="text-sm text-teal-900">Right Leg BV</p>
+                <p className="text-xl font-bold text-teal-600">{formatBV(summary.rightBV)}</p>
+              </div>
+              <div className="p-4 bg-blue-50 rounded-lg text-center">
+                <p className="text-sm text-blue-900">Team BV</p>
+                <p className="text-xl font-bold text-blue-600">{formatBV(summary.teamBV)}</p>
+              </div>
+              <div className="p-4 bg-purple-50 rounded-lg text-center">
+                <p className="text-sm text-purple-900">Own BV</p>
+                <p className="text-xl font-bold text-purple-600">{formatBV(summary.selfBV)}</p>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                {(Object.keys(intervalLabels) as LedgerInterval[]).map((value) => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={interval === value ? 'default' : 'outline'}
+                    onClick={() => setLedgerInterval(value)}
+                  >
+                    {intervalLabels[value]}
+                  </Button>
+                ))}
+              </div>
+              {summary.periods.length === 0 ? (
+                <p className="text-sm text-gray-600 text-center py-6">No BV was added to your team in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Period</TableHead>
+                        <TableHead className="text-right">Left Leg BV</TableHead>
+                        <TableHead className="text-right">Right Leg BV</TableHead>
+                        <TableHead className="text-right">Own BV</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summary.periods.map((period) => (
+                        <TableRow key={period.periodStart}>
+                          <TableCell>{periodLabel(period.periodStart)}</TableCell>
+                          <TableCell className="text-right">{formatBV(period.leftBV)}</TableCell>
+                          <TableCell className="text-right">{formatBV(period.rightBV)}</TableCell>
+                          <TableCell className="text-right">{formatBV(period.selfBV)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function TeamBusinessStages() {
   const { user } = useAuth();
 
+  // Rank requirements come from the compensation plan in force
+  const { data: plan } = useQuery<{ version: number; definition: CompensationPlanDefinition }>({
+    queryKey: ["/api/compensation-plan/active"],
+    enabled: !!user,
+  });
+
   // Fetch team business metrics
   const { data: metrics, isLoading } = useQuery<TeamBusinessMetrics>({
-    queryKey: ["/api/team/business-metrics"],
+    queryKey: ["/api/team/business-metrics", plan?.version],
     queryFn: async () => {
-      const response = await apiRequest('GET', '/api/team/stats');
-      const data = await response.json();
+      const [statsResponse, bvResponse] = await Promise.all([
+        apiRequest('GET', '/api/team/stats'),
+        apiRequest('GET', '/api/bv-stats'),
+      ]);
+      const stats = await statsResponse.json();
+      const bvStats = await bvResponse.json();
+      const definition = plan!.definition;
       
       // Calculate rank progression based on current data
-      const currentRank = data.currentRank || 'Executive';
-      const teamBV = parseFloat(data.teamBV || '0');
-      const leftBV = parseFloat(data.leftBV || '0');
-      const rightBV = parseFloat(data.rightBV || '0');
+      const currentRank = user?.currentRank || definition.ranks[0].name;
+      const teamBV = parseFloat(bvStats.totalBV || '0');
+      const leftBV = parseFloat(bvStats.leftBV || '0');
+      const rightBV = parseFloat(bvStats.rightBV || '0');
+      const totalDirects = stats.directRecruits || 0;
       
-      // Define rank requirements (you can adjust these based on your MLM plan)
-      const rankRequirements = {
-        'Executive': { teamBV: 0, leftBV: 0, rightBV: 0, directRecruits: 0 },
-        'Bronze Star': { teamBV: 10000, leftBV: 5000, rightBV: 5000, directRecruits: 2 },
-        'Gold Star': { teamBV: 25000, leftBV: 12500, rightBV: 12500, directRecruits: 4 },
-        'Emerald Star': { teamBV: 50000, leftBV: 25000, rightBV: 25000, directRecruits: 6 },
-        'Ruby Star': { teamBV: 100000, leftBV: 50000, rightBV: 50000, directRecruits: 8 },
-        'Diamond': { teamBV: 250000, leftBV: 125000, rightBV: 125000, directRecruits: 10 },
-        'Wise President': { teamBV: 500000, leftBV: 250000, rightBV: 250000, directRecruits: 12 },
-        'President': { teamBV: 1000000, leftBV: 500000, rightBV: 500000, directRecruits: 15 },
-        'Ambassador': { teamBV: 2500000, leftBV: 1250000, rightBV: 1250000, directRecruits: 20 },
-        'Deputy Director': { teamBV: 5000000, leftBV: 2500000, rightBV: 2500000, directRecruits: 25 },
-        'Director': { teamBV: 10000000, leftBV: 5000000, rightBV: 5000000, directRecruits: 30 },
-        'Founder': { teamBV: 25000000, leftBV: 12500000, rightBV: 12500000, directRecruits: 40 }
-      };
-      
-      const ranks = Object.keys(rankRequirements);
-      const currentRankIndex = ranks.indexOf(currentRank);
-      const nextRank = currentRankIndex < ranks.length - 1 ? ranks[currentRankIndex + 1] : currentRank;
-      
-      const nextRankReq = rankRequirements[nextRank as keyof typeof rankRequirements];
+      const nextRankReq = getNextRank(definition, currentRank) || getRankRequirement(definition, currentRank);
       
       // Calculate progress percentage
-      const bvProgress = Math.min((teamBV / parseFloat(nextRankReq.teamBV)) * 100, 100);
-      const leftProgress = Math.min((leftBV / parseFloat(nextRankReq.leftBV)) * 100, 100);
-      const rightProgress = Math.min((rightBV / parseFloat(nextRankReq.rightBV)) * 100, 100);
-      const recruitsProgress = Math.min((data.totalDirects / nextRankReq.directRecruits) * 100, 100);
+      const bvProgress = requirementProgress(teamBV, nextRankReq.teamBV);
+      const leftProgress = requirementProgress(leftBV, nextRankReq.leftBV);
+      const rightProgress = requirementProgress(rightBV, nextRankReq.rightBV);
+      const recruitsProgress = requirementProgress(totalDirects, nextRankReq.directRecruits);
       
       const overallProgress = (bvProgress + leftProgress + rightProgress + recruitsProgress) / 4;
       
       return {
         currentRank,
-        nextRank,
-        teamBV: data.teamBV || '0.00',
-        leftBV: data.leftBV || '0.00',
-        rightBV: data.rightBV || '0.00',
-        totalDirects: data.totalDirects || 0,
-        totalDownline: data.totalDownline || 0,
+        nextRank: nextRankReq.name,
+        teamBV: bvStats.totalBV || '0.00',
+        leftBV: bvStats.leftBV || '0.00',
+        rightBV: bvStats.rightBV || '0.00',
+        totalDirects,
+        totalDownline: stats.totalDownline || 0,
         rankProgress: overallProgress,
-        nextRankRequirements: nextRankReq
+        nextRankRequirements: {
+          teamBV: nextRankReq.teamBV,
+          leftBV: nextRankReq.leftBV,
+          rightBV: nextRankReq.rightBV,
+          directRecruits: nextRankReq.directRecruits,
+        }
       };
     },
-    enabled: !!user,
+    enabled: !!user && !!plan,
   });
 
   if (isLoading) {
@@ -212,11 +377,11 @@ export function TeamBusinessStages() {
                 <span className="text-lg font-bold text-blue-600">₹{metrics.teamBV}</span>
               </div>
               <Progress 
-                value={Math.min((parseFloat(metrics.teamBV) / parseFloat(metrics.nextRankRequirements.teamBV)) * 100, 100)} 
+                value={requirementProgress(parseFloat(metrics.teamBV), metrics.nextRankRequirements.teamBV)} 
                 className="h-2" 
               />
               <p className="text-xs text-gray-500">
-                Target: ₹{metrics.nextRankRequirements.teamBV}
+                Target: ₹{metrics.nextRankRequirements.teamBV.toLocaleString('en-IN')}
               </p>
             </div>
 
@@ -226,11 +391,11 @@ export function TeamBusinessStages() {
                 <span className="text-lg font-bold text-green-600">₹{metrics.leftBV}</span>
               </div>
               <Progress 
-                value={Math.min((parseFloat(metrics.leftBV) / parseFloat(metrics.nextRankRequirements.leftBV)) * 100, 100)} 
+                value={requirementProgress(parseFloat(metrics.leftBV), metrics.nextRankRequirements.leftBV)} 
                 className="h-2" 
               />
               <p className="text-xs text-gray-500">
-                Target: ₹{metrics.nextRankRequirements.leftBV}
+                Target: ₹{metrics.nextRankRequirements.leftBV.toLocaleString('en-IN')}
               </p>
             </div>
 
@@ -240,17 +405,20 @@ export function TeamBusinessStages() {
                 <span className="text-lg font-bold text-teal-600">₹{metrics.rightBV}</span>
               </div>
               <Progress 
-                value={Math.min((parseFloat(metrics.rightBV) / parseFloat(metrics.nextRankRequirements.rightBV)) * 100, 100)} 
+                value={requirementProgress(parseFloat(metrics.rightBV), metrics.nextRankRequirements.rightBV)} 
                 className="h-2" 
               />
               <p className="text-xs text-gray-500">
-                Target: ₹{metrics.nextRankRequirements.rightBV}
+                Target: ₹{metrics.nextRankRequirements.rightBV.toLocaleString('en-IN')}
               </p>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Leg BV for a chosen date range */}
+      <LegVolumeByPeriod />
+
       {/* Next Rank Requirements */}
       <Card>
         <CardHeader>
@@ -266,7 +434,7 @@ export function TeamBusinessStages() {
                 <DollarSign className="h-6 w-6 text-blue-600" />
               </div>
               <h4 className="font-semibold text-blue-900">Team BV</h4>
-              <p className="text-2xl font-bold text-blue-600">₹{metrics.nextRankRequirements.teamBV}</p>
+              <p className="text-2xl font-bold text-blue-600">₹{metrics.nextRankRequirements.teamBV.toLocaleString('en-IN')}</p>
             </div>
 
             <div className="text-center p-4 bg-green-50 rounded-lg">
@@ -274,7 +442,7 @@ export function TeamBusinessStages() {
                 <TrendingUp className="h-6 w-6 text-green-600" />
               </div>
               <h4 className="font-semibold text-green-900">Left Leg BV</h4>
-              <p className="text-2xl font-bold text-green-600">₹{metrics.nextRankRequirements.leftBV}</p>
+              <p className="text-2xl font-bold text-green-600">₹{metrics.nextRankRequirements.leftBV.toLocaleString('en-IN')}</p>
             </div>
 
             <div className="text-center p-4 bg-teal-50 rounded-lg">
@@ -282,7 +450,7 @@ export function TeamBusinessStages() {
                 <TrendingUp className="h-6 w-6 text-teal-600" />
               </div>
               <h4 className="font-semibold text-teal-900">Right Leg BV</h4>
-              <p className="text-2xl font-bold text-teal-600">₹{metrics.nextRankRequirements.rightBV}</p>
+              <p className="text-2xl font-bold text-teal-600">₹{metrics.nextRankRequirements.rightBV.toLocaleString('en-IN')}</p>
             </div>
 
             <div className="text-center p-4 bg-purple-50 rounded-lg">
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { KeyRound, Lock } from "lucide-react";
+
+interface TxnPinStatus {
+  isSet: boolean;
+  updatedAt: string | null;
+  failedAttempts: number;
+  maxAttempts: number;
+  lockedUntil: string | null;
+}
+
+const emptyForm = { password: '', currentPin: '', newPin: '', confirmPin: '' };
+
+export default function TxnPinSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: status, isLoading } = useQuery<TxnPinStatus>({
+    queryKey: ['/api/txn-pin'],
+  });
+
+  const onError = (error: Error) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/txn-pin'] });
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update transaction PIN",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = status?.isSet
+        ? await apiRequest('PUT', '/api/txn-pin', { currentPin: form.currentPin, newPin: form.newPin, confirmPin: form.confirmPin })
+        : await apiRequest('POST', '/api/txn-pin', { password: form.password, newPin: form.newPin, confirmPin: form.confirmPin });
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/txn-pin'] });
+      setForm(emptyForm);
+      toast({ title: "Transaction PIN saved", description: data.message });
+    },
+    onError,
+  });
+
+  const resetRequestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/txn-pin/reset-request');
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      toast({ title: "Check your email", description: data.message });
+    },
+    onError,
+  });
+
+  const pinValid = /^\d{4,6}$/.test(form.newPin) && form.newPin === form.confirmPin;
+  const canSave = pinValid && (status?.isSet ? !!form.currentPin : !!form.password) && !saveMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Transaction PIN
+          {status && (
+            status.isSet
+              ? <Badge className="ml-3 bg-green-100 text-green-800">Set</Badge>
+              : <Badge className="ml-3 bg-yellow-100 text-yellow-800">Not set</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Your PIN confirms withdrawals, fund transfers and bank detail changes.
+          After {status?.maxAttempts ?? 5} wrong entries it is locked for a while.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <p className="text-sm text-gray-600">Loading...</p>
+        ) : (
+          <>
+            {status.lockedUntil && (
+              <div className="flex items-center rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <Lock className="mr-2 h-4 w-4" />
+                Locked until {new Date(status.lockedUntil).toLocaleString('en-IN')}. Reset your PIN by email to unlock it now.
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {status.isSet ? (
+                <div>
+                  <Label htmlFor="txn-pin-current">Current PIN</Label>
+                  <Input
+                    id="txn-pin-current"
+                    type="password"
+                    inputMode="numeric"
+                    maxLength={6}
+                    value={form.currentPin}
+                    onChange={(e) => setForm({ ...form, currentPin: e.target.value })}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="txn-pin-password">Account Password</Label>
+                  <Input
+                    id="txn-pin-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="txn-pin-new">New PIN (4-6 digits)</Label>
+                <Input
+                  id="txn-pin-new"
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={form.newPin}
+                  onChange={(e) => setForm({ ...form, newPin: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="txn-pin-confirm">Confirm New PIN</Label>
+                <Input
+                  id="txn-pin-confirm"
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={form.confirmPin}
+                  onChange={(e) => setForm({ ...form, confirmPin: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => saveMutation.mutate()} disabled={!canSave}>
+                {saveMutation.isPending ? 'Saving...' : status.isSet ? 'Change PIN' : 'Set PIN'}
+              </Button>
+              {status.isSet && (
+                <Button
+                  variant="outline"
+                  onClick={() => resetRequestMutation.mutate()}
+                  disabled={resetRequestMutation.isPending}
+                >
+                  {resetRequestMutation.isPending ? 'Sending...' : 'Forgot PIN? Email reset link'}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
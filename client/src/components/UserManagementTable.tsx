@@ -31,7 +31,7 @@ interface User {
   sponsorUserId?: string; // Sponsor's user ID (e.g., VV0001)
   packageAmount: string;
   cryptoWalletAddress?: string;
-  txnPin?: string;
+  hasTxnPin?: boolean; // PINs are stored hashed and never sent to the client
   password?: string; // Hashed password from backend
   originalPassword?: string; // Original password for admin viewing
   status: 'active' | 'inactive' | 'pending';
@@ -54,7 +54,6 @@ interface UserManagementTableProps {
 
 export default function UserManagementTable({ users, walletData, withdrawalData }: UserManagementTableProps) {
   const [showPasswords, setShowPasswords] = useState<Record<string, boolean>>({});
-  const [showPins, setShowPins] = useState<Record<string, boolean>>({});
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -136,10 +135,6 @@ export default function UserManagementTable({ users, walletData, withdrawalData
     setShowPasswords(prev => ({ ...prev, [userId]: !prev[userId] }));
   };
 
-  const togglePinVisibility = (userId: string) => {
-    setShowPins(prev => ({ ...prev, [userId]: !prev[userId] }));
-  };
-
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -159,7 +154,7 @@ export default function UserManagementTable({ users, walletData, withdrawalData
         user.mobile || '',
         user.email,
         '***', // Password placeholder
-        user.txnPin || '',
+        user.hasTxnPin ? 'Set' : 'Not set',
         user.sponsorUserId || '',
         user.packageAmount,
         user.cryptoWalletAddress || '',
@@ -194,7 +189,6 @@ export default function UserManagementTable({ users, walletData, withdrawalData
         lastName: editingUser.lastName,
         email: editingUser.email,
         mobile: editingUser.mobile,
-        txnPin: editingUser.txnPin,
         packageAmount: editingUser.packageAmount,
         cryptoWalletAddress: editingUser.cryptoWalletAddress,
         status: editingUser.status,
@@ -377,20 +371,7 @@ export default function UserManagementTable({ users, walletData, withdrawalData
 
                       {/* TXN Pin */}
                       <TableCell>
-                        <div className="flex items-center space-x-2">
-                          <span className="font-mono text-sm">
-                            {user.txnPin ? (showPins[user.id] ? user.txnPin : '••••') : '-'}
-                          </span>
-                          {user.txnPin && (
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => togglePinVisibility(user.id)}
-                            >
-                              {showPins[user.id] ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
-                            </Button>
-                          )}
-                        </div>
+                        <span className="text-sm">{user.hasTxnPin ? 'Set' : '-'}</span>
                       </TableCell>
 
                       {/* Sponsor User ID */}
@@ -493,14 +474,6 @@ export default function UserManagementTable({ users, walletData, withdrawalData
                     onChange={(e) => setEditingUser({ ...editingUser, mobile: e.target.value })}
                   />
                 </div>
-                <div>
-                  <Label htmlFor="txnPin">TXN Pin</Label>
-                  <Input
-                    id="txnPin"
-                    value={editingUser.txnPin || ''}
-                    onChange={(e) => setEditingUser({ ...editingUser, txnPin: e.target.value })}
-                  />
-                </div>
                 <div>
                   <Label htmlFor="packageAmount">Package Amount</Label>
                   <Input
@@ -8,7 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Users, UserCheck, Crown, Clock, Plus, Menu, X, Settings, Lock, BarChart3, FileText, Shield, DollarSign, Award, Search, Filter, ChevronDown, ChevronRight, Wallet, TrendingUp, Activity, Mail, RefreshCw, CheckCircle, XCircle, Link2, Copy } from "lucide-react";
+import { Users, UserCheck, Crown, Clock, Plus, Menu, X, Settings, Lock, BarChart3, FileText, Shield, DollarSign, Award, Search, Filter, ChevronDown, ChevronRight, Wallet, TrendingUp, Activity, Receipt, Mail, RefreshCw, CheckCircle, XCircle, Link2, Copy } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -22,6 +22,18 @@ import UserManagement from "@/components/UserManagement";
 import { NotificationCenter } from "@/components/NotificationCenter";
 import { AdminReferralLinkGeneration } from "@/components/AdminStrategicUserCreation";
 import { PendingKYCSection, ApprovedKYCSection, RejectedKYCSection } from "@/components/AdminKYCSections";
+import AdminPayoutCycles from "@/components/AdminPayoutCycles";
+import AdminRewardPools from "@/components/AdminRewardPools";
+import AdminTreeIntegrity from "@/components/AdminTreeIntegrity";
+import AdminCompensationPlans from "@/components/AdminCompensationPlans";
+import AdminWithdrawals from "@/components/AdminWithdrawals";
+import AdminPayoutBatches from "@/components/AdminPayoutBatches";
+import AdminUsdtReconciliation from "@/components/AdminUsdtReconciliation";
+import AdminGstInvoices from "@/components/AdminGstInvoices";
+import AdminReturns from "@/components/AdminReturns";
+import AdminInventory from "@/components/AdminInventory";
+import AdminShipments from "@/components/AdminShipments";
+import AdminCatalog from "@/components/AdminCatalog";
 
 interface UserStats {
   totalUsers: number;
@@ -371,6 +383,14 @@ export default function AdminDashboard() {
                 >
                   Users Activities
                 </button>
+                <button 
+                  onClick={() => setActiveSection('tree-integrity')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'tree-integrity' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Tree Integrity
+                </button>
               </div>
             )}
           </div>
@@ -423,6 +443,22 @@ export default function AdminDashboard() {
                 >
                   Payout Summary
                 </button>
+                <button 
+                  onClick={() => setActiveSection('reward-pools')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'reward-pools' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Reward Pools
+                </button>
+                <button 
+                  onClick={() => setActiveSection('compensation-plan')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'compensation-plan' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Compensation Plan
+                </button>
                 <button 
                   onClick={() => setActiveSection('holiday-reward')}
                   className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
@@ -517,6 +553,73 @@ export default function AdminDashboard() {
                 >
                   Rejected Withdraw Requests
                 </button>
+                <button 
+                  onClick={() => setActiveSection('usdt-withdraw-reconciliation')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'usdt-withdraw-reconciliation' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  USDT Payout Reconciliation
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Sales Menu */}
+          <div className="space-y-1">
+            <button 
+              onClick={() => toggleMenu('sales')}
+              className="flex items-center w-full px-4 py-3 text-left rounded-lg hover:bg-white/10 transition-colors group text-white/90"
+            >
+              <Receipt className="mr-3 h-5 w-5" />
+              <span className="font-medium flex-1">Sales</span>
+              {expandedMenus.includes('sales') ? 
+                <ChevronDown className="h-4 w-4" /> : 
+                <ChevronRight className="h-4 w-4" />
+              }
+            </button>
+            {expandedMenus.includes('sales') && (
+              <div className="ml-8 space-y-1">
+                <button 
+                  onClick={() => setActiveSection('catalog')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'catalog' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Product Catalog
+                </button>
+                <button 
+                  onClick={() => setActiveSection('gst-invoices')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'gst-invoices' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  GST Invoices
+                </button>
+                <button 
+                  onClick={() => setActiveSection('returns')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'returns' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Returns & Refunds
+                </button>
+                <button 
+                  onClick={() => setActiveSection('inventory')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'inventory' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Inventory
+                </button>
+                <button 
+                  onClick={() => setActiveSection('shipments')}
+                  className={`block w-full px-4 py-2 text-left text-sm rounded hover:bg-white/10 ${
+                    activeSection === 'shipments' ? 'text-yellow-300' : 'text-white/80'
+                  }`}
+                >
+                  Shipments
+                </button>
               </div>
             )}
           </div>
@@ -614,6 +717,15 @@ export default function AdminDashboard() {
                   {activeSection.includes('kyc') && 'KYC Management'}
                   {activeSection.includes('withdraw') && 'Withdrawal Management'}
                   {activeSection.includes('income') && 'Income Reports'}
+                  {activeSection === 'payout-summary' && 'Payout Cycles'}
+                  {activeSection === 'reward-pools' && 'Reward Pools'}
+                  {activeSection === 'tree-integrity' && 'Tree Integrity'}
+                  {activeSection === 'compensation-plan' && 'Compensation Plan'}
+                  {activeSection === 'gst-invoices' && 'GST Invoices'}
+                  {activeSection === 'returns' && 'Returns & Refunds'}
+                  {activeSection === 'inventory' && 'Inventory'}
+                  {activeSection === 'shipments' && 'Shipments'}
+                  {activeSection === 'catalog' && 'Product Catalog'}
                   {activeSection.includes('fund') && 'Fund Management'}
                   {(activeSection === 'users' || activeSection === 'kyc' || activeSection === 'withdrawals' || activeSection === 'reports' || activeSection === 'franchise') && 'Legacy Section'}
                 </h1>
@@ -623,6 +735,15 @@ export default function AdminDashboard() {
                   {activeSection.includes('kyc') && 'Review and approve KYC documents'}
                   {activeSection.includes('withdraw') && 'Process withdrawal requests and approvals'}
                   {activeSection.includes('income') && 'View detailed income reports by category'}
+                  {activeSection === 'payout-summary' && 'Open, preview, close and lock commission payout cycles'}
+                  {activeSection === 'reward-pools' && 'Monthly car, travel, leadership, house and millionaire club pools'}
+                  {activeSection === 'tree-integrity' && 'Find and repair inconsistent binary tree placements'}
+                  {activeSection === 'compensation-plan' && 'Publish versioned rank, income and franchise rules'}
+                  {activeSection === 'gst-invoices' && 'Tax invoices and GSTR-1 sales exports'}
+                  {activeSection === 'returns' && 'Review return requests and refund purchases'}
+                  {activeSection === 'inventory' && 'Manage stock points and stock levels'}
+                  {activeSection === 'shipments' && 'Track deliveries and update shipment status'}
+                  {activeSection === 'catalog' && 'Manage products, categories, images, variants and prices'}
                   {activeSection.includes('fund') && 'Manage fund transfers and wallet operations'}
                 </p>
               </div>
@@ -968,201 +1089,18 @@ export default function AdminDashboard() {
 
 
           {/* Withdrawal Management Sections */}
-          {activeSection === 'pending-withdraw' && (
-            <Card className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
-                  <DollarSign className="mr-2 h-5 w-5 text-volt-light" />
-                  Pending Withdrawal Requests
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <table className="w-full border-collapse">
-                    <thead>
-                      <tr className="border-b">
-                        <th className="text-left p-3 font-medium text-gray-700">User</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Type</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Amount</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Details</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Date</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      <tr className="border-b hover:bg-gray-50">
-                        <td className="p-3">
-                          <div>
-                            <p className="font-medium">John Doe</p>
-                            <p className="text-sm text-gray-500">john.doe@example.com</p>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">
-                            Bank Transfer
-                          </span>
-                        </td>
-                        <td className="p-3 font-medium">₹5,000.00</td>
-                        <td className="p-3">
-                          <div className="text-sm">
-                            <p>HDFC Bank</p>
-                            <p className="text-gray-500">****1234</p>
-                          </div>
-                        </td>
-                        <td className="p-3 text-sm text-gray-500">Aug 25, 2025</td>
-                        <td className="p-3">
-                          <div className="flex space-x-2">
-                            <Button size="sm" className="volt-gradient text-white">Approve</Button>
-                            <Button size="sm" variant="outline" className="text-red-600 border-red-200 hover:bg-red-50">Reject</Button>
-                          </div>
-                        </td>
-                      </tr>
-                      <tr className="border-b hover:bg-gray-50">
-                        <td className="p-3">
-                          <div>
-                            <p className="font-medium">Jane Smith</p>
-                            <p className="text-sm text-gray-500">jane.smith@example.com</p>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs font-medium">
-                            USDT (TRC20)
-                          </span>
-                        </td>
-                        <td className="p-3 font-medium">$100.00</td>
-                        <td className="p-3">
-                          <div className="text-sm">
-                            <p className="font-mono">TBiQ7...4D2a</p>
-                            <p className="text-gray-500">TRC20 Network</p>
-                          </div>
-                        </td>
-                        <td className="p-3 text-sm text-gray-500">Aug 25, 2025</td>
-                        <td className="p-3">
-                          <div className="flex space-x-2">
-                            <Button size="sm" className="volt-gradient text-white">Approve</Button>
-                            <Button size="sm" variant="outline" className="text-red-600 border-red-200 hover:bg-red-50">Reject</Button>
-                          </div>
-                        </td>
-                      </tr>
-                    </tbody>
-                  </table>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {activeSection === 'pending-withdraw' && <AdminWithdrawals view="pending" />}
 
           {activeSection === 'approved-withdraw' && (
-            <Card className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
-                  <CheckCircle className="mr-2 h-5 w-5 text-green-600" />
-                  Approved Withdrawal Requests
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <table className="w-full border-collapse">
-                    <thead>
-                      <tr className="border-b">
-                        <th className="text-left p-3 font-medium text-gray-700">User</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Type</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Amount</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Details</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Status</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      <tr className="border-b hover:bg-gray-50">
-                        <td className="p-3">
-                          <div>
-                            <p className="font-medium">Alice Johnson</p>
-                            <p className="text-sm text-gray-500">alice.j@example.com</p>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs font-medium">
-                            USDT (BEP20)
-                          </span>
-                        </td>
-                        <td className="p-3 font-medium">$250.00</td>
-                        <td className="p-3">
-                          <div className="text-sm">
-                            <p className="font-mono">0x7b2...9c4f</p>
-                            <p className="text-gray-500">BEP20 Network</p>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <span className="px-2 py-1 bg-green-100 text-green-700 rounded-full text-xs font-medium">
-                            Processed
-                          </span>
-                        </td>
-                        <td className="p-3">
-                          <div className="flex space-x-2">
-                            <Button size="sm" variant="outline" className="text-blue-600">View Details</Button>
-                            <Button size="sm" variant="outline" className="text-gray-600">Transaction ID</Button>
-                          </div>
-                        </td>
-                      </tr>
-                    </tbody>
-                  </table>
-                </div>
-              </CardContent>
-            </Card>
+            <div className="space-y-6">
+              <AdminWithdrawals view="approved" />
+              <AdminPayoutBatches />
+            </div>
           )}
 
-          {activeSection === 'rejected-withdraw' && (
-            <Card className="hover:shadow-lg transition-shadow">
-              <CardHeader>
-                <CardTitle className="text-lg font-medium text-gray-800 flex items-center">
-                  <XCircle className="mr-2 h-5 w-5 text-red-600" />
-                  Rejected Withdrawal Requests
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <table className="w-full border-collapse">
-                    <thead>
-                      <tr className="border-b">
-                        <th className="text-left p-3 font-medium text-gray-700">User</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Type</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Amount</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Reason</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Date</th>
-                        <th className="text-left p-3 font-medium text-gray-700">Actions</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      <tr className="border-b hover:bg-gray-50">
-                        <td className="p-3">
-                          <div>
-                            <p className="font-medium">Bob Wilson</p>
-                            <p className="text-sm text-gray-500">bob.w@example.com</p>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-medium">
-                            Bank Transfer
-                          </span>
-                        </td>
-                        <td className="p-3 font-medium">₹10,000.00</td>
-                        <td className="p-3">
-                          <p className="text-sm text-red-600">Insufficient KYC documentation</p>
-                        </td>
-                        <td className="p-3 text-sm text-gray-500">Aug 24, 2025</td>
-                        <td className="p-3">
-                          <div className="flex space-x-2">
-                            <Button size="sm" variant="outline" className="text-blue-600">Reconsider</Button>
-                            <Button size="sm" variant="outline" className="text-gray-600">Contact User</Button>
-                          </div>
-                        </td>
-                      </tr>
-                    </tbody>
-                  </table>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {activeSection === 'rejected-withdraw' && <AdminWithdrawals view="rejected" />}
+
+          {activeSection === 'usdt-withdraw-reconciliation' && <AdminUsdtReconciliation />}
 
           {/* KYC Management Sections */}
           {activeSection === 'pending-kyc' && (
@@ -1207,6 +1145,28 @@ export default function AdminDashboard() {
             </Card>
           )}
 
+          {/* Payout Cycles */}
+          {activeSection === 'payout-summary' && <AdminPayoutCycles />}
+
+          {/* Reward Pools */}
+          {activeSection === 'reward-pools' && <AdminRewardPools />}
+
+          {/* Tree Integrity */}
+          {activeSection === 'tree-integrity' && <AdminTreeIntegrity />}
+
+          {/* Compensation Plan */}
+          {activeSection === 'compensation-plan' && <AdminCompensationPlans />}
+
+          {activeSection === 'gst-invoices' && <AdminGstInvoices />}
+
+          {activeSection === 'returns' && <AdminReturns />}
+
+          {activeSection === 'inventory' && <AdminInventory />}
+
+          {activeSection === 'shipments' && <AdminShipments />}
+
+          {activeSection === 'catalog' && <AdminCatalog />}
+
           {/* Enhanced Section Content for other sections */}
           {(activeSection === 'paid-members' || 
             activeSection === 'today-joinings' || 
@@ -1215,7 +1175,6 @@ export default function AdminDashboard() {
             activeSection === 'direct-income' ||
             activeSection === 'roi-income' ||
             activeSection === 'salary-income' ||
-            activeSection === 'payout-summary' ||
             activeSection === 'holiday-reward' ||
             activeSection === 'send-fund' ||
             activeSection === 'fund-history' ||
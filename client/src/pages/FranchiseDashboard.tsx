@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Store, Package, TrendingUp, Users, DollarSign, BarChart3, Settings, Menu, X } from "lucide-react";
 import { Link } from "wouter";
 import VoltverashopLogo from "@/components/VoltverashopLogo";
+import FranchiseInventory from "@/components/FranchiseInventory";
 
 export default function FranchiseDashboard() {
   const { user, isAuthenticated, isLoading } = useAuth();
@@ -266,11 +267,7 @@ export default function FranchiseDashboard() {
                   <p className="text-white/70">Manage your franchise inventory</p>
                 </div>
               </div>
-              <Card className="bg-black/20 backdrop-blur-sm border-white/10">
-                <CardContent className="p-6">
-                  <p className="text-white/70">Stock management features coming soon...</p>
-                </CardContent>
-              </Card>
+              <FranchiseInventory />
             </div>
           )}
 
@@ -0,0 +1,482 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ShoppingCart, Minus, Plus, Trash2, CreditCard, FileText } from "lucide-react";
+import { format } from "date-fns";
+import type { Order, StockPoint } from "@shared/schema";
+
+interface PickupPoint extends StockPoint {
+  match: 'pincode' | 'city' | 'state' | null;
+}
+
+// Orders without a pickup point ship from the main warehouse
+const HOME_DELIVERY = 'home';
+
+interface CartLine {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  imageUrl: string | null;
+  unitPrice: string;
+  unitBV: string;
+  gstRate: string;
+  quantity: number;
+  amount: string;
+  taxAmount: string;
+  bv: string;
+  available: boolean;
+}
+
+interface CartSummary {
+  items: CartLine[];
+  subtotal: string;
+  taxAmount: string;
+  totalAmount: string;
+  totalBV: string;
+}
+
+type PaymentMethod = 'wallet' | 'gateway';
+
+const formatPrice = (price: string | null | undefined) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(parseFloat(price || '0'));
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'paid': return 'bg-green-100 text-green-800';
+    case 'pending': return 'bg-yellow-100 text-yellow-800';
+    case 'failed': return 'bg-red-100 text-red-800';
+    case 'refunded': return 'bg-gray-100 text-gray-800';
+    case 'cancelled': return 'bg-red-100 text-red-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export default function MyCart() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('wallet');
+  const [txnPin, setTxnPin] = useState('');
+  const [stockPointId, setStockPointId] = useState(HOME_DELIVERY);
+
+  const { data: cart, isLoading } = useQuery<CartSummary>({
+    queryKey: ['/api/cart'],
+  });
+
+  const { data: orders = [] } = useQuery<Order[]>({
+    queryKey: ['/api/orders'],
+  });
+
+  const { data: pickupPoints = [] } = useQuery<PickupPoint[]>({
+    queryKey: ['/api/stock-points/nearby'],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/purchases'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+  };
+
+  const onError = (error: Error) => {
+    setTxnPin('');
+    refresh();
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const onPaymentResult = (data: { order: Order; payment?: unknown }) => {
+    setTxnPin('');
+    refresh();
+    toast({
+      title: data.payment ? "Awaiting payment" : "Order paid",
+      description: data.payment
+        ? `Order ${data.order.orderNumber} will be confirmed once the payment gateway reports the payment.`
+        : `Order ${data.order.orderNumber} has been paid from your wallet.`,
+    });
+  };
+
+  // Lines are keyed by product and, for variants, the variant
+  const lineUrl = (line: CartLine) =>
+    `/api/cart/items/${line.productId}${line.variantId ? `?variantId=${line.variantId}` : ''}`;
+
+  const updateQuantityMutation = useMutation({
+    mutationFn: async ({ line, quantity }: { line: CartLine; quantity: number }) => {
+      const response = await apiRequest('PATCH', lineUrl(line), { quantity });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/cart'] }),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (line: CartLine) => {
+      const response = await apiRequest('DELETE', lineUrl(line));
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/cart'] }),
+    onError,
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/orders/checkout', {
+        deliveryAddress,
+        paymentMethod,
+        txnPin: paymentMethod === 'wallet' ? txnPin : undefined,
+        stockPointId: stockPointId === HOME_DELIVERY ? undefined : stockPointId,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setDeliveryAddress('');
+      onPaymentResult(data);
+    },
+    onError,
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async (order: Order) => {
+      const response = await apiRequest('POST', `/api/orders/${order.id}/pay`, {
+        paymentMethod,
+        txnPin: paymentMethod === 'wallet' ? txnPin : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: onPaymentResult,
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (order: Order) => {
+      const response = await apiRequest('POST', `/api/orders/${order.id}/cancel`);
+      return response.json();
+    },
+    onSuccess: (order: Order) => {
+      refresh();
+      toast({ title: `Order ${order.orderNumber} cancelled` });
+    },
+    onError,
+  });
+
+  // Development only: stands in for the gateway's webhook
+  const simulateMutation = useMutation({
+    mutationFn: async ({ order, outcome }: { order: Order; outcome: 'success' | 'failure' }) => {
+      const response = await apiRequest('POST', `/api/payments/mock/${order.id}/simulate`, { outcome });
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      refresh();
+      toast({ title: `Order ${data.order.orderNumber} is ${data.order.status}` });
+    },
+    onError,
+  });
+
+  const items = cart?.items || [];
+  const needsPin = paymentMethod === 'wallet' && !txnPin;
+  const canCheckout = items.length > 0 && deliveryAddress.trim().length >= 10 && !needsPin && !checkoutMutation.isPending;
+
+  return (
+    <div className="container mx-auto p-6" data-testid="my-cart">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2" data-testid="cart-title">
+          My Cart
+        </h1>
+        <p className="text-gray-600">
+          Review your cart, check out and track your order payments
+        </p>
+      </div>
+
+      {/* Cart */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <ShoppingCart className="mr-2 h-5 w-5 text-volt-light" />
+            Cart
+          </CardTitle>
+          <CardDescription>
+            BV and income are credited once an order is paid
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-gray-600 text-center py-6">Loading cart...</p>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">Your cart is empty. Add products from the catalog.</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Unit Price</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>GST</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>BV</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((line) => (
+                    <TableRow key={`${line.productId}-${line.variantId}`} data-testid={`cart-line-${line.productId}`}>
+                      <TableCell>
+                        <div className="font-medium">{line.name}</div>
+                        {!line.available && <Badge className="bg-red-100 text-red-800">Unavailable</Badge>}
+                      </TableCell>
+                      <TableCell>{formatPrice(line.unitPrice)}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateQuantityMutation.mutate({ line, quantity: line.quantity - 1 })}
+                            disabled={updateQuantityMutation.isPending}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <span className="w-6 text-center">{line.quantity}</span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => updateQuantityMutation.mutate({ line, quantity: line.quantity + 1 })}
+                            disabled={updateQuantityMutation.isPending}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatPrice(line.taxAmount)} ({line.gstRate}%)</TableCell>
+                      <TableCell>{formatPrice(line.amount)}</TableCell>
+                      <TableCell>{parseFloat(line.bv).toLocaleString()} BV</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMutation.mutate(line)}
+                          disabled={removeMutation.isPending}
+                          data-testid={`remove-cart-line-${line.productId}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="bg-blue-50 p-4 rounded-lg text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>{formatPrice(cart?.subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>GST:</span>
+                  <span>{formatPrice(cart?.taxAmount)}</span>
+                </div>
+                <div className="flex justify-between font-medium text-lg">
+                  <span>Total:</span>
+                  <span className="text-green-600" data-testid="cart-total">{formatPrice(cart?.totalAmount)}</span>
+                </div>
+                <div className="flex justify-between text-blue-600 font-medium">
+                  <span>Total BV:</span>
+                  <span>{parseFloat(cart?.totalBV || '0').toLocaleString()} BV</span>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="checkout-address">Delivery Address *</Label>
+                <Textarea
+                  id="checkout-address"
+                  placeholder="Enter complete delivery address..."
+                  value={deliveryAddress}
+                  onChange={(e) => setDeliveryAddress(e.target.value)}
+                  data-testid="checkout-address"
+                />
+              </div>
+
+              {pickupPoints.length > 0 && (
+                <div>
+                  <Label>Fulfilment</Label>
+                  <Select value={stockPointId} onValueChange={setStockPointId}>
+                    <SelectTrigger data-testid="checkout-stock-point">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={HOME_DELIVERY}>Main warehouse (home delivery)</SelectItem>
+                      {pickupPoints.map(point => (
+                        <SelectItem key={point.id} value={point.id}>
+                          Pick up at {point.name}{point.city ? `, ${point.city}` : ''}{point.match ? ` (same ${point.match})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Payment Method</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger data-testid="checkout-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="wallet">Wallet Balance</SelectItem>
+                  <SelectItem value="gateway">Online Payment (UPI / Card / Net Banking)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {paymentMethod === 'wallet' && (
+              <div>
+                <Label htmlFor="checkout-pin">Transaction PIN</Label>
+                <Input
+                  id="checkout-pin"
+                  type="password"
+                  inputMode="numeric"
+                  maxLength={6}
+                  autoComplete="off"
+                  value={txnPin}
+                  onChange={(e) => setTxnPin(e.target.value)}
+                  data-testid="checkout-pin"
+                />
+              </div>
+            )}
+          </div>
+
+          {items.length > 0 && (
+            <Button
+              className="volt-gradient text-white"
+              onClick={() => checkoutMutation.mutate()}
+              disabled={!canCheckout}
+              data-testid="button-checkout"
+            >
+              <CreditCard className="mr-2 h-4 w-4" />
+              {checkoutMutation.isPending ? 'Placing order...' : `Checkout ${formatPrice(cart?.totalAmount)}`}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Orders */}
+      <Card>
+        <CardHeader>
+          <CardTitle>My Orders</CardTitle>
+          <CardDescription>
+            Pending and failed orders can be paid again with the payment method selected above
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">No orders yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>BV</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id} data-testid={`order-row-${order.id}`}>
+                    <TableCell className="font-mono text-sm">{order.orderNumber}</TableCell>
+                    <TableCell>{order.createdAt ? format(new Date(order.createdAt), 'dd MMM yyyy, HH:mm') : '-'}</TableCell>
+                    <TableCell>{formatPrice(order.totalAmount)}</TableCell>
+                    <TableCell>{parseFloat(order.totalBV).toLocaleString()} BV</TableCell>
+                    <TableCell className="capitalize">{order.paymentMethod}</TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(order.status)}>{order.status}</Badge>
+                      {order.failureReason && order.status === 'failed' && (
+                        <div className="text-xs text-red-600 mt-1">{order.failureReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-2">
+                        {(order.status === 'pending' || order.status === 'failed') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => payMutation.mutate(order)}
+                            disabled={needsPin || payMutation.isPending}
+                            data-testid={`button-pay-order-${order.id}`}
+                          >
+                            {order.status === 'failed' ? 'Retry Payment' : 'Pay'}
+                          </Button>
+                        )}
+                        {(order.status === 'pending' || order.status === 'failed') && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => cancelMutation.mutate(order)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-order-${order.id}`}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                        {(order.status === 'paid' || order.status === 'refunded') && (
+                          <Button asChild size="sm" variant="outline">
+                            <a href={`/api/orders/${order.id}/invoice/pdf`} data-testid={`button-invoice-${order.id}`}>
+                              <FileText className="mr-1 h-3 w-3" />
+                              Invoice
+                            </a>
+                          </Button>
+                        )}
+                        {import.meta.env.DEV && order.status === 'pending' && order.gatewayProvider === 'mock' && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => simulateMutation.mutate({ order, outcome: 'success' })}
+                              disabled={simulateMutation.isPending}
+                            >
+                              Simulate success
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => simulateMutation.mutate({ order, outcome: 'failure' })}
+                              disabled={simulateMutation.isPending}
+                            >
+                              Simulate failure
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Package, Calendar, Truck, IndianRupee, Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Package, Calendar, Truck, IndianRupee, Star, FileText, Undo2 } from "lucide-react";
 import { format } from "date-fns";
+import type { PurchaseReturn, ShipmentEvent } from "@shared/schema";
 
 interface Purchase {
   id: string;
@@ -15,22 +23,38 @@ interface Purchase {
   paymentMethod: string;
   paymentStatus: string;
   transactionId?: string;
+  orderId?: string | null;
   deliveryAddress: string;
   deliveryStatus: string;
+  courier?: string | null;
   trackingId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+interface OrderTracking {
+  orderNumber: string;
+  deliveryStatus: string;
+  courier: string | null;
+  trackingId: string | null;
+  deliveredAt: string | null;
+  events: ShipmentEvent[];
+}
+
 const getStatusColor = (status: string) => {
   switch (status.toLowerCase()) {
-    case 'completed': return 'bg-green-100 text-green-800';
+    case 'paid': return 'bg-green-100 text-green-800';
+    case 'refunded': return 'bg-gray-100 text-gray-800';
     case 'pending': return 'bg-yellow-100 text-yellow-800';
     case 'failed': return 'bg-red-100 text-red-800';
     case 'processing': return 'bg-blue-100 text-blue-800';
     case 'delivered': return 'bg-green-100 text-green-800';
     case 'shipped': return 'bg-blue-100 text-blue-800';
+    case 'packed': return 'bg-purple-100 text-purple-800';
     case 'cancelled': return 'bg-red-100 text-red-800';
+    case 'requested': return 'bg-yellow-100 text-yellow-800';
+    case 'approved': return 'bg-blue-100 text-blue-800';
+    case 'rejected': return 'bg-red-100 text-red-800';
     default: return 'bg-gray-100 text-gray-800';
   }
 };
@@ -44,11 +68,52 @@ const formatPrice = (price: string) => {
 };
 
 export default function MyPurchases() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [returning, setReturning] = useState<Purchase | null>(null);
+  const [returnReason, setReturnReason] = useState('');
+  const [trackingOrderId, setTrackingOrderId] = useState<string | null>(null);
+
   const { data: purchases = [], isLoading } = useQuery<Purchase[]>({
     queryKey: ['/api/purchases'],
     enabled: true,
   });
 
+  const { data: returns = [] } = useQuery<PurchaseReturn[]>({
+    queryKey: ['/api/returns'],
+  });
+
+  const { data: tracking, isLoading: trackingLoading } = useQuery<OrderTracking>({
+    queryKey: [`/api/orders/${trackingOrderId}/tracking`],
+    enabled: !!trackingOrderId,
+  });
+
+  // Latest return per purchase (newest first from the API)
+  const returnFor = (purchaseId: string) => returns.find(r => r.purchaseId === purchaseId);
+
+  const returnMutation = useMutation({
+    mutationFn: async ({ purchaseId, reason }: { purchaseId: string; reason: string }) => {
+      const response = await apiRequest('POST', `/api/purchases/${purchaseId}/return`, { reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/returns'] });
+      setReturning(null);
+      setReturnReason('');
+      toast({
+        title: "Return requested",
+        description: "We will review your return and refund you once it is approved.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request return",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="container mx-auto p-6">
@@ -125,13 +190,13 @@ export default function MyPurchases() {
 
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-600">Completed Orders</CardTitle>
+            <CardTitle className="text-sm font-medium text-gray-600">Paid Orders</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-center gap-2">
               <Truck className="h-5 w-5 text-purple-600" />
               <span className="text-2xl font-bold">
-                {purchases.filter(p => p.paymentStatus === 'completed').length}
+                {purchases.filter(p => p.paymentStatus === 'paid').length}
               </span>
             </div>
           </CardContent>
@@ -201,18 +266,60 @@ export default function MyPurchases() {
                       </Badge>
                       {purchase.trackingId && (
                         <div className="text-xs text-gray-500 mt-1">
-                          Track: {purchase.trackingId}
+                          {purchase.courier ? `${purchase.courier}: ` : 'Track: '}{purchase.trackingId}
                         </div>
                       )}
+                      {purchase.orderId && purchase.deliveryStatus !== 'pending' && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-6 px-0 text-xs"
+                          onClick={() => setTrackingOrderId(purchase.orderId!)}
+                          data-testid={`button-track-${purchase.id}`}
+                        >
+                          <Truck className="mr-1 h-3 w-3" />
+                          Track
+                        </Button>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex flex-col gap-1">
                         <Badge 
-                          variant={purchase.paymentStatus === 'completed' ? 'default' : 'secondary'}
+                          variant={purchase.paymentStatus === 'paid' ? 'default' : 'secondary'}
                           className="text-xs"
                         >
-                          {purchase.paymentStatus === 'completed' ? 'Active' : 'Pending'}
+                          {purchase.paymentStatus === 'paid' ? 'Active' : 'Pending'}
                         </Badge>
+                        {purchase.orderId && (purchase.paymentStatus === 'paid' || purchase.paymentStatus === 'refunded') && (
+                          <Button asChild variant="outline" size="sm" className="h-7 text-xs">
+                            <a href={`/api/orders/${purchase.orderId}/invoice/pdf`} data-testid={`invoice-download-${purchase.id}`}>
+                              <FileText className="mr-1 h-3 w-3" />
+                              Invoice
+                            </a>
+                          </Button>
+                        )}
+                        {(() => {
+                          const request = returnFor(purchase.id);
+                          if (request && request.status !== 'rejected') {
+                            return (
+                              <Badge className={`${getStatusColor(request.status)} text-xs`} data-testid={`return-status-${purchase.id}`}>
+                                Return {request.status}
+                              </Badge>
+                            );
+                          }
+                          return purchase.paymentStatus === 'paid' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                              onClick={() => setReturning(purchase)}
+                              data-testid={`button-return-${purchase.id}`}
+                            >
+                              <Undo2 className="mr-1 h-3 w-3" />
+                              {request ? 'Return Again' : 'Return'}
+                            </Button>
+                          );
+                        })()}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -232,6 +339,71 @@ export default function MyPurchases() {
           </CardContent>
         </Card>
       )}
+
+      {/* Shipment Tracking Dialog */}
+      <Dialog open={!!trackingOrderId} onOpenChange={(open) => !open && setTrackingOrderId(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Track Order {tracking?.orderNumber}</DialogTitle>
+            {tracking?.trackingId && (
+              <DialogDescription>
+                {tracking.courier} tracking number {tracking.trackingId}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {trackingLoading || !tracking ? (
+            <p className="text-sm text-gray-600">Loading...</p>
+          ) : (
+            <ol className="space-y-3" data-testid="tracking-history">
+              {tracking.events.map(event => (
+                <li key={event.id} className="flex items-start gap-3">
+                  <Badge className={getStatusColor(event.status)}>{event.status}</Badge>
+                  <div className="text-sm">
+                    <div className="text-gray-900">
+                      {event.createdAt && format(new Date(event.createdAt), 'MMM dd, yyyy HH:mm')}
+                    </div>
+                    {event.trackingId && <div className="text-gray-500">{event.courier}: {event.trackingId}</div>}
+                    {event.note && <div className="text-gray-500">{event.note}</div>}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Return Request Dialog */}
+      <Dialog open={!!returning} onOpenChange={(open) => !open && setReturning(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Return Purchase</DialogTitle>
+            <DialogDescription>
+              Returns are accepted within 7 days of payment. Once approved, the amount is refunded
+              and the BV and income earned on this purchase are reversed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason</Label>
+            <Textarea
+              id="return-reason"
+              value={returnReason}
+              onChange={(e) => setReturnReason(e.target.value)}
+              placeholder="Tell us why you are returning this product"
+              data-testid="input-return-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturning(null)}>Cancel</Button>
+            <Button
+              onClick={() => returning && returnMutation.mutate({ purchaseId: returning.id, reason: returnReason })}
+              disabled={returnReason.trim().length < 5 || returnMutation.isPending}
+              data-testid="button-submit-return"
+            >
+              {returnMutation.isPending ? 'Submitting...' : 'Request Return'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
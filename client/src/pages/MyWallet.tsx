@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Wallet, TrendingUp, ArrowDownLeft, ArrowUpRight, Send, UserCheck } from "lucide-react";
+import { format } from "date-fns";
+import type { Transaction, WalletBalance } from "@shared/schema";
+
+interface TransferRecipient {
+  id: string;
+  userId: string | null;
+  name: string;
+  relation: 'upline' | 'downline';
+}
+
+const formatPrice = (price: string | null | undefined) => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 2,
+  }).format(parseFloat(price || '0'));
+};
+
+const formatType = (type: string) => type.replace(/_/g, ' ');
+
+export default function MyWallet() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [recipientUserId, setRecipientUserId] = useState('');
+  const [recipient, setRecipient] = useState<TransferRecipient | null>(null);
+  const [amount, setAmount] = useState('');
+  const [txnPin, setTxnPin] = useState('');
+  const [note, setNote] = useState('');
+
+  const { data: wallet } = useQuery<WalletBalance>({
+    queryKey: ['/api/wallet'],
+  });
+
+  const { data: transactions = [], isLoading } = useQuery<Transaction[]>({
+    queryKey: ['/api/transactions'],
+  });
+
+  const lookupMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('GET', `/api/wallet/transfer/recipient?userId=${encodeURIComponent(userId)}`);
+      return response.json() as Promise<TransferRecipient>;
+    },
+    onSuccess: (data) => setRecipient(data),
+    onError: (error: Error) => {
+      setRecipient(null);
+      toast({
+        title: "Recipient not available",
+        description: error.message || "Failed to find recipient",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/wallet/transfer', {
+        recipientUserId: recipient?.userId,
+        amount,
+        txnPin,
+        note: note.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      toast({
+        title: "Transfer complete",
+        description: `${formatPrice(amount)} sent to ${recipient?.name}`,
+      });
+      setRecipientUserId('');
+      setRecipient(null);
+      setAmount('');
+      setTxnPin('');
+      setNote('');
+    },
+    onError: (error: Error) => {
+      setTxnPin('');
+      toast({
+        title: "Error",
+        description: error.message || "Failed to transfer funds",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canTransfer = !!recipient && parseFloat(amount) > 0 && !!txnPin && !transferMutation.isPending;
+
+  return (
+    <div className="container mx-auto p-6" data-testid="my-wallet">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2" data-testid="wallet-title">
+          My Wallet
+        </h1>
+        <p className="text-gray-600">
+          Your balance, fund transfers and transaction history
+        </p>
+      </div>
+
+      {/* Balance Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Available Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <Wallet className="h-5 w-5 text-green-600" />
+              <span className="text-2xl font-bold" data-testid="wallet-balance">{formatPrice(wallet?.balance)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Earnings</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-blue-600" />
+              <span className="text-2xl font-bold">{formatPrice(wallet?.totalEarnings)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Withdrawals</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <ArrowUpRight className="h-5 w-5 text-purple-600" />
+              <span className="text-2xl font-bold">{formatPrice(wallet?.totalWithdrawals)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Fund Transfer */}
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Send className="mr-2 h-5 w-5 text-volt-light" />
+            Transfer Funds
+          </CardTitle>
+          <CardDescription>
+            Send funds to a member in your upline or downline. Transfers are confirmed with your transaction PIN.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[200px]">
+              <Label htmlFor="transfer-recipient">Recipient Member ID</Label>
+              <Input
+                id="transfer-recipient"
+                value={recipientUserId}
+                onChange={(e) => {
+                  setRecipientUserId(e.target.value);
+                  setRecipient(null);
+                }}
+                placeholder="e.g. VV0012"
+                data-testid="input-transfer-recipient"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => lookupMutation.mutate(recipientUserId.trim())}
+              disabled={!recipientUserId.trim() || lookupMutation.isPending}
+              data-testid="button-verify-recipient"
+            >
+              {lookupMutation.isPending ? 'Checking...' : 'Verify'}
+            </Button>
+          </div>
+
+          {recipient && (
+            <div className="flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 p-3 text-sm" data-testid="transfer-recipient-details">
+              <UserCheck className="h-4 w-4 text-green-600" />
+              <span className="font-medium">{recipient.name}</span>
+              <span className="text-gray-500">({recipient.userId})</span>
+              <Badge className="bg-blue-100 text-blue-800 capitalize">{recipient.relation}</Badge>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="transfer-amount">Amount (₹)</Label>
+              <Input
+                id="transfer-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-transfer-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="transfer-pin">Transaction PIN</Label>
+              <Input
+                id="transfer-pin"
+                type="password"
+                autoComplete="off"
+                value={txnPin}
+                onChange={(e) => setTxnPin(e.target.value)}
+                data-testid="input-transfer-pin"
+              />
+            </div>
+            <div>
+              <Label htmlFor="transfer-note">Note (optional)</Label>
+              <Input
+                id="transfer-note"
+                maxLength={200}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                data-testid="input-transfer-note"
+              />
+            </div>
+          </div>
+
+          <Button
+            className="volt-gradient text-white"
+            onClick={() => transferMutation.mutate()}
+            disabled={!canTransfer}
+            data-testid="button-transfer"
+          >
+            {transferMutation.isPending ? 'Transferring...' : 'Transfer'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Transaction History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Transaction History</CardTitle>
+          <CardDescription>
+            Income, withdrawals and transfers on your wallet
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-600 text-center py-6">Loading transactions...</p>
+          ) : transactions.length === 0 ? (
+            <p className="text-sm text-gray-600 text-center py-6">No transactions yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => {
+                  const isCredit = parseFloat(transaction.amount) >= 0;
+                  return (
+                    <TableRow key={transaction.id} data-testid={`transaction-row-${transaction.id}`}>
+                      <TableCell className="text-sm">
+                        {transaction.createdAt ? format(new Date(transaction.createdAt), 'MMM dd, yyyy HH:mm') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">{formatType(transaction.type)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{transaction.description}</TableCell>
+                      <TableCell className={`text-right font-medium ${isCredit ? 'text-green-600' : 'text-red-600'}`}>
+                        <span className="inline-flex items-center">
+                          {isCredit ? <ArrowDownLeft className="mr-1 h-3 w-3" /> : <ArrowUpRight className="mr-1 h-3 w-3" />}
+                          {formatPrice(transaction.amount)}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">{formatPrice(transaction.balanceAfter)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -10,7 +10,21 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { ShoppingCart, Package, Zap, Tv, Fan, Droplets, IndianRupee, Star } from "lucide-react";
+import { ShoppingCart, Plus, Package, Zap, Tv, Fan, Droplets, IndianRupee, Star } from "lucide-react";
+
+interface ProductVariant {
+  id: string;
+  sku: string;
+  name: string;
+  price: string;
+  bv: string;
+  gst: string;
+}
+
+interface ProductCategory {
+  slug: string;
+  name: string;
+}
 
 interface Product {
   id: string;
@@ -23,15 +37,19 @@ interface Product {
   purchaseType: 'first_purchase' | 'second_purchase';
   imageUrl?: string;
   isActive: boolean;
+  variants: ProductVariant[];
+  images: { id: string; url: string }[];
   createdAt: string;
   updatedAt: string;
 }
 
 interface PurchaseData {
   productId: string;
+  variantId?: string;
   quantity: number;
   paymentMethod: string;
   deliveryAddress: string;
+  txnPin: string;
 }
 
 const getCategoryIcon = (category: string) => {
@@ -65,11 +83,13 @@ export default function ProductCatalog() {
   const [selectedPurchaseType, setSelectedPurchaseType] = useState<string>('all');
   const [isPurchaseModalOpen, setIsPurchaseModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
   const [purchaseForm, setPurchaseForm] = useState<PurchaseData>({
     productId: '',
     quantity: 1,
     paymentMethod: '',
-    deliveryAddress: ''
+    deliveryAddress: '',
+    txnPin: ''
   });
 
   const { toast } = useToast();
@@ -81,6 +101,15 @@ export default function ProductCatalog() {
     enabled: true,
   });
 
+  const { data: categoryList = [] } = useQuery<ProductCategory[]>({
+    queryKey: ['/api/product-categories'],
+  });
+
+  // Products with variants are priced and bought as the chosen variant
+  const variantOf = (product: Product) =>
+    product.variants.find(v => v.id === selectedVariants[product.id]) || product.variants[0];
+  const pricingOf = (product: Product) => variantOf(product) || product;
+
   // Create purchase mutation
   const createPurchaseMutation = useMutation({
     mutationFn: async (data: PurchaseData) => {
@@ -95,19 +124,24 @@ export default function ProductCatalog() {
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: any) => {
+      // Gateway orders stay pending until the gateway confirms the payment
       toast({
-        title: "Purchase Successful!",
-        description: "Your order has been placed successfully. You will receive confirmation shortly.",
+        title: data.payment ? "Order Created" : "Purchase Successful!",
+        description: data.payment
+          ? `Order ${data.order.orderNumber} is awaiting payment. Complete it from My Cart.`
+          : "Your order has been paid. You will receive confirmation shortly.",
       });
       setIsPurchaseModalOpen(false);
       setPurchaseForm({
         productId: '',
         quantity: 1,
         paymentMethod: '',
-        deliveryAddress: ''
+        deliveryAddress: '',
+        txnPin: ''
       });
       queryClient.invalidateQueries({ queryKey: ['/api/purchases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
       queryClient.invalidateQueries({ queryKey: ['/api/wallet'] });
     },
     onError: (error: any) => {
@@ -119,6 +153,36 @@ export default function ProductCatalog() {
     },
   });
 
+  // Add to cart mutation
+  const addToCartMutation = useMutation({
+    mutationFn: async (product: Product) => {
+      const response = await fetch('/api/cart/items', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: product.id, variantId: variantOf(product)?.id, quantity: 1 }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to add to cart');
+      }
+      return response.json();
+    },
+    onSuccess: (_data, product) => {
+      toast({
+        title: "Added to Cart",
+        description: `${variantOf(product) ? `${product.name} (${variantOf(product)!.name})` : product.name} was added to your cart.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/cart'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Filter products based on selected category and purchase type
   const filteredProducts = products.filter(product => {
     const categoryMatch = selectedCategory === 'all' || product.category === selectedCategory;
@@ -126,20 +190,26 @@ export default function ProductCatalog() {
     return categoryMatch && typeMatch && product.isActive;
   });
 
-  // Get unique categories from products
-  const categories = Array.from(new Set(products.map(p => p.category)));
+  // Categories managed by the admin, falling back to the slug for any unknown one
+  const categories = categoryList.length > 0
+    ? categoryList.map(c => c.slug)
+    : Array.from(new Set(products.map(p => p.category)));
+  const categoryName = (slug: string) =>
+    categoryList.find(c => c.slug === slug)?.name || slug.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
 
   const handlePurchase = (product: Product) => {
     setSelectedProduct(product);
     setPurchaseForm(prev => ({
       ...prev,
-      productId: product.id
+      productId: product.id,
+      variantId: variantOf(product)?.id
     }));
     setIsPurchaseModalOpen(true);
   };
 
   const handleSubmitPurchase = () => {
-    if (!purchaseForm.paymentMethod || !purchaseForm.deliveryAddress.trim()) {
+    if (!purchaseForm.paymentMethod || !purchaseForm.deliveryAddress.trim()
+      || (purchaseForm.paymentMethod === 'wallet' && !purchaseForm.txnPin)) {
       toast({
         title: "Incomplete Information",
         description: "Please fill in all required fields.",
@@ -154,10 +224,11 @@ export default function ProductCatalog() {
   const calculateTotal = () => {
     if (!selectedProduct) return { amount: 0, bv: 0, gst: 0 };
     
-    const baseAmount = parseFloat(selectedProduct.price) * purchaseForm.quantity;
-    const gstAmount = (baseAmount * parseFloat(selectedProduct.gst)) / 100;
+    const pricing = pricingOf(selectedProduct);
+    const baseAmount = parseFloat(pricing.price) * purchaseForm.quantity;
+    const gstAmount = (baseAmount * parseFloat(pricing.gst)) / 100;
     const totalAmount = baseAmount + gstAmount;
-    const totalBV = parseFloat(selectedProduct.bv) * purchaseForm.quantity;
+    const totalBV = parseFloat(pricing.bv) * purchaseForm.quantity;
 
     return {
       amount: totalAmount,
@@ -166,6 +237,8 @@ export default function ProductCatalog() {
     };
   };
 
+  const selectedPricing = selectedProduct ? pricingOf(selectedProduct) : null;
+
   if (isLoading) {
     return (
       <div className="container mx-auto p-6">
@@ -222,7 +295,7 @@ export default function ProductCatalog() {
               <SelectItem key={category} value={category}>
                 <div className="flex items-center gap-2">
                   {getCategoryIcon(category)}
-                  {category.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  {categoryName(category)}
                 </div>
               </SelectItem>
             ))}
@@ -233,10 +306,18 @@ export default function ProductCatalog() {
       {/* Product Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredProducts.map(product => {
-          const total = calculateTotal();
+          const pricing = pricingOf(product);
           
           return (
             <Card key={product.id} className="overflow-hidden hover:shadow-lg transition-shadow" data-testid={`product-card-${product.id}`}>
+              {product.imageUrl && (
+                <img
+                  src={product.imageUrl}
+                  alt={product.name}
+                  className="w-full h-48 object-cover"
+                  data-testid={`product-image-${product.id}`}
+                />
+              )}
               <CardHeader className="pb-3">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
@@ -252,7 +333,7 @@ export default function ProductCatalog() {
                 <div className="flex flex-wrap gap-2 mt-2">
                   <Badge className={getCategoryColor(product.category)} data-testid={`product-category-${product.id}`}>
                     {getCategoryIcon(product.category)}
-                    <span className="ml-1">{product.category.replace('_', ' ')}</span>
+                    <span className="ml-1">{categoryName(product.category)}</span>
                   </Badge>
                   <Badge variant={product.purchaseType === 'first_purchase' ? 'default' : 'secondary'}>
                     {product.purchaseType === 'first_purchase' ? '1st Purchase' : '2nd Purchase'}
@@ -262,31 +343,56 @@ export default function ProductCatalog() {
 
               <CardContent className="pb-3">
                 <div className="space-y-2">
+                  {product.variants.length > 0 && (
+                    <Select
+                      value={variantOf(product)?.id}
+                      onValueChange={(value) => setSelectedVariants(prev => ({ ...prev, [product.id]: value }))}
+                    >
+                      <SelectTrigger data-testid={`variant-select-${product.id}`}>
+                        <SelectValue placeholder="Choose variant" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {product.variants.map(variant => (
+                          <SelectItem key={variant.id} value={variant.id}>{variant.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Price:</span>
                     <span className="font-semibold text-lg text-green-600" data-testid={`product-price-${product.id}`}>
-                      {formatPrice(product.price)}
+                      {formatPrice(pricing.price)}
                     </span>
                   </div>
                   
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Business Volume:</span>
                     <span className="font-medium text-blue-600" data-testid={`product-bv-${product.id}`}>
-                      {parseFloat(product.bv).toLocaleString()} BV
+                      {parseFloat(pricing.bv).toLocaleString()} BV
                     </span>
                   </div>
                   
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">GST:</span>
-                    <span className="text-sm">{product.gst}%</span>
+                    <span className="text-sm">{pricing.gst}%</span>
                   </div>
                 </div>
               </CardContent>
 
-              <CardFooter>
+              <CardFooter className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => addToCartMutation.mutate(product)}
+                  disabled={addToCartMutation.isPending}
+                  data-testid={`add-to-cart-button-${product.id}`}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Cart
+                </Button>
                 <Button 
                   onClick={() => handlePurchase(product)}
-                  className="w-full bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700"
+                  className="flex-1 bg-gradient-to-r from-green-600 to-blue-600 hover:from-green-700 hover:to-blue-700"
                   data-testid={`purchase-button-${product.id}`}
                 >
                   <ShoppingCart className="h-4 w-4 mr-2" />
@@ -312,11 +418,11 @@ export default function ProductCatalog() {
           <DialogHeader>
             <DialogTitle>Purchase Product</DialogTitle>
             <DialogDescription>
-              Complete your purchase for {selectedProduct?.name}
+              Complete your purchase for {selectedProduct?.name}{selectedProduct && variantOf(selectedProduct) ? ` (${variantOf(selectedProduct)!.name})` : ''}
             </DialogDescription>
           </DialogHeader>
 
-          {selectedProduct && (
+          {selectedProduct && selectedPricing && (
             <div className="space-y-4">
               {/* Product Summary */}
               <div className="bg-gray-50 p-4 rounded-lg">
@@ -324,15 +430,15 @@ export default function ProductCatalog() {
                 <div className="text-sm space-y-1">
                   <div className="flex justify-between">
                     <span>Unit Price:</span>
-                    <span>{formatPrice(selectedProduct.price)}</span>
+                    <span>{formatPrice(selectedPricing.price)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Unit BV:</span>
-                    <span>{parseFloat(selectedProduct.bv).toLocaleString()} BV</span>
+                    <span>{parseFloat(selectedPricing.bv).toLocaleString()} BV</span>
                   </div>
                   <div className="flex justify-between">
                     <span>GST:</span>
-                    <span>{selectedProduct.gst}%</span>
+                    <span>{selectedPricing.gst}%</span>
                   </div>
                 </div>
               </div>
@@ -363,14 +469,27 @@ export default function ProductCatalog() {
                       <SelectValue placeholder="Select payment method" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="upi">UPI</SelectItem>
-                      <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
-                      <SelectItem value="card">Credit/Debit Card</SelectItem>
-                      <SelectItem value="wallet">Wallet</SelectItem>
+                      <SelectItem value="wallet">Wallet Balance</SelectItem>
+                      <SelectItem value="gateway">Online Payment (UPI / Card / Net Banking)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
+                {purchaseForm.paymentMethod === 'wallet' && (
+                  <div>
+                    <Label htmlFor="txnPin">Transaction PIN *</Label>
+                    <Input
+                      id="txnPin"
+                      type="password"
+                      inputMode="numeric"
+                      maxLength={6}
+                      value={purchaseForm.txnPin}
+                      onChange={(e) => setPurchaseForm(prev => ({ ...prev, txnPin: e.target.value }))}
+                      data-testid="purchase-txn-pin"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="deliveryAddress">Delivery Address *</Label>
                   <Textarea
@@ -391,21 +510,21 @@ export default function ProductCatalog() {
                   <div className="text-sm space-y-1">
                     <div className="flex justify-between">
                       <span>Subtotal:</span>
-                      <span>{formatPrice((parseFloat(selectedProduct.price) * purchaseForm.quantity).toString())}</span>
+                      <span>{formatPrice((parseFloat(selectedPricing.price) * purchaseForm.quantity).toString())}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span>GST ({selectedProduct.gst}%):</span>
-                      <span>{formatPrice(((parseFloat(selectedProduct.price) * purchaseForm.quantity * parseFloat(selectedProduct.gst)) / 100).toString())}</span>
+                      <span>GST ({selectedPricing.gst}%):</span>
+                      <span>{formatPrice(((parseFloat(selectedPricing.price) * purchaseForm.quantity * parseFloat(selectedPricing.gst)) / 100).toString())}</span>
                     </div>
                     <div className="flex justify-between font-medium text-lg">
                       <span>Total:</span>
                       <span className="text-green-600">
-                        {formatPrice(((parseFloat(selectedProduct.price) * purchaseForm.quantity) * (1 + parseFloat(selectedProduct.gst) / 100)).toString())}
+                        {formatPrice(((parseFloat(selectedPricing.price) * purchaseForm.quantity) * (1 + parseFloat(selectedPricing.gst) / 100)).toString())}
                       </span>
                     </div>
                     <div className="flex justify-between text-blue-600 font-medium">
                       <span>Total BV Earned:</span>
-                      <span>{(parseFloat(selectedProduct.bv) * purchaseForm.quantity).toLocaleString()} BV</span>
+                      <span>{(parseFloat(selectedPricing.bv) * purchaseForm.quantity).toLocaleString()} BV</span>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import VoltverashopLogo from "@/components/VoltverashopLogo";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+const resetTxnPinFormSchema = z.object({
+  newPin: z.string().regex(/^\d{4,6}$/, "Transaction PIN must be 4 to 6 digits"),
+  confirmPin: z.string(),
+}).refine((data) => data.newPin === data.confirmPin, {
+  message: "PINs don't match",
+  path: ["confirmPin"],
+});
+
+type ResetTxnPinForm = z.infer<typeof resetTxnPinFormSchema>;
+
+export default function ResetTxnPin() {
+  const [location, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState<string>("");
+  const [error, setError] = useState<string>("");
+
+  // Extract token from URL parameters
+  const urlParams = new URLSearchParams(location.split('?')[1] || window.location.search);
+  const token = urlParams.get('token');
+
+  const form = useForm<ResetTxnPinForm>({
+    resolver: zodResolver(resetTxnPinFormSchema),
+    defaultValues: {
+      newPin: "",
+      confirmPin: "",
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetTxnPinForm & { token: string }) => {
+      const response = await apiRequest('POST', '/api/txn-pin/reset', data);
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      setMessage(data.message);
+      setError("");
+      form.reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/txn-pin'] });
+      // Back to the dashboard after 3 seconds
+      setTimeout(() => {
+        setLocation("/");
+      }, 3000);
+    },
+    onError: (error: any) => {
+      setError(error.message || "Transaction PIN reset failed");
+      setMessage("");
+    },
+  });
+
+  const onSubmit = (data: ResetTxnPinForm) => {
+    if (!token) {
+      setError("No reset token provided");
+      return;
+    }
+    resetMutation.mutate({ ...data, token });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-green-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <Card className="w-full max-w-md shadow-2xl border-0 bg-white dark:bg-gray-800">
+        <CardHeader className="space-y-4 pb-6">
+          <div className="flex justify-center">
+            <VoltverashopLogo className="h-16 w-16" />
+          </div>
+          <div className="text-center space-y-2">
+            <CardTitle className="text-2xl font-bold bg-gradient-to-r from-green-600 to-green-500 bg-clip-text text-transparent">
+              {token ? 'Reset Transaction PIN' : 'Invalid Reset Link'}
+            </CardTitle>
+            <CardDescription className="text-gray-600 dark:text-gray-300">
+              {token
+                ? 'Choose a new PIN for withdrawals and fund transfers'
+                : 'This transaction PIN reset link is invalid or has expired'}
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {message && (
+            <Alert className="border-green-200 bg-green-50 dark:bg-green-900/20">
+              <AlertDescription className="text-green-800 dark:text-green-200">
+                {message}
+                <br />
+                <span className="text-sm">Redirecting to your dashboard...</span>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {error && (
+            <Alert className="border-red-200 bg-red-50 dark:bg-red-900/20">
+              <AlertDescription className="text-red-800 dark:text-red-200">
+                {error}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {token && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="newPin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 dark:text-gray-200">New PIN</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          inputMode="numeric"
+                          maxLength={6}
+                          placeholder="••••"
+                          {...field}
+                          className="border-gray-300 focus:border-green-500 focus:ring-green-500 dark:border-gray-600 dark:bg-gray-700"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-gray-700 dark:text-gray-200">Confirm New PIN</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          inputMode="numeric"
+                          maxLength={6}
+                          placeholder="••••"
+                          {...field}
+                          className="border-gray-300 focus:border-green-500 focus:ring-green-500 dark:border-gray-600 dark:bg-gray-700"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  className="w-full bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white font-semibold py-3 rounded-lg transition-all duration-300 transform hover:scale-[1.02] shadow-lg"
+                  disabled={resetMutation.isPending}
+                >
+                  {resetMutation.isPending ? "Resetting PIN..." : "Reset PIN"}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          <div className="text-center">
+            <Link href="/" className="text-sm text-green-600 hover:text-green-700 font-medium">
+              Back to Dashboard
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,13 +5,19 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Zap, Leaf, BarChart3, Smartphone, Target, Bell, Lock, Users, Home, Settings, ShoppingCart, Package, Shield, Eye, CheckCircle, XCircle, Clock, Upload, Menu, X } from "lucide-react";
+import { Zap, Leaf, BarChart3, Smartphone, Target, Bell, Lock, Users, Home, Settings, ShoppingCart, Package, Shield, Eye, CheckCircle, XCircle, Clock, Upload, Menu, X, Wallet } from "lucide-react";
 import { Link } from "wouter";
 import VoltverashopLogo from "@/components/VoltverashopLogo";
 import MyTeam from "./MyTeam";
 import ProductCatalog from "./ProductCatalog";
 import MyPurchases from "./MyPurchases";
+import MyWallet from "./MyWallet";
+import MyCart from "./MyCart";
 import { NotificationCenter } from "@/components/NotificationCenter";
+import TxnPinSettings from "@/components/TxnPinSettings";
+import PlacementPreferenceSettings from "@/components/PlacementPreferenceSettings";
+import ActivityStatus from "@/components/ActivityStatus";
+import ConsistencyBonus from "@/components/ConsistencyBonus";
 
 function getInitials(firstName?: string | null, lastName?: string | null) {
   const first = firstName?.[0] || '';
@@ -393,6 +399,17 @@ export default function UserDashboard() {
             <ShoppingCart className="mr-3 h-4 w-4" />
             Products
           </Button>
+          <Button
+            variant={activeTab === 'cart' ? 'secondary' : 'ghost'}
+            className="w-full justify-start text-white hover:text-gray-900"
+            onClick={() => {
+              setActiveTab('cart');
+              setIsSidebarOpen(false);
+            }}
+          >
+            <ShoppingCart className="mr-3 h-4 w-4" />
+            My Cart
+          </Button>
           <Button
             variant={activeTab === 'purchases' ? 'secondary' : 'ghost'}
             className="w-full justify-start text-white hover:text-gray-900"
@@ -404,6 +421,17 @@ export default function UserDashboard() {
             <Package className="mr-3 h-4 w-4" />
             My Purchases
           </Button>
+          <Button
+            variant={activeTab === 'wallet' ? 'secondary' : 'ghost'}
+            className="w-full justify-start text-white hover:text-gray-900"
+            onClick={() => {
+              setActiveTab('wallet');
+              setIsSidebarOpen(false);
+            }}
+          >
+            <Wallet className="mr-3 h-4 w-4" />
+            My Wallet
+          </Button>
           <Button
             variant={activeTab === 'settings' ? 'secondary' : 'ghost'}
             className="w-full justify-start text-white hover:text-gray-900"
@@ -499,6 +527,17 @@ export default function UserDashboard() {
                 <ShoppingCart className="mr-2 h-4 w-4" />
                 Products
               </button>
+              <button
+                onClick={() => setActiveTab('cart')}
+                className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'cart'
+                    ? 'border-white text-white'
+                    : 'border-transparent text-white/70 hover:text-white hover:border-white/30'
+                }`}
+              >
+                <ShoppingCart className="mr-2 h-4 w-4" />
+                My Cart
+              </button>
               <button
                 onClick={() => setActiveTab('purchases')}
                 className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -510,6 +549,17 @@ export default function UserDashboard() {
                 <Package className="mr-2 h-4 w-4" />
                 My Purchases
               </button>
+              <button
+                onClick={() => setActiveTab('wallet')}
+                className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                  activeTab === 'wallet'
+                    ? 'border-white text-white'
+                    : 'border-transparent text-white/70 hover:text-white hover:border-white/30'
+                }`}
+              >
+                <Wallet className="mr-2 h-4 w-4" />
+                My Wallet
+              </button>
               <button
                 onClick={() => setActiveTab('settings')}
                 className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -563,6 +613,10 @@ export default function UserDashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            <ActivityStatus />
+
+            <ConsistencyBonus />
             
             {/* Quick Actions and Recent Activity */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -632,7 +686,9 @@ export default function UserDashboard() {
         
         {activeTab === 'products' && <ProductCatalog />}
         
+        {activeTab === 'cart' && <MyCart />}
         {activeTab === 'purchases' && <MyPurchases />}
+        {activeTab === 'wallet' && <MyWallet />}
         
         {activeTab === 'settings' && (
           <div className="p-4 sm:p-6 lg:p-8 space-y-6">
@@ -677,6 +733,10 @@ export default function UserDashboard() {
               </CardContent>
             </Card>
 
+            <TxnPinSettings />
+
+            <PlacementPreferenceSettings />
+
             {/* KYC Information Section */}
             <UserKYCSection />
           </div>
@@ -0,0 +1,18 @@
+-- Migration: Binary pair-matching state
+-- Tracks how much of each leg's BV has been matched and what is carried forward
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS processed_left_bv decimal(12, 2) DEFAULT '0.00';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS processed_right_bv decimal(12, 2) DEFAULT '0.00';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS left_carry_forward_bv decimal(12, 2) DEFAULT '0.00';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS right_carry_forward_bv decimal(12, 2) DEFAULT '0.00';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS total_matched_bv decimal(12, 2) DEFAULT '0.00';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_matched_at timestamp;
+
+-- Speeds up lookups of today's / this week's sales bonus payouts for capping
+CREATE INDEX IF NOT EXISTS idx_transactions_user_type_created ON transactions(user_id, type, created_at);
+
+COMMENT ON COLUMN users.processed_left_bv IS 'Cumulative left BV already consumed by binary matching';
+COMMENT ON COLUMN users.processed_right_bv IS 'Cumulative right BV already consumed by binary matching';
+COMMENT ON COLUMN users.left_carry_forward_bv IS 'Unmatched left BV carried into the next matching run';
+COMMENT ON COLUMN users.right_carry_forward_bv IS 'Unmatched right BV carried into the next matching run';
+COMMENT ON COLUMN users.total_matched_bv IS 'Lifetime matched BV paid as sales bonus';
@@ -0,0 +1,52 @@
+-- Migration: Payout cycles and per-user payout statements
+-- Commissions are computed per weekly/monthly cycle and only credited when the cycle is locked
+
+CREATE TABLE IF NOT EXISTS payout_cycles (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  cycle_type varchar NOT NULL,
+  period_start timestamp NOT NULL,
+  period_end timestamp NOT NULL,
+  status varchar NOT NULL DEFAULT 'open',
+  total_users integer DEFAULT 0,
+  total_sponsor_income decimal(14, 2) DEFAULT '0.00',
+  total_sales_bonus decimal(14, 2) DEFAULT '0.00',
+  total_payout decimal(14, 2) DEFAULT '0.00',
+  closed_by varchar,
+  closed_at timestamp,
+  locked_by varchar,
+  locked_at timestamp,
+  notes text,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_payout_cycle_period" ON payout_cycles(cycle_type, period_start);
+
+CREATE TABLE IF NOT EXISTS payout_statements (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  cycle_id varchar NOT NULL,
+  user_id varchar NOT NULL,
+  rank varchar,
+  opening_left_carry_bv decimal(12, 2) DEFAULT '0.00',
+  opening_right_carry_bv decimal(12, 2) DEFAULT '0.00',
+  period_left_bv decimal(12, 2) DEFAULT '0.00',
+  period_right_bv decimal(12, 2) DEFAULT '0.00',
+  matched_bv decimal(12, 2) DEFAULT '0.00',
+  closing_left_carry_bv decimal(12, 2) DEFAULT '0.00',
+  closing_right_carry_bv decimal(12, 2) DEFAULT '0.00',
+  sponsor_income decimal(12, 2) DEFAULT '0.00',
+  sales_bonus decimal(12, 2) DEFAULT '0.00',
+  capped_amount decimal(12, 2) DEFAULT '0.00',
+  total_amount decimal(12, 2) DEFAULT '0.00',
+  lines jsonb,
+  status varchar DEFAULT 'pending',
+  credited_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_payout_statement_cycle_user" ON payout_statements(cycle_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_payout_statements_user ON payout_statements(user_id);
+
+COMMENT ON COLUMN payout_cycles.period_end IS 'Exclusive upper bound of the cycle period';
+COMMENT ON COLUMN payout_cycles.status IS 'open -> closed (statements snapshotted) -> locked (wallets credited)';
+COMMENT ON COLUMN payout_statements.lines IS 'Itemised sponsor income and daily binary matching lines';
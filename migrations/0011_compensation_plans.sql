@@ -0,0 +1,26 @@
+-- Migration: Versioned compensation plan definitions
+-- Rank thresholds, rank bonuses, income rates, sales bonus caps and franchise terms
+-- are read from the plan version in force instead of being hardcoded
+
+CREATE TABLE IF NOT EXISTS compensation_plans (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id varchar NOT NULL DEFAULT 'binary',
+  version integer NOT NULL,
+  name varchar NOT NULL,
+  effective_from timestamp NOT NULL,
+  definition jsonb NOT NULL,
+  status varchar NOT NULL DEFAULT 'published',
+  notes text,
+  published_by varchar,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_compensation_plan_version" ON compensation_plans(plan_id, version);
+CREATE INDEX IF NOT EXISTS idx_compensation_plans_effective ON compensation_plans(plan_id, effective_from);
+
+-- Record which plan version each payout cycle was computed with
+ALTER TABLE payout_cycles ADD COLUMN IF NOT EXISTS plan_version integer;
+
+COMMENT ON COLUMN compensation_plans.effective_from IS 'Version applies to periods starting on or after this date';
+COMMENT ON COLUMN compensation_plans.definition IS 'CompensationPlanDefinition JSON (see shared/compensationPlan.ts)';
+COMMENT ON COLUMN payout_cycles.plan_version IS 'Compensation plan version applied when the cycle was closed (0 = built-in default)';
@@ -0,0 +1,82 @@
+-- Migration: Double-entry ledger behind wallet_balances and transactions
+-- Every wallet movement is posted as a balanced journal; wallet_balances becomes a projection
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  code varchar NOT NULL UNIQUE,
+  account_type varchar NOT NULL,
+  user_id varchar,
+  name varchar NOT NULL,
+  balance decimal(14, 2) NOT NULL DEFAULT '0.00',
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now(),
+  CONSTRAINT ledger_user_wallet_non_negative CHECK (account_type <> 'user_wallet' OR balance >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS ledger_journals (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_type transaction_type NOT NULL,
+  description text NOT NULL,
+  reference_id varchar,
+  metadata jsonb,
+  created_by varchar,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id varchar NOT NULL,
+  account_id varchar NOT NULL,
+  direction varchar NOT NULL,
+  amount decimal(14, 2) NOT NULL,
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT ledger_entry_amount_positive CHECK (amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_ledger_entries_journal" ON ledger_entries(journal_id);
+CREATE INDEX IF NOT EXISTS "IDX_ledger_entries_account" ON ledger_entries(account_id);
+
+-- System accounts
+INSERT INTO ledger_accounts (code, account_type, name) VALUES
+  ('payout_pool', 'payout_pool', 'Company Payout Pool'),
+  ('tds_payable', 'tds_payable', 'TDS Payable'),
+  ('admin_adjustment', 'admin_adjustment', 'Admin Adjustments'),
+  ('bank_settlement', 'bank_settlement', 'Bank Settlement'),
+  ('sales_revenue', 'sales_revenue', 'Sales Revenue')
+ON CONFLICT (code) DO NOTHING;
+
+-- One wallet account per existing wallet
+INSERT INTO ledger_accounts (code, account_type, user_id, name)
+SELECT 'user_wallet:' || user_id, 'user_wallet', user_id, 'Wallet ' || user_id
+FROM wallet_balances
+ON CONFLICT (code) DO NOTHING;
+
+-- Opening balances: existing wallet balances are posted against the admin adjustment account
+WITH opening AS (
+  SELECT user_id, balance, gen_random_uuid()::varchar AS journal_id
+  FROM wallet_balances
+  WHERE balance > 0
+), journals AS (
+  INSERT INTO ledger_journals (id, transaction_type, description, reference_id)
+  SELECT journal_id, 'admin_credit', 'Opening balance migrated from wallet_balances', user_id
+  FROM opening
+  RETURNING id
+)
+INSERT INTO ledger_entries (journal_id, account_id, direction, amount)
+SELECT o.journal_id, a.id, 'credit', o.balance
+FROM opening o
+JOIN ledger_accounts a ON a.code = 'user_wallet:' || o.user_id
+UNION ALL
+SELECT o.journal_id, (SELECT id FROM ledger_accounts WHERE code = 'admin_adjustment'), 'debit', o.balance
+FROM opening o;
+
+UPDATE ledger_accounts a SET balance = COALESCE((
+  SELECT SUM(CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END)
+  FROM ledger_entries e WHERE e.account_id = a.id
+), 0);
+
+-- Overdrafts are rejected by the database; NOT VALID keeps legacy rows from blocking the migration
+ALTER TABLE wallet_balances ADD CONSTRAINT wallet_balance_non_negative CHECK (balance >= 0) NOT VALID;
+
+COMMENT ON COLUMN ledger_accounts.balance IS 'Credits minus debits; maintained with SQL increments on every posting';
+COMMENT ON TABLE wallet_balances IS 'Projection of user_wallet ledger accounts; reconcile via /api/admin/ledger/reconcile';
@@ -0,0 +1,44 @@
+-- Migration: Withdrawal holds, TDS/admin charges and payout batches
+-- Requests move the gross amount into a withdrawal hold account; payouts settle
+-- it to bank settlement, TDS payable and withdrawal charges, failures release it
+
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS tds_amount decimal(10, 2) DEFAULT '0.00';
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS admin_charge decimal(10, 2) DEFAULT '0.00';
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS net_amount decimal(10, 2);
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS batch_id varchar;
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS hold_journal_id varchar;
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS settlement_journal_id varchar;
+
+-- Legacy requests carried no charges
+UPDATE withdrawal_requests SET net_amount = amount WHERE net_amount IS NULL;
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_number varchar NOT NULL UNIQUE,
+  withdrawal_type varchar NOT NULL,
+  status varchar NOT NULL DEFAULT 'created',
+  request_count integer NOT NULL DEFAULT 0,
+  total_amount decimal(14, 2) NOT NULL DEFAULT '0.00',
+  total_net_amount decimal(14, 2) NOT NULL DEFAULT '0.00',
+  processed_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  transaction_id varchar,
+  notes text,
+  created_by varchar,
+  processed_by varchar,
+  processed_at timestamp,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_status ON withdrawal_requests(status);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_user_created ON withdrawal_requests(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_batch ON withdrawal_requests(batch_id);
+
+INSERT INTO ledger_accounts (code, account_type, name) VALUES
+  ('withdrawal_hold', 'withdrawal_hold', 'Withdrawal Hold'),
+  ('withdrawal_charges', 'withdrawal_charges', 'Withdrawal Charges')
+ON CONFLICT (code) DO NOTHING;
+
+COMMENT ON COLUMN withdrawal_requests.hold_journal_id IS 'NULL for requests filed before holds existed; those are paid straight from the wallet';
+COMMENT ON COLUMN withdrawal_requests.net_amount IS 'amount - tds_amount - admin_charge, the sum actually paid out';
@@ -0,0 +1,13 @@
+-- Migration: USDT payout address whitelist cool-down and on-chain payout records
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS crypto_wallet_updated_at timestamp;
+
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS usdt_rate decimal(12, 4);
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS usdt_amount decimal(18, 6);
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS tx_hash varchar;
+
+-- A transaction hash pays exactly one withdrawal
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_withdrawal_requests_tx_hash" ON withdrawal_requests(lower(tx_hash)) WHERE tx_hash IS NOT NULL;
+
+COMMENT ON COLUMN users.crypto_wallet_updated_at IS 'Last change of crypto_wallet_address; USDT withdrawals wait out the plan cool-down from here (NULL = legacy, no cool-down)';
+COMMENT ON COLUMN withdrawal_requests.usdt_rate IS 'INR per USDT snapshot used for the payout';
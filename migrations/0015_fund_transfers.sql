@@ -0,0 +1,6 @@
+-- Migration: wallet-to-wallet fund transfers between upline and downline members
+
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'fund_transfer';
+
+-- Transfer history is read per user and type
+CREATE INDEX IF NOT EXISTS idx_transactions_user_type ON transactions(user_id, type);
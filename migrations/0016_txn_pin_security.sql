@@ -0,0 +1,13 @@
+-- Migration: hashed transaction PINs with attempt counting and lockout
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS txn_pin_failed_attempts integer DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS txn_pin_locked_until timestamp;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS txn_pin_updated_at timestamp;
+
+-- Hash PINs that were stored in plaintext; pgcrypto's bf salts produce
+-- bcrypt hashes that bcrypt.compare accepts
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+UPDATE users
+SET txn_pin = crypt(txn_pin, gen_salt('bf', 10)),
+    txn_pin_updated_at = now()
+WHERE txn_pin IS NOT NULL AND txn_pin NOT LIKE '$2%';
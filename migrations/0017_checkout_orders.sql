@@ -0,0 +1,64 @@
+-- Migration: Cart checkout orders with a payment lifecycle
+-- Orders move pending -> paid / failed -> refunded; BV and income are only
+-- distributed once an order is paid (wallet debit or gateway webhook)
+
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS order_id varchar;
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS paid_at timestamp;
+
+-- Legacy purchases were distributed on creation; 'completed' becomes 'paid'
+UPDATE purchases SET payment_status = 'paid', paid_at = created_at WHERE payment_status = 'completed';
+
+CREATE TABLE IF NOT EXISTS cart_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  product_id varchar NOT NULL,
+  quantity integer NOT NULL DEFAULT 1,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS orders (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_number varchar NOT NULL UNIQUE,
+  user_id varchar NOT NULL,
+  status varchar NOT NULL DEFAULT 'pending',
+  payment_method varchar NOT NULL,
+  subtotal decimal(12, 2) NOT NULL,
+  tax_amount decimal(12, 2) NOT NULL,
+  total_amount decimal(12, 2) NOT NULL,
+  total_bv decimal(12, 2) NOT NULL,
+  delivery_address text NOT NULL,
+  gateway_provider varchar,
+  gateway_order_id varchar,
+  gateway_payment_id varchar,
+  payment_journal_id varchar,
+  refund_journal_id varchar,
+  failure_reason text,
+  refund_reason text,
+  paid_at timestamp,
+  failed_at timestamp,
+  refunded_at timestamp,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider varchar NOT NULL,
+  event_id varchar NOT NULL,
+  event_type varchar NOT NULL,
+  order_id varchar,
+  payload jsonb,
+  error text,
+  processed_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_cart_items_user_product" ON cart_items(user_id, product_id);
+CREATE INDEX IF NOT EXISTS "IDX_orders_user" ON orders(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_orders_gateway_order" ON orders(gateway_provider, gateway_order_id);
+-- Redelivered webhooks are recognised by their event ID
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_payment_webhook_event" ON payment_webhook_events(provider, event_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_order ON purchases(order_id);
+
+COMMENT ON COLUMN purchases.paid_at IS 'When payment was confirmed; BV and payout statements count from here';
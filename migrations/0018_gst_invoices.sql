@@ -0,0 +1,75 @@
+-- Migration: GST tax invoices with per-financial-year numbering
+-- Invoices are issued when an order is paid; CGST + SGST for supplies within
+-- the seller's state, IGST otherwise
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS hsn_code varchar;
+
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS gst_rate decimal(5, 2);
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS tax_amount decimal(10, 2);
+
+-- Earlier purchases took the product's current rate
+UPDATE purchases p
+SET gst_rate = pr.gst,
+    tax_amount = round(p.total_amount * pr.gst / 100, 2)
+FROM products pr
+WHERE pr.id = p.product_id AND p.gst_rate IS NULL;
+
+CREATE TABLE IF NOT EXISTS invoice_sequences (
+  financial_year varchar PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0,
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number varchar NOT NULL UNIQUE,
+  financial_year varchar NOT NULL,
+  sequence_number integer NOT NULL,
+  order_id varchar NOT NULL UNIQUE,
+  user_id varchar NOT NULL,
+  invoice_date timestamp NOT NULL,
+  status varchar NOT NULL DEFAULT 'issued',
+  seller_name varchar NOT NULL,
+  seller_gstin varchar NOT NULL,
+  seller_address text,
+  seller_state_code varchar(2) NOT NULL,
+  buyer_name varchar NOT NULL,
+  buyer_user_id varchar,
+  buyer_gstin varchar,
+  billing_address text,
+  shipping_address text,
+  place_of_supply varchar(2) NOT NULL,
+  supply_type varchar NOT NULL,
+  taxable_value decimal(12, 2) NOT NULL,
+  cgst_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  sgst_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  igst_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  total_tax decimal(12, 2) NOT NULL,
+  total_amount decimal(12, 2) NOT NULL,
+  cancelled_at timestamp,
+  cancellation_reason text,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id varchar NOT NULL,
+  purchase_id varchar,
+  product_id varchar,
+  description varchar NOT NULL,
+  hsn_code varchar,
+  quantity integer NOT NULL,
+  unit_price decimal(12, 2) NOT NULL,
+  taxable_value decimal(12, 2) NOT NULL,
+  gst_rate decimal(5, 2) NOT NULL,
+  cgst_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  sgst_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  igst_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  total_amount decimal(12, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_invoices_user" ON invoices(user_id);
+CREATE INDEX IF NOT EXISTS "IDX_invoices_date" ON invoices(invoice_date);
+CREATE INDEX IF NOT EXISTS "IDX_invoice_lines_invoice" ON invoice_lines(invoice_id);
+
+COMMENT ON COLUMN invoices.place_of_supply IS 'GST state code of the buyer; equal to seller_state_code for intra-state supplies';
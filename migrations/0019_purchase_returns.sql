@@ -0,0 +1,47 @@
+-- Migration: purchase returns, refunds and commission clawback
+-- A refunded purchase line takes back the sponsor income and rank bonuses
+-- paid on it; whatever the wallet cannot cover is recovered from later payouts
+
+ALTER TABLE rank_achievements ADD COLUMN IF NOT EXISTS revoked_at timestamp;
+ALTER TABLE rank_achievements ADD COLUMN IF NOT EXISTS revoked_reason text;
+
+CREATE TABLE IF NOT EXISTS purchase_returns (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_id varchar NOT NULL,
+  order_id varchar,
+  user_id varchar NOT NULL,
+  reason text NOT NULL,
+  status varchar NOT NULL DEFAULT 'requested',
+  refund_method varchar,
+  refund_amount decimal(12, 2),
+  refund_journal_id varchar,
+  gateway_refund_id varchar,
+  reversal jsonb,
+  admin_notes text,
+  reviewed_by varchar,
+  reviewed_at timestamp,
+  refunded_at timestamp,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS commission_clawbacks (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  source_type varchar NOT NULL,
+  purchase_id varchar,
+  return_id varchar,
+  reference_id varchar,
+  amount decimal(12, 2) NOT NULL,
+  recovered_amount decimal(12, 2) NOT NULL DEFAULT '0.00',
+  status varchar NOT NULL DEFAULT 'outstanding',
+  description text,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_purchase_returns_user" ON purchase_returns(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_purchase_returns_active" ON purchase_returns(purchase_id) WHERE status <> 'rejected';
+CREATE INDEX IF NOT EXISTS "IDX_commission_clawbacks_user_status" ON commission_clawbacks(user_id, status);
+
+COMMENT ON COLUMN commission_clawbacks.recovered_amount IS 'Debited from the wallet so far; the rest is taken from later payout credits';
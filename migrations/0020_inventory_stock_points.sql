@@ -0,0 +1,62 @@
+-- Migration: inventory at warehouse and franchise stock points
+-- Orders reserve stock at their stock point when created; fulfilment takes
+-- it out of stock and pays franchise income to franchise points
+
+CREATE TABLE IF NOT EXISTS stock_points (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  code varchar NOT NULL UNIQUE,
+  name varchar NOT NULL,
+  type varchar NOT NULL,
+  owner_id varchar,
+  franchise_request_id varchar,
+  franchise_type franchise_type,
+  address text,
+  city varchar,
+  state varchar,
+  pincode varchar,
+  phone varchar,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_levels (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_point_id varchar NOT NULL,
+  product_id varchar NOT NULL,
+  quantity integer NOT NULL DEFAULT 0,
+  reserved integer NOT NULL DEFAULT 0,
+  low_stock_threshold integer NOT NULL DEFAULT 5,
+  low_stock_alerted_at timestamp,
+  updated_at timestamp DEFAULT now(),
+  CONSTRAINT stock_quantity_non_negative CHECK (quantity >= 0),
+  CONSTRAINT stock_reserved_within_quantity CHECK (reserved >= 0 AND reserved <= quantity)
+);
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_point_id varchar NOT NULL,
+  product_id varchar NOT NULL,
+  type varchar NOT NULL,
+  quantity integer NOT NULL,
+  order_id varchar,
+  purchase_id varchar,
+  note text,
+  created_by varchar,
+  created_at timestamp DEFAULT now()
+);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS stock_point_id varchar;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fulfilled_at timestamp;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS fulfilled_by varchar;
+
+CREATE INDEX IF NOT EXISTS "IDX_stock_points_owner" ON stock_points(owner_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_stock_levels_point_product" ON stock_levels(stock_point_id, product_id);
+CREATE INDEX IF NOT EXISTS "IDX_stock_movements_point_product" ON stock_movements(stock_point_id, product_id);
+CREATE INDEX IF NOT EXISTS "IDX_stock_movements_order" ON stock_movements(order_id);
+
+-- Orders without a chosen pickup point are reserved at the main warehouse;
+-- it starts empty and is stocked through stock-in movements
+INSERT INTO stock_points (code, name, type)
+VALUES ('WH-MAIN', 'Main Warehouse', 'warehouse')
+ON CONFLICT (code) DO NOTHING;
@@ -0,0 +1,31 @@
+-- Migration: delivery and shipment tracking
+-- Orders move pending -> packed -> shipped -> delivered (or failed); every
+-- change is kept in shipment_events and mirrored onto the order's paid lines
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_status varchar NOT NULL DEFAULT 'pending';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS courier varchar;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tracking_id varchar;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivered_at timestamp;
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS courier varchar;
+
+CREATE TABLE IF NOT EXISTS shipment_events (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id varchar NOT NULL,
+  status varchar NOT NULL,
+  courier varchar,
+  tracking_id varchar,
+  note text,
+  source varchar NOT NULL,
+  created_by varchar,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_shipment_events_order" ON shipment_events(order_id);
+
+-- Orders fulfilled before tracking existed carry the status their lines were given
+UPDATE orders o
+SET delivery_status = p.delivery_status, tracking_id = COALESCE(o.tracking_id, p.tracking_id)
+FROM purchases p
+WHERE p.order_id = o.id
+  AND p.delivery_status IN ('packed', 'shipped', 'delivered', 'failed')
+  AND o.delivery_status = 'pending';
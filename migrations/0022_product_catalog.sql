@@ -0,0 +1,81 @@
+-- Migration: product catalog management
+-- Categories replace the free-text product category, products get images
+-- and capacity/colour variants, and price changes can be scheduled
+
+CREATE TABLE IF NOT EXISTS product_categories (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug varchar NOT NULL UNIQUE,
+  name varchar NOT NULL,
+  description text,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS product_images (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id varchar NOT NULL,
+  url varchar NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_product_images_product" ON product_images(product_id);
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id varchar NOT NULL,
+  sku varchar NOT NULL UNIQUE,
+  name varchar NOT NULL,
+  capacity varchar,
+  colour varchar,
+  price decimal(10, 2) NOT NULL,
+  bv decimal(10, 2) NOT NULL,
+  gst decimal(5, 2) NOT NULL,
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_product_variants_product" ON product_variants(product_id);
+
+CREATE TABLE IF NOT EXISTS product_price_changes (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id varchar NOT NULL,
+  variant_id varchar,
+  price decimal(10, 2) NOT NULL,
+  bv decimal(10, 2),
+  gst decimal(5, 2),
+  effective_from timestamp NOT NULL,
+  status varchar NOT NULL DEFAULT 'scheduled',
+  applied_at timestamp,
+  created_by varchar,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_product_price_changes_product" ON product_price_changes(product_id);
+CREATE INDEX IF NOT EXISTS "IDX_product_price_changes_due" ON product_price_changes(status, effective_from);
+
+-- Cart lines and purchases remember the variant they were priced at; a
+-- product can sit in the cart once per variant
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS variant_id varchar;
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS variant_id varchar;
+DROP INDEX IF EXISTS "UQ_cart_items_user_product";
+ALTER TABLE cart_items DROP CONSTRAINT IF EXISTS "UQ_cart_items_user_product_variant";
+ALTER TABLE cart_items ADD CONSTRAINT "UQ_cart_items_user_product_variant"
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+-- Every category already used by a product becomes a managed category
+INSERT INTO product_categories (slug, name)
+SELECT DISTINCT category, initcap(replace(category, '_', ' '))
+FROM products
+ON CONFLICT (slug) DO NOTHING;
+
+-- Existing product pictures become their first image
+INSERT INTO product_images (product_id, url)
+SELECT id, image_url
+FROM products p
+WHERE image_url IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM product_images i WHERE i.product_id = p.id);
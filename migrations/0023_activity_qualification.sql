@@ -0,0 +1,5 @@
+-- Migration: ID activation and monthly activity qualification
+-- IDs are activated by a qualifying first purchase; binary income for an ID
+-- that kept no repurchase BV in the previous month lapses and is recorded here
+
+ALTER TABLE payout_statements ADD COLUMN IF NOT EXISTS lapsed_amount decimal(12, 2) DEFAULT 0.00;
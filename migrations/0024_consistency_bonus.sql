@@ -0,0 +1,36 @@
+-- Migration: Monthly consistency bonus
+-- Distributors who keep up their monthly repurchase for a streak of months and
+-- whose team repurchases enough BV earn a slab bonus, settled once per month
+
+CREATE TABLE IF NOT EXISTS consistency_bonus_runs (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  month timestamp NOT NULL,
+  plan_version integer NOT NULL,
+  total_users integer DEFAULT 0,
+  total_amount decimal(14, 2) DEFAULT '0.00',
+  run_by varchar NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_consistency_bonus_run_month" ON consistency_bonus_runs(month);
+
+CREATE TABLE IF NOT EXISTS consistency_bonus_awards (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id varchar NOT NULL,
+  user_id varchar NOT NULL,
+  month timestamp NOT NULL,
+  slab varchar NOT NULL,
+  streak_months integer NOT NULL,
+  repurchase_bv decimal(12, 2) NOT NULL,
+  team_bv decimal(14, 2) NOT NULL,
+  amount decimal(12, 2) NOT NULL,
+  status varchar DEFAULT 'pending',
+  transaction_id varchar,
+  credited_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_consistency_bonus_award_user_month" ON consistency_bonus_awards(user_id, month);
+CREATE INDEX IF NOT EXISTS "IDX_consistency_bonus_awards_run" ON consistency_bonus_awards(run_id);
+
+COMMENT ON COLUMN consistency_bonus_awards.status IS 'pending -> credited (consistency_bonus wallet transaction posted)';
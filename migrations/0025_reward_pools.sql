@@ -0,0 +1,57 @@
+-- Migration: Reward fund pools (car, travel, leadership, house, millionaire club)
+-- Each month a share of company-wide BV funds every pool, which is split by
+-- shares among qualifiers chosen by achieved rank and binary matched BV
+
+CREATE TABLE IF NOT EXISTS reward_pool_runs (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  month timestamp NOT NULL,
+  plan_version integer NOT NULL,
+  turnover_bv decimal(14, 2) NOT NULL,
+  total_amount decimal(14, 2) DEFAULT '0.00',
+  run_by varchar NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_reward_pool_run_month" ON reward_pool_runs(month);
+
+CREATE TABLE IF NOT EXISTS reward_pool_reports (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id varchar NOT NULL,
+  pool_type transaction_type NOT NULL,
+  pool_name varchar NOT NULL,
+  turnover_rate decimal(6, 4) NOT NULL,
+  pool_amount decimal(14, 2) NOT NULL,
+  min_rank varchar NOT NULL,
+  min_matched_bv decimal(12, 2) NOT NULL,
+  qualifiers integer DEFAULT 0,
+  total_shares integer DEFAULT 0,
+  share_value decimal(14, 2) DEFAULT '0.00',
+  distributed_amount decimal(14, 2) DEFAULT '0.00',
+  undistributed_amount decimal(14, 2) DEFAULT '0.00',
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_reward_pool_report_run_pool" ON reward_pool_reports(run_id, pool_type);
+
+CREATE TABLE IF NOT EXISTS reward_pool_payouts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id varchar NOT NULL,
+  report_id varchar NOT NULL,
+  pool_type transaction_type NOT NULL,
+  user_id varchar NOT NULL,
+  rank varchar NOT NULL,
+  matched_bv decimal(12, 2) NOT NULL,
+  shares integer NOT NULL,
+  amount decimal(12, 2) NOT NULL,
+  status varchar DEFAULT 'pending',
+  transaction_id varchar,
+  credited_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_reward_pool_payout_report_user" ON reward_pool_payouts(report_id, user_id);
+CREATE INDEX IF NOT EXISTS "IDX_reward_pool_payouts_run" ON reward_pool_payouts(run_id);
+CREATE INDEX IF NOT EXISTS "IDX_reward_pool_payouts_user" ON reward_pool_payouts(user_id);
+
+COMMENT ON COLUMN reward_pool_reports.undistributed_amount IS 'Stays in the company payout pool: rounding remainder, or the whole pool when nobody qualified';
+COMMENT ON COLUMN reward_pool_payouts.status IS 'pending -> credited (pool wallet transaction posted)';
@@ -0,0 +1,13 @@
+-- Migration: Incremental team BV
+-- Cached total/left/right BV on users is now updated along the upline as
+-- purchases are paid or refunded; bv_applied_at marks the lines counted in it
+
+ALTER TABLE purchases ADD COLUMN IF NOT EXISTS bv_applied_at timestamp;
+
+-- Cached totals were recalculated from every paid purchase until now
+UPDATE purchases SET bv_applied_at = COALESCE(paid_at, updated_at, now())
+WHERE payment_status = 'paid' AND bv_applied_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_purchases_bv_applied ON purchases(payment_status) WHERE bv_applied_at IS NULL;
+
+COMMENT ON COLUMN purchases.bv_applied_at IS 'Set while the line''s BV is counted in users.total_bv/left_bv/right_bv; the daily rebuild settles any line out of step';
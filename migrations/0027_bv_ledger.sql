@@ -0,0 +1,37 @@
+-- Migration: Dated BV ledger
+-- Every BV movement is recorded per receiving user and leg with its source
+-- purchase and date, so leg volume can be summed for any period
+
+CREATE TABLE IF NOT EXISTS bv_ledger (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  leg varchar NOT NULL,
+  bv decimal(12, 2) NOT NULL,
+  source_user_id varchar,
+  purchase_id varchar,
+  entry_type varchar NOT NULL,
+  occurred_at timestamp NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_bv_ledger_user_date" ON bv_ledger(user_id, occurred_at);
+CREATE INDEX IF NOT EXISTS "IDX_bv_ledger_purchase" ON bv_ledger(purchase_id);
+
+-- Backfill from the purchases already counted in the cached totals, along the current tree
+INSERT INTO bv_ledger (user_id, leg, bv, source_user_id, purchase_id, entry_type, occurred_at)
+WITH RECURSIVE upline AS (
+  SELECT p.id AS purchase_id, p.user_id AS buyer_id, u.id, u.parent_id, u.position,
+    'self'::varchar AS leg, p.total_bv AS bv, COALESCE(p.paid_at, p.bv_applied_at) AS occurred_at, ARRAY[u.id]::varchar[] AS path
+  FROM purchases p
+  JOIN users u ON u.id = p.user_id
+  WHERE p.bv_applied_at IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM bv_ledger)
+  UNION ALL
+  SELECT c.purchase_id, c.buyer_id, a.id, a.parent_id, a.position, c.position, c.bv, c.occurred_at, c.path || a.id
+  FROM upline c
+  JOIN users a ON a.id = c.parent_id
+  WHERE NOT a.id = ANY(c.path)
+)
+SELECT id, leg, bv, buyer_id, purchase_id, 'purchase', occurred_at FROM upline;
+
+COMMENT ON COLUMN bv_ledger.leg IS 'self: own purchase; left/right: the leg of user_id the buyer sits in';
@@ -0,0 +1,9 @@
+-- Migration: Configurable spillover strategies
+-- Sponsors pick how their new recruits spill over; referral links can override it
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS placement_strategy varchar;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_leg varchar;
+ALTER TABLE referral_links ADD COLUMN IF NOT EXISTS placement_strategy varchar;
+ALTER TABLE pending_recruits ADD COLUMN IF NOT EXISTS placement_strategy varchar;
+
+COMMENT ON COLUMN users.placement_strategy IS 'bfs, extreme_left, extreme_right, weaker_leg_bv, weaker_leg_count or preferred_leg; bfs when null';
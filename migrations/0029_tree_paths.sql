@@ -0,0 +1,29 @@
+-- Migration: Binary tree ancestor index
+-- A closure table of the tree, so downline counts, leg membership, depth-limited
+-- subtrees and downline checks each take a single query
+
+CREATE TABLE IF NOT EXISTS tree_paths (
+  ancestor_id varchar NOT NULL,
+  descendant_id varchar NOT NULL,
+  depth integer NOT NULL,
+  leg varchar
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_tree_paths_pair" ON tree_paths(ancestor_id, descendant_id);
+CREATE INDEX IF NOT EXISTS "IDX_tree_paths_descendant" ON tree_paths(descendant_id);
+CREATE INDEX IF NOT EXISTS "IDX_tree_paths_ancestor_leg" ON tree_paths(ancestor_id, leg, depth);
+
+-- Backfill by walking every user's parent chain
+INSERT INTO tree_paths (ancestor_id, descendant_id, depth, leg)
+WITH RECURSIVE walk AS (
+  SELECT id AS ancestor_id, id AS descendant_id, 0 AS depth, NULL::varchar AS leg,
+    position AS via, parent_id AS next_id, ARRAY[id]::varchar[] AS path
+  FROM users
+  UNION ALL
+  SELECT p.id, w.descendant_id, w.depth + 1, w.via, p.position, p.parent_id, w.path || p.id
+  FROM walk w
+  JOIN users p ON p.id = w.next_id
+  WHERE NOT p.id = ANY(w.path)
+)
+SELECT ancestor_id, descendant_id, depth, leg FROM walk
+ON CONFLICT (ancestor_id, descendant_id) DO NOTHING;
@@ -0,0 +1,7 @@
+-- Migration: Idempotent ledger journals
+-- Journals that must only be posted once carry a unique key, so a retried or
+-- concurrent posting fails instead of moving the money twice
+
+ALTER TABLE ledger_journals ADD COLUMN IF NOT EXISTS idempotency_key varchar;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_ledger_journals_idempotency_key" ON ledger_journals(idempotency_key);
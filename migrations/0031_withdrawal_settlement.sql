@@ -0,0 +1,8 @@
+-- Migration: Settle each withdrawal once
+-- A request only carries a settlement journal once it is processed, failed or
+-- rejected. The status change and the journal go in one batch, so a payout or
+-- release racing a status change fails instead of posting on its own
+
+ALTER TABLE withdrawal_requests DROP CONSTRAINT IF EXISTS withdrawal_settlement_when_final;
+ALTER TABLE withdrawal_requests ADD CONSTRAINT withdrawal_settlement_when_final
+  CHECK (settlement_journal_id IS NULL OR status IN ('processed', 'failed', 'rejected'));
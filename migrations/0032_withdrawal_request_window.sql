@@ -0,0 +1,13 @@
+-- Migration: Enforce the withdrawal request window in the database
+-- Each request records when the window it opened ends. Open windows of one
+-- user may not overlap, so two concurrent requests cannot both get in. Requests
+-- filed before this migration have no window and are checked by the service.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS window_ends_at timestamp;
+
+ALTER TABLE withdrawal_requests DROP CONSTRAINT IF EXISTS withdrawal_request_window;
+ALTER TABLE withdrawal_requests ADD CONSTRAINT withdrawal_request_window
+  EXCLUDE USING gist (user_id WITH =, tsrange(created_at, window_ends_at) WITH &&)
+  WHERE (window_ends_at IS NOT NULL AND status <> 'rejected');
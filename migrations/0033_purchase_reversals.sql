@@ -0,0 +1,27 @@
+-- Migration: Retryable purchase reversals
+-- The income reversal owed on refunded purchases is recorded together with
+-- the refund and retried until it completes. Clawbacks remember the reversal
+-- that raised them, so a retry cannot raise the same one twice.
+
+CREATE TABLE IF NOT EXISTS purchase_reversals (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_ids jsonb NOT NULL,
+  return_id varchar,
+  reason text NOT NULL,
+  status varchar NOT NULL DEFAULT 'pending',
+  clawed_back_at timestamp,
+  summary jsonb,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  created_at timestamp DEFAULT now(),
+  completed_at timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_purchase_reversals_status" ON purchase_reversals(status);
+
+ALTER TABLE commission_clawbacks ADD COLUMN IF NOT EXISTS reversal_id varchar;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_commission_clawbacks_reversal_source"
+  ON commission_clawbacks(reversal_id, source_type, reference_id, purchase_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_commission_clawbacks_rank_bonus"
+  ON commission_clawbacks(reference_id) WHERE source_type = 'rank_bonus';
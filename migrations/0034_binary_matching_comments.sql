@@ -0,0 +1,9 @@
+-- Migration: Binary matching is settled by payout cycles
+-- Pairs are no longer matched by a separate run; each cycle statement moves
+-- the user's matching state in the same batch that credits its sales bonus.
+
+COMMENT ON COLUMN users.processed_left_bv IS 'Cumulative left BV consumed by credited payout cycle statements';
+COMMENT ON COLUMN users.processed_right_bv IS 'Cumulative right BV consumed by credited payout cycle statements';
+COMMENT ON COLUMN users.left_carry_forward_bv IS 'Unmatched left BV carried into the next payout cycle';
+COMMENT ON COLUMN users.right_carry_forward_bv IS 'Unmatched right BV carried into the next payout cycle';
+COMMENT ON COLUMN users.total_matched_bv IS 'Lifetime matched BV paid as sales bonus by payout cycles';
@@ -0,0 +1,7 @@
+-- Migration: Claim tokens for payout statements
+-- The batch crediting a statement writes a random token with the status, and
+-- its other statements only run while the statement carries that token. A
+-- timestamp written by one driver and compared through another does not
+-- reliably match, so the claim is no longer told by credited_at.
+
+ALTER TABLE payout_statements ADD COLUMN IF NOT EXISTS claim_token varchar;
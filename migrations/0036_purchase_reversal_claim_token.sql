@@ -0,0 +1,6 @@
+-- Migration: Claim tokens for purchase reversals
+-- The batch clawing back a reversal's income writes a random token, and the
+-- carry forward it withdraws is only taken while the reversal carries that
+-- token, rather than while clawed_back_at matches the time it wrote.
+
+ALTER TABLE purchase_reversals ADD COLUMN IF NOT EXISTS claim_token varchar;
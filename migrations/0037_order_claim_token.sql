@@ -0,0 +1,6 @@
+-- Migration: Claim tokens for reopened orders
+-- Taking a failed order up again writes a random token with the status, and
+-- its purchases and stock are only reserved again while the order carries
+-- that token, rather than while updated_at matches the time it wrote.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS claim_token varchar;
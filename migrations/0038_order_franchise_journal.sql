@@ -0,0 +1,11 @@
+-- Migration: Fulfil orders with their franchise income in one batch
+-- The franchise income journal is posted in the batch that marks the order
+-- fulfilled and dispatches its stock, and recorded on the order. An order
+-- only carries the journal once fulfilled, so a batch whose claim lost to a
+-- refund or cancellation fails instead of paying the franchise on its own.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS franchise_journal_id varchar;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_franchise_journal_when_fulfilled;
+ALTER TABLE orders ADD CONSTRAINT orders_franchise_journal_when_fulfilled
+  CHECK (franchise_journal_id IS NULL OR fulfilled_at IS NOT NULL);
@@ -0,0 +1,189 @@
+import { db } from "./db";
+import {
+  users,
+  purchases,
+  products,
+  notifications,
+  type Order,
+} from "@shared/schema";
+import { eq, and, gte, lt, inArray, sql } from "drizzle-orm";
+import { compensationPlanService } from "./compensationPlanService";
+import { getQualificationMonth } from "@shared/compensationPlan";
+import { toPaise, fromPaise } from "./money";
+
+export type PurchaseType = 'first_purchase' | 'second_purchase';
+
+export interface ActivityStatus {
+  activated: boolean;
+  activationDate: Date | null;
+  firstPurchaseAmount: number; // Package that activates the ID
+  activeThisMonth: boolean; // Binary income is paid for payout periods in this month
+  monthStart: Date;
+  repurchaseBV: number; // Repurchase BV so far this month
+  requiredBV: number;
+  qualifiedForNextMonth: boolean;
+}
+
+// Lines of an order as far as the activation rules are concerned
+interface ActivityLine {
+  name: string;
+  purchaseType: PurchaseType;
+  amount: string; // Before GST
+}
+
+/**
+ * Whether an activated ID earns binary income in the month after a
+ * qualification month: enough repurchase BV in that month, or activated no
+ * earlier than it (the first months after activation need no repurchase)
+ */
+function qualifies(activationDate: Date | null, qualificationStart: Date, repurchaseBV: number, requiredBV: number): boolean {
+  return (!!activationDate && activationDate >= qualificationStart) || repurchaseBV >= requiredBV;
+}
+
+export class ActivityService {
+  // ===== ACTIVATION =====
+  /**
+   * Enforce what the purchase types mean: an ID is activated by a single
+   * first-purchase order of at least the package amount, and repurchase
+   * products are for activated IDs only.
+   */
+  async assertCanPurchase(userId: string, lines: ActivityLine[]): Promise<void> {
+    const [user] = await db.select({ idStatus: users.idStatus }).from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const firstPurchase = lines.filter(line => line.purchaseType === 'first_purchase');
+    if (user.idStatus === 'Active') {
+      if (firstPurchase.length > 0) {
+        throw new Error(`Your ID is already active. ${firstPurchase[0].name} is an activation package; please choose repurchase products`);
+      }
+      return;
+    }
+
+    if (lines.some(line => line.purchaseType === 'second_purchase')) {
+      throw new Error('Activate your ID with a first purchase before buying repurchase products');
+    }
+    const { definition: plan } = await compensationPlanService.getActivePlan();
+    const amount = firstPurchase.reduce((sum, line) => sum + toPaise(line.amount), BigInt(0));
+    if (amount < toPaise(plan.activation.firstPurchaseAmount.toFixed(2))) {
+      throw new Error(`Your first purchase must be at least ₹${plan.activation.firstPurchaseAmount} (before GST) to activate your ID`);
+    }
+  }
+
+  /**
+   * Activate the buyer's ID once a qualifying first-purchase order is paid.
+   * Returns true when this order activated the ID.
+   */
+  async activateFromOrder(order: Order): Promise<boolean> {
+    const paidAt = order.paidAt || new Date();
+    const { definition: plan } = await compensationPlanService.getActivePlan(paidAt);
+
+    const [{ amount }] = await db
+      .select({ amount: sql<string>`coalesce(sum(${purchases.totalAmount}), 0)::text` })
+      .from(purchases)
+      .innerJoin(products, eq(purchases.productId, products.id))
+      .where(and(
+        eq(purchases.orderId, order.id),
+        eq(purchases.paymentStatus, 'paid'),
+        eq(products.purchaseType, 'first_purchase')
+      ));
+    if (toPaise(amount) === BigInt(0) || toPaise(amount) < toPaise(plan.activation.firstPurchaseAmount.toFixed(2))) {
+      return false;
+    }
+
+    // Only the first qualifying order activates; the condition keeps it idempotent
+    const [activated] = await db.update(users)
+      .set({ idStatus: 'Active', activationDate: paidAt, updatedAt: new Date() })
+      .where(and(eq(users.id, order.userId), sql`${users.idStatus} IS DISTINCT FROM 'Active'`))
+      .returning();
+    if (!activated) {
+      return false;
+    }
+
+    await db.insert(notifications).values({
+      userId: order.userId,
+      type: 'id_activated',
+      title: 'Your ID is active',
+      message: `Your first purchase (order ${order.orderNumber}) has activated your ID. Keep at least ${plan.activation.monthlyRepurchaseBV} BV of repurchases each month to stay active for binary income.`,
+      data: { orderId: order.id, amount: fromPaise(toPaise(amount)) },
+    });
+    console.log(`User ${order.userId} activated by order ${order.orderNumber} (${amount})`);
+    return true;
+  }
+
+  // ===== MONTHLY QUALIFICATION =====
+  /**
+   * Paid repurchase BV per user in [from, to). Refunded lines no longer count.
+   */
+  async getRepurchaseBV(from: Date, to: Date, userIds?: string[]): Promise<Map<string, number>> {
+    const rows = await db
+      .select({ userId: purchases.userId, bv: sql<string>`sum(${purchases.totalBV})::text` })
+      .from(purchases)
+      .innerJoin(products, eq(purchases.productId, products.id))
+      .where(and(
+        eq(purchases.paymentStatus, 'paid'),
+        eq(products.purchaseType, 'second_purchase'),
+        gte(purchases.paidAt, from),
+        lt(purchases.paidAt, to),
+        userIds ? inArray(purchases.userId, userIds) : undefined
+      ))
+      .groupBy(purchases.userId);
+    return new Map(rows.map(row => [row.userId, parseFloat(row.bv)]));
+  }
+
+  /**
+   * Activated IDs that earn binary income in a payout period starting at
+   * periodStart, judged on the month before it
+   */
+  async getActiveUserIds(periodStart: Date): Promise<Set<string>> {
+    const { definition: plan } = await compensationPlanService.getActivePlan(periodStart);
+    const month = getQualificationMonth(periodStart);
+
+    const activated = await db
+      .select({ id: users.id, activationDate: users.activationDate })
+      .from(users)
+      .where(eq(users.idStatus, 'Active'));
+    const repurchaseBV = await this.getRepurchaseBV(month.start, month.end);
+
+    return new Set(activated
+      .filter(user => qualifies(user.activationDate, month.start, repurchaseBV.get(user.id) ?? 0, plan.activation.monthlyRepurchaseBV))
+      .map(user => user.id));
+  }
+
+  /**
+   * Where a member stands: activation, and repurchase BV towards next month
+   */
+  async getUserActivity(userId: string, now: Date = new Date()): Promise<ActivityStatus> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const nextMonthStart = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    const previousMonth = getQualificationMonth(monthStart);
+    const [{ definition: plan }, { definition: thisMonthPlan }, { definition: nextMonthPlan }] = await Promise.all([
+      compensationPlanService.getActivePlan(now),
+      compensationPlanService.getActivePlan(monthStart),
+      compensationPlanService.getActivePlan(nextMonthStart),
+    ]);
+
+    const activated = user.idStatus === 'Active';
+    const previousBV = (await this.getRepurchaseBV(previousMonth.start, previousMonth.end, [userId])).get(userId) ?? 0;
+    const repurchaseBV = (await this.getRepurchaseBV(monthStart, nextMonthStart, [userId])).get(userId) ?? 0;
+    const requiredBV = nextMonthPlan.activation.monthlyRepurchaseBV;
+
+    return {
+      activated,
+      activationDate: user.activationDate,
+      firstPurchaseAmount: plan.activation.firstPurchaseAmount,
+      activeThisMonth: activated && qualifies(user.activationDate, previousMonth.start, previousBV, thisMonthPlan.activation.monthlyRepurchaseBV),
+      monthStart,
+      repurchaseBV,
+      requiredBV,
+      qualifiedForNextMonth: activated && qualifies(user.activationDate, monthStart, repurchaseBV, requiredBV),
+    };
+  }
+}
+
+export const activityService = new ActivityService();
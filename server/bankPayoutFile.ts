@@ -0,0 +1,199 @@
+// Bank bulk-payment file generation (NEFT/IMPS) and bank response file parsing.
+// Pure functions only: the withdrawal service supplies the rows and applies the results.
+
+import { toPaise, fromPaise } from "./money";
+
+export type PayoutFileFormat = 'csv' | 'fixed';
+export type PaymentMode = 'NEFT' | 'IMPS';
+
+export interface BankPayoutLine {
+  reference: string; // Payment reference echoed back in the response file
+  beneficiaryName: string;
+  accountNumber: string;
+  ifsc: string;
+  amount: string; // Net amount, decimal string
+  email?: string | null;
+}
+
+export interface BankPayoutFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface BankResponseRow {
+  line: number;
+  reference: string;
+  status: 'processed' | 'failed' | 'pending';
+  utr?: string;
+  remarks?: string;
+  rawStatus: string;
+}
+
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+const SUCCESS_STATUSES = ['SUCCESS', 'SUCCESSFUL', 'PAID', 'PROCESSED', 'EXECUTED', 'COMPLETED', 'CREDITED'];
+const FAILURE_STATUSES = ['FAILED', 'FAILURE', 'REJECTED', 'RETURNED', 'REVERSED', 'CANCELLED'];
+
+/**
+ * Short payment reference for a withdrawal. Banks cap narration/reference
+ * fields at 16-20 characters, so the UUID is compacted.
+ */
+export function paymentReference(withdrawalId: string): string {
+  return `VV${withdrawalId.replace(/-/g, '').slice(0, 14).toUpperCase()}`;
+}
+
+/**
+ * Validate beneficiary details before they go into a payment file
+ */
+export function validatePayoutLine(line: BankPayoutLine): string | null {
+  if (!line.beneficiaryName.trim()) return 'Beneficiary name is missing';
+  if (!/^\d{9,18}$/.test(line.accountNumber)) return `Invalid account number "${line.accountNumber}"`;
+  if (!IFSC_PATTERN.test(line.ifsc)) return `Invalid IFSC code "${line.ifsc}"`;
+  if (toPaise(line.amount) <= BigInt(0)) return 'Payout amount must be positive';
+  return null;
+}
+
+function sanitizeName(name: string, length: number): string {
+  return name.toUpperCase().replace(/[^A-Z0-9 ]/g, '').replace(/\s+/g, ' ').trim().slice(0, length);
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function padRight(value: string, length: number): string {
+  return value.slice(0, length).padEnd(length, ' ');
+}
+
+function padAmount(paise: bigint, length: number): string {
+  return paise.toString().padStart(length, '0');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Comma-separated bulk upload file, one payment per row
+ */
+export function buildPayoutCsv(batchNumber: string, lines: BankPayoutLine[], options: { debitAccount: string; mode: PaymentMode }): BankPayoutFile {
+  const header = [
+    'Payment Mode', 'Debit Account', 'Beneficiary Name', 'Beneficiary Account Number',
+    'IFSC', 'Amount', 'Payment Reference', 'Beneficiary Email', 'Remarks',
+  ];
+  const rows = lines.map(line => [
+    options.mode,
+    options.debitAccount,
+    sanitizeName(line.beneficiaryName, 35),
+    line.accountNumber,
+    line.ifsc,
+    fromPaise(toPaise(line.amount)),
+    line.reference,
+    line.email || '',
+    `${batchNumber} payout`,
+  ]);
+
+  return {
+    filename: `${batchNumber}-${options.mode.toLowerCase()}.csv`,
+    contentType: 'text/csv',
+    content: [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+  };
+}
+
+/**
+ * Fixed-width NEFT/IMPS file:
+ *   H | batch(20) | date(8) | count(6) | total paise(15) | debit account(20)
+ *   D | mode(4) | reference(16) | IFSC(11) | account(20) | name(35) | amount paise(15)
+ *   T | count(6) | total paise(15)
+ */
+export function buildPayoutFixedWidth(batchNumber: string, lines: BankPayoutLine[], options: { debitAccount: string; mode: PaymentMode; date?: Date }): BankPayoutFile {
+  const total = lines.reduce((sum, line) => sum + toPaise(line.amount), BigInt(0));
+  const count = String(lines.length).padStart(6, '0');
+
+  const records = [
+    `H${padRight(batchNumber, 20)}${formatDate(options.date || new Date())}${count}${padAmount(total, 15)}${padRight(options.debitAccount, 20)}`,
+    ...lines.map(line =>
+      `D${padRight(options.mode, 4)}${padRight(line.reference, 16)}${padRight(line.ifsc, 11)}${padRight(line.accountNumber, 20)}` +
+      `${padRight(sanitizeName(line.beneficiaryName, 35), 35)}${padAmount(toPaise(line.amount), 15)}`
+    ),
+    `T${count}${padAmount(total, 15)}`,
+  ];
+
+  return {
+    filename: `${batchNumber}-${options.mode.toLowerCase()}.txt`,
+    contentType: 'text/plain',
+    content: records.join('\r\n') + '\r\n',
+  };
+}
+
+function parseCsvLine(text: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(column => names.includes(column.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+/**
+ * Parse a bank response/status file (CSV with a header row). Recognised
+ * columns: payment reference, status, UTR and remarks, in any order.
+ */
+export function parseBankResponseFile(content: string): BankResponseRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Response file is empty');
+  }
+
+  const header = parseCsvLine(lines[0]);
+  const referenceColumn = findColumn(header, ['paymentreference', 'reference', 'customerreference', 'refno', 'referenceno']);
+  const statusColumn = findColumn(header, ['status', 'transactionstatus', 'paymentstatus']);
+  const utrColumn = findColumn(header, ['utr', 'utrno', 'utrnumber', 'bankreference']);
+  const remarksColumn = findColumn(header, ['remarks', 'reason', 'failurereason', 'description']);
+
+  if (referenceColumn < 0 || statusColumn < 0) {
+    throw new Error('Response file must have "Payment Reference" and "Status" columns');
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const fields = parseCsvLine(line);
+    const rawStatus = (fields[statusColumn] || '').toUpperCase();
+    const status = SUCCESS_STATUSES.includes(rawStatus)
+      ? 'processed'
+      : FAILURE_STATUSES.includes(rawStatus) ? 'failed' : 'pending';
+
+    return {
+      line: index + 2,
+      reference: (fields[referenceColumn] || '').toUpperCase(),
+      status,
+      utr: utrColumn >= 0 ? fields[utrColumn] || undefined : undefined,
+      remarks: remarksColumn >= 0 ? fields[remarksColumn] || undefined : undefined,
+      rawStatus,
+    };
+  });
+}
@@ -0,0 +1,190 @@
+import { db } from "./db";
+import { users, transactions } from "@shared/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { getRankRequirement, type CompensationPlanDefinition } from "@shared/compensationPlan";
+import { compensationPlanService } from "./compensationPlanService";
+
+export interface RankCap {
+  daily: number;
+  weekly: number;
+}
+
+export interface BinaryMatchInput {
+  leftAvailableBV: number;
+  rightAvailableBV: number;
+  matchingRate: number;
+  dailyCapRemaining: number;
+  weeklyCapRemaining: number;
+}
+
+export interface BinaryMatchResult {
+  matchedBV: number;
+  grossIncome: number;
+  payout: number;
+  cappedAmount: number;
+  leftCarryForwardBV: number;
+  rightCarryForwardBV: number;
+}
+
+export interface DailyLegVolume {
+  day: Date;
+  leftBV: number;
+  rightBV: number;
+}
+
+export interface BinaryDayMatch extends BinaryMatchResult {
+  day: Date;
+}
+
+export interface BinaryPeriodMatchResult {
+  matchedBV: number;
+  payout: number;
+  cappedAmount: number;
+  leftCarryForwardBV: number;
+  rightCarryForwardBV: number;
+  dailyCap: number;
+  weeklyCap: number;
+  days: BinaryDayMatch[];
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Match the weaker leg against the stronger one and work out the payout.
+ * Unmatched BV on the stronger leg is carried forward; capped income is flushed.
+ */
+export function computeBinaryMatch(input: BinaryMatchInput): BinaryMatchResult {
+  const matchedBV = roundMoney(Math.max(0, Math.min(input.leftAvailableBV, input.rightAvailableBV)));
+  const grossIncome = roundMoney(matchedBV * input.matchingRate);
+  const capRemaining = Math.max(0, Math.min(input.dailyCapRemaining, input.weeklyCapRemaining));
+  const payout = roundMoney(Math.min(grossIncome, capRemaining));
+
+  return {
+    matchedBV,
+    grossIncome,
+    payout,
+    cappedAmount: roundMoney(grossIncome - payout),
+    leftCarryForwardBV: roundMoney(Math.max(0, input.leftAvailableBV - matchedBV)),
+    rightCarryForwardBV: roundMoney(Math.max(0, input.rightAvailableBV - matchedBV)),
+  };
+}
+
+/**
+ * Binary pair-matching rules. Pairs are only matched and paid by the payout
+ * cycles, which credit each statement's bonus together with the user's
+ * processed BV and carry forward; this service computes and reports.
+ */
+export class BinaryMatchingService {
+  getRankCap(plan: CompensationPlanDefinition, rank: string | null): RankCap {
+    const requirement = getRankRequirement(plan, rank);
+    return { daily: requirement.dailyCap, weekly: requirement.weeklyCap };
+  }
+
+  /**
+   * Match a user's period volume day by day, applying the daily cap to each day
+   * and the weekly cap across days that fall in the same (Monday-based) week.
+   * `paidBefore` holds what earlier periods already paid in a week the period
+   * shares with them, keyed by the week's start, so the cap spans the boundary.
+   */
+  matchPeriod(
+    dailyVolumes: DailyLegVolume[],
+    openingLeftCarryBV: number,
+    openingRightCarryBV: number,
+    rank: string | null,
+    plan: CompensationPlanDefinition,
+    paidBefore: { [week: string]: number } = {}
+  ): BinaryPeriodMatchResult {
+    const cap = this.getRankCap(plan, rank);
+    const paidPerWeek: { [week: string]: number } = { ...paidBefore };
+    const days: BinaryDayMatch[] = [];
+
+    let leftCarry = openingLeftCarryBV;
+    let rightCarry = openingRightCarryBV;
+    let matchedBV = 0;
+    let payout = 0;
+    let cappedAmount = 0;
+
+    const sorted = [...dailyVolumes].sort((a, b) => a.day.getTime() - b.day.getTime());
+    for (const volume of sorted) {
+      const weekKey = startOfWeek(volume.day).toISOString();
+      const paidThisWeek = paidPerWeek[weekKey] || 0;
+
+      const result = computeBinaryMatch({
+        leftAvailableBV: leftCarry + volume.leftBV,
+        rightAvailableBV: rightCarry + volume.rightBV,
+        matchingRate: plan.binary.matchingRate,
+        dailyCapRemaining: cap.daily,
+        weeklyCapRemaining: cap.weekly - paidThisWeek,
+      });
+
+      paidPerWeek[weekKey] = paidThisWeek + result.payout;
+      leftCarry = result.leftCarryForwardBV;
+      rightCarry = result.rightCarryForwardBV;
+      matchedBV += result.matchedBV;
+      payout += result.payout;
+      cappedAmount += result.cappedAmount;
+
+      if (result.matchedBV > 0) {
+        days.push({ day: volume.day, ...result });
+      }
+    }
+
+    return {
+      matchedBV: roundMoney(matchedBV),
+      payout: roundMoney(payout),
+      cappedAmount: roundMoney(cappedAmount),
+      leftCarryForwardBV: roundMoney(leftCarry),
+      rightCarryForwardBV: roundMoney(rightCarry),
+      dailyCap: cap.daily,
+      weeklyCap: cap.weekly,
+      days,
+    };
+  }
+
+  /**
+   * Current matching position, caps and recent payouts for a user
+   */
+  async getMatchingSummary(userId: string) {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const { definition: plan } = await compensationPlanService.getActivePlan();
+    const cap = this.getRankCap(plan, user.currentRank);
+    const recentPayouts = await db.select().from(transactions)
+      .where(and(eq(transactions.userId, userId), eq(transactions.type, 'sales_bonus')))
+      .orderBy(desc(transactions.createdAt))
+      .limit(20);
+
+    return {
+      matchingRate: plan.binary.matchingRate,
+      leftBV: user.leftBV || '0.00',
+      rightBV: user.rightBV || '0.00',
+      leftCarryForwardBV: user.leftCarryForwardBV || '0.00',
+      rightCarryForwardBV: user.rightCarryForwardBV || '0.00',
+      pendingLeftBV: roundMoney(Math.max(0, parseFloat(user.leftBV || '0') - parseFloat(user.processedLeftBV || '0'))),
+      pendingRightBV: roundMoney(Math.max(0, parseFloat(user.rightBV || '0') - parseFloat(user.processedRightBV || '0'))),
+      totalMatchedBV: user.totalMatchedBV || '0.00',
+      lastMatchedAt: user.lastMatchedAt,
+      caps: cap,
+      recentPayouts,
+    };
+  }
+}
+
+export function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+// Weeks start on Monday
+export function startOfWeek(date: Date): Date {
+  const start = startOfDay(date);
+  const day = start.getDay();
+  start.setDate(start.getDate() - ((day + 6) % 7));
+  return start;
+}
+
+export const binaryMatchingService = new BinaryMatchingService();
@@ -1,6 +1,9 @@
-import { db } from "./db";
-import { users } from "@shared/schema";
-import { eq, isNull, or } from "drizzle-orm";
+import { db, runBatch, type BatchStatement } from "./db";
+import { users, bvLedger, auditLog, treePaths, type User, type PlacementStrategy, type UpdatePlacementPreference } from "@shared/schema";
+import { eq, and, or, isNull, inArray, between, gte, ilike, asc, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { toPaise, fromPaise } from "./money";
+import { treePathService, type DownlineCounts } from "./treePathService";
 
 export interface BinaryTreeUser {
   id: string;
@@ -19,68 +22,198 @@ export interface BinaryTreeUser {
   idStatus: string | null;
 }
 
+export class PlacementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlacementError';
+  }
+}
+
+// Where a user sits in the tree
+export interface TreePlacement {
+  parentId: string | null;
+  position: string | null;
+  level: string | null;
+}
+
+export interface SubtreeMove {
+  userId: string;
+  previous: TreePlacement;
+  current: TreePlacement;
+  movedUsers: number; // The user and their whole downline
+  movedBV: string; // Team BV taken from the old upline and given to the new one
+}
+
+// Where a sponsor's next recruit lands
+export interface PlacementSlot {
+  parentId: string;
+  position: 'left' | 'right';
+  strategy: PlacementStrategy;
+}
+
+export interface PlacementPreview extends PlacementSlot {
+  parentMemberId: string | null; // Display ID like VV0001
+  parentName: string;
+}
+
+// One member as the tree explorer shows them
+export interface TreeExplorerNode {
+  id: string;
+  memberId: string | null; // Display ID like VV0001
+  name: string;
+  parentId: string | null;
+  position: string | null;
+  depth: number; // Levels below the viewer
+  rank: string | null;
+  idStatus: string | null;
+  leftBV: string;
+  rightBV: string;
+  leftChildId: string | null;
+  rightChildId: string | null;
+}
+
+export interface TreeExplorerPage {
+  node: TreeExplorerNode;
+  path: TreeExplorerNode[]; // From the viewer down to the node, both included
+  levels: number;
+  nodes: TreeExplorerNode[]; // The node's downline down to `levels` below it
+  counts: DownlineCounts; // The node's whole downline
+}
+
+export interface TreeSearchResult {
+  id: string;
+  memberId: string | null;
+  name: string;
+  depth: number; // Levels below the viewer
+  leg: string | null; // The viewer's leg the member is in
+}
+
+const explorerColumns = {
+  id: users.id,
+  memberId: users.userId,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  parentId: users.parentId,
+  position: users.position,
+  rank: users.currentRank,
+  idStatus: users.idStatus,
+  leftBV: users.leftBV,
+  rightBV: users.rightBV,
+  leftChildId: users.leftChildId,
+  rightChildId: users.rightChildId,
+};
+
+const memberName = (member: { firstName: string | null; lastName: string | null }) =>
+  [member.firstName, member.lastName].filter(Boolean).join(' ');
+
+const childColumn = (position: 'left' | 'right') => position === 'left' ? 'left_child_id' : 'right_child_id';
+
 export class BinaryTreeService {
   /**
-   * Find the next available position in the binary tree for placement
-   * Uses "balanced spilling" - places new users to maintain tree balance
+   * Find the next available position in the binary tree for placement.
+   * The spillover strategy comes from the caller (e.g. a referral link) or
+   * the sponsor's profile; without either the tree is filled breadth-first.
+   * The preferred leg likewise defaults to the sponsor's.
    */
-  async findNextAvailablePosition(sponsorId: string): Promise<{ parentId: string; position: 'left' | 'right' }> {
-    // Start with the sponsor as the potential parent
-    const sponsor = await db.select().from(users).where(eq(users.id, sponsorId)).limit(1);
+  async findNextAvailablePosition(sponsorId: string, strategy?: PlacementStrategy | null, preferredLeg?: 'left' | 'right'): Promise<PlacementSlot> {
+    const [sponsor] = await db.select().from(users).where(eq(users.id, sponsorId)).limit(1);
     
-    if (!sponsor.length) {
+    if (!sponsor) {
       throw new Error("Sponsor not found");
     }
 
-    // Check if sponsor has open positions
-    const sponsorUser = sponsor[0];
-    
-    // If sponsor has no left child, place there
-    if (!sponsorUser.leftChildId) {
-      return { parentId: sponsorId, position: 'left' };
-    }
-    
-    // If sponsor has no right child, place there
-    if (!sponsorUser.rightChildId) {
-      return { parentId: sponsorId, position: 'right' };
+    const resolved = strategy || (sponsor.placementStrategy as PlacementStrategy | null) || 'bfs';
+    const slot = await this.findSlot({ ...sponsor, preferredLeg: preferredLeg ?? sponsor.preferredLeg }, resolved);
+    return { ...slot, strategy: resolved };
+  }
+
+  /**
+   * The exact parent and slot the sponsor's next recruit would land in
+   */
+  async previewPlacement(sponsorId: string, strategy?: PlacementStrategy | null, preferredLeg?: 'left' | 'right'): Promise<PlacementPreview> {
+    const slot = await this.findNextAvailablePosition(sponsorId, strategy, preferredLeg);
+    const [parent] = await db.select().from(users).where(eq(users.id, slot.parentId)).limit(1);
+    return {
+      ...slot,
+      parentMemberId: parent?.userId ?? null,
+      parentName: [parent?.firstName, parent?.lastName].filter(Boolean).join(' '),
+    };
+  }
+
+  async updatePlacementPreference(userId: string, preference: UpdatePlacementPreference): Promise<User> {
+    const [user] = await db.update(users)
+      .set({
+        placementStrategy: preference.placementStrategy,
+        preferredLeg: preference.preferredLeg ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) throw new Error('User not found');
+    return user;
+  }
+
+  private async findSlot(sponsor: User, strategy: PlacementStrategy): Promise<{ parentId: string; position: 'left' | 'right' }> {
+    switch (strategy) {
+      case 'extreme_left':
+      case 'extreme_right':
+        return await this.findOuterSlot(sponsor.id, strategy === 'extreme_left' ? 'left' : 'right');
+
+      case 'weaker_leg_bv': {
+        const weakerLeg = parseFloat(sponsor.leftBV || '0') <= parseFloat(sponsor.rightBV || '0') ? 'left' : 'right';
+        return await this.findSlotInLeg(sponsor, weakerLeg);
+      }
+
+      case 'weaker_leg_count': {
+        const counts = await treePathService.getDownlineCounts(sponsor.id);
+        return await this.findSlotInLeg(sponsor, counts.left <= counts.right ? 'left' : 'right');
+      }
+
+      case 'preferred_leg': {
+        const leg = sponsor.preferredLeg === 'right' ? 'right' : 'left';
+        const legChildId = leg === 'left' ? sponsor.leftChildId : sponsor.rightChildId;
+        return legChildId ? await this.findSpilloverInDirection(legChildId, leg) : { parentId: sponsor.id, position: leg };
+      }
+
+      default:
+        // If sponsor has an open position, place there; otherwise spill over breadth-first
+        if (!sponsor.leftChildId) {
+          return { parentId: sponsor.id, position: 'left' };
+        }
+        if (!sponsor.rightChildId) {
+          return { parentId: sponsor.id, position: 'right' };
+        }
+        return await this.findSpilloverPosition(sponsor.id);
     }
+  }
 
-    // Both positions under sponsor are filled, use spillover
-    return await this.findSpilloverPosition(sponsorId);
+  /**
+   * First free slot within one leg of the sponsor, breadth-first
+   */
+  private async findSlotInLeg(sponsor: User, leg: 'left' | 'right'): Promise<{ parentId: string; position: 'left' | 'right' }> {
+    const legChildId = leg === 'left' ? sponsor.leftChildId : sponsor.rightChildId;
+    return legChildId ? await this.findSpilloverPosition(legChildId) : { parentId: sponsor.id, position: leg };
+  }
+
+  /**
+   * Bottom of the outermost line on one side, following only that side's children
+   */
+  private async findOuterSlot(startNodeId: string, side: 'left' | 'right'): Promise<{ parentId: string; position: 'left' | 'right' }> {
+    const parentId = await treePathService.findOuterEnd(startNodeId, side);
+    if (!parentId) {
+      throw new Error(`Tree member ${startNodeId} not found`);
+    }
+    return { parentId, position: side };
   }
 
   /**
    * Find spillover position using breadth-first search for balance
    */
   private async findSpilloverPosition(sponsorId: string): Promise<{ parentId: string; position: 'left' | 'right' }> {
-    const queue = [sponsorId];
-    
-    while (queue.length > 0) {
-      const currentUserId = queue.shift()!;
-      
-      const currentUser = await db.select().from(users).where(eq(users.id, currentUserId)).limit(1);
-      
-      if (!currentUser.length) continue;
-      
-      const user = currentUser[0];
-      
-      // Check if current user has an open left position
-      if (!user.leftChildId) {
-        return { parentId: currentUserId, position: 'left' };
-      }
-      
-      // Check if current user has an open right position
-      if (!user.rightChildId) {
-        return { parentId: currentUserId, position: 'right' };
-      }
-      
-      // Add children to queue for next level check
-      if (user.leftChildId) queue.push(user.leftChildId);
-      if (user.rightChildId) queue.push(user.rightChildId);
-    }
+    const slot = await treePathService.findOpenSlot(sponsorId);
     
     // Fallback: place under sponsor as left child (should not happen in normal flow)
-    return { parentId: sponsorId, position: 'left' };
+    return slot ?? { parentId: sponsorId, position: 'left' };
   }
 
   /**
@@ -112,40 +245,11 @@ export class BinaryTreeService {
    * Find spillover position within a specific direction/leg
    */
   private async findSpilloverInDirection(startNodeId: string, preferredSide: 'left' | 'right'): Promise<{ parentId: string; position: 'left' | 'right' }> {
-    const queue = [startNodeId];
-    
-    while (queue.length > 0) {
-      const currentUserId = queue.shift()!;
-      
-      const currentUser = await db.select().from(users).where(eq(users.id, currentUserId)).limit(1);
-      
-      if (!currentUser.length) continue;
-      
-      const user = currentUser[0];
-      
-      // Prefer the same side first, then try the opposite side
-      if (preferredSide === 'left' && !user.leftChildId) {
-        return { parentId: currentUserId, position: 'left' };
-      }
-      if (preferredSide === 'right' && !user.rightChildId) {
-        return { parentId: currentUserId, position: 'right' };
-      }
-      
-      // Try opposite side if preferred is not available
-      if (preferredSide === 'left' && !user.rightChildId) {
-        return { parentId: currentUserId, position: 'right' };
-      }
-      if (preferredSide === 'right' && !user.leftChildId) {
-        return { parentId: currentUserId, position: 'left' };
-      }
-      
-      // Add children to queue for next level check
-      if (user.leftChildId) queue.push(user.leftChildId);
-      if (user.rightChildId) queue.push(user.rightChildId);
-    }
+    // Prefer the same side first, then the opposite side, level by level
+    const slot = await treePathService.findOpenSlot(startNodeId, preferredSide);
     
     // Fallback: place under the starting node as first available
-    return { parentId: startNodeId, position: 'left' };
+    return slot ?? { parentId: startNodeId, position: 'left' };
   }
 
   /**
@@ -182,6 +286,148 @@ export class BinaryTreeService {
         .set({ rightChildId: userId })
         .where(eq(users.id, parentId));
     }
+
+    await treePathService.addNode(userId);
+  }
+
+  // ===== PLACEMENT OVERRIDE =====
+  /**
+   * Move a user and their whole downline under another parent's free slot.
+   * Child pointers, position, the subtree's levels and its ancestor index
+   * rows are rewritten, the subtree's BV moves from the old upline's legs to the new upline's (with
+   * BV ledger entries), and the move is audited with its before/after state.
+   *
+   * Everything runs in one batch, i.e. one transaction. Its first statement
+   * claims the target slot while the user is still under the parent read
+   * here; every other statement only applies if that claim holds, so a
+   * concurrent change to either leaves the tree untouched.
+   */
+  async moveSubtree(
+    userId: string,
+    newParentId: string,
+    position: 'left' | 'right',
+    actor: { id: string; role: string },
+    reason?: string
+  ): Promise<SubtreeMove> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) throw new PlacementError('User not found');
+    const [newParent] = await db.select().from(users).where(eq(users.id, newParentId));
+    if (!newParent) throw new PlacementError('New parent not found');
+
+    if (user.parentId === newParentId && user.position === position) {
+      throw new PlacementError('User is already in this position');
+    }
+    const occupant = position === 'left' ? newParent.leftChildId : newParent.rightChildId;
+    if (occupant) {
+      throw new PlacementError(`The ${position} position under the new parent is already taken`);
+    }
+
+    if (newParentId === userId || await treePathService.isInDownline(userId, newParentId)) {
+      throw new PlacementError("A user cannot be moved into their own downline");
+    }
+    const subtree = await treePathService.getSubtreeDepths(userId);
+
+    // Team BV leaves every old upline leg and arrives on every new one
+    const movedBV = toPaise(user.totalBV || '0');
+    const deltas = new Map<string, { left: bigint; right: bigint }>();
+    const shift = (upline: { id: string; leg: string | null }[], amount: bigint) => {
+      for (const { id, leg } of upline) {
+        const delta = deltas.get(id) ?? { left: BigInt(0), right: BigInt(0) };
+        if (leg === 'left') delta.left += amount;
+        else if (leg === 'right') delta.right += amount;
+        deltas.set(id, delta);
+      }
+    };
+    if (user.parentId) {
+      shift(await this.getUplineLegs(user.parentId, user.position), -movedBV);
+    }
+    shift(await this.getUplineLegs(newParentId, position), movedBV);
+
+    const previous: TreePlacement = { parentId: user.parentId, position: user.position, level: user.level };
+    const newLevel = parseInt(newParent.level || '0') + 1;
+    const current: TreePlacement = { parentId: newParentId, position, level: String(newLevel) };
+    const now = new Date();
+
+    // Only true once this batch's first statement has claimed the slot
+    const claimed = sql`EXISTS (SELECT 1 FROM users target WHERE target.id = ${newParentId} AND target.${sql.raw(childColumn(position))} = ${userId})`;
+
+    const claim = db.update(users)
+      .set(position === 'left' ? { leftChildId: userId, updatedAt: now } : { rightChildId: userId, updatedAt: now })
+      .where(and(
+        eq(users.id, newParentId),
+        isNull(position === 'left' ? users.leftChildId : users.rightChildId),
+        sql`EXISTS (SELECT 1 FROM users mover WHERE mover.id = ${userId} AND mover.parent_id IS NOT DISTINCT FROM ${user.parentId} AND mover.position IS NOT DISTINCT FROM ${user.position})`
+      ))
+      .returning({ id: users.id });
+
+    const statements: BatchStatement[] = [claim];
+    if (user.parentId && (user.position === 'left' || user.position === 'right')) {
+      const oldSlot = user.position === 'left' ? users.leftChildId : users.rightChildId;
+      statements.push(db.update(users)
+        .set(user.position === 'left' ? { leftChildId: null, updatedAt: now } : { rightChildId: null, updatedAt: now })
+        .where(and(eq(users.id, user.parentId), eq(oldSlot, userId), claimed)));
+    }
+    statements.push(db.update(users)
+      .set({ parentId: newParentId, position, updatedAt: now })
+      .where(and(eq(users.id, userId), claimed)));
+
+    // Levels follow the new parent, one statement per depth of the subtree
+    const byDepth = new Map<number, string[]>();
+    subtree.forEach((depth, id) => byDepth.set(depth, [...(byDepth.get(depth) ?? []), id]));
+    byDepth.forEach((ids, depth) => {
+      statements.push(db.update(users)
+        .set({ level: String(newLevel + depth) })
+        .where(and(inArray(users.id, ids), claimed)));
+    });
+    statements.push(...treePathService.moveStatements(userId, newParentId, position, claimed).map(query => db.execute(query)));
+
+    const ledgerRows: SQL[] = [];
+    deltas.forEach((delta, id) => {
+      if (delta.left === BigInt(0) && delta.right === BigInt(0)) return;
+      statements.push(db.update(users)
+        .set({
+          totalBV: sql`COALESCE(${users.totalBV}, 0) + ${fromPaise(delta.left + delta.right)}`,
+          leftBV: sql`COALESCE(${users.leftBV}, 0) + ${fromPaise(delta.left)}`,
+          rightBV: sql`COALESCE(${users.rightBV}, 0) + ${fromPaise(delta.right)}`,
+          updatedAt: now,
+        })
+        .where(and(eq(users.id, id), claimed)));
+      for (const [leg, bv] of [['left', delta.left], ['right', delta.right]] as const) {
+        if (bv !== BigInt(0)) ledgerRows.push(sql`(${id}, ${leg}, ${fromPaise(bv)}::decimal, ${userId}, ${now.toISOString()}::timestamp)`);
+      }
+    });
+    if (ledgerRows.length > 0) {
+      statements.push(db.execute(sql`
+        INSERT INTO ${bvLedger} (user_id, leg, bv, source_user_id, entry_type, occurred_at)
+        SELECT entry.user_id, entry.leg, entry.bv, entry.source_user_id, 'placement', entry.occurred_at
+        FROM (VALUES ${sql.join(ledgerRows, sql`, `)}) AS entry(user_id, leg, bv, source_user_id, occurred_at)
+        WHERE ${claimed}
+      `));
+    }
+
+    const changes = { movedUsers: subtree.size, movedBV: fromPaise(movedBV) };
+    statements.push(db.execute(sql`
+      INSERT INTO ${auditLog} (entity_type, entity_id, action, actor_id, actor_role, previous_state, new_state, changes, reason)
+      SELECT 'placement', ${userId}, 'moved', ${actor.id}, ${actor.role},
+        ${JSON.stringify(previous)}::jsonb, ${JSON.stringify(current)}::jsonb, ${JSON.stringify(changes)}::jsonb, ${reason ?? null}
+      WHERE ${claimed}
+    `));
+
+    const [claimedSlot] = await runBatch<[{ id: string }[]]>(statements);
+    if (claimedSlot.length === 0) {
+      throw new PlacementError('The tree changed while moving; please try again');
+    }
+
+    console.log(`Moved ${userId} and ${subtree.size - 1} downline members under ${newParentId} (${position})`);
+    return { userId, previous, current, ...changes };
+  }
+
+  /**
+   * A parent and everyone above it, each with the leg the starting slot is in
+   */
+  private async getUplineLegs(parentId: string, position: string | null): Promise<{ id: string; leg: string | null }[]> {
+    const ancestors = await treePathService.getAncestors(parentId);
+    return ancestors.map(({ id, depth, leg }) => ({ id, leg: depth === 0 ? position : leg }));
   }
 
   /**
@@ -290,6 +536,92 @@ export class BinaryTreeService {
 
     return result;
   }
+
+  // ===== TREE EXPLORER =====
+  /**
+   * A page of the viewer's downline: `levels` levels below one node, the
+   * breadcrumb from the viewer down to it and its downline counts. Deeper
+   * levels are fetched page by page as the viewer expands nodes. Null when
+   * the node is not the viewer or in their downline.
+   */
+  async getExplorerPage(viewerId: string, nodeId: string, levels: number): Promise<TreeExplorerPage | null> {
+    // Depth below the viewer, which also limits everything to their downline
+    const viewerPath = alias(treePaths, 'viewer_path');
+
+    const path = await db.select({ ...explorerColumns, depth: viewerPath.depth })
+      .from(treePaths)
+      .innerJoin(users, eq(users.id, treePaths.ancestorId))
+      .innerJoin(viewerPath, and(eq(viewerPath.descendantId, treePaths.ancestorId), eq(viewerPath.ancestorId, viewerId)))
+      .where(eq(treePaths.descendantId, nodeId))
+      .orderBy(asc(viewerPath.depth));
+    if (path.length === 0) return null;
+
+    const [nodes, counts] = await Promise.all([
+      db.select({ ...explorerColumns, depth: viewerPath.depth })
+        .from(treePaths)
+        .innerJoin(users, eq(users.id, treePaths.descendantId))
+        .innerJoin(viewerPath, and(eq(viewerPath.descendantId, treePaths.descendantId), eq(viewerPath.ancestorId, viewerId)))
+        .where(and(eq(treePaths.ancestorId, nodeId), between(treePaths.depth, 1, levels)))
+        .orderBy(asc(viewerPath.depth)),
+      treePathService.getDownlineCounts(nodeId),
+    ]);
+
+    const breadcrumb = path.map(member => this.toExplorerNode(member));
+    return {
+      node: breadcrumb[breadcrumb.length - 1],
+      path: breadcrumb,
+      levels,
+      nodes: nodes.map(member => this.toExplorerNode(member)),
+      counts,
+    };
+  }
+
+  /**
+   * Members of the viewer's downline matching a name, member ID or mobile
+   * number, nearest first
+   */
+  async searchDownline(viewerId: string, query: string, limit: number): Promise<TreeSearchResult[]> {
+    // Backslash is ILIKE's escape character, so typed wildcards match literally
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    const matches = await db.select({
+      id: users.id,
+      memberId: users.userId,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      depth: treePaths.depth,
+      leg: treePaths.leg,
+    })
+      .from(treePaths)
+      .innerJoin(users, eq(users.id, treePaths.descendantId))
+      .where(and(
+        eq(treePaths.ancestorId, viewerId),
+        gte(treePaths.depth, 1),
+        or(
+          ilike(sql`concat_ws(' ', ${users.firstName}, ${users.lastName})`, pattern),
+          ilike(users.userId, pattern),
+          ilike(users.mobile, pattern)
+        )
+      ))
+      .orderBy(asc(treePaths.depth), asc(users.firstName))
+      .limit(limit);
+
+    return matches.map(({ firstName, lastName, ...match }) => ({ ...match, name: memberName({ firstName, lastName }) }));
+  }
+
+  private toExplorerNode(member: Omit<TreeExplorerNode, 'name' | 'leftBV' | 'rightBV'> & {
+    firstName: string | null;
+    lastName: string | null;
+    leftBV: string | null;
+    rightBV: string | null;
+  }): TreeExplorerNode {
+    const { firstName, lastName, ...node } = member;
+    return {
+      ...node,
+      name: memberName({ firstName, lastName }),
+      leftBV: member.leftBV || '0.00',
+      rightBV: member.rightBV || '0.00',
+    };
+  }
 }
 
 export const binaryTreeService = new BinaryTreeService();
\ No newline at end of file
@@ -0,0 +1,369 @@
+import { db, runBatch, type BatchStatement } from "./db";
+import { users, purchases, bvLedger, type BVLedgerEntry } from "@shared/schema";
+import { eq, and, ne, gte, lt, inArray, isNull, isNotNull, desc, sql } from "drizzle-orm";
+import { toPaise, fromPaise } from "./money";
+
+export interface BVRepair {
+  userId: string;
+  expected: { totalBV: string; leftBV: string; rightBV: string };
+  actual: { totalBV: string; leftBV: string; rightBV: string };
+}
+
+export interface BVRebuildReport {
+  checkedUsers: number;
+  appliedPurchases: number; // Paid purchases whose BV had not reached the totals yet
+  removedPurchases: number; // Purchases no longer paid whose BV was still counted
+  repairs: BVRepair[];
+}
+
+// Snapshot row of the tree with each user's own counted BV
+interface BVNode {
+  id: string;
+  parentId: string | null;
+  position: string | null;
+  totalBV: string | null;
+  leftBV: string | null;
+  rightBV: string | null;
+  ownBV: string;
+}
+
+export type BVLeg = 'self' | 'left' | 'right';
+
+// BV received in a period: own purchases and each leg's purchases
+export interface LegVolume {
+  selfBV: number;
+  leftBV: number;
+  rightBV: number;
+  teamBV: number; // leftBV + rightBV
+}
+
+export interface LegVolumePeriod extends LegVolume {
+  periodStart: Date;
+}
+
+export interface BVLedgerEntryDetails extends BVLedgerEntry {
+  sourceMemberId: string | null; // Display ID like VV0001
+  sourceMemberName: string;
+}
+
+// Users repaired per batch during a rebuild
+const REPAIR_BATCH_SIZE = 200;
+
+/**
+ * Cached team BV on users: totalBV is a user's own paid BV plus both legs,
+ * leftBV/rightBV the BV of the subtree under each leg. Purchases add or take
+ * away their BV along the upline as they are paid or refunded; a periodic
+ * rebuild verifies the cache against the purchases and repairs any drift.
+ * Every change is also written to the dated BV ledger, so its entries sum to
+ * the cached totals and leg volume can be read for any period.
+ */
+export class BVService {
+  // ===== INCREMENTAL UPDATES =====
+  /**
+   * Add the BV of paid purchases to their buyers and every upline's leg
+   */
+  async applyPurchaseBV(purchaseIds: string[]): Promise<number> {
+    return await this.shiftPurchaseBV(purchaseIds, 1);
+  }
+
+  /**
+   * Take the BV of refunded purchases back out of the upline totals
+   */
+  async removePurchaseBV(purchaseIds: string[]): Promise<number> {
+    return await this.shiftPurchaseBV(purchaseIds, -1);
+  }
+
+  /**
+   * One statement claims the purchases (bvAppliedAt makes it idempotent),
+   * walks each buyer's upline with a recursive CTE, noting the leg every
+   * ancestor is reached through, records each movement in the BV ledger and
+   * applies the summed deltas. Purchases are dated by payment, refunds by
+   * when they are taken back. Returns the number of users updated.
+   */
+  private async shiftPurchaseBV(purchaseIds: string[], direction: 1 | -1): Promise<number> {
+    if (purchaseIds.length === 0) return 0;
+
+    const claim = direction > 0
+      ? sql`SET bv_applied_at = now() WHERE ${inArray(purchases.id, purchaseIds)} AND payment_status = 'paid' AND bv_applied_at IS NULL`
+      : sql`SET bv_applied_at = NULL WHERE ${inArray(purchases.id, purchaseIds)} AND bv_applied_at IS NOT NULL`;
+    const entryType = direction > 0 ? 'purchase' : 'refund';
+    const occurredAt = direction > 0 ? sql`COALESCE(paid_at, now())` : sql`now()`;
+
+    const result = await db.execute(sql`
+      WITH RECURSIVE claimed AS (
+        UPDATE purchases ${claim}
+        RETURNING id, user_id, total_bv * ${sql.raw(String(direction))} AS bv, ${occurredAt} AS occurred_at
+      ), upline AS (
+        SELECT c.id AS purchase_id, c.user_id AS buyer_id, c.occurred_at,
+          u.id, u.parent_id, u.position, 'self'::varchar AS leg, c.bv, ARRAY[u.id]::varchar[] AS path
+        FROM claimed c
+        JOIN users u ON u.id = c.user_id
+        UNION ALL
+        SELECT c.purchase_id, c.buyer_id, c.occurred_at,
+          p.id, p.parent_id, p.position, c.position, c.bv, c.path || p.id
+        FROM upline c
+        JOIN users p ON p.id = c.parent_id
+        WHERE NOT p.id = ANY(c.path)
+      ), ledger AS (
+        INSERT INTO bv_ledger (user_id, leg, bv, source_user_id, purchase_id, entry_type, occurred_at)
+        SELECT id, leg, bv, buyer_id, purchase_id, ${entryType}, occurred_at
+        FROM upline
+        WHERE leg IN ('self', 'left', 'right')
+      ), deltas AS (
+        SELECT id,
+          SUM(bv) AS total_bv,
+          SUM(CASE WHEN leg = 'left' THEN bv ELSE 0 END) AS left_bv,
+          SUM(CASE WHEN leg = 'right' THEN bv ELSE 0 END) AS right_bv
+        FROM upline
+        GROUP BY id
+      )
+      UPDATE users SET
+        total_bv = COALESCE(users.total_bv, 0) + deltas.total_bv,
+        left_bv = COALESCE(users.left_bv, 0) + deltas.left_bv,
+        right_bv = COALESCE(users.right_bv, 0) + deltas.right_bv,
+        updated_at = now()
+      FROM deltas
+      WHERE users.id = deltas.id
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // ===== FULL REBUILD =====
+  /**
+   * Verify every user's cached BV against the purchases and repair drift.
+   * Purchases whose BV was never applied (or never removed) are settled
+   * first. The tree and the counted purchases are then read in one
+   * statement, so the snapshot is consistent, and mismatches are corrected
+   * with relative updates that leave concurrent purchases intact.
+   */
+  async rebuild(): Promise<BVRebuildReport> {
+    const unapplied = await db.select({ id: purchases.id }).from(purchases)
+      .where(and(eq(purchases.paymentStatus, 'paid'), isNull(purchases.bvAppliedAt)));
+    const unremoved = await db.select({ id: purchases.id }).from(purchases)
+      .where(and(ne(purchases.paymentStatus, 'paid'), isNotNull(purchases.bvAppliedAt)));
+    if (unapplied.length > 0) {
+      await this.applyPurchaseBV(unapplied.map(p => p.id));
+    }
+    if (unremoved.length > 0) {
+      await this.removePurchaseBV(unremoved.map(p => p.id));
+    }
+
+    const snapshot = await db.execute(sql`
+      SELECT u.id, u.parent_id AS "parentId", u.position,
+        u.total_bv AS "totalBV", u.left_bv AS "leftBV", u.right_bv AS "rightBV",
+        COALESCE(own.bv, 0)::text AS "ownBV"
+      FROM users u
+      LEFT JOIN (
+        SELECT user_id, SUM(total_bv) AS bv
+        FROM purchases
+        WHERE bv_applied_at IS NOT NULL
+        GROUP BY user_id
+      ) own ON own.user_id = u.id
+    `);
+    const nodes = snapshot.rows as unknown as BVNode[];
+    const expected = this.computeTotals(nodes);
+
+    const repairs: BVRepair[] = [];
+    const statements: BatchStatement[] = [];
+    for (const node of nodes) {
+      const totals = expected.get(node.id)!;
+      const actual = { total: toPaise(node.totalBV || '0'), left: toPaise(node.leftBV || '0'), right: toPaise(node.rightBV || '0') };
+      if (totals.total === actual.total && totals.left === actual.left && totals.right === actual.right) continue;
+
+      repairs.push({
+        userId: node.id,
+        expected: { totalBV: fromPaise(totals.total), leftBV: fromPaise(totals.left), rightBV: fromPaise(totals.right) },
+        actual: { totalBV: fromPaise(actual.total), leftBV: fromPaise(actual.left), rightBV: fromPaise(actual.right) },
+      });
+      statements.push(db.update(users)
+        .set({
+          totalBV: sql`COALESCE(${users.totalBV}, 0) + ${fromPaise(totals.total - actual.total)}`,
+          leftBV: sql`COALESCE(${users.leftBV}, 0) + ${fromPaise(totals.left - actual.left)}`,
+          rightBV: sql`COALESCE(${users.rightBV}, 0) + ${fromPaise(totals.right - actual.right)}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, node.id)));
+      statements.push(db.insert(bvLedger).values(this.adjustmentEntries(node.id, totals, actual)));
+    }
+
+    // Two statements per repaired user, so a user's update and ledger entries share a batch
+    for (let i = 0; i < statements.length; i += REPAIR_BATCH_SIZE * 2) {
+      await runBatch(statements.slice(i, i + REPAIR_BATCH_SIZE * 2));
+    }
+    if (repairs.length > 0 || unapplied.length > 0 || unremoved.length > 0) {
+      console.log(`BV rebuild: ${repairs.length} users repaired, ${unapplied.length} purchases applied, ${unremoved.length} removed`);
+    }
+
+    return {
+      checkedUsers: nodes.length,
+      appliedPurchases: unapplied.length,
+      removedPurchases: unremoved.length,
+      repairs,
+    };
+  }
+
+  /**
+   * Ledger entries for a repair, so the ledger keeps summing to the repaired
+   * totals. Own BV is what the total holds beyond the two legs.
+   */
+  private adjustmentEntries(
+    userId: string,
+    expected: { total: bigint; left: bigint; right: bigint },
+    actual: { total: bigint; left: bigint; right: bigint }
+  ) {
+    const left = expected.left - actual.left;
+    const right = expected.right - actual.right;
+    const self = expected.total - actual.total - left - right;
+    const now = new Date();
+    return ([['self', self], ['left', left], ['right', right]] as const)
+      .filter(([, delta]) => delta !== BigInt(0))
+      .map(([leg, delta]) => ({ userId, leg, bv: fromPaise(delta), entryType: 'adjustment', occurredAt: now }));
+  }
+
+  /**
+   * Subtree totals in paise, summed from the deepest users upwards. Users in
+   * or below a parent cycle keep only their own BV.
+   */
+  private computeTotals(nodes: BVNode[]): Map<string, { total: bigint; left: bigint; right: bigint }> {
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const totals = new Map(nodes.map(node => [node.id, { total: toPaise(node.ownBV), left: BigInt(0), right: BigInt(0) }]));
+
+    const CYCLE = -1;
+    const depths = new Map<string, number>();
+    for (const start of nodes) {
+      // Walk up until a user of known depth or the top of the tree
+      const path: string[] = [];
+      const onPath = new Set<string>();
+      let current: BVNode | undefined = start;
+      let aboveDepth = -1;
+      while (current) {
+        const known = depths.get(current.id);
+        if (known !== undefined) {
+          aboveDepth = known;
+          break;
+        }
+        if (onPath.has(current.id)) {
+          aboveDepth = CYCLE;
+          break;
+        }
+        onPath.add(current.id);
+        path.push(current.id);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+      }
+      const cyclic = current !== undefined && aboveDepth === CYCLE;
+      path.reverse().forEach((id, i) => depths.set(id, cyclic ? CYCLE : aboveDepth + 1 + i));
+    }
+
+    const ordered = nodes
+      .filter(node => depths.get(node.id) !== CYCLE)
+      .sort((a, b) => depths.get(b.id)! - depths.get(a.id)!);
+    for (const node of ordered) {
+      const parent = node.parentId ? totals.get(node.parentId) : undefined;
+      if (!parent) continue;
+      const own = totals.get(node.id)!;
+      parent.total += own.total;
+      if (node.position === 'left') parent.left += own.total;
+      else if (node.position === 'right') parent.right += own.total;
+    }
+    return totals;
+  }
+
+  // ===== BV LEDGER =====
+  /**
+   * Own and leg BV dated within [from, to) for the given users (all users
+   * when omitted). Users without movements in the period are left out.
+   */
+  async getLegVolumes(from: Date, to: Date, userIds?: string[]): Promise<Map<string, LegVolume>> {
+    if (userIds && userIds.length === 0) return new Map();
+
+    const rows = await db
+      .select({
+        userId: bvLedger.userId,
+        selfBV: sql<string>`COALESCE(SUM(${bvLedger.bv}) FILTER (WHERE ${bvLedger.leg} = 'self'), 0)`,
+        leftBV: sql<string>`COALESCE(SUM(${bvLedger.bv}) FILTER (WHERE ${bvLedger.leg} = 'left'), 0)`,
+        rightBV: sql<string>`COALESCE(SUM(${bvLedger.bv}) FILTER (WHERE ${bvLedger.leg} = 'right'), 0)`,
+      })
+      .from(bvLedger)
+      .where(and(
+        gte(bvLedger.occurredAt, from),
+        lt(bvLedger.occurredAt, to),
+        userIds ? inArray(bvLedger.userId, userIds) : undefined
+      ))
+      .groupBy(bvLedger.userId);
+
+    return new Map(rows.map(row => [row.userId, this.toLegVolume(row)]));
+  }
+
+  async getLegVolume(userId: string, from: Date, to: Date): Promise<LegVolume> {
+    const volumes = await this.getLegVolumes(from, to, [userId]);
+    return volumes.get(userId) ?? this.toLegVolume({ selfBV: '0', leftBV: '0', rightBV: '0' });
+  }
+
+  /**
+   * A user's leg volume within [from, to) per day, week or month. Periods
+   * without movements are left out.
+   */
+  async getLegVolumeByPeriod(userId: string, from: Date, to: Date, interval: 'day' | 'week' | 'month'): Promise<LegVolumePeriod[]> {
+    // Inlined so the select and group by share the same expression
+    const periodStart = sql<Date>`date_trunc('${sql.raw(interval)}', ${bvLedger.occurredAt})`;
+    const rows = await db
+      .select({
+        periodStart,
+        selfBV: sql<string>`COALESCE(SUM(${bvLedger.bv}) FILTER (WHERE ${bvLedger.leg} = 'self'), 0)`,
+        leftBV: sql<string>`COALESCE(SUM(${bvLedger.bv}) FILTER (WHERE ${bvLedger.leg} = 'left'), 0)`,
+        rightBV: sql<string>`COALESCE(SUM(${bvLedger.bv}) FILTER (WHERE ${bvLedger.leg} = 'right'), 0)`,
+      })
+      .from(bvLedger)
+      .where(and(eq(bvLedger.userId, userId), gte(bvLedger.occurredAt, from), lt(bvLedger.occurredAt, to)))
+      .groupBy(periodStart)
+      .orderBy(periodStart);
+
+    return rows.map(row => ({ periodStart: new Date(row.periodStart), ...this.toLegVolume(row) }));
+  }
+
+  /**
+   * A user's ledger entries within [from, to), newest first, with the member
+   * whose purchase they came from
+   */
+  async getLedgerEntries(
+    userId: string,
+    from: Date,
+    to: Date,
+    options: { leg?: BVLeg; limit: number; offset: number }
+  ): Promise<{ entries: BVLedgerEntryDetails[]; total: number }> {
+    const conditions = and(
+      eq(bvLedger.userId, userId),
+      gte(bvLedger.occurredAt, from),
+      lt(bvLedger.occurredAt, to),
+      options.leg ? eq(bvLedger.leg, options.leg) : undefined
+    );
+
+    const [rows, [{ count }]] = await Promise.all([
+      db.select({ entry: bvLedger, source: { userId: users.userId, firstName: users.firstName, lastName: users.lastName } })
+        .from(bvLedger)
+        .leftJoin(users, eq(users.id, bvLedger.sourceUserId))
+        .where(conditions)
+        .orderBy(desc(bvLedger.occurredAt), desc(bvLedger.createdAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ count: sql<number>`count(*)::int` }).from(bvLedger).where(conditions),
+    ]);
+
+    return {
+      entries: rows.map(({ entry, source }) => ({
+        ...entry,
+        sourceMemberId: source?.userId ?? null,
+        sourceMemberName: [source?.firstName, source?.lastName].filter(Boolean).join(' '),
+      })),
+      total: count,
+    };
+  }
+
+  private toLegVolume(row: { selfBV: string; leftBV: string; rightBV: string }): LegVolume {
+    const leftBV = parseFloat(row.leftBV);
+    const rightBV = parseFloat(row.rightBV);
+    return { selfBV: parseFloat(row.selfBV), leftBV, rightBV, teamBV: leftBV + rightBV };
+  }
+}
+
+export const bvService = new BVService();
@@ -0,0 +1,178 @@
+// Product catalog CSV export and import parsing.
+// Pure functions only: the catalog service supplies the products and applies the rows.
+
+import type { Product, ProductVariant } from "@shared/schema";
+
+export interface CatalogFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+/**
+ * One row of a catalog file. Rows without a SKU are products (a blank
+ * Product ID creates one); rows with a SKU are variants of the product named
+ * by Product ID, or by Name when the product is new in the same file.
+ */
+export interface CatalogRow {
+  line: number;
+  productId?: string;
+  sku?: string;
+  name: string;
+  variant?: string;
+  capacity?: string;
+  colour?: string;
+  category?: string;
+  purchaseType?: string;
+  description?: string;
+  hsnCode?: string;
+  price?: string;
+  bv?: string;
+  gst?: string;
+  isActive?: boolean;
+}
+
+const HEADER = ['Product ID', 'SKU', 'Name', 'Variant', 'Capacity', 'Colour', 'Category', 'Purchase Type', 'Description', 'HSN Code', 'Price', 'BV', 'GST', 'Active'];
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * The whole catalog, each product followed by its variants
+ */
+export function buildCatalogFile(catalog: (Product & { variants: ProductVariant[] })[], date: Date = new Date()): CatalogFile {
+  const rows = catalog.flatMap(product => [
+    [
+      product.id, '', product.name, '', '', '', product.category, product.purchaseType,
+      product.description || '', product.hsnCode || '', product.price, product.bv, product.gst,
+      product.isActive ? 'yes' : 'no',
+    ],
+    ...product.variants.map(variant => [
+      product.id, variant.sku, product.name, variant.name, variant.capacity || '', variant.colour || '', '', '',
+      '', '', variant.price, variant.bv, variant.gst,
+      variant.isActive ? 'yes' : 'no',
+    ]),
+  ]);
+
+  return {
+    filename: `catalog-${date.toISOString().slice(0, 10)}.csv`,
+    contentType: 'text/csv',
+    content: [HEADER, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+  };
+}
+
+/**
+ * Split CSV into records; quoted fields may span lines (descriptions)
+ */
+function parseCsv(content: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.some(f => f.trim() !== '')) {
+      records.push({ line: recordLine, fields: fields.map(f => f.trim()) });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') line++;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      endRecord();
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  endRecord();
+  return records;
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(column => names.includes(column.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+function parseActive(value: string | undefined): boolean | undefined {
+  if (!value) return undefined;
+  return ['yes', 'y', 'true', '1', 'active'].includes(value.toLowerCase());
+}
+
+/**
+ * Parse a catalog file (CSV with a header row, as exported). Only Name is
+ * required; blank cells leave the stored value unchanged on update.
+ */
+export function parseCatalogFile(content: string): CatalogRow[] {
+  const records = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (records.length === 0) {
+    throw new Error('Catalog file is empty');
+  }
+
+  const header = records[0].fields;
+  const column = (names: string[]) => findColumn(header, names);
+  const columns = {
+    productId: column(['productid', 'id']),
+    sku: column(['sku', 'variantsku']),
+    name: column(['name', 'productname']),
+    variant: column(['variant', 'variantname']),
+    capacity: column(['capacity']),
+    colour: column(['colour', 'color']),
+    category: column(['category']),
+    purchaseType: column(['purchasetype', 'type']),
+    description: column(['description']),
+    hsnCode: column(['hsncode', 'hsn']),
+    price: column(['price', 'mrp']),
+    bv: column(['bv', 'businessvolume']),
+    gst: column(['gst', 'gstrate']),
+    isActive: column(['active', 'isactive']),
+  };
+  if (columns.name < 0) {
+    throw new Error('Catalog file must have a "Name" column');
+  }
+
+  return records.slice(1).map(({ line, fields }) => {
+    const value = (index: number) => (index >= 0 ? fields[index] || undefined : undefined);
+    return {
+      line,
+      productId: value(columns.productId),
+      sku: value(columns.sku)?.toUpperCase(),
+      name: value(columns.name) || '',
+      variant: value(columns.variant),
+      capacity: value(columns.capacity),
+      colour: value(columns.colour),
+      category: value(columns.category)?.toLowerCase(),
+      purchaseType: value(columns.purchaseType)?.toLowerCase(),
+      description: value(columns.description),
+      hsnCode: value(columns.hsnCode),
+      price: value(columns.price),
+      bv: value(columns.bv),
+      gst: value(columns.gst),
+      isActive: parseActive(value(columns.isActive)),
+    };
+  });
+}
@@ -0,0 +1,454 @@
+import { db } from "./db";
+import {
+  products,
+  productCategories,
+  productImages,
+  productVariants,
+  productPriceChanges,
+  purchases,
+  cartItems,
+  stockMovements,
+  createProductSchema,
+  updateProductSchema,
+  createVariantSchema,
+  updateVariantSchema,
+  type CreateCategory,
+  type CreateProduct,
+  type CreateVariant,
+  type Product,
+  type ProductCategory,
+  type ProductImage,
+  type ProductPriceChange,
+  type ProductVariant,
+  type SchedulePriceChange,
+  type UpdateCategory,
+  type UpdateProduct,
+  type UpdateVariant,
+} from "@shared/schema";
+import { eq, and, asc, desc, inArray, lte, sql } from "drizzle-orm";
+import type { ZodError } from "zod";
+import { storage } from "./storage";
+import { buildCatalogFile, parseCatalogFile, type CatalogFile } from "./catalogFile";
+
+export interface CatalogProduct extends Product {
+  variants: ProductVariant[];
+  images: ProductImage[];
+}
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+  skipped: { line: number; name: string; reason: string }[];
+}
+
+function issueReason(error: ZodError): string {
+  const issue = error.errors[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+export class CatalogService {
+  // ===== CATEGORIES =====
+  async getCategories(includeInactive = false): Promise<ProductCategory[]> {
+    return db.select().from(productCategories)
+      .where(includeInactive ? undefined : eq(productCategories.isActive, true))
+      .orderBy(asc(productCategories.sortOrder), asc(productCategories.name));
+  }
+
+  async createCategory(data: CreateCategory): Promise<ProductCategory> {
+    const [existing] = await db.select().from(productCategories).where(eq(productCategories.slug, data.slug));
+    if (existing) {
+      throw new Error(`Category ${data.slug} already exists`);
+    }
+    const [category] = await db.insert(productCategories).values(data).returning();
+    return category;
+  }
+
+  async updateCategory(categoryId: string, data: UpdateCategory): Promise<ProductCategory> {
+    const [category] = await db.update(productCategories)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(productCategories.id, categoryId))
+      .returning();
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    return category;
+  }
+
+  /**
+   * Remove a category no product uses any more
+   */
+  async deleteCategory(categoryId: string): Promise<void> {
+    const [category] = await db.select().from(productCategories).where(eq(productCategories.id, categoryId));
+    if (!category) {
+      throw new Error('Category not found');
+    }
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(products)
+      .where(eq(products.category, category.slug));
+    if (count > 0) {
+      throw new Error(`${count} products are still in ${category.name}; move them or deactivate the category`);
+    }
+    await db.delete(productCategories).where(eq(productCategories.id, categoryId));
+  }
+
+  private async assertCategory(slug: string): Promise<void> {
+    const [category] = await db.select().from(productCategories).where(eq(productCategories.slug, slug));
+    if (!category) {
+      throw new Error(`Unknown category ${slug}`);
+    }
+  }
+
+  // ===== PRODUCTS =====
+  /**
+   * Every product with its variants and images; members only see active ones
+   */
+  async getCatalog(includeInactive = false): Promise<CatalogProduct[]> {
+    await this.applyDuePriceChanges();
+    const list = await db.select().from(products)
+      .where(includeInactive ? undefined : eq(products.isActive, true))
+      .orderBy(desc(products.createdAt));
+    if (list.length === 0) return [];
+
+    const ids = list.map(product => product.id);
+    const [variants, images] = await Promise.all([
+      db.select().from(productVariants)
+        .where(and(
+          inArray(productVariants.productId, ids),
+          includeInactive ? undefined : eq(productVariants.isActive, true)
+        ))
+        .orderBy(asc(productVariants.sortOrder), asc(productVariants.name)),
+      db.select().from(productImages)
+        .where(inArray(productImages.productId, ids))
+        .orderBy(asc(productImages.sortOrder), asc(productImages.createdAt)),
+    ]);
+    return list.map(product => ({
+      ...product,
+      variants: variants.filter(variant => variant.productId === product.id),
+      images: images.filter(image => image.productId === product.id),
+    }));
+  }
+
+  async createProduct(data: CreateProduct): Promise<Product> {
+    await this.assertCategory(data.category);
+    return storage.createProduct(data);
+  }
+
+  async updateProduct(productId: string, data: UpdateProduct): Promise<Product> {
+    if (data.category) {
+      await this.assertCategory(data.category);
+    }
+    const product = await storage.updateProduct(productId, data);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    return product;
+  }
+
+  /**
+   * Delete a product that was never ordered or stocked. Products with order
+   * or stock history are deactivated instead so that history keeps its name.
+   */
+  async deleteProduct(productId: string): Promise<{ deleted: boolean }> {
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    const [ordered] = await db.select({ id: purchases.id }).from(purchases).where(eq(purchases.productId, productId)).limit(1);
+    const [stocked] = await db.select({ id: stockMovements.id }).from(stockMovements).where(eq(stockMovements.productId, productId)).limit(1);
+    if (ordered || stocked) {
+      await storage.deleteProduct(productId);
+      return { deleted: false };
+    }
+
+    await db.batch([
+      db.delete(cartItems).where(eq(cartItems.productId, productId)),
+      db.delete(productPriceChanges).where(eq(productPriceChanges.productId, productId)),
+      db.delete(productVariants).where(eq(productVariants.productId, productId)),
+      db.delete(productImages).where(eq(productImages.productId, productId)),
+      db.delete(products).where(eq(products.id, productId)),
+    ]);
+    console.log(`Product ${product.name} (${productId}) deleted`);
+    return { deleted: true };
+  }
+
+  // ===== IMAGES =====
+  /**
+   * Signed URL the admin's browser PUTs an image to
+   */
+  async getImageUploadURL(): Promise<string> {
+    const { ObjectStorageService } = await import('./objectStorage');
+    return new ObjectStorageService().getObjectEntityUploadURL();
+  }
+
+  async addImage(productId: string, uploadURL: string): Promise<ProductImage> {
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    const { ObjectStorageService } = await import('./objectStorage');
+    const objectPath = new ObjectStorageService().normalizeObjectEntityPath(uploadURL);
+    if (!objectPath.startsWith('/objects/')) {
+      throw new Error('Image was not uploaded to object storage');
+    }
+
+    const [{ next }] = await db.select({ next: sql<number>`coalesce(max(${productImages.sortOrder}) + 1, 0)::int` })
+      .from(productImages).where(eq(productImages.productId, productId));
+    const [image] = await db.insert(productImages)
+      .values({ productId, url: `/api${objectPath}`, sortOrder: next })
+      .returning();
+    await this.syncPrimaryImage(productId);
+    return image;
+  }
+
+  async removeImage(productId: string, imageId: string): Promise<void> {
+    const [removed] = await db.delete(productImages)
+      .where(and(eq(productImages.id, imageId), eq(productImages.productId, productId)))
+      .returning();
+    if (!removed) {
+      throw new Error('Image not found');
+    }
+    await this.syncPrimaryImage(productId);
+  }
+
+  /**
+   * Move an image to the front so it becomes the primary image
+   */
+  async setPrimaryImage(productId: string, imageId: string): Promise<void> {
+    const [{ first }] = await db.select({ first: sql<number>`coalesce(min(${productImages.sortOrder}), 0)::int` })
+      .from(productImages).where(eq(productImages.productId, productId));
+    const [image] = await db.update(productImages)
+      .set({ sortOrder: first - 1 })
+      .where(and(eq(productImages.id, imageId), eq(productImages.productId, productId)))
+      .returning();
+    if (!image) {
+      throw new Error('Image not found');
+    }
+    await this.syncPrimaryImage(productId);
+  }
+
+  private async syncPrimaryImage(productId: string): Promise<void> {
+    const [primary] = await db.select().from(productImages)
+      .where(eq(productImages.productId, productId))
+      .orderBy(asc(productImages.sortOrder), asc(productImages.createdAt))
+      .limit(1);
+    await storage.updateProduct(productId, { imageUrl: primary?.url ?? null });
+  }
+
+  // ===== VARIANTS =====
+  async createVariant(productId: string, data: CreateVariant): Promise<ProductVariant> {
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    const [existing] = await db.select().from(productVariants).where(eq(productVariants.sku, data.sku));
+    if (existing) {
+      throw new Error(`SKU ${data.sku} is already in use`);
+    }
+    const [variant] = await db.insert(productVariants).values({ ...data, productId }).returning();
+    return variant;
+  }
+
+  async updateVariant(productId: string, variantId: string, data: UpdateVariant): Promise<ProductVariant> {
+    const [variant] = await db.update(productVariants)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, productId)))
+      .returning();
+    if (!variant) {
+      throw new Error('Variant not found');
+    }
+    return variant;
+  }
+
+  /**
+   * Delete a variant that was never ordered; ordered ones are deactivated
+   */
+  async deleteVariant(productId: string, variantId: string): Promise<{ deleted: boolean }> {
+    const [ordered] = await db.select({ id: purchases.id }).from(purchases).where(eq(purchases.variantId, variantId)).limit(1);
+    if (ordered) {
+      await this.updateVariant(productId, variantId, { isActive: false });
+      return { deleted: false };
+    }
+    const [deleted] = await db.delete(productVariants)
+      .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, productId)))
+      .returning();
+    if (!deleted) {
+      throw new Error('Variant not found');
+    }
+    await db.batch([
+      db.delete(cartItems).where(eq(cartItems.variantId, variantId)),
+      db.delete(productPriceChanges).where(eq(productPriceChanges.variantId, variantId)),
+    ]);
+    return { deleted: true };
+  }
+
+  // ===== SCHEDULED PRICES =====
+  async schedulePriceChange(productId: string, data: SchedulePriceChange, actorId: string): Promise<ProductPriceChange> {
+    const product = await storage.getProductById(productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    if (data.variantId) {
+      const [variant] = await db.select().from(productVariants)
+        .where(and(eq(productVariants.id, data.variantId), eq(productVariants.productId, productId)));
+      if (!variant) {
+        throw new Error('Variant not found');
+      }
+    }
+    const [change] = await db.insert(productPriceChanges)
+      .values({ ...data, productId, createdBy: actorId })
+      .returning();
+    console.log(`Price change ${change.id} scheduled for product ${productId} at ${change.effectiveFrom.toISOString()}`);
+    return change;
+  }
+
+  async getPriceChanges(productId: string): Promise<ProductPriceChange[]> {
+    return db.select().from(productPriceChanges)
+      .where(eq(productPriceChanges.productId, productId))
+      .orderBy(desc(productPriceChanges.effectiveFrom));
+  }
+
+  async cancelPriceChange(productId: string, changeId: string): Promise<ProductPriceChange> {
+    const [cancelled] = await db.update(productPriceChanges)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(productPriceChanges.id, changeId),
+        eq(productPriceChanges.productId, productId),
+        eq(productPriceChanges.status, 'scheduled')
+      ))
+      .returning();
+    if (!cancelled) {
+      throw new Error('Only scheduled price changes can be cancelled');
+    }
+    return cancelled;
+  }
+
+  /**
+   * Apply scheduled price changes that have come due, oldest first. Called
+   * before prices are shown or charged, so a change takes effect on time
+   * without a separate job.
+   */
+  async applyDuePriceChanges(now: Date = new Date()): Promise<number> {
+    const due = await db.select().from(productPriceChanges)
+      .where(and(eq(productPriceChanges.status, 'scheduled'), lte(productPriceChanges.effectiveFrom, now)))
+      .orderBy(asc(productPriceChanges.effectiveFrom));
+
+    let applied = 0;
+    for (const change of due) {
+      // Claim the change so concurrent requests apply it once
+      const [claimed] = await db.update(productPriceChanges)
+        .set({ status: 'applied', appliedAt: now })
+        .where(and(eq(productPriceChanges.id, change.id), eq(productPriceChanges.status, 'scheduled')))
+        .returning();
+      if (!claimed) continue;
+
+      const prices = { price: change.price, bv: change.bv ?? undefined, gst: change.gst ?? undefined, updatedAt: now };
+      if (change.variantId) {
+        await db.update(productVariants).set(prices).where(eq(productVariants.id, change.variantId));
+      } else {
+        await db.update(products).set(prices).where(eq(products.id, change.productId));
+      }
+      applied++;
+    }
+    if (applied > 0) {
+      console.log(`Applied ${applied} scheduled price changes`);
+    }
+    return applied;
+  }
+
+  // ===== CSV IMPORT / EXPORT =====
+  async exportCatalog(): Promise<CatalogFile> {
+    return buildCatalogFile(await this.getCatalog(true));
+  }
+
+  /**
+   * Create or update products and variants from a catalog file. Invalid
+   * rows are reported back and left untouched; the rest are applied.
+   */
+  async importCatalog(content: string): Promise<CatalogImportResult> {
+    const rows = parseCatalogFile(content);
+    const result: CatalogImportResult = { created: 0, updated: 0, skipped: [] };
+    const existing = await db.select().from(products);
+    const byId = new Map(existing.map(product => [product.id, product]));
+    const byName = new Map(existing.map(product => [product.name.toLowerCase(), product]));
+    const skip = (line: number, name: string, reason: string) => result.skipped.push({ line, name, reason });
+
+    for (const row of rows) {
+      const fields = {
+        description: row.description,
+        price: row.price,
+        bv: row.bv,
+        gst: row.gst,
+        isActive: row.isActive,
+      };
+      try {
+        if (!row.sku) {
+          const product = row.productId ? byId.get(row.productId) : undefined;
+          if (row.productId && !product) {
+            skip(row.line, row.name, 'Product not found');
+            continue;
+          }
+          const parsed = (product ? updateProductSchema : createProductSchema).safeParse({
+            ...fields,
+            name: row.name || undefined,
+            category: row.category,
+            purchaseType: row.purchaseType,
+            hsnCode: row.hsnCode,
+          });
+          if (!parsed.success) {
+            skip(row.line, row.name, issueReason(parsed.error));
+            continue;
+          }
+          const { isActive, ...data } = parsed.data as UpdateProduct;
+          const saved = product
+            ? await this.updateProduct(product.id, { ...data, isActive })
+            : await this.createProduct(data as CreateProduct);
+          if (!product && isActive === false) {
+            await storage.deleteProduct(saved.id);
+          }
+          byId.set(saved.id, saved);
+          byName.set(saved.name.toLowerCase(), saved);
+          product ? result.updated++ : result.created++;
+          continue;
+        }
+
+        const product = row.productId ? byId.get(row.productId) : byName.get(row.name.toLowerCase());
+        if (!product) {
+          skip(row.line, row.name, 'Product of this variant not found');
+          continue;
+        }
+        const [variant] = await db.select().from(productVariants).where(eq(productVariants.sku, row.sku));
+        if (variant && variant.productId !== product.id) {
+          skip(row.line, row.name, `SKU ${row.sku} belongs to another product`);
+          continue;
+        }
+        const variantFields = { ...fields, description: undefined, name: row.variant, capacity: row.capacity, colour: row.colour };
+        if (variant) {
+          const parsed = updateVariantSchema.safeParse(variantFields);
+          if (!parsed.success) {
+            skip(row.line, row.name, issueReason(parsed.error));
+            continue;
+          }
+          await this.updateVariant(product.id, variant.id, parsed.data);
+          result.updated++;
+        } else {
+          const parsed = createVariantSchema.safeParse({ ...variantFields, sku: row.sku });
+          if (!parsed.success) {
+            skip(row.line, row.name, issueReason(parsed.error));
+            continue;
+          }
+          const created = await this.createVariant(product.id, parsed.data);
+          if (row.isActive === false) {
+            await this.updateVariant(product.id, created.id, { isActive: false });
+          }
+          result.created++;
+        }
+      } catch (error) {
+        skip(row.line, row.name, (error as any).message || 'Import failed');
+      }
+    }
+
+    console.log(`Catalog import: ${result.created} created, ${result.updated} updated, ${result.skipped.length} skipped`);
+    return result;
+  }
+}
+
+export const catalogService = new CatalogService();
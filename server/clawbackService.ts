@@ -0,0 +1,423 @@
+import { randomUUID } from "crypto";
+import { db, runBatch, type BatchStatement } from "./db";
+import {
+  users,
+  payoutCycles,
+  payoutStatements,
+  rankAchievements,
+  commissionClawbacks,
+  purchaseReversals,
+  purchaseReturns,
+  purchases,
+  orders,
+  stockPoints,
+  type CommissionClawback,
+  type PayoutCycle,
+  type Purchase,
+  type PurchaseReversalRecord,
+  type TransactionType,
+} from "@shared/schema";
+import { eq, and, gte, lte, gt, inArray, isNull, isNotNull, asc, sql, type SQL } from "drizzle-orm";
+import { storage } from "./storage";
+import { ledgerService, InsufficientBalanceError } from "./ledgerService";
+import { bvService } from "./bvService";
+import { treePathService } from "./treePathService";
+import { compensationPlanService } from "./compensationPlanService";
+import { toPaise, fromPaise, percentOf } from "./money";
+import type { PayoutStatementLine } from "./payoutCycleService";
+
+export type ClawbackSourceType = 'sponsor_income' | 'rank_bonus' | 'franchise_income';
+
+export interface PurchaseReversal {
+  purchaseIds: string[];
+  clawbacks: { userId: string; sourceType: ClawbackSourceType; amount: string; recoveredAmount: string }[];
+  carryForwardUsers: number; // Uplines whose committed carry forward was reduced
+  revokedRanks: { userId: string; rank: string }[];
+}
+
+// Wallet transaction type each clawback is posted with, mirroring the original credit
+const CLAWBACK_TRANSACTION_TYPES: Record<ClawbackSourceType, TransactionType> = {
+  sponsor_income: 'sponsor_income',
+  rank_bonus: 'admin_debit',
+  franchise_income: 'franchise_income',
+};
+
+// Fails a reversal batch whose clawbacks another attempt already raised
+const REVERSAL_CLAWBACK_CONSTRAINT = 'UQ_commission_clawbacks_reversal_source';
+
+function closedCycleMessage(cycle: PayoutCycle): string {
+  return `The payout cycle starting ${cycle.periodStart.toLocaleDateString('en-IN')} is closed; lock or reopen it before refunding this purchase`;
+}
+
+export class ClawbackService {
+  /**
+   * The payout cycle whose period contains a payment date
+   */
+  private async findCycle(paidAt: Date): Promise<PayoutCycle | undefined> {
+    const [cycle] = await db.select().from(payoutCycles)
+      .where(and(lte(payoutCycles.periodStart, paidAt), gt(payoutCycles.periodEnd, paidAt)))
+      .limit(1);
+    return cycle;
+  }
+
+  /**
+   * Refuse to reverse purchases whose income sits in a closed cycle: its
+   * statements are frozen but not credited yet, so there is nothing to claw
+   * back and nothing a recompute would pick up. Called before money moves.
+   */
+  async assertReversible(items: Purchase[]): Promise<void> {
+    for (const purchase of items) {
+      if (!purchase.paidAt) continue;
+      const cycle = await this.findCycle(purchase.paidAt);
+      if (cycle?.status === 'closed') {
+        throw new Error(closedCycleMessage(cycle));
+      }
+    }
+  }
+
+  // ===== PURCHASE REVERSALS =====
+  /**
+   * Statement recording the reversal owed on purchases just marked refunded,
+   * for the batch that marks them. `refunded` selects those purchases;
+   * nothing is recorded when it selects none.
+   */
+  reversalStatement(reversalId: string, refunded: SQL, reason: string, returnId?: string) {
+    return db.execute(sql`
+      INSERT INTO ${purchaseReversals} (id, purchase_ids, return_id, reason)
+      SELECT ${reversalId}, jsonb_agg(${purchases.id}), ${returnId ?? null}, ${reason}
+      FROM ${purchases}
+      WHERE ${refunded}
+      HAVING COUNT(*) > 0
+    `);
+  }
+
+  /**
+   * Undo the income paid on refunded purchases. Open cycles simply leave
+   * refunded purchases out when they close. For locked cycles the sponsor
+   * income is clawed back from the sponsor's wallet and the BV is taken out
+   * of every upline's committed carry forward. Franchise income, paid at
+   * fulfilment rather than through a cycle, is clawed back from the
+   * franchise owner. The BV then comes out of the cached team totals, and
+   * ranks reached since the purchase are re-checked; revoked rank bonuses
+   * are clawed back too.
+   * Every recovery is a ledger posting against the account that paid it.
+   * A failed attempt is recorded and left for retryPendingReversals; every
+   * step skips what an earlier attempt already did. Returns what the
+   * reversal did once it has completed.
+   */
+  async applyReversal(reversalId: string): Promise<PurchaseReversal | undefined> {
+    const [reversal] = await db.select().from(purchaseReversals).where(eq(purchaseReversals.id, reversalId));
+    if (!reversal) return undefined;
+    if (reversal.status === 'completed') return reversal.summary as PurchaseReversal;
+
+    try {
+      return await this.runReversal(reversal);
+    } catch (error) {
+      await db.update(purchaseReversals)
+        .set({ attempts: sql`${purchaseReversals.attempts} + 1`, lastError: (error as Error).message })
+        .where(eq(purchaseReversals.id, reversal.id));
+      console.error(`Purchase reversal ${reversal.id} failed; it will be retried:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Retry reversals an earlier attempt left pending, oldest first
+   */
+  async retryPendingReversals(): Promise<void> {
+    const pending = await db.select({ id: purchaseReversals.id }).from(purchaseReversals)
+      .where(eq(purchaseReversals.status, 'pending'))
+      .orderBy(asc(purchaseReversals.createdAt));
+    for (const { id } of pending) {
+      await this.applyReversal(id);
+    }
+  }
+
+  private async runReversal(reversal: PurchaseReversalRecord): Promise<PurchaseReversal> {
+    const items = await db.select().from(purchases).where(inArray(purchases.id, reversal.purchaseIds as string[]));
+    const paidItems = items.filter(purchase => purchase.paidAt);
+
+    const clawback = await this.clawBackIncome(reversal, paidItems);
+    await bvService.removePurchaseBV(paidItems.map(purchase => purchase.id));
+    const revokedRanks = await this.revokeRanks(reversal, paidItems);
+
+    const clawbacks = await db.select().from(commissionClawbacks)
+      .where(eq(commissionClawbacks.reversalId, reversal.id))
+      .orderBy(asc(commissionClawbacks.createdAt));
+    const summary: PurchaseReversal = {
+      purchaseIds: items.map(purchase => purchase.id),
+      clawbacks: clawbacks.map(c => ({
+        userId: c.userId,
+        sourceType: c.sourceType as ClawbackSourceType,
+        amount: c.amount,
+        recoveredAmount: c.recoveredAmount,
+      })),
+      carryForwardUsers: clawback.carryForwardUsers,
+      revokedRanks,
+    };
+
+    const completed = and(eq(purchaseReversals.id, reversal.id), eq(purchaseReversals.status, 'pending'));
+    await db.batch([
+      db.update(purchaseReversals).set({ status: 'completed', summary, lastError: null, completedAt: new Date() }).where(completed),
+      ...(reversal.returnId
+        ? [db.update(purchaseReturns).set({ reversal: summary, updatedAt: new Date() }).where(eq(purchaseReturns.id, reversal.returnId))]
+        : []),
+    ]);
+    return summary;
+  }
+
+  /**
+   * Raise the sponsor and franchise income clawbacks and withdraw the
+   * committed carry forward, in one batch claimed on the reversal so a retry
+   * or a concurrent attempt never applies them twice. A purchase in a closed
+   * cycle holds the reversal back until the cycle is locked.
+   */
+  private async clawBackIncome(reversal: PurchaseReversalRecord, paidItems: Purchase[]): Promise<{ carryForwardUsers: number }> {
+    if (reversal.clawedBackAt) {
+      return { carryForwardUsers: (reversal.summary as { carryForwardUsers?: number } | null)?.carryForwardUsers ?? 0 };
+    }
+
+    const claimToken = randomUUID();
+    const claimed = sql`EXISTS (SELECT 1 FROM ${purchaseReversals} WHERE ${purchaseReversals.id} = ${reversal.id} AND ${purchaseReversals.claimToken} = ${claimToken})`;
+    const raised: (typeof commissionClawbacks.$inferInsert)[] = [];
+    const carryForward: BatchStatement[] = [];
+    const source = { reversalId: reversal.id, returnId: reversal.returnId };
+
+    for (const purchase of paidItems) {
+      const cycle = await this.findCycle(purchase.paidAt!);
+      if (cycle?.status === 'closed') {
+        throw new Error(closedCycleMessage(cycle));
+      }
+
+      if (cycle?.status === 'locked') {
+        const statements = await db.select().from(payoutStatements)
+          .where(and(
+            eq(payoutStatements.cycleId, cycle.id),
+            sql`${payoutStatements.lines} @> ${JSON.stringify([{ type: 'sponsor_income', referenceId: purchase.id }])}::jsonb`
+          ));
+        for (const statement of statements) {
+          const lines = (statement.lines as PayoutStatementLine[] | null) || [];
+          const line = lines.find(l => l.type === 'sponsor_income' && l.referenceId === purchase.id);
+          if (!line || line.amount <= 0) continue;
+          raised.push({
+            ...source,
+            userId: statement.userId,
+            sourceType: 'sponsor_income',
+            amount: line.amount.toFixed(2),
+            purchaseId: purchase.id,
+            referenceId: statement.id,
+            description: `Sponsor Income reversed: ${line.description} (${reversal.reason})`,
+          });
+        }
+        carryForward.push(...await this.carryForwardStatements(purchase, claimed));
+      }
+
+      const franchise = await this.getFranchiseIncome(purchase);
+      if (franchise) {
+        raised.push({
+          ...source,
+          userId: franchise.ownerId,
+          sourceType: 'franchise_income',
+          amount: franchise.amount,
+          purchaseId: purchase.id,
+          referenceId: purchase.orderId!,
+          description: `Franchise Income reversed for order ${franchise.orderNumber} (${reversal.reason})`,
+        });
+      }
+    }
+
+    const statements: BatchStatement[] = [
+      db.update(purchaseReversals)
+        .set({ clawedBackAt: new Date(), claimToken, summary: { carryForwardUsers: carryForward.length } })
+        .where(and(eq(purchaseReversals.id, reversal.id), isNull(purchaseReversals.clawedBackAt))),
+      ...carryForward,
+    ];
+    if (raised.length > 0) {
+      statements.push(db.insert(commissionClawbacks).values(raised).returning());
+    }
+
+    let created: CommissionClawback[] = [];
+    try {
+      const results = await runBatch<CommissionClawback[][]>(statements);
+      created = raised.length > 0 ? results[results.length - 1] : [];
+    } catch (error) {
+      // Another attempt raised the clawbacks first
+      if (!String((error as any)?.message || '').includes(REVERSAL_CLAWBACK_CONSTRAINT)) {
+        throw error;
+      }
+    }
+
+    for (const clawback of created) {
+      await this.recover(clawback);
+    }
+    return { carryForwardUsers: carryForward.length };
+  }
+
+  /**
+   * Re-check the ranks reached since the purchases in the buyers' uplines and
+   * claw back the bonus of every rank revoked there that was not taken back
+   * yet, including ranks an earlier attempt revoked
+   */
+  private async revokeRanks(reversal: PurchaseReversalRecord, paidItems: Purchase[]): Promise<{ userId: string; rank: string }[]> {
+    const revokedRanks: { userId: string; rank: string }[] = [];
+    const buyerIds = Array.from(new Set(paidItems.map(purchase => purchase.userId)));
+    for (const buyerId of buyerIds) {
+      const since = new Date(Math.min(...paidItems.filter(p => p.userId === buyerId).map(p => p.paidAt!.getTime())));
+      const chain = [buyerId, ...(await this.getUpline(buyerId)).map(node => node.id)];
+      const achievers = await db
+        .selectDistinct({ userId: rankAchievements.userId })
+        .from(rankAchievements)
+        .where(and(
+          inArray(rankAchievements.userId, chain),
+          gte(rankAchievements.achievedAt, since),
+          isNull(rankAchievements.revokedAt)
+        ));
+
+      for (const { userId } of achievers) {
+        const revoked = await storage.revokeUnmetRanks(userId, since, reversal.reason);
+        revokedRanks.push(...revoked.map(achievement => ({ userId, rank: achievement.rank })));
+      }
+
+      const unrecovered = await db.select().from(rankAchievements)
+        .where(and(
+          inArray(rankAchievements.userId, chain),
+          gte(rankAchievements.achievedAt, since),
+          isNotNull(rankAchievements.revokedAt),
+          sql`COALESCE(${rankAchievements.bonus}, 0) > 0`,
+          sql`NOT EXISTS (SELECT 1 FROM ${commissionClawbacks} WHERE ${commissionClawbacks.sourceType} = 'rank_bonus' AND ${commissionClawbacks.referenceId} = ${rankAchievements.id})`
+        ));
+      for (const achievement of unrecovered) {
+        const [clawback] = await db.insert(commissionClawbacks).values({
+          userId: achievement.userId,
+          sourceType: 'rank_bonus',
+          amount: achievement.bonus!,
+          purchaseId: paidItems.length === 1 ? paidItems[0].id : undefined,
+          returnId: reversal.returnId,
+          reversalId: reversal.id,
+          referenceId: achievement.id,
+          description: `Rank Achievement Bonus reversed - ${achievement.rank} (${reversal.reason})`,
+        }).onConflictDoNothing().returning();
+        if (clawback) {
+          await this.recover(clawback);
+        }
+      }
+    }
+    return revokedRanks;
+  }
+
+  /**
+   * Binary tree ancestors of a user, nearest first, with the leg the volume arrives on
+   */
+  private async getUpline(userId: string): Promise<{ id: string; side: string | null }[]> {
+    const ancestors = await treePathService.getAncestors(userId);
+    return ancestors.filter(node => node.depth > 0).map(node => ({ id: node.id, side: node.leg }));
+  }
+
+  /**
+   * Franchise income paid on a purchase's BV when its order was fulfilled at
+   * a franchise stock point, at the rate the fulfilment used
+   */
+  private async getFranchiseIncome(purchase: Purchase): Promise<{ ownerId: string; orderNumber: string; amount: string } | null> {
+    if (!purchase.orderId) return null;
+    const [row] = await db.select({ order: orders, point: stockPoints })
+      .from(orders)
+      .innerJoin(stockPoints, eq(orders.stockPointId, stockPoints.id))
+      .where(eq(orders.id, purchase.orderId));
+    if (!row?.order.fulfilledAt || row.point.type !== 'franchise' || !row.point.ownerId) return null;
+
+    const { definition: plan } = await compensationPlanService.getActivePlan(row.order.paidAt || row.order.fulfilledAt);
+    const income = percentOf(toPaise(purchase.totalBV), plan.franchiseIncomeRate);
+    return income > BigInt(0)
+      ? { ownerId: row.point.ownerId, orderNumber: row.order.orderNumber, amount: fromPaise(income) }
+      : null;
+  }
+
+  /**
+   * Statements taking a purchase's BV out of the carry forward committed by a
+   * locked cycle, each applied only while `guard` holds. Volume that was
+   * already matched and paid is not recovered here.
+   */
+  private async carryForwardStatements(purchase: Purchase, guard: SQL): Promise<BatchStatement[]> {
+    const upline = await this.getUpline(purchase.userId);
+    const bv = purchase.totalBV;
+    return upline
+      .filter(node => node.side === 'left' || node.side === 'right')
+      .map(node => db.update(users)
+        .set(node.side === 'left'
+          ? {
+            leftCarryForwardBV: sql`GREATEST(COALESCE(${users.leftCarryForwardBV}, 0) - ${bv}, 0)`,
+            processedLeftBV: sql`GREATEST(COALESCE(${users.processedLeftBV}, 0) - ${bv}, 0)`,
+            updatedAt: new Date(),
+          }
+          : {
+            rightCarryForwardBV: sql`GREATEST(COALESCE(${users.rightCarryForwardBV}, 0) - ${bv}, 0)`,
+            processedRightBV: sql`GREATEST(COALESCE(${users.processedRightBV}, 0) - ${bv}, 0)`,
+            updatedAt: new Date(),
+          })
+        .where(and(eq(users.id, node.id), guard)));
+  }
+
+  /**
+   * Debit as much of an outstanding clawback as the wallet currently holds.
+   * The recovered amount is claimed before posting and released again if
+   * the posting fails, so concurrent recoveries never take more than is owed.
+   */
+  private async recover(clawback: CommissionClawback): Promise<CommissionClawback> {
+    const wallet = await storage.getWalletBalance(clawback.userId);
+    const owed = toPaise(clawback.amount) - toPaise(clawback.recoveredAmount);
+    const available = toPaise(wallet?.balance || '0');
+    const take = owed < available ? owed : available;
+    if (take <= BigInt(0)) {
+      return clawback;
+    }
+
+    const recoveredAmount = fromPaise(toPaise(clawback.recoveredAmount) + take);
+    const [claimed] = await db.update(commissionClawbacks)
+      .set({ recoveredAmount, status: take === owed ? 'recovered' : 'outstanding', updatedAt: new Date() })
+      .where(and(eq(commissionClawbacks.id, clawback.id), eq(commissionClawbacks.recoveredAmount, clawback.recoveredAmount)))
+      .returning();
+    if (!claimed) {
+      return clawback;
+    }
+
+    try {
+      await ledgerService.postWalletMovement(
+        clawback.userId,
+        fromPaise(-take),
+        clawback.description || 'Commission clawback',
+        CLAWBACK_TRANSACTION_TYPES[clawback.sourceType as ClawbackSourceType],
+        {
+          referenceId: clawback.id,
+          metadata: { clawbackId: clawback.id, purchaseId: clawback.purchaseId, returnId: clawback.returnId, sourceType: clawback.sourceType },
+        }
+      );
+    } catch (error) {
+      await db.update(commissionClawbacks)
+        .set({ recoveredAmount: clawback.recoveredAmount, status: 'outstanding', updatedAt: new Date() })
+        .where(eq(commissionClawbacks.id, clawback.id));
+      if (error instanceof InsufficientBalanceError) {
+        return clawback;
+      }
+      throw error;
+    }
+
+    console.log(`Recovered ${fromPaise(take)} of ${clawback.sourceType} clawback ${clawback.id} from user ${clawback.userId}`);
+    return claimed;
+  }
+
+  /**
+   * Recover outstanding clawbacks, oldest first, from whatever the user's
+   * wallet now holds. Called after new income is credited.
+   */
+  async recoverOutstanding(userId: string): Promise<void> {
+    const outstanding = await db.select().from(commissionClawbacks)
+      .where(and(eq(commissionClawbacks.userId, userId), eq(commissionClawbacks.status, 'outstanding')))
+      .orderBy(asc(commissionClawbacks.createdAt));
+    for (const clawback of outstanding) {
+      const result = await this.recover(clawback);
+      if (result.status === 'outstanding') break;
+    }
+  }
+}
+
+export const clawbackService = new ClawbackService();
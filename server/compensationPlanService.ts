@@ -0,0 +1,100 @@
+import { db } from "./db";
+import { compensationPlans, type CompensationPlan, type PublishCompensationPlan } from "@shared/schema";
+import {
+  DEFAULT_COMPENSATION_PLAN,
+  compensationPlanDefinitionSchema,
+  type CompensationPlanDefinition,
+} from "@shared/compensationPlan";
+import { eq, and, desc, sql } from "drizzle-orm";
+
+export interface ResolvedCompensationPlan {
+  planId: string;
+  version: number; // 0 = built-in default, nothing published yet
+  name: string;
+  effectiveFrom: Date | null;
+  definition: CompensationPlanDefinition;
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+
+export class CompensationPlanService {
+  private cache = new Map<string, { loadedAt: number; versions: CompensationPlan[] }>();
+
+  /**
+   * All published versions of a plan, newest effective date first
+   */
+  async getPlanVersions(planId: string = 'binary'): Promise<CompensationPlan[]> {
+    const cached = this.cache.get(planId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.versions;
+    }
+
+    const versions = await db.select().from(compensationPlans)
+      .where(and(eq(compensationPlans.planId, planId), eq(compensationPlans.status, 'published')))
+      .orderBy(desc(compensationPlans.effectiveFrom), desc(compensationPlans.version));
+
+    this.cache.set(planId, { loadedAt: Date.now(), versions });
+    return versions;
+  }
+
+  /**
+   * Resolve the plan version in force at a given moment. Historical periods
+   * keep using the version that was effective at the time.
+   */
+  async getActivePlan(at: Date = new Date(), planId: string = 'binary'): Promise<ResolvedCompensationPlan> {
+    const versions = await this.getPlanVersions(planId);
+    const active = versions.find(v => v.effectiveFrom <= at);
+
+    if (!active) {
+      return {
+        planId,
+        version: 0,
+        name: 'Default Plan',
+        effectiveFrom: null,
+        definition: DEFAULT_COMPENSATION_PLAN,
+      };
+    }
+
+    return {
+      planId,
+      version: active.version,
+      name: active.name,
+      effectiveFrom: active.effectiveFrom,
+      // Parsing fills in sections added after this version was published
+      definition: compensationPlanDefinitionSchema.parse(active.definition),
+    };
+  }
+
+  /**
+   * Publish a new plan version. Existing versions are never modified so
+   * earlier periods stay reproducible.
+   */
+  async publishPlan(data: PublishCompensationPlan, actorId: string): Promise<CompensationPlan> {
+    const definition = compensationPlanDefinitionSchema.parse(data.definition);
+    const rankNames = definition.ranks.map(r => r.name);
+    if (new Set(rankNames).size !== rankNames.length) {
+      throw new Error("Rank names must be unique");
+    }
+
+    const [latest] = await db
+      .select({ maxVersion: sql<number>`COALESCE(MAX(${compensationPlans.version}), 0)` })
+      .from(compensationPlans)
+      .where(eq(compensationPlans.planId, data.planId));
+
+    const [plan] = await db.insert(compensationPlans).values({
+      planId: data.planId,
+      version: Number(latest?.maxVersion || 0) + 1,
+      name: data.name,
+      effectiveFrom: data.effectiveFrom,
+      definition,
+      notes: data.notes,
+      publishedBy: actorId,
+    }).returning();
+
+    this.cache.delete(data.planId);
+    console.log(`Published compensation plan ${plan.planId} v${plan.version}, effective ${plan.effectiveFrom.toISOString()}`);
+    return plan;
+  }
+}
+
+export const compensationPlanService = new CompensationPlanService();
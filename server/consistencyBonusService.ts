@@ -0,0 +1,287 @@
+import { randomUUID } from "crypto";
+import { db, runBatch } from "./db";
+import {
+  users,
+  consistencyBonusRuns,
+  consistencyBonusAwards,
+  transactions,
+  type ConsistencyBonusRun,
+  type ConsistencyBonusAward,
+} from "@shared/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { ledgerService, DuplicatePostingError } from "./ledgerService";
+import { compensationPlanService } from "./compensationPlanService";
+import { activityService } from "./activityService";
+import { clawbackService } from "./clawbackService";
+import { getConsistencySlab, type ConsistencySlab } from "@shared/compensationPlan";
+
+export interface ConsistencyStanding {
+  userId: string;
+  streakMonths: number;
+  repurchaseBV: number;
+  teamBV: number;
+  slab: ConsistencySlab;
+}
+
+export interface ConsistencyStatus {
+  monthStart: Date;
+  streakMonths: number; // Qualifying months in a row up to last month
+  repurchaseBV: number; // Own repurchase BV so far this month
+  requiredBV: number;
+  qualifiesThisMonth: boolean;
+  teamBV: number; // Team repurchase BV so far this month
+  eligibleSlab: ConsistencySlab | null; // Slab this month pays when it is settled next month, as things stand
+  slabs: ConsistencySlab[];
+  awards: ConsistencyBonusAward[];
+}
+
+// How far back a member's streak is counted for display
+const STREAK_LOOKBACK_MONTHS = 24;
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+const addMonths = (month: Date, months: number): Date => new Date(month.getFullYear(), month.getMonth() + months, 1);
+
+export class ConsistencyBonusService {
+  async getRuns(): Promise<ConsistencyBonusRun[]> {
+    return await db.select().from(consistencyBonusRuns).orderBy(desc(consistencyBonusRuns.month));
+  }
+
+  async getRun(runId: string): Promise<{ run: ConsistencyBonusRun; awards: ConsistencyBonusAward[] } | undefined> {
+    const [run] = await db.select().from(consistencyBonusRuns).where(eq(consistencyBonusRuns.id, runId));
+    if (!run) return undefined;
+    const awards = await db.select().from(consistencyBonusAwards)
+      .where(eq(consistencyBonusAwards.runId, runId))
+      .orderBy(desc(consistencyBonusAwards.amount));
+    return { run, awards };
+  }
+
+  // ===== SETTLEMENT =====
+  /**
+   * Settle the consistency bonus for the month containing the given date:
+   * award every active ID whose repurchase streak and team repurchase BV
+   * reach a slab of the plan in force for that month, then credit the
+   * awards. A month is only ever computed once; calling again retries
+   * awards that were not credited yet.
+   */
+  async settleMonth(date: Date, actorId: string, now: Date = new Date()): Promise<{ run: ConsistencyBonusRun; credited: number; failed: number }> {
+    const month = startOfMonth(date);
+    if (addMonths(month, 1) > now) {
+      throw new Error('The consistency bonus can only be settled once the month has ended');
+    }
+
+    let [run] = await db.select().from(consistencyBonusRuns).where(eq(consistencyBonusRuns.month, month));
+    if (!run) {
+      const { version: planVersion } = await compensationPlanService.getActivePlan(month);
+      const standings = await this.computeStandings(month);
+      const runId = randomUUID();
+
+      // The run and its awards are recorded together; a concurrent settlement of the same month is a no-op
+      const statements = [
+        db.insert(consistencyBonusRuns).values({
+          id: runId,
+          month,
+          planVersion,
+          totalUsers: standings.length,
+          totalAmount: roundMoney(standings.reduce((sum, s) => sum + s.slab.amount, 0)).toFixed(2),
+          runBy: actorId,
+        }).onConflictDoNothing(),
+        ...standings.map(standing => db.insert(consistencyBonusAwards).values({
+          runId,
+          userId: standing.userId,
+          month,
+          slab: standing.slab.name,
+          streakMonths: standing.streakMonths,
+          repurchaseBV: standing.repurchaseBV.toFixed(2),
+          teamBV: standing.teamBV.toFixed(2),
+          amount: standing.slab.amount.toFixed(2),
+        }).onConflictDoNothing()),
+      ];
+      await runBatch(statements);
+
+      [run] = await db.select().from(consistencyBonusRuns).where(eq(consistencyBonusRuns.month, month));
+      console.log(`Consistency bonus for ${month.toISOString()}: ${standings.length} awards`);
+    }
+
+    const pending = await db.select().from(consistencyBonusAwards)
+      .where(and(eq(consistencyBonusAwards.runId, run.id), eq(consistencyBonusAwards.status, 'pending')));
+
+    let credited = 0;
+    let failed = 0;
+    for (const award of pending) {
+      try {
+        await this.creditAward(award);
+        credited++;
+      } catch (error) {
+        failed++;
+        console.error(`Failed to credit consistency bonus award ${award.id}:`, error);
+      }
+    }
+    return { run, credited, failed };
+  }
+
+  /**
+   * Settle last month if that has not happened yet
+   */
+  async runScheduledSettlement(now: Date = new Date()): Promise<void> {
+    await this.settleMonth(addMonths(startOfMonth(now), -1), 'system', now);
+  }
+
+  /**
+   * Credit one award. The wallet journal and the award's status commit
+   * together in one batch, so a failure leaves the award pending for the next
+   * settlement; the journal is keyed by award, so a concurrent settlement
+   * fails instead of paying twice.
+   */
+  private async creditAward(award: ConsistencyBonusAward): Promise<void> {
+    const monthLabel = award.month.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+    const posting = ledgerService.walletMovement(
+      award.userId,
+      award.amount,
+      `Consistency bonus (${award.slab}) for ${monthLabel}: ${award.streakMonths}-month repurchase streak`,
+      'consistency_bonus',
+      {
+        referenceId: award.id,
+        idempotencyKey: `consistency_award:${award.id}`,
+        metadata: {
+          runId: award.runId,
+          month: award.month.toISOString(),
+          slab: award.slab,
+          streakMonths: award.streakMonths,
+          repurchaseBV: award.repurchaseBV,
+          teamBV: award.teamBV,
+        },
+      }
+    );
+
+    try {
+      await ledgerService.postBatch([posting], [
+        db.update(consistencyBonusAwards)
+          .set({
+            status: 'credited',
+            creditedAt: new Date(),
+            transactionId: sql`(SELECT ${transactions.id} FROM ${transactions} WHERE ${transactions.userId} = ${award.userId} AND ${transactions.type} = 'consistency_bonus' AND ${transactions.referenceId} = ${award.id} LIMIT 1)`,
+          })
+          .where(and(eq(consistencyBonusAwards.id, award.id), eq(consistencyBonusAwards.status, 'pending'))),
+      ]);
+    } catch (error) {
+      // Another settlement credited it first
+      if (error instanceof DuplicatePostingError) return;
+      throw error;
+    }
+
+    // Income taken back after refunds is recovered from the new credit first
+    try {
+      await clawbackService.recoverOutstanding(award.userId);
+    } catch (error) {
+      console.error(`Failed to recover clawbacks for user ${award.userId}:`, error);
+    }
+  }
+
+  /**
+   * Active IDs that reach a slab for the month, with the figures that got
+   * them there. Streaks are only counted back as far as the top slab needs.
+   */
+  private async computeStandings(month: Date): Promise<ConsistencyStanding[]> {
+    const { definition: plan } = await compensationPlanService.getActivePlan(month);
+    const topStreak = Math.max(0, ...plan.consistencySlabs.map(slab => slab.streakMonths));
+    if (topStreak === 0) return [];
+
+    const streaks = await this.getStreaks(month, topStreak);
+    if (streaks.size === 0) return [];
+    const monthBV = await activityService.getRepurchaseBV(month, addMonths(month, 1));
+    const teamBV = await this.getTeamBV(monthBV);
+
+    const activeIds = new Set((await db.select({ id: users.id }).from(users).where(eq(users.idStatus, 'Active'))).map(user => user.id));
+
+    const standings: ConsistencyStanding[] = [];
+    for (const [userId, streakMonths] of Array.from(streaks.entries())) {
+      if (!activeIds.has(userId)) continue;
+      const team = roundMoney(teamBV.get(userId) ?? 0);
+      const slab = getConsistencySlab(plan, streakMonths, team);
+      if (!slab || slab.amount <= 0) continue;
+      standings.push({ userId, streakMonths, repurchaseBV: monthBV.get(userId) ?? 0, teamBV: team, slab });
+    }
+    return standings;
+  }
+
+  /**
+   * Consecutive months, ending with the given one, in which each user met the
+   * monthly repurchase BV of the plan in force for that month. Counted back at
+   * most `lookback` months; users without a qualifying month are left out.
+   */
+  private async getStreaks(month: Date, lookback: number, userIds?: string[]): Promise<Map<string, number>> {
+    const streaks = new Map<string, number>();
+    let candidates = userIds;
+    for (let i = 0; i < lookback; i++) {
+      const start = addMonths(month, -i);
+      const { definition: plan } = await compensationPlanService.getActivePlan(start);
+      const repurchaseBV = await activityService.getRepurchaseBV(start, addMonths(start, 1), candidates);
+
+      const qualified = Array.from(repurchaseBV.entries())
+        .filter(([, bv]) => bv >= plan.activation.monthlyRepurchaseBV)
+        .map(([userId]) => userId);
+      if (qualified.length === 0) break;
+      for (const userId of qualified) {
+        streaks.set(userId, i + 1);
+      }
+      // Only users still on a streak need looking at for earlier months
+      candidates = qualified;
+    }
+    return streaks;
+  }
+
+  /**
+   * Repurchase BV of each user's binary downline, from per-buyer BV
+   */
+  private async getTeamBV(repurchaseBV: Map<string, number>): Promise<Map<string, number>> {
+    const parents = new Map((await db.select({ id: users.id, parentId: users.parentId }).from(users)).map(node => [node.id, node.parentId]));
+
+    const teamBV = new Map<string, number>();
+    for (const [buyerId, bv] of Array.from(repurchaseBV.entries())) {
+      const visited = new Set<string>([buyerId]);
+      let parentId = parents.get(buyerId);
+      while (parentId && !visited.has(parentId)) {
+        visited.add(parentId);
+        teamBV.set(parentId, (teamBV.get(parentId) ?? 0) + bv);
+        parentId = parents.get(parentId);
+      }
+    }
+    return teamBV;
+  }
+
+  // ===== MEMBER VIEW =====
+  /**
+   * A member's streak, and whether this month is on course to pay a bonus
+   * when it is settled at the start of next month
+   */
+  async getUserStatus(userId: string, now: Date = new Date()): Promise<ConsistencyStatus> {
+    const monthStart = startOfMonth(now);
+    const { definition: plan } = await compensationPlanService.getActivePlan(monthStart);
+
+    const streakMonths = (await this.getStreaks(addMonths(monthStart, -1), STREAK_LOOKBACK_MONTHS, [userId])).get(userId) ?? 0;
+    const monthBV = await activityService.getRepurchaseBV(monthStart, addMonths(monthStart, 1));
+    const teamBV = roundMoney((await this.getTeamBV(monthBV)).get(userId) ?? 0);
+    const repurchaseBV = monthBV.get(userId) ?? 0;
+    const qualifiesThisMonth = repurchaseBV >= plan.activation.monthlyRepurchaseBV;
+
+    const awards = await db.select().from(consistencyBonusAwards)
+      .where(eq(consistencyBonusAwards.userId, userId))
+      .orderBy(desc(consistencyBonusAwards.month));
+
+    return {
+      monthStart,
+      streakMonths,
+      repurchaseBV,
+      requiredBV: plan.activation.monthlyRepurchaseBV,
+      qualifiesThisMonth,
+      teamBV,
+      eligibleSlab: qualifiesThisMonth ? getConsistencySlab(plan, streakMonths + 1, teamBV) ?? null : null,
+      slabs: [...plan.consistencySlabs].sort((a, b) => a.streakMonths - b.streakMonths || a.teamBV - b.teamBV),
+      awards,
+    };
+  }
+}
+
+export const consistencyBonusService = new ConsistencyBonusService();
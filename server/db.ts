@@ -1,5 +1,6 @@
 import { neon } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-http';
+import type { BatchItem } from 'drizzle-orm/batch';
 import * as schema from "@shared/schema";
 
 if (!process.env.DATABASE_URL) {
@@ -10,4 +11,15 @@ if (!process.env.DATABASE_URL) {
 
 // Use HTTP-only database connection to avoid WebSocket issues
 const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql, { schema });
\ No newline at end of file
+export const db = drizzle(sql, { schema });
+// A statement that can go into db.batch
+export type BatchStatement = BatchItem<'pg'>;
+
+/**
+ * Run a list of statements as one batch, i.e. one transaction, returning
+ * each statement's result in order. An empty list runs nothing.
+ */
+export async function runBatch<R extends unknown[] = unknown[]>(statements: BatchStatement[]): Promise<R> {
+  if (statements.length === 0) return [] as unknown[] as R;
+  return await db.batch(statements as [BatchStatement, ...BatchStatement[]]) as unknown[] as R;
+}
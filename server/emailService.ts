@@ -188,6 +188,58 @@ export async function sendPasswordResetEmail(email: string, token: string): Prom
   });
 }
 
+export async function sendTxnPinResetEmail(email: string, token: string): Promise<boolean> {
+  // Use actual production domain
+  const baseUrl = 'https://voltveratech.com';
+  const resetUrl = `${baseUrl}/reset-txn-pin?token=${token}`;
+  
+  return sendEmail({
+    to: email,
+    from: 'noreply@voltveratech.com', // Using verified domain
+    subject: 'Voltverashop - Reset Your Transaction PIN',
+    html: `
+      <div style="font-family: 'Segoe UI', sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: linear-gradient(135deg, #16a34a 0%, #22c55e 100%); padding: 30px; border-radius: 12px; text-align: center; margin-bottom: 30px;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">Voltverashop</h1>
+        </div>
+        
+        <div style="background: white; padding: 30px; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+          <h2 style="color: #1f2937; margin-top: 0;">Reset Your Transaction PIN</h2>
+          <p style="color: #6b7280; line-height: 1.6;">
+            You requested to reset the PIN that confirms withdrawals and fund transfers. Sign in to your account, then click the button below to choose a new PIN.
+          </p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}" style="
+              background: linear-gradient(135deg, #16a34a 0%, #22c55e 100%);
+              color: white;
+              padding: 12px 30px;
+              text-decoration: none;
+              border-radius: 6px;
+              font-weight: 600;
+              display: inline-block;
+            ">Reset Transaction PIN</a>
+          </div>
+          
+          <p style="color: #9ca3af; font-size: 14px;">
+            If the button doesn't work, copy and paste this link into your browser:<br>
+            <a href="${resetUrl}" style="color: #16a34a;">${resetUrl}</a>
+          </p>
+          
+          <p style="color: #ef4444; font-size: 14px; margin-top: 20px;">
+            This link will expire in 1 hour for security purposes.
+          </p>
+        </div>
+        
+        <div style="text-align: center; margin-top: 20px; color: #9ca3af; font-size: 12px;">
+          If you didn't request this reset, please change your password and contact support.
+        </div>
+      </div>
+    `,
+    text: `Reset your Voltverashop transaction PIN by signing in and visiting: ${resetUrl}`
+  });
+}
+
 export async function sendLoginCredentialsEmail(email: string, firstName: string, password: string, userID: string): Promise<boolean> {
   // Use actual production domain
   const baseUrl = 'https://voltveratech.com';
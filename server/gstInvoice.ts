@@ -0,0 +1,291 @@
+// GST rules for tax invoices: state codes, CGST/SGST vs IGST split, financial
+// years and the GSTR-1 style sales export. Pure functions only: the invoice
+// service supplies the rows.
+
+import { toPaise, fromPaise, percentOf } from "./money";
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface GstSplit {
+  cgst: string;
+  sgst: string;
+  igst: string;
+  totalTax: string;
+}
+
+export interface SellerDetails {
+  name: string;
+  gstin: string;
+  address: string | null;
+  stateCode: string;
+}
+
+export interface Gstr1Row {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  status: string;
+  buyerName: string;
+  buyerGstin: string | null;
+  placeOfSupply: string;
+  hsnCode: string | null;
+  description: string;
+  quantity: number;
+  gstRate: string;
+  taxableValue: string;
+  cgst: string;
+  sgst: string;
+  igst: string;
+  invoiceValue: string;
+}
+
+export interface GstExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+// State and union territory codes as used in GSTINs and place of supply
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+// Spellings members commonly type for their state
+const STATE_ALIASES: Record<string, string> = {
+  'j&k': '01',
+  'jammu & kashmir': '01',
+  'uttaranchal': '05',
+  'new delhi': '07',
+  'nct of delhi': '07',
+  'up': '09',
+  'orissa': '21',
+  'chattisgarh': '22',
+  'mp': '23',
+  'daman and diu': '26',
+  'dadra and nagar haveli': '26',
+  'pondicherry': '34',
+  'andaman & nicobar islands': '35',
+  'tamilnadu': '33',
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin) && !!GST_STATE_CODES[gstin.slice(0, 2)];
+}
+
+/**
+ * GST state code for a state name (or code) as entered on a profile
+ */
+export function stateCodeFor(state: string | null | undefined): string | null {
+  if (!state) return null;
+  const text = state.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (/^\d{1,2}$/.test(text)) {
+    const code = text.padStart(2, '0');
+    return GST_STATE_CODES[code] ? code : null;
+  }
+  const match = Object.entries(GST_STATE_CODES).find(([, name]) => name.toLowerCase() === text);
+  return match ? match[0] : STATE_ALIASES[text] ?? null;
+}
+
+export function stateLabel(code: string): string {
+  return `${code}-${GST_STATE_CODES[code] || 'Unknown'}`;
+}
+
+/**
+ * Seller registration from GST_SELLER_GSTIN / GST_SELLER_NAME / GST_SELLER_ADDRESS.
+ * The seller's state comes from the first two digits of the GSTIN.
+ */
+export function getSellerDetails(): SellerDetails {
+  const gstin = (process.env.GST_SELLER_GSTIN || '').trim().toUpperCase();
+  if (!isValidGstin(gstin)) {
+    throw new Error('GST_SELLER_GSTIN is missing or invalid; invoices cannot be issued');
+  }
+  return {
+    name: process.env.GST_SELLER_NAME || 'Voltvera Tech',
+    gstin,
+    address: process.env.GST_SELLER_ADDRESS || null,
+    stateCode: gstin.slice(0, 2),
+  };
+}
+
+export function supplyTypeFor(sellerStateCode: string, placeOfSupply: string): SupplyType {
+  return sellerStateCode === placeOfSupply ? 'intra_state' : 'inter_state';
+}
+
+/**
+ * Tax on a taxable value. Intra-state supplies split it evenly into CGST and
+ * SGST (SGST takes the odd paisa); inter-state supplies charge IGST.
+ */
+export function splitGst(taxableValue: string, gstRate: string, supplyType: SupplyType, taxAmount?: string | null): GstSplit {
+  const tax = taxAmount != null
+    ? toPaise(taxAmount)
+    : percentOf(toPaise(taxableValue), parseFloat(gstRate) / 100);
+  if (supplyType === 'inter_state') {
+    return { cgst: '0.00', sgst: '0.00', igst: fromPaise(tax), totalTax: fromPaise(tax) };
+  }
+  const cgst = tax / BigInt(2);
+  return { cgst: fromPaise(cgst), sgst: fromPaise(tax - cgst), igst: '0.00', totalTax: fromPaise(tax) };
+}
+
+/**
+ * Indian financial year (April to March) of a date in IST, e.g. '2026-27'
+ */
+export function financialYear(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const year = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+// Invoice numbers are VV/<financial year>/<sequence padded to 6 digits>
+export const INVOICE_SEQUENCE_DIGITS = 6;
+
+export function invoiceNumberPrefix(financialYear: string): string {
+  return `VV/${financialYear}/`;
+}
+
+/**
+ * First and last instant (exclusive) of a calendar month in IST, month as 'YYYY-MM'
+ */
+export function monthRange(month: string): { from: Date; to: Date } {
+  const match = /^(\d{4})-(\d{2})$/.exec(month);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new Error('Month must be in YYYY-MM format');
+  }
+  const offset = 330 * 60 * 1000;
+  const year = Number(match[1]);
+  const index = Number(match[2]) - 1;
+  return {
+    from: new Date(Date.UTC(year, index, 1) - offset),
+    to: new Date(Date.UTC(year, index + 1, 1) - offset),
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatDate(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  return `${String(ist.getUTCDate()).padStart(2, '0')}-${String(ist.getUTCMonth() + 1).padStart(2, '0')}-${ist.getUTCFullYear()}`;
+}
+
+/**
+ * Invoice-wise sales register, one row per invoice line, in the column
+ * order of the GSTR-1 B2B/B2C sheets. Cancelled invoices are listed with
+ * zero values so the number series stays complete.
+ */
+export function buildGstr1InvoiceCsv(month: string, rows: Gstr1Row[]): GstExportFile {
+  const header = [
+    'Invoice Number', 'Invoice Date', 'Status', 'Type', 'Buyer Name', 'Buyer GSTIN', 'Place Of Supply',
+    'HSN', 'Description', 'Quantity', 'Rate', 'Taxable Value', 'IGST', 'CGST', 'SGST', 'Invoice Value',
+  ];
+  const zero = (value: string, row: Gstr1Row) => row.status === 'cancelled' ? '0.00' : value;
+  const lines = rows.map(row => [
+    row.invoiceNumber,
+    formatDate(row.invoiceDate),
+    row.status,
+    row.buyerGstin ? 'B2B' : 'B2C',
+    row.buyerName,
+    row.buyerGstin || '',
+    stateLabel(row.placeOfSupply),
+    row.hsnCode || '',
+    row.description,
+    String(row.status === 'cancelled' ? 0 : row.quantity),
+    row.gstRate,
+    zero(row.taxableValue, row),
+    zero(row.igst, row),
+    zero(row.cgst, row),
+    zero(row.sgst, row),
+    zero(row.invoiceValue, row),
+  ]);
+
+  return {
+    filename: `gstr1-invoices-${month}.csv`,
+    contentType: 'text/csv',
+    content: [header, ...lines].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+  };
+}
+
+/**
+ * HSN-wise summary of outward supplies (GSTR-1 table 12)
+ */
+export function buildGstr1HsnCsv(month: string, rows: Gstr1Row[]): GstExportFile {
+  const summary = new Map<string, { hsnCode: string; description: string; gstRate: string; quantity: number; taxable: bigint; igst: bigint; cgst: bigint; sgst: bigint; value: bigint }>();
+  for (const row of rows) {
+    if (row.status === 'cancelled') continue;
+    const key = `${row.hsnCode || ''}|${row.gstRate}`;
+    const entry = summary.get(key) || {
+      hsnCode: row.hsnCode || '',
+      description: row.description,
+      gstRate: row.gstRate,
+      quantity: 0,
+      taxable: BigInt(0),
+      igst: BigInt(0),
+      cgst: BigInt(0),
+      sgst: BigInt(0),
+      value: BigInt(0),
+    };
+    entry.quantity += row.quantity;
+    entry.taxable += toPaise(row.taxableValue);
+    entry.igst += toPaise(row.igst);
+    entry.cgst += toPaise(row.cgst);
+    entry.sgst += toPaise(row.sgst);
+    entry.value += toPaise(row.taxableValue) + toPaise(row.igst) + toPaise(row.cgst) + toPaise(row.sgst);
+    summary.set(key, entry);
+  }
+
+  const header = ['HSN', 'Description', 'UQC', 'Total Quantity', 'Rate', 'Total Value', 'Taxable Value', 'IGST', 'CGST', 'SGST'];
+  const lines = Array.from(summary.values()).map(entry => [
+    entry.hsnCode,
+    entry.description,
+    'NOS-NUMBERS',
+    String(entry.quantity),
+    entry.gstRate,
+    fromPaise(entry.value),
+    fromPaise(entry.taxable),
+    fromPaise(entry.igst),
+    fromPaise(entry.cgst),
+    fromPaise(entry.sgst),
+  ]);
+
+  return {
+    filename: `gstr1-hsn-${month}.csv`,
+    contentType: 'text/csv',
+    content: [header, ...lines].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+  };
+}
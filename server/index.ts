@@ -4,7 +4,13 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json({ limit: '50mb' }));
+// Keep the raw body so payment webhook signatures can be checked byte-for-byte
+app.use(express.json({
+  limit: '50mb',
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ limit: '50mb', extended: false }));
 
 app.use((req, res, next) => {
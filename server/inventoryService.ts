@@ -0,0 +1,515 @@
+import { randomUUID } from "crypto";
+import { db, runBatch, type BatchStatement } from "./db";
+import {
+  stockPoints,
+  stockLevels,
+  stockMovements,
+  franchiseRequests,
+  orders,
+  purchases,
+  ledgerJournals,
+  products,
+  users,
+  notifications,
+  type CreateStockMovement,
+  type CreateStockPoint,
+  type Order,
+  type StockLevel,
+  type StockMovement,
+  type StockPoint,
+  type UpdateStockPoint,
+} from "@shared/schema";
+import { eq, and, asc, desc, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+import { ledgerService, DuplicatePostingError, type LedgerPosting } from "./ledgerService";
+import { compensationPlanService } from "./compensationPlanService";
+import { toPaise, fromPaise, percentOf } from "./money";
+
+export interface StockLine {
+  productId: string;
+  quantity: number;
+  purchaseId?: string;
+}
+
+export interface StockLevelView extends StockLevel {
+  productName: string | null;
+  available: number; // On hand minus reserved
+}
+
+export interface NearbyStockPoint extends StockPoint {
+  match: 'pincode' | 'city' | 'state' | null; // How close it is to the member's address
+}
+
+export class OutOfStockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutOfStockError';
+  }
+}
+
+const STOCK_CONSTRAINTS = ['stock_quantity_non_negative', 'stock_reserved_within_quantity'];
+
+// An order only carries a franchise journal once it is fulfilled
+const FRANCHISE_JOURNAL_CONSTRAINT = 'orders_franchise_journal_when_fulfilled';
+
+const isStockConstraintError = (error: unknown) =>
+  STOCK_CONSTRAINTS.some(name => String((error as any)?.message || '').includes(name));
+
+export class InventoryService {
+  // ===== STOCK POINTS =====
+  /**
+   * Open a warehouse, or a franchise point for an approved franchise request
+   * (owned by the member who made the request)
+   */
+  async createStockPoint(data: CreateStockPoint): Promise<StockPoint> {
+    let ownerId: string | null = null;
+    let franchiseType: StockPoint['franchiseType'] = null;
+    if (data.type === 'franchise') {
+      if (!data.franchiseRequestId) {
+        throw new Error('Franchise stock points need an approved franchise request');
+      }
+      const [request] = await db.select().from(franchiseRequests).where(eq(franchiseRequests.id, data.franchiseRequestId));
+      if (!request || request.status !== 'approved') {
+        throw new Error('Franchise request not found or not approved');
+      }
+      ownerId = request.userId;
+      franchiseType = request.franchiseType;
+    }
+
+    const [point] = await db.insert(stockPoints).values({
+      ...data,
+      franchiseRequestId: data.type === 'franchise' ? data.franchiseRequestId : null,
+      ownerId,
+      franchiseType,
+    }).onConflictDoNothing({ target: stockPoints.code }).returning();
+    if (!point) {
+      throw new Error(`Stock point code ${data.code} is already in use`);
+    }
+    console.log(`Opened ${point.type} stock point ${point.code}`);
+    return point;
+  }
+
+  async updateStockPoint(stockPointId: string, data: UpdateStockPoint): Promise<StockPoint> {
+    const [point] = await db.update(stockPoints)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(stockPoints.id, stockPointId))
+      .returning();
+    if (!point) {
+      throw new Error('Stock point not found');
+    }
+    return point;
+  }
+
+  async getStockPoint(stockPointId: string): Promise<StockPoint> {
+    const [point] = await db.select().from(stockPoints).where(eq(stockPoints.id, stockPointId));
+    if (!point) {
+      throw new Error('Stock point not found');
+    }
+    return point;
+  }
+
+  async getStockPoints(): Promise<StockPoint[]> {
+    return db.select().from(stockPoints).orderBy(asc(stockPoints.type), asc(stockPoints.code));
+  }
+
+  /**
+   * A franchise point run by the given member; other points read as missing
+   */
+  async getOwnedStockPoint(stockPointId: string, userId: string): Promise<StockPoint> {
+    const point = await this.getStockPoint(stockPointId);
+    if (point.ownerId !== userId) {
+      throw new Error('Stock point not found');
+    }
+    return point;
+  }
+
+  async getOwnedStockPoints(userId: string): Promise<StockPoint[]> {
+    return db.select().from(stockPoints)
+      .where(and(eq(stockPoints.ownerId, userId), eq(stockPoints.isActive, true)))
+      .orderBy(asc(stockPoints.code));
+  }
+
+  /**
+   * Stock point an order is reserved at: the chosen active point, or the
+   * oldest active warehouse
+   */
+  async resolveStockPoint(stockPointId?: string): Promise<StockPoint> {
+    const [point] = await db.select().from(stockPoints)
+      .where(stockPointId
+        ? and(eq(stockPoints.id, stockPointId), eq(stockPoints.isActive, true))
+        : and(eq(stockPoints.type, 'warehouse'), eq(stockPoints.isActive, true)))
+      .orderBy(asc(stockPoints.createdAt))
+      .limit(1);
+    if (!point) {
+      throw new Error(stockPointId ? 'Pickup point not found' : 'No warehouse is set up to fulfil orders');
+    }
+    return point;
+  }
+
+  /**
+   * Active franchise points, nearest to the member's address first: same
+   * PIN code, then city, then state
+   */
+  async getNearbyFranchises(userId: string): Promise<NearbyStockPoint[]> {
+    const [user] = await db.select({ pincode: users.pincode, city: users.city, state: users.state }).from(users).where(eq(users.id, userId));
+    const points = await db.select().from(stockPoints)
+      .where(and(eq(stockPoints.type, 'franchise'), eq(stockPoints.isActive, true)))
+      .orderBy(asc(stockPoints.name));
+
+    const same = (a: string | null | undefined, b: string | null | undefined) =>
+      !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+    const ranked = points.map(point => ({
+      ...point,
+      match: same(point.pincode, user?.pincode) ? 'pincode' as const
+        : same(point.city, user?.city) ? 'city' as const
+        : same(point.state, user?.state) ? 'state' as const
+        : null,
+    }));
+    const order = { pincode: 0, city: 1, state: 2 };
+    return ranked.sort((a, b) => (a.match ? order[a.match] : 3) - (b.match ? order[b.match] : 3));
+  }
+
+  // ===== STOCK LEVELS =====
+  async getStockLevels(stockPointId: string): Promise<StockLevelView[]> {
+    const rows = await db
+      .select({ level: stockLevels, productName: products.name })
+      .from(stockLevels)
+      .leftJoin(products, eq(stockLevels.productId, products.id))
+      .where(eq(stockLevels.stockPointId, stockPointId))
+      .orderBy(asc(products.name));
+    return rows.map(({ level, productName }) => ({ ...level, productName, available: level.quantity - level.reserved }));
+  }
+
+  async getLowStock() {
+    const rows = await db
+      .select({ level: stockLevels, productName: products.name, stockPoint: { code: stockPoints.code, name: stockPoints.name } })
+      .from(stockLevels)
+      .innerJoin(stockPoints, eq(stockLevels.stockPointId, stockPoints.id))
+      .leftJoin(products, eq(stockLevels.productId, products.id))
+      .where(and(
+        eq(stockPoints.isActive, true),
+        sql`${stockLevels.quantity} - ${stockLevels.reserved} <= ${stockLevels.lowStockThreshold}`
+      ))
+      .orderBy(asc(stockPoints.code), asc(products.name));
+    return rows.map(({ level, productName, stockPoint }) => ({
+      ...level,
+      productName,
+      available: level.quantity - level.reserved,
+      stockPoint,
+    }));
+  }
+
+  async getMovements(stockPointId: string, productId?: string): Promise<StockMovement[]> {
+    return db.select().from(stockMovements)
+      .where(and(
+        eq(stockMovements.stockPointId, stockPointId),
+        productId ? eq(stockMovements.productId, productId) : undefined
+      ))
+      .orderBy(desc(stockMovements.createdAt))
+      .limit(200);
+  }
+
+  async setLowStockThreshold(stockPointId: string, productId: string, lowStockThreshold: number): Promise<StockLevel> {
+    const [level] = await db.insert(stockLevels)
+      .values({ stockPointId, productId, lowStockThreshold })
+      .onConflictDoUpdate({
+        target: [stockLevels.stockPointId, stockLevels.productId],
+        set: { lowStockThreshold, updatedAt: new Date() },
+      })
+      .returning();
+    await this.checkLowStock(stockPointId, [productId]);
+    return level;
+  }
+
+  /**
+   * Stock received at (stock_in) or written off from (stock_out) a stock
+   * point. Reserved units cannot be taken out.
+   */
+  async recordMovement(stockPointId: string, data: CreateStockMovement, actorId: string): Promise<StockLevel> {
+    const point = await this.getStockPoint(stockPointId);
+    const delta = data.type === 'stock_in' ? data.quantity : -data.quantity;
+
+    let level: StockLevel | undefined;
+    try {
+      [[level]] = await db.batch([
+        db.insert(stockLevels)
+          .values({ stockPointId, productId: data.productId, quantity: delta })
+          .onConflictDoUpdate({
+            target: [stockLevels.stockPointId, stockLevels.productId],
+            set: { quantity: sql`${stockLevels.quantity} + ${delta}`, updatedAt: new Date() },
+          })
+          .returning(),
+        db.insert(stockMovements).values({
+          stockPointId,
+          productId: data.productId,
+          type: data.type,
+          quantity: data.quantity,
+          note: data.note,
+          createdBy: actorId,
+        }),
+      ]);
+    } catch (error) {
+      if (isStockConstraintError(error)) {
+        throw new OutOfStockError(`Only unreserved stock can be taken out of ${point.name}`);
+      }
+      throw error;
+    }
+
+    await this.checkLowStock(stockPointId, [data.productId]);
+    return level!;
+  }
+
+  // ===== ORDER RESERVATIONS =====
+  /**
+   * Fail early, naming the product, when a stock point cannot cover an order.
+   * The reservation itself is still enforced by the stock level constraints.
+   */
+  async assertAvailable(point: StockPoint, lines: (StockLine & { name: string })[]): Promise<void> {
+    const levels = await db.select().from(stockLevels)
+      .where(and(eq(stockLevels.stockPointId, point.id), inArray(stockLevels.productId, lines.map(line => line.productId))));
+    const byProduct = new Map(levels.map(level => [level.productId, level.quantity - level.reserved]));
+    // Variants share their product's stock, so lines of one product add up
+    for (const line of lines) {
+      const available = byProduct.get(line.productId) ?? 0;
+      if (available < line.quantity) {
+        throw new OutOfStockError(available > 0
+          ? `Only ${available} of ${line.name} left at ${point.name}`
+          : `${line.name} is out of stock at ${point.name}`);
+      }
+      byProduct.set(line.productId, available - line.quantity);
+    }
+  }
+
+  /**
+   * Statements reserving an order's lines, meant to run in the same batch
+   * that creates the order or takes a failed one up again. A missing stock
+   * level is inserted with nothing on hand, so it fails the constraint like
+   * an exhausted one. With a guard, nothing is reserved unless it holds.
+   */
+  reservationStatements(stockPointId: string, orderId: string, lines: StockLine[], actorId: string, guard?: SQL): BatchStatement[] {
+    return lines.flatMap(line => [
+      db.insert(stockLevels)
+        .values({ stockPointId, productId: line.productId, quantity: 0, reserved: line.quantity })
+        .onConflictDoUpdate({
+          target: [stockLevels.stockPointId, stockLevels.productId],
+          set: { reserved: sql`${stockLevels.reserved} + ${line.quantity}`, updatedAt: new Date() },
+          setWhere: guard,
+        }),
+      guard
+        ? db.execute(sql`
+            INSERT INTO ${stockMovements} (stock_point_id, product_id, type, quantity, order_id, created_by)
+            SELECT ${stockPointId}, ${line.productId}, 'reserved', ${line.quantity}, ${orderId}, ${actorId}
+            WHERE ${guard}
+          `)
+        : db.insert(stockMovements).values({
+            stockPointId,
+            productId: line.productId,
+            type: 'reserved',
+            quantity: line.quantity,
+            orderId,
+            createdBy: actorId,
+          }),
+    ]);
+  }
+
+  isStockConstraintError(error: unknown): boolean {
+    return isStockConstraintError(error);
+  }
+
+  /**
+   * Give back the reservation of unfulfilled lines (failed, cancelled or
+   * refunded), or put fulfilled lines that came back into stock. Orders
+   * placed before stock points existed are skipped.
+   */
+  async returnLines(order: Order, lines: StockLine[], note: string): Promise<void> {
+    if (!order.stockPointId || lines.length === 0) return;
+    const stockPointId = order.stockPointId;
+    const returned = !!order.fulfilledAt;
+
+    const statements = lines.flatMap(line => [
+      db.update(stockLevels)
+        .set(returned
+          ? { quantity: sql`${stockLevels.quantity} + ${line.quantity}`, updatedAt: new Date() }
+          : { reserved: sql`${stockLevels.reserved} - ${line.quantity}`, updatedAt: new Date() })
+        .where(and(eq(stockLevels.stockPointId, stockPointId), eq(stockLevels.productId, line.productId))),
+      db.insert(stockMovements).values({
+        stockPointId,
+        productId: line.productId,
+        type: returned ? 'returned' : 'released',
+        quantity: line.quantity,
+        orderId: order.id,
+        purchaseId: line.purchaseId,
+        note,
+      }),
+    ]);
+    await runBatch(statements);
+    // Either way more stock is available, which may re-arm the low stock alert
+    await this.checkLowStock(stockPointId, lines.map(line => line.productId));
+  }
+
+  // ===== FULFILMENT =====
+  /**
+   * Paid orders waiting to be fulfilled at a stock point, plus the latest
+   * fulfilled ones
+   */
+  async getStockPointOrders(stockPointId: string) {
+    const rows = await db
+      .select({
+        order: orders,
+        user: { userId: users.userId, firstName: users.firstName, lastName: users.lastName, mobile: users.mobile },
+      })
+      .from(orders)
+      .leftJoin(users, eq(orders.userId, users.id))
+      .where(and(eq(orders.stockPointId, stockPointId), inArray(orders.status, ['paid', 'refunded'])))
+      .orderBy(sql`${orders.fulfilledAt} IS NOT NULL`, desc(orders.paidAt))
+      .limit(100);
+    return rows.map(row => ({ ...row.order, user: row.user }));
+  }
+
+  /**
+   * Take a paid order out of its stock point when it is shipped or handed
+   * over: reserved units leave stock and a franchise point earns franchise
+   * income on the BV of the lines it fulfilled. The claim, the stock and the
+   * franchise journal commit together in one batch, so a failure leaves the
+   * order to be fulfilled again. Franchise owners may only fulfil their own
+   * orders. Delivery status is kept by shipmentService.
+   */
+  async fulfilOrder(orderId: string, actor: { userId: string; isAdmin: boolean }): Promise<Order> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order || !order.stockPointId) {
+      throw new Error('Order not found');
+    }
+    const point = await this.getStockPoint(order.stockPointId);
+    if (!actor.isAdmin && point.ownerId !== actor.userId) {
+      throw new Error('Order not found');
+    }
+
+    const notFulfillable = (current: Order) => new Error(current.fulfilledAt
+      ? `Order ${current.orderNumber} has already been fulfilled`
+      : `Only paid orders can be fulfilled (order ${current.orderNumber} is ${current.status})`);
+    if (order.fulfilledAt || order.status !== 'paid') {
+      throw notFulfillable(order);
+    }
+
+    // Lines refunded before fulfilment already gave their reservation back
+    const lines = await db.select().from(purchases)
+      .where(and(eq(purchases.orderId, orderId), eq(purchases.paymentStatus, 'paid')));
+    const posting = point.type === 'franchise' && point.ownerId
+      ? await this.franchiseIncome(order, point, lines.map(line => line.totalBV))
+      : null;
+
+    // Stock only leaves if this batch claimed the order, told by the token the claim writes
+    const now = new Date();
+    const claimToken = randomUUID();
+    const claimed = sql`EXISTS (SELECT 1 FROM ${orders} WHERE ${orders.id} = ${orderId} AND ${orders.claimToken} = ${claimToken})`;
+    const statements: BatchStatement[] = [
+      db.update(orders)
+        .set({ fulfilledAt: now, fulfilledBy: actor.userId, claimToken, updatedAt: now })
+        .where(and(eq(orders.id, orderId), eq(orders.status, 'paid'), isNull(orders.fulfilledAt)))
+        .returning(),
+      ...lines.flatMap(line => [
+        db.update(stockLevels)
+          .set({
+            quantity: sql`${stockLevels.quantity} - ${line.quantity || 1}`,
+            reserved: sql`${stockLevels.reserved} - ${line.quantity || 1}`,
+            updatedAt: now,
+          })
+          .where(and(eq(stockLevels.stockPointId, point.id), eq(stockLevels.productId, line.productId), claimed)),
+        db.execute(sql`
+          INSERT INTO ${stockMovements} (stock_point_id, product_id, type, quantity, order_id, purchase_id, created_by)
+          SELECT ${point.id}, ${line.productId}, 'dispatched', ${line.quantity || 1}, ${orderId}, ${line.id}, ${actor.userId}
+          WHERE ${claimed}
+        `),
+      ]),
+    ];
+
+    const idempotencyKey = `order:${orderId}:franchise_income`;
+    if (posting) {
+      // A no-op after a successful claim; otherwise the order is not fulfilled
+      // and the check constraint fails the batch, journal included
+      statements.push(db.update(orders)
+        .set({ franchiseJournalId: sql`(SELECT ${ledgerJournals.id} FROM ${ledgerJournals} WHERE ${ledgerJournals.idempotencyKey} = ${idempotencyKey})` })
+        .where(eq(orders.id, orderId)));
+    }
+
+    let claimedOrder: Order | undefined;
+    try {
+      ({ results: [[claimedOrder]] } = await ledgerService.postBatch<[Order[]]>(posting ? [{ ...posting, idempotencyKey }] : [], statements));
+    } catch (error) {
+      // Another fulfilment, refund or cancellation got to the order first
+      if (!(error instanceof DuplicatePostingError) && !String((error as any)?.message || '').includes(FRANCHISE_JOURNAL_CONSTRAINT)) {
+        throw error;
+      }
+    }
+    if (!claimedOrder) {
+      const [current] = await db.select().from(orders).where(eq(orders.id, orderId));
+      throw notFulfillable(current ?? order);
+    }
+
+    await this.checkLowStock(point.id, lines.map(line => line.productId));
+    console.log(`Order ${claimedOrder.orderNumber} fulfilled from ${point.code}`);
+    return claimedOrder;
+  }
+
+  /**
+   * The journal paying a franchise point's owner for the lines it fulfilled,
+   * or null if they earn nothing
+   */
+  private async franchiseIncome(order: Order, point: StockPoint, lineBV: string[]): Promise<LedgerPosting | null> {
+    const { definition: plan } = await compensationPlanService.getActivePlan(order.paidAt || new Date());
+    const bv = lineBV.reduce((total, value) => total + toPaise(value), BigInt(0));
+    const income = percentOf(bv, plan.franchiseIncomeRate);
+    if (income <= BigInt(0)) return null;
+
+    return ledgerService.walletMovement(
+      point.ownerId!,
+      fromPaise(income),
+      `Franchise Income for order ${order.orderNumber} at ${point.name}`,
+      'franchise_income',
+      {
+        referenceId: order.id,
+        metadata: { orderId: order.id, stockPointId: point.id, bv: fromPaise(bv), rate: plan.franchiseIncomeRate },
+      }
+    );
+  }
+
+  // ===== LOW STOCK ALERTS =====
+  /**
+   * Notify admins and the franchise owner once when available stock drops to
+   * the threshold; the alert re-arms when stock is topped up again
+   */
+  async checkLowStock(stockPointId: string, productIds: string[]): Promise<void> {
+    if (productIds.length === 0) return;
+    const now = new Date();
+    const available = sql`${stockLevels.quantity} - ${stockLevels.reserved}`;
+    const scope = and(eq(stockLevels.stockPointId, stockPointId), inArray(stockLevels.productId, productIds));
+
+    await db.update(stockLevels)
+      .set({ lowStockAlertedAt: null })
+      .where(and(scope, isNotNull(stockLevels.lowStockAlertedAt), sql`${available} > ${stockLevels.lowStockThreshold}`));
+    const alerted = await db.update(stockLevels)
+      .set({ lowStockAlertedAt: now })
+      .where(and(scope, isNull(stockLevels.lowStockAlertedAt), sql`${available} <= ${stockLevels.lowStockThreshold}`))
+      .returning();
+    if (alerted.length === 0) return;
+
+    const point = await this.getStockPoint(stockPointId);
+    const names = await db.select({ id: products.id, name: products.name }).from(products)
+      .where(inArray(products.id, alerted.map(level => level.productId)));
+    const nameOf = new Map(names.map(product => [product.id, product.name]));
+    const admins = await db.select({ id: users.id }).from(users).where(eq(users.role, 'admin'));
+    const recipients = Array.from(new Set([...admins.map(admin => admin.id), ...(point.ownerId ? [point.ownerId] : [])]));
+
+    const rows = alerted.flatMap(level => recipients.map(userId => ({
+      userId,
+      type: 'low_stock',
+      title: 'Low Stock',
+      message: `${nameOf.get(level.productId) || 'A product'} is down to ${level.quantity - level.reserved} available at ${point.name}`,
+      data: { stockPointId, productId: level.productId, quantity: level.quantity, reserved: level.reserved },
+    })));
+    if (rows.length > 0) {
+      await db.insert(notifications).values(rows);
+    }
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,126 @@
+import PDFDocument from "pdfkit";
+import type { Invoice, InvoiceLine } from "@shared/schema";
+import { stateLabel } from "./gstInvoice";
+
+// Renders a GST tax invoice as an A4 PDF
+
+const MARGIN = 40;
+const PAGE_WIDTH = 595.28; // A4 in points
+
+const formatAmount = (amount: string) =>
+  Number(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+  value: (line: InvoiceLine, index: number) => string;
+}
+
+export function renderInvoicePdf(invoice: Invoice, lines: InvoiceLine[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: `Tax Invoice ${invoice.invoiceNumber}` } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const contentWidth = PAGE_WIDTH - MARGIN * 2;
+    const intraState = invoice.supplyType === 'intra_state';
+
+    // Header
+    doc.font('Helvetica-Bold').fontSize(16).text('TAX INVOICE', { align: 'center' });
+    if (invoice.status === 'cancelled') {
+      doc.fillColor('#b91c1c').fontSize(11).text('CANCELLED', { align: 'center' }).fillColor('black');
+    }
+    doc.moveDown();
+
+    const top = doc.y;
+    doc.font('Helvetica-Bold').fontSize(10).text(invoice.sellerName, MARGIN, top, { width: contentWidth / 2 });
+    doc.font('Helvetica').fontSize(9);
+    if (invoice.sellerAddress) doc.text(invoice.sellerAddress, { width: contentWidth / 2 });
+    doc.text(`GSTIN: ${invoice.sellerGstin}`);
+    doc.text(`State: ${stateLabel(invoice.sellerStateCode)}`);
+    const sellerBottom = doc.y;
+
+    const right = MARGIN + contentWidth / 2 + 20;
+    doc.text(`Invoice No: ${invoice.invoiceNumber}`, right, top);
+    doc.text(`Invoice Date: ${formatDate(invoice.invoiceDate)}`, right);
+    doc.text(`Place of Supply: ${stateLabel(invoice.placeOfSupply)}`, right);
+    doc.text(`Supply: ${intraState ? 'Intra-state (CGST + SGST)' : 'Inter-state (IGST)'}`, right);
+    doc.y = Math.max(sellerBottom, doc.y) + 12;
+
+    // Buyer
+    const buyerTop = doc.y;
+    doc.font('Helvetica-Bold').text('Bill To', MARGIN, buyerTop);
+    doc.font('Helvetica').text(invoice.buyerName, { width: contentWidth / 2 - 10 });
+    if (invoice.buyerUserId) doc.text(`Member ID: ${invoice.buyerUserId}`);
+    if (invoice.buyerGstin) doc.text(`GSTIN: ${invoice.buyerGstin}`);
+    if (invoice.billingAddress) doc.text(invoice.billingAddress, { width: contentWidth / 2 - 10 });
+    const billBottom = doc.y;
+    doc.font('Helvetica-Bold').text('Ship To', right, buyerTop);
+    doc.font('Helvetica').text(invoice.shippingAddress || invoice.billingAddress || '-', right, doc.y, { width: contentWidth / 2 - 20 });
+    doc.y = Math.max(billBottom, doc.y) + 16;
+
+    // Lines
+    const taxColumns: Column[] = intraState
+      ? [
+          { header: 'CGST', width: 60, align: 'right', value: line => formatAmount(line.cgstAmount) },
+          { header: 'SGST', width: 60, align: 'right', value: line => formatAmount(line.sgstAmount) },
+        ]
+      : [{ header: 'IGST', width: 120, align: 'right', value: line => formatAmount(line.igstAmount) }];
+    const columns: Column[] = [
+      { header: '#', width: 20, value: (_line, index) => String(index + 1) },
+      { header: 'Description', width: 95, value: line => line.description },
+      { header: 'HSN', width: 45, value: line => line.hsnCode || '-' },
+      { header: 'Qty', width: 30, align: 'right', value: line => String(line.quantity) },
+      { header: 'Rate', width: 55, align: 'right', value: line => formatAmount(line.unitPrice) },
+      { header: 'Taxable', width: 60, align: 'right', value: line => formatAmount(line.taxableValue) },
+      { header: 'GST %', width: 35, align: 'right', value: line => `${Number(line.gstRate)}` },
+      ...taxColumns,
+      { header: 'Total', width: contentWidth - 460, align: 'right', value: line => formatAmount(line.totalAmount) },
+    ];
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const y = doc.y;
+      let x = MARGIN;
+      let height = 0;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+      columns.forEach((column, i) => {
+        doc.text(cells[i], x + 2, y, { width: column.width - 4, align: column.align || 'left' });
+        height = Math.max(height, doc.y - y);
+        x += column.width;
+      });
+      doc.y = y + height + 4;
+      doc.moveTo(MARGIN, doc.y - 2).lineTo(MARGIN + contentWidth, doc.y - 2).lineWidth(0.5).stroke('#d1d5db');
+    };
+
+    drawRow(columns.map(column => column.header), true);
+    lines.forEach((line, index) => drawRow(columns.map(column => column.value(line, index)), false));
+
+    // Totals
+    doc.moveDown();
+    const totals: [string, string][] = [
+      ['Taxable Value', invoice.taxableValue],
+      ...(intraState
+        ? [['CGST', invoice.cgstAmount], ['SGST', invoice.sgstAmount]] as [string, string][]
+        : [['IGST', invoice.igstAmount]] as [string, string][]),
+      ['Invoice Total (INR)', invoice.totalAmount],
+    ];
+    for (const [label, amount] of totals) {
+      const y = doc.y;
+      doc.font(label.startsWith('Invoice') ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+      doc.text(label, MARGIN + contentWidth - 240, y, { width: 140, align: 'right' });
+      doc.text(formatAmount(amount), MARGIN + contentWidth - 100, y, { width: 100, align: 'right' });
+    }
+
+    doc.moveDown(2);
+    doc.font('Helvetica').fontSize(8).fillColor('#6b7280')
+      .text('This is a computer generated invoice and does not require a signature.', MARGIN, doc.y, { width: contentWidth, align: 'center' });
+
+    doc.end();
+  });
+}
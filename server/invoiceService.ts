@@ -0,0 +1,259 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import {
+  invoices,
+  invoiceLines,
+  invoiceSequences,
+  orders,
+  purchases,
+  products,
+  productVariants,
+  users,
+  type Invoice,
+  type InvoiceLine,
+} from "@shared/schema";
+import { eq, and, gte, lt, asc, desc, sql } from "drizzle-orm";
+import { toPaise, fromPaise } from "./money";
+import {
+  getSellerDetails,
+  stateCodeFor,
+  supplyTypeFor,
+  splitGst,
+  financialYear,
+  invoiceNumberPrefix,
+  monthRange,
+  buildGstr1InvoiceCsv,
+  buildGstr1HsnCsv,
+  INVOICE_SEQUENCE_DIGITS,
+  type GstExportFile,
+  type Gstr1Row,
+} from "./gstInvoice";
+import { renderInvoicePdf } from "./invoicePdf";
+
+export type Gstr1Section = 'invoices' | 'hsn';
+
+export interface InvoiceWithLines extends Invoice {
+  lines: InvoiceLine[];
+}
+
+export class InvoiceService {
+  /**
+   * Issue the GST tax invoice for a paid order. Safe to call again: an order
+   * only ever gets one invoice.
+   */
+  async issueForOrder(orderId: string): Promise<InvoiceWithLines> {
+    const existing = await this.findByOrder(orderId);
+    if (existing) {
+      return existing;
+    }
+
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!order.paidAt || (order.status !== 'paid' && order.status !== 'refunded')) {
+      throw new Error(`Order ${order.orderNumber} is not paid yet`);
+    }
+
+    const [buyer] = await db.select().from(users).where(eq(users.id, order.userId));
+    const items = await db
+      .select({ purchase: purchases, product: products, variantName: productVariants.name })
+      .from(purchases)
+      .leftJoin(products, eq(purchases.productId, products.id))
+      .leftJoin(productVariants, eq(purchases.variantId, productVariants.id))
+      .where(eq(purchases.orderId, orderId))
+      .orderBy(asc(purchases.createdAt));
+    if (items.length === 0) {
+      throw new Error(`Order ${order.orderNumber} has no lines to invoice`);
+    }
+
+    const seller = getSellerDetails();
+    // Unknown buyer states are billed as local supplies
+    const placeOfSupply = stateCodeFor(buyer?.state) || seller.stateCode;
+    const supplyType = supplyTypeFor(seller.stateCode, placeOfSupply);
+
+    const invoiceId = randomUUID();
+    const totals = { taxable: BigInt(0), cgst: BigInt(0), sgst: BigInt(0), igst: BigInt(0) };
+    const lines = items.map(({ purchase, product, variantName }) => {
+      const quantity = purchase.quantity || 1;
+      const gstRate = purchase.gstRate ?? product?.gst ?? '0';
+      const split = splitGst(purchase.totalAmount, gstRate, supplyType, purchase.taxAmount);
+      totals.taxable += toPaise(purchase.totalAmount);
+      totals.cgst += toPaise(split.cgst);
+      totals.sgst += toPaise(split.sgst);
+      totals.igst += toPaise(split.igst);
+      return {
+        invoiceId,
+        purchaseId: purchase.id,
+        productId: purchase.productId,
+        description: variantName ? `${product?.name || 'Product'} (${variantName})` : product?.name || 'Product',
+        hsnCode: product?.hsnCode ?? null,
+        quantity,
+        unitPrice: fromPaise(toPaise(purchase.totalAmount) / BigInt(quantity)),
+        taxableValue: purchase.totalAmount,
+        gstRate,
+        cgstAmount: split.cgst,
+        sgstAmount: split.sgst,
+        igstAmount: split.igst,
+        totalAmount: fromPaise(toPaise(purchase.totalAmount) + toPaise(split.totalTax)),
+      };
+    });
+    const totalTax = totals.cgst + totals.sgst + totals.igst;
+
+    // The number is taken inside the same batch as the insert, so a failed
+    // insert also rolls back the sequence and the series stays gap-free
+    const year = financialYear(order.paidAt);
+    const sequence = sql<number>`(select ${invoiceSequences.lastNumber} from ${invoiceSequences} where ${invoiceSequences.financialYear} = ${year})`;
+    const billingAddress = [buyer?.address, buyer?.city, buyer?.state, buyer?.pincode].filter(Boolean).join(', ');
+
+    try {
+      await db.batch([
+        db.insert(invoiceSequences)
+          .values({ financialYear: year, lastNumber: 1 })
+          .onConflictDoUpdate({
+            target: invoiceSequences.financialYear,
+            set: { lastNumber: sql`${invoiceSequences.lastNumber} + 1`, updatedAt: new Date() },
+          }),
+        db.insert(invoices).values({
+          id: invoiceId,
+          invoiceNumber: sql`${invoiceNumberPrefix(year)} || lpad(${sequence}::text, ${INVOICE_SEQUENCE_DIGITS}, '0')`,
+          financialYear: year,
+          sequenceNumber: sequence,
+          orderId,
+          userId: order.userId,
+          invoiceDate: order.paidAt,
+          sellerName: seller.name,
+          sellerGstin: seller.gstin,
+          sellerAddress: seller.address,
+          sellerStateCode: seller.stateCode,
+          buyerName: [buyer?.firstName, buyer?.lastName].filter(Boolean).join(' ') || buyer?.email || 'Customer',
+          buyerUserId: buyer?.userId ?? null,
+          billingAddress: billingAddress || null,
+          shippingAddress: order.deliveryAddress,
+          placeOfSupply,
+          supplyType,
+          taxableValue: fromPaise(totals.taxable),
+          cgstAmount: fromPaise(totals.cgst),
+          sgstAmount: fromPaise(totals.sgst),
+          igstAmount: fromPaise(totals.igst),
+          totalTax: fromPaise(totalTax),
+          totalAmount: fromPaise(totals.taxable + totalTax),
+        }),
+        db.insert(invoiceLines).values(lines),
+      ]);
+    } catch (error) {
+      // Issued concurrently by another request (order_id is unique)
+      const concurrent = await this.findByOrder(orderId);
+      if (concurrent) {
+        return concurrent;
+      }
+      throw error;
+    }
+
+    const invoice = await this.getInvoice(invoiceId);
+    console.log(`Issued invoice ${invoice.invoiceNumber} for order ${order.orderNumber}: ${invoice.totalAmount} (${supplyType})`);
+    return invoice;
+  }
+
+  /**
+   * Cancel the invoice of a refunded order. The number stays used.
+   */
+  async cancelForOrder(orderId: string, reason: string): Promise<void> {
+    await db
+      .update(invoices)
+      .set({ status: 'cancelled', cancelledAt: new Date(), cancellationReason: reason })
+      .where(and(eq(invoices.orderId, orderId), eq(invoices.status, 'issued')));
+  }
+
+  private async findByOrder(orderId: string): Promise<InvoiceWithLines | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.orderId, orderId));
+    return invoice ? this.withLines(invoice) : undefined;
+  }
+
+  private async withLines(invoice: Invoice): Promise<InvoiceWithLines> {
+    const lines = await db
+      .select()
+      .from(invoiceLines)
+      .where(eq(invoiceLines.invoiceId, invoice.id))
+      .orderBy(asc(invoiceLines.description));
+    return { ...invoice, lines };
+  }
+
+  async getInvoice(invoiceId: string): Promise<InvoiceWithLines> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    return this.withLines(invoice);
+  }
+
+  /**
+   * Invoice of one of the user's orders, issued on first request if the
+   * order was paid before invoicing was available
+   */
+  async getUserOrderInvoice(orderId: string, userId: string): Promise<InvoiceWithLines> {
+    const [order] = await db.select().from(orders).where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return this.issueForOrder(orderId);
+  }
+
+  async getUserInvoices(userId: string): Promise<Invoice[]> {
+    return db.select().from(invoices).where(eq(invoices.userId, userId)).orderBy(desc(invoices.invoiceDate));
+  }
+
+  /**
+   * Invoices dated in a calendar month (YYYY-MM, IST)
+   */
+  async getInvoices(month: string): Promise<Invoice[]> {
+    const { from, to } = monthRange(month);
+    return db
+      .select()
+      .from(invoices)
+      .where(and(gte(invoices.invoiceDate, from), lt(invoices.invoiceDate, to)))
+      .orderBy(asc(invoices.financialYear), asc(invoices.sequenceNumber));
+  }
+
+  async renderPdf(invoice: InvoiceWithLines): Promise<{ filename: string; content: Buffer }> {
+    return {
+      filename: `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`,
+      content: await renderInvoicePdf(invoice, invoice.lines),
+    };
+  }
+
+  /**
+   * GSTR-1 style sales export for a month: the invoice register or the HSN summary
+   */
+  async exportGstr1(month: string, section: Gstr1Section): Promise<GstExportFile> {
+    const { from, to } = monthRange(month);
+    const rows = await db
+      .select({ invoice: invoices, line: invoiceLines })
+      .from(invoiceLines)
+      .innerJoin(invoices, eq(invoiceLines.invoiceId, invoices.id))
+      .where(and(gte(invoices.invoiceDate, from), lt(invoices.invoiceDate, to)))
+      .orderBy(asc(invoices.financialYear), asc(invoices.sequenceNumber));
+
+    const gstRows: Gstr1Row[] = rows.map(({ invoice, line }) => ({
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: invoice.invoiceDate,
+      status: invoice.status,
+      buyerName: invoice.buyerName,
+      buyerGstin: invoice.buyerGstin,
+      placeOfSupply: invoice.placeOfSupply,
+      hsnCode: line.hsnCode,
+      description: line.description,
+      quantity: line.quantity,
+      gstRate: line.gstRate,
+      taxableValue: line.taxableValue,
+      cgst: line.cgstAmount,
+      sgst: line.sgstAmount,
+      igst: line.igstAmount,
+      invoiceValue: invoice.totalAmount,
+    }));
+
+    return section === 'hsn' ? buildGstr1HsnCsv(month, gstRows) : buildGstr1InvoiceCsv(month, gstRows);
+  }
+}
+
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,428 @@
+import { randomUUID } from "crypto";
+import { db, runBatch, type BatchStatement } from "./db";
+import {
+  ledgerAccounts,
+  ledgerJournals,
+  ledgerEntries,
+  walletBalances,
+  transactions,
+  type LedgerAccount,
+  type LedgerJournal,
+  type Transaction,
+  type TransactionType,
+} from "@shared/schema";
+import { eq, sql, inArray } from "drizzle-orm";
+import { toPaise, fromPaise } from "./money";
+
+export type SystemAccountType =
+  | 'payout_pool' | 'tds_payable' | 'admin_adjustment' | 'bank_settlement' | 'sales_revenue'
+  | 'withdrawal_hold' | 'withdrawal_charges';
+export type LedgerAccountType = 'user_wallet' | SystemAccountType;
+
+export type LedgerAccountRef =
+  | { type: 'user_wallet'; userId: string }
+  | { type: SystemAccountType };
+
+export interface LedgerPostingLine {
+  account: LedgerAccountRef;
+  direction: 'debit' | 'credit';
+  amount: string; // Positive decimal string
+  description?: string; // Overrides the journal description on this line's wallet transaction
+  metadata?: Record<string, unknown>; // Merged into this line's wallet transaction metadata
+}
+
+export interface LedgerPosting {
+  type: TransactionType;
+  description: string;
+  referenceId?: string;
+  metadata?: Record<string, unknown>;
+  createdBy?: string;
+  idempotencyKey?: string; // A second journal with the same key fails with DuplicatePostingError
+  lines: LedgerPostingLine[];
+}
+
+export interface WalletMovementOptions {
+  referenceId?: string;
+  metadata?: Record<string, unknown>;
+  createdBy?: string;
+  idempotencyKey?: string;
+}
+
+export interface LedgerPostingResult {
+  journal: LedgerJournal;
+  transactions: Transaction[]; // One per user wallet line, in line order
+}
+
+export interface LedgerReconciliationIssue {
+  kind: 'trial_balance' | 'account_balance' | 'wallet_projection';
+  accountId?: string;
+  userId?: string;
+  expected: string;
+  actual: string;
+}
+
+const SYSTEM_ACCOUNT_NAMES: Record<SystemAccountType, string> = {
+  payout_pool: 'Company Payout Pool',
+  tds_payable: 'TDS Payable',
+  admin_adjustment: 'Admin Adjustments',
+  bank_settlement: 'Bank Settlement',
+  sales_revenue: 'Sales Revenue',
+  withdrawal_hold: 'Withdrawal Hold',
+  withdrawal_charges: 'Withdrawal Charges',
+};
+
+// Income types are funded from the company payout pool
+const INCOME_TYPES: TransactionType[] = [
+  'sponsor_income', 'sales_incentive', 'sales_bonus', 'consistency_bonus', 'franchise_income',
+  'car_fund', 'travel_fund', 'leadership_fund', 'house_fund', 'millionaire_club', 'royalty_income',
+];
+
+// Wallet credits of these types are not income (a purchase credit is a refund)
+const NON_EARNING_TYPES: TransactionType[] = ['withdrawal', 'fund_transfer', 'purchase'];
+
+const INSUFFICIENT_BALANCE_CONSTRAINTS = ['wallet_balance_non_negative', 'ledger_user_wallet_non_negative'];
+
+const IDEMPOTENCY_CONSTRAINT = 'UQ_ledger_journals_idempotency_key';
+
+export class InsufficientBalanceError extends Error {
+  constructor(message = 'Insufficient wallet balance') {
+    super(message);
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+export class DuplicatePostingError extends Error {
+  constructor(message = 'This journal has already been posted') {
+    super(message);
+    this.name = 'DuplicatePostingError';
+  }
+}
+
+// Statements of one journal, ready to go into a batch
+interface PreparedPosting {
+  statements: BatchStatement[];
+  transactionIndexes: number[]; // Positions of the wallet transaction inserts
+}
+
+function accountCode(ref: LedgerAccountRef): string {
+  return ref.type === 'user_wallet' ? `user_wallet:${ref.userId}` : ref.type;
+}
+
+/**
+ * Counter account for a single-sided wallet movement of the given type
+ */
+export function counterAccountFor(type: TransactionType): SystemAccountType {
+  if (INCOME_TYPES.includes(type)) return 'payout_pool';
+  if (type === 'withdrawal') return 'bank_settlement';
+  if (type === 'purchase') return 'sales_revenue';
+  return 'admin_adjustment';
+}
+
+export class LedgerService {
+  private accountIds = new Map<string, string>();
+
+  /**
+   * Look up (creating on first use) the ledger account for a reference
+   */
+  async getAccount(ref: LedgerAccountRef): Promise<LedgerAccount> {
+    const code = accountCode(ref);
+    await db.insert(ledgerAccounts).values({
+      code,
+      accountType: ref.type,
+      userId: ref.type === 'user_wallet' ? ref.userId : null,
+      name: ref.type === 'user_wallet' ? `Wallet ${ref.userId}` : SYSTEM_ACCOUNT_NAMES[ref.type],
+    }).onConflictDoNothing({ target: ledgerAccounts.code });
+
+    const [account] = await db.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, code));
+    this.accountIds.set(code, account.id);
+    return account;
+  }
+
+  private async resolveAccountId(ref: LedgerAccountRef): Promise<string> {
+    const code = accountCode(ref);
+    return this.accountIds.get(code) ?? (await this.getAccount(ref)).id;
+  }
+
+  /**
+   * Post a balanced journal. Entries, account balances, the wallet projection
+   * and the user-facing transactions rows are written in a single batch, so
+   * either everything is recorded or nothing is. Balances are only ever
+   * changed with SQL increments, never read-modify-write.
+   */
+  async post(posting: LedgerPosting): Promise<LedgerPostingResult> {
+    const { postings: [result] } = await this.postBatch([posting]);
+    return result;
+  }
+
+  /**
+   * Post several journals together with the caller's own statements (run
+   * after the journals) as one batch, i.e. one transaction: a status change
+   * and the money it moves commit or fail together. Journals with an
+   * idempotency key make a concurrent or repeated batch fail as a whole.
+   */
+  async postBatch<R extends unknown[] = unknown[]>(
+    postings: LedgerPosting[],
+    statements: BatchStatement[] = []
+  ): Promise<{ postings: LedgerPostingResult[]; results: R }> {
+    const prepared: PreparedPosting[] = [];
+    for (const posting of postings) {
+      prepared.push(await this.prepare(posting));
+    }
+
+    let results: unknown[][];
+    try {
+      results = await runBatch<unknown[][]>([...prepared.flatMap(p => p.statements), ...statements]);
+    } catch (error) {
+      const message = String((error as any)?.message || '');
+      if (INSUFFICIENT_BALANCE_CONSTRAINTS.some(name => message.includes(name))) {
+        throw new InsufficientBalanceError();
+      }
+      if (message.includes(IDEMPOTENCY_CONSTRAINT)) {
+        throw new DuplicatePostingError();
+      }
+      throw error;
+    }
+
+    let offset = 0;
+    const posted = prepared.map(p => {
+      const result = {
+        journal: results[offset][0] as LedgerJournal,
+        transactions: p.transactionIndexes.map(index => results[offset + index][0] as Transaction),
+      };
+      offset += p.statements.length;
+      return result;
+    });
+    return { postings: posted, results: results.slice(offset) as R };
+  }
+
+  private async prepare(posting: LedgerPosting): Promise<PreparedPosting> {
+    if (posting.lines.length < 2) {
+      throw new Error("A journal needs at least two lines");
+    }
+
+    let debits = BigInt(0);
+    let credits = BigInt(0);
+    for (const line of posting.lines) {
+      const paise = toPaise(line.amount);
+      if (paise <= BigInt(0)) {
+        throw new Error(`Ledger line amounts must be positive (got ${line.amount})`);
+      }
+      if (line.direction === 'debit') debits += paise; else credits += paise;
+    }
+    if (debits !== credits) {
+      throw new Error(`Unbalanced journal: debits ${fromPaise(debits)} != credits ${fromPaise(credits)}`);
+    }
+
+    const journalId = randomUUID();
+    const lines = await Promise.all(posting.lines.map(async line => ({
+      ...line,
+      amount: fromPaise(toPaise(line.amount)),
+      accountId: await this.resolveAccountId(line.account),
+    })));
+
+    // Wallet projection rows must exist before the batch increments them
+    const walletUserIds = Array.from(new Set(lines.flatMap(l => l.account.type === 'user_wallet' ? [l.account.userId] : [])));
+    for (const userId of walletUserIds) {
+      await db.insert(walletBalances).values({ userId }).onConflictDoNothing({ target: walletBalances.userId });
+    }
+
+    const statements: BatchStatement[] = [
+      db.insert(ledgerJournals).values({
+        id: journalId,
+        transactionType: posting.type,
+        description: posting.description,
+        referenceId: posting.referenceId,
+        metadata: posting.metadata,
+        createdBy: posting.createdBy,
+        idempotencyKey: posting.idempotencyKey,
+      }).returning(),
+    ];
+    const transactionIndexes: number[] = [];
+
+    for (const line of lines) {
+      const delta = line.direction === 'credit' ? line.amount : fromPaise(-toPaise(line.amount));
+
+      statements.push(
+        db.insert(ledgerEntries).values({
+          journalId,
+          accountId: line.accountId,
+          direction: line.direction,
+          amount: line.amount,
+        }),
+        db.update(ledgerAccounts)
+          .set({ balance: sql`${ledgerAccounts.balance} + ${delta}`, updatedAt: new Date() })
+          .where(eq(ledgerAccounts.id, line.accountId)),
+      );
+
+      if (line.account.type === 'user_wallet') {
+        const userId = line.account.userId;
+        const isCredit = line.direction === 'credit';
+        statements.push(
+          db.update(walletBalances)
+            .set({
+              balance: sql`${walletBalances.balance} + ${delta}`,
+              totalEarnings: isCredit && !NON_EARNING_TYPES.includes(posting.type)
+                ? sql`${walletBalances.totalEarnings} + ${line.amount}`
+                : undefined,
+              // A withdrawal credit is a released hold and reverses the earlier debit
+              totalWithdrawals: posting.type === 'withdrawal'
+                ? sql`${walletBalances.totalWithdrawals} - ${delta}`
+                : undefined,
+              updatedAt: new Date(),
+            })
+            .where(eq(walletBalances.userId, userId)),
+          // Runs after the increment inside the same batch, so it sees this posting's balance
+          db.insert(transactions).values({
+            userId,
+            type: posting.type,
+            amount: delta,
+            description: line.description || posting.description,
+            referenceId: posting.referenceId,
+            balanceBefore: sql`(SELECT ${walletBalances.balance} FROM ${walletBalances} WHERE ${walletBalances.userId} = ${userId}) - ${delta}`,
+            balanceAfter: sql`(SELECT ${walletBalances.balance} FROM ${walletBalances} WHERE ${walletBalances.userId} = ${userId})`,
+            metadata: { ...posting.metadata, ...line.metadata, journalId },
+          }).returning(),
+        );
+        transactionIndexes.push(statements.length - 1);
+      }
+    }
+
+    return { statements, transactionIndexes };
+  }
+
+  /**
+   * Credit or debit a user wallet against the counter account implied by the
+   * transaction type. Positive amounts credit the wallet, negative debit it.
+   */
+  async postWalletMovement(
+    userId: string,
+    amount: string,
+    description: string,
+    type: TransactionType,
+    options: WalletMovementOptions = {}
+  ): Promise<Transaction> {
+    const { transactions: [transaction] } = await this.post(this.walletMovement(userId, amount, description, type, options));
+    return transaction;
+  }
+
+  /**
+   * The journal postWalletMovement would post, for callers batching it with
+   * other journals or statements (see postBatch)
+   */
+  walletMovement(
+    userId: string,
+    amount: string,
+    description: string,
+    type: TransactionType,
+    options: WalletMovementOptions = {}
+  ): LedgerPosting {
+    const paise = toPaise(amount);
+    if (paise === BigInt(0)) {
+      throw new Error("Wallet movement amount must not be zero");
+    }
+
+    const absolute = fromPaise(paise < BigInt(0) ? -paise : paise);
+    const walletDirection = paise > BigInt(0) ? 'credit' : 'debit';
+    return {
+      type,
+      description,
+      referenceId: options.referenceId,
+      metadata: options.metadata,
+      createdBy: options.createdBy,
+      idempotencyKey: options.idempotencyKey,
+      lines: [
+        { account: { type: 'user_wallet', userId }, direction: walletDirection, amount: absolute },
+        { account: { type: counterAccountFor(type) }, direction: walletDirection === 'credit' ? 'debit' : 'credit', amount: absolute },
+      ],
+    };
+  }
+
+  /**
+   * Check the ledger against itself and against the wallet projection:
+   * total debits equal total credits, each account balance equals the sum of
+   * its entries, and each wallet balance equals its ledger account.
+   */
+  async reconcile(): Promise<{ balanced: boolean; issues: LedgerReconciliationIssue[] }> {
+    const issues: LedgerReconciliationIssue[] = [];
+
+    const [totals] = await db
+      .select({
+        debits: sql<string>`COALESCE(SUM(CASE WHEN ${ledgerEntries.direction} = 'debit' THEN ${ledgerEntries.amount} END), 0)`,
+        credits: sql<string>`COALESCE(SUM(CASE WHEN ${ledgerEntries.direction} = 'credit' THEN ${ledgerEntries.amount} END), 0)`,
+      })
+      .from(ledgerEntries);
+    if (toPaise(String(totals.debits)) !== toPaise(String(totals.credits))) {
+      issues.push({ kind: 'trial_balance', expected: String(totals.debits), actual: String(totals.credits) });
+    }
+
+    const accountTotals = await db
+      .select({
+        accountId: ledgerAccounts.id,
+        userId: ledgerAccounts.userId,
+        accountType: ledgerAccounts.accountType,
+        balance: ledgerAccounts.balance,
+        entryBalance: sql<string>`COALESCE(SUM(CASE WHEN ${ledgerEntries.direction} = 'credit' THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END), 0)`,
+      })
+      .from(ledgerAccounts)
+      .leftJoin(ledgerEntries, eq(ledgerEntries.accountId, ledgerAccounts.id))
+      .groupBy(ledgerAccounts.id);
+
+    for (const account of accountTotals) {
+      if (toPaise(String(account.entryBalance)) !== toPaise(account.balance)) {
+        issues.push({
+          kind: 'account_balance',
+          accountId: account.accountId,
+          userId: account.userId || undefined,
+          expected: String(account.entryBalance),
+          actual: account.balance,
+        });
+      }
+    }
+
+    const walletAccounts = accountTotals.filter(a => a.accountType === 'user_wallet' && a.userId);
+    const wallets = await db.select().from(walletBalances);
+    const walletByUser = new Map(wallets.map(w => [w.userId, w]));
+    const accountByUser = new Map(walletAccounts.map(a => [a.userId!, a]));
+
+    for (const wallet of wallets) {
+      const account = accountByUser.get(wallet.userId);
+      const expected = account ? String(account.entryBalance) : '0.00';
+      if (toPaise(expected) !== toPaise(wallet.balance || '0')) {
+        issues.push({ kind: 'wallet_projection', userId: wallet.userId, expected, actual: wallet.balance || '0.00' });
+      }
+    }
+    for (const account of walletAccounts) {
+      if (!walletByUser.has(account.userId!) && toPaise(String(account.entryBalance)) !== BigInt(0)) {
+        issues.push({ kind: 'wallet_projection', userId: account.userId!, expected: String(account.entryBalance), actual: '0.00' });
+      }
+    }
+
+    return { balanced: issues.length === 0, issues };
+  }
+
+  /**
+   * Recompute account balances and the wallet projection from ledger entries
+   */
+  async rebuildProjections(userIds?: string[]): Promise<void> {
+    const entrySum = sql`COALESCE((
+      SELECT SUM(CASE WHEN ${ledgerEntries.direction} = 'credit' THEN ${ledgerEntries.amount} ELSE -${ledgerEntries.amount} END)
+      FROM ${ledgerEntries} WHERE ${ledgerEntries.accountId} = ${ledgerAccounts.id}
+    ), 0)`;
+
+    await db.update(ledgerAccounts)
+      .set({ balance: entrySum, updatedAt: new Date() })
+      .where(userIds?.length ? inArray(ledgerAccounts.userId, userIds) : undefined);
+
+    await db.update(walletBalances)
+      .set({
+        balance: sql`COALESCE((
+          SELECT ${ledgerAccounts.balance} FROM ${ledgerAccounts}
+          WHERE ${ledgerAccounts.accountType} = 'user_wallet' AND ${ledgerAccounts.userId} = ${walletBalances.userId}
+        ), 0)`,
+        updatedAt: new Date(),
+      })
+      .where(userIds?.length ? inArray(walletBalances.userId, userIds) : undefined);
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -1,5 +1,26 @@
 import { Router } from "express";
 import { storage } from "./storage";
+import { binaryMatchingService } from "./binaryMatchingService";
+import { payoutCycleService } from "./payoutCycleService";
+import { compensationPlanService } from "./compensationPlanService";
+import { ledgerService } from "./ledgerService";
+import { withdrawalService, type WithdrawalStatus } from "./withdrawalService";
+import { usdtPayoutService } from "./usdtPayoutService";
+import { walletTransferService } from "./walletTransferService";
+import { txnPinService, requireTxnPin, changesBankDetails, TxnPinError } from "./txnPinService";
+import { orderService, PaymentWebhookError, type OrderStatus } from "./orderService";
+import { getPaymentGateway, mockPaymentGateway, PaymentGatewayUnavailableError } from "./paymentGateway";
+import { invoiceService } from "./invoiceService";
+import { returnService, type ReturnStatus } from "./returnService";
+import { inventoryService, OutOfStockError } from "./inventoryService";
+import { shipmentService, type DeliveryStatus } from "./shipmentService";
+import { catalogService } from "./catalogService";
+import { activityService } from "./activityService";
+import { consistencyBonusService } from "./consistencyBonusService";
+import { rewardPoolService } from "./rewardPoolService";
+import { bvService } from "./bvService";
+import { binaryTreeService } from "./binaryTreeService";
+import { treeIntegrityService } from "./treeIntegrityService";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import {
@@ -11,6 +32,49 @@ import {
   createSupportTicketSchema,
   createNewsSchema,
   updateUserProfileSchema,
+  createPayoutCycleSchema,
+  publishCompensationPlanSchema,
+  reviewWithdrawalSchema,
+  createPayoutBatchSchema,
+  completePayoutBatchSchema,
+  importBankResponseSchema,
+  updateCryptoWalletSchema,
+  recordUsdtPayoutSchema,
+  createFundTransferSchema,
+  setTxnPinSchema,
+  changeTxnPinSchema,
+  resetTxnPinSchema,
+  addCartItemSchema,
+  updateCartItemSchema,
+  checkoutSchema,
+  payOrderSchema,
+  refundOrderSchema,
+  createReturnRequestSchema,
+  reviewReturnSchema,
+  refundReturnSchema,
+  createStockPointSchema,
+  updateStockPointSchema,
+  createStockMovementSchema,
+  updateStockLevelSchema,
+  updateShipmentSchema,
+  importShipmentsSchema,
+  updateProductSchema,
+  createCategorySchema,
+  updateCategorySchema,
+  createVariantSchema,
+  updateVariantSchema,
+  schedulePriceChangeSchema,
+  runConsistencyBonusSchema,
+  runRewardPoolsSchema,
+  bvLedgerQuerySchema,
+  updatePlacementPreferenceSchema,
+  repairTreeSchema,
+  treeExplorerQuerySchema,
+  treeSearchQuerySchema,
+  placementStrategies,
+  type PlacementStrategy,
+  addProductImageSchema,
+  importCatalogSchema,
   kycDocuments,
   type CreateProduct,
   type CreatePurchase,
@@ -88,10 +152,10 @@ router.get('/admin/users/search', requireAuth, requireAdmin, async (req, res) =>
 });
 
 // ===== PRODUCT ROUTES =====
-// Get all products
+// Get all products, with their active variants and images
 router.get('/products', requireAuth, async (req, res) => {
   try {
-    const products = await storage.getAllProducts();
+    const products = await catalogService.getCatalog();
     res.json(products);
   } catch (error) {
     console.error('Error fetching products:', error);
@@ -114,143 +178,1374 @@ router.get('/products/type/:type', requireAuth, async (req, res) => {
   }
 });
 
+// Active product categories, for filtering the catalog
+router.get('/product-categories', requireAuth, async (req, res) => {
+  try {
+    const categories = await catalogService.getCategories();
+    res.json(categories);
+  } catch (error) {
+    console.error('Error fetching product categories:', error);
+    res.status(500).json({ message: 'Failed to fetch product categories' });
+  }
+});
+
+// ===== CATALOG ADMIN ROUTES =====
+router.get('/admin/product-categories', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const categories = await catalogService.getCategories(true);
+    res.json(categories);
+  } catch (error) {
+    console.error('Error fetching product categories:', error);
+    res.status(500).json({ message: 'Failed to fetch product categories' });
+  }
+});
+
+router.post('/admin/product-categories', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = createCategorySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid category', errors: result.error.errors });
+    }
+
+    const category = await catalogService.createCategory(result.data);
+    res.status(201).json(category);
+  } catch (error) {
+    console.error('Error creating product category:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to create category' });
+  }
+});
+
+router.patch('/admin/product-categories/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = updateCategorySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid category', errors: result.error.errors });
+    }
+
+    const category = await catalogService.updateCategory(req.params.id, result.data);
+    res.json(category);
+  } catch (error) {
+    console.error('Error updating product category:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update category' });
+  }
+});
+
+router.delete('/admin/product-categories/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    await catalogService.deleteCategory(req.params.id);
+    res.json({ message: 'Category deleted' });
+  } catch (error) {
+    console.error('Error deleting product category:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to delete category' });
+  }
+});
+
+// Every product, active or not, with all variants and images
+router.get('/admin/products', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const products = await catalogService.getCatalog(true);
+    res.json(products);
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    res.status(500).json({ message: 'Failed to fetch products' });
+  }
+});
+
 // Create product (Admin only)
 router.post('/admin/products', requireAuth, requireAdmin, async (req, res) => {
   try {
     const result = createProductSchema.safeParse(req.body);
     if (!result.success) {
-      return res.status(400).json({ message: 'Invalid product data', errors: result.error.errors });
+      return res.status(400).json({ message: 'Invalid product data', errors: result.error.errors });
+    }
+    
+    const product = await catalogService.createProduct(result.data);
+    res.status(201).json(product);
+  } catch (error) {
+    console.error('Error creating product:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to create product' });
+  }
+});
+
+// Update product, including activating/deactivating it (Admin only)
+router.patch('/admin/products/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = updateProductSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid product data', errors: result.error.errors });
+    }
+
+    const product = await catalogService.updateProduct(req.params.id, result.data);
+    res.json(product);
+  } catch (error: any) {
+    console.error('Error updating product:', error);
+    res.status(error.message === 'Product not found' ? 404 : 500).json({ message: error.message || 'Failed to update product' });
+  }
+});
+
+// Delete a product; products that were ordered or stocked are deactivated instead
+router.delete('/admin/products/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { deleted } = await catalogService.deleteProduct(req.params.id);
+    res.json({ deleted, message: deleted ? 'Product deleted' : 'Product has order history and was deactivated instead' });
+  } catch (error) {
+    console.error('Error deleting product:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to delete product' });
+  }
+});
+
+// Signed URL to upload a product image to
+router.post('/admin/products/images/upload-url', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const uploadURL = await catalogService.getImageUploadURL();
+    res.json({ uploadURL });
+  } catch (error) {
+    console.error('Error getting product image upload URL:', error);
+    res.status(500).json({ message: 'Failed to get upload URL' });
+  }
+});
+
+// Attach an uploaded image to a product
+router.post('/admin/products/:id/images', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = addProductImageSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid image', errors: result.error.errors });
+    }
+
+    const image = await catalogService.addImage(req.params.id, result.data.uploadURL);
+    res.status(201).json(image);
+  } catch (error) {
+    console.error('Error adding product image:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to add image' });
+  }
+});
+
+router.post('/admin/products/:id/images/:imageId/primary', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    await catalogService.setPrimaryImage(req.params.id, req.params.imageId);
+    res.json({ message: 'Primary image updated' });
+  } catch (error) {
+    console.error('Error setting primary product image:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update image' });
+  }
+});
+
+router.delete('/admin/products/:id/images/:imageId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    await catalogService.removeImage(req.params.id, req.params.imageId);
+    res.json({ message: 'Image removed' });
+  } catch (error) {
+    console.error('Error removing product image:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to remove image' });
+  }
+});
+
+router.post('/admin/products/:id/variants', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = createVariantSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid variant', errors: result.error.errors });
+    }
+
+    const variant = await catalogService.createVariant(req.params.id, result.data);
+    res.status(201).json(variant);
+  } catch (error) {
+    console.error('Error creating product variant:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to create variant' });
+  }
+});
+
+router.patch('/admin/products/:id/variants/:variantId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = updateVariantSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid variant', errors: result.error.errors });
+    }
+
+    const variant = await catalogService.updateVariant(req.params.id, req.params.variantId, result.data);
+    res.json(variant);
+  } catch (error) {
+    console.error('Error updating product variant:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update variant' });
+  }
+});
+
+router.delete('/admin/products/:id/variants/:variantId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { deleted } = await catalogService.deleteVariant(req.params.id, req.params.variantId);
+    res.json({ deleted, message: deleted ? 'Variant deleted' : 'Variant has order history and was deactivated instead' });
+  } catch (error) {
+    console.error('Error deleting product variant:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to delete variant' });
+  }
+});
+
+router.get('/admin/products/:id/price-changes', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const changes = await catalogService.getPriceChanges(req.params.id);
+    res.json(changes);
+  } catch (error) {
+    console.error('Error fetching price changes:', error);
+    res.status(500).json({ message: 'Failed to fetch price changes' });
+  }
+});
+
+// Schedule a product or variant price (and optionally BV/GST) change
+router.post('/admin/products/:id/price-changes', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = schedulePriceChangeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid price change', errors: result.error.errors });
+    }
+
+    const change = await catalogService.schedulePriceChange(req.params.id, result.data, req.session.userId!);
+    res.status(201).json(change);
+  } catch (error) {
+    console.error('Error scheduling price change:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to schedule price change' });
+  }
+});
+
+router.delete('/admin/products/:id/price-changes/:changeId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const change = await catalogService.cancelPriceChange(req.params.id, req.params.changeId);
+    res.json(change);
+  } catch (error) {
+    console.error('Error cancelling price change:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to cancel price change' });
+  }
+});
+
+// Whole catalog as CSV, one row per product followed by its variants
+router.get('/admin/catalog/export', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const file = await catalogService.exportCatalog();
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error exporting catalog:', error);
+    res.status(500).json({ message: 'Failed to export catalog' });
+  }
+});
+
+// Create or update products and variants from a catalog CSV
+router.post('/admin/catalog/import', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = importCatalogSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid catalog file', errors: result.error.errors });
+    }
+
+    const summary = await catalogService.importCatalog(result.data.content);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error importing catalog:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to import catalog' });
+  }
+});
+
+// ===== PURCHASE ROUTES =====
+const requireWalletTxnPin = requireTxnPin({ when: (req) => req.body?.paymentMethod === 'wallet' });
+
+// Buy a single product now. Wallet payments settle immediately; gateway
+// payments return the intent and settle through the webhook.
+router.post('/purchases', requireAuth, requireWalletTxnPin, async (req, res) => {
+  try {
+    const result = createPurchaseSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid purchase data', errors: result.error.errors });
+    }
+    
+    const purchase = await orderService.buyNow(req.session.userId!, result.data);
+    res.status(201).json(purchase);
+  } catch (error: any) {
+    console.error('Error creating purchase:', error);
+    res.status(error instanceof OutOfStockError ? 409 : error instanceof PaymentGatewayUnavailableError ? 503 : 500).json({ message: error.message || 'Failed to create purchase' });
+  }
+});
+
+// Get user purchases
+router.get('/purchases', requireAuth, async (req, res) => {
+  try {
+    const purchases = await storage.getUserPurchases(req.session.userId!);
+    res.json(purchases);
+  } catch (error) {
+    console.error('Error fetching purchases:', error);
+    res.status(500).json({ message: 'Failed to fetch purchases' });
+  }
+});
+
+// Activation status and this month's repurchase BV towards staying active
+router.get('/activity', requireAuth, async (req, res) => {
+  try {
+    const activity = await activityService.getUserActivity(req.session.userId!);
+    res.json(activity);
+  } catch (error) {
+    console.error('Error fetching activity status:', error);
+    res.status(500).json({ message: 'Failed to fetch activity status' });
+  }
+});
+
+// Repurchase streak, this month's consistency bonus eligibility and past awards
+router.get('/consistency-bonus', requireAuth, async (req, res) => {
+  try {
+    const status = await consistencyBonusService.getUserStatus(req.session.userId!);
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching consistency bonus status:', error);
+    res.status(500).json({ message: 'Failed to fetch consistency bonus status' });
+  }
+});
+
+// ===== CART ROUTES =====
+router.get('/cart', requireAuth, async (req, res) => {
+  try {
+    const cart = await orderService.getCart(req.session.userId!);
+    res.json(cart);
+  } catch (error) {
+    console.error('Error fetching cart:', error);
+    res.status(500).json({ message: 'Failed to fetch cart' });
+  }
+});
+
+router.post('/cart/items', requireAuth, async (req, res) => {
+  try {
+    const result = addCartItemSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid cart item', errors: result.error.errors });
+    }
+
+    const cart = await orderService.addToCart(req.session.userId!, result.data);
+    res.status(201).json(cart);
+  } catch (error) {
+    console.error('Error adding to cart:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to add to cart' });
+  }
+});
+
+// ?variantId= selects the line of a product bought as a variant
+router.patch('/cart/items/:productId', requireAuth, async (req, res) => {
+  try {
+    const result = updateCartItemSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid quantity', errors: result.error.errors });
+    }
+
+    const variantId = typeof req.query.variantId === 'string' ? req.query.variantId : undefined;
+    const cart = await orderService.updateCartItem(req.session.userId!, req.params.productId, result.data.quantity, variantId);
+    res.json(cart);
+  } catch (error) {
+    console.error('Error updating cart:', error);
+    res.status(500).json({ message: 'Failed to update cart' });
+  }
+});
+
+router.delete('/cart/items/:productId', requireAuth, async (req, res) => {
+  try {
+    const variantId = typeof req.query.variantId === 'string' ? req.query.variantId : undefined;
+    const cart = await orderService.updateCartItem(req.session.userId!, req.params.productId, 0, variantId);
+    res.json(cart);
+  } catch (error) {
+    console.error('Error removing from cart:', error);
+    res.status(500).json({ message: 'Failed to remove from cart' });
+  }
+});
+
+// ===== ORDER ROUTES =====
+// Check out the cart
+router.post('/orders/checkout', requireAuth, requireWalletTxnPin, async (req, res) => {
+  try {
+    const result = checkoutSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid checkout data', errors: result.error.errors });
+    }
+
+    const checkout = await orderService.checkout(req.session.userId!, result.data);
+    res.status(201).json(checkout);
+  } catch (error) {
+    console.error('Error checking out:', error);
+    res.status(error instanceof OutOfStockError ? 409 : error instanceof PaymentGatewayUnavailableError ? 503 : 500).json({ message: (error as any).message || 'Failed to check out' });
+  }
+});
+
+router.get('/orders', requireAuth, async (req, res) => {
+  try {
+    const orders = await orderService.getUserOrders(req.session.userId!);
+    res.json(orders);
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    res.status(500).json({ message: 'Failed to fetch orders' });
+  }
+});
+
+router.get('/orders/:id', requireAuth, async (req, res) => {
+  try {
+    const order = await orderService.getUserOrder(req.params.id, req.session.userId!);
+    res.json(order);
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    res.status(404).json({ message: (error as any).message || 'Order not found' });
+  }
+});
+
+// Pay (or retry paying) a pending or failed order
+router.post('/orders/:id/pay', requireAuth, requireWalletTxnPin, async (req, res) => {
+  try {
+    const result = payOrderSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid payment data', errors: result.error.errors });
+    }
+
+    const payment = await orderService.pay(req.params.id, req.session.userId!, result.data.paymentMethod);
+    res.json(payment);
+  } catch (error) {
+    console.error('Error paying order:', error);
+    res.status(error instanceof OutOfStockError ? 409 : error instanceof PaymentGatewayUnavailableError ? 503 : 500).json({ message: (error as any).message || 'Failed to pay order' });
+  }
+});
+
+// Cancel an order that has not been paid yet
+router.post('/orders/:id/cancel', requireAuth, async (req, res) => {
+  try {
+    const order = await orderService.cancelOrder(req.params.id, req.session.userId!);
+    res.json(order);
+  } catch (error) {
+    console.error('Error cancelling order:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to cancel order' });
+  }
+});
+
+// GST invoice of a paid order
+// Delivery status and shipment history of one of the user's orders
+router.get('/orders/:id/tracking', requireAuth, async (req, res) => {
+  try {
+    const tracking = await shipmentService.getUserOrderTracking(req.params.id, req.session.userId!);
+    res.json(tracking);
+  } catch (error) {
+    console.error('Error fetching order tracking:', error);
+    res.status(404).json({ message: (error as any).message || 'Order not found' });
+  }
+});
+
+router.get('/orders/:id/invoice', requireAuth, async (req, res) => {
+  try {
+    const invoice = await invoiceService.getUserOrderInvoice(req.params.id, req.session.userId!);
+    res.json(invoice);
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to fetch invoice' });
+  }
+});
+
+// Download the GST invoice of a paid order as PDF
+router.get('/orders/:id/invoice/pdf', requireAuth, async (req, res) => {
+  try {
+    const invoice = await invoiceService.getUserOrderInvoice(req.params.id, req.session.userId!);
+    const file = await invoiceService.renderPdf(invoice);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to generate invoice' });
+  }
+});
+
+// Get orders (Admin only)
+router.get('/admin/orders', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { status } = req.query;
+    const statuses = typeof status === 'string' && status
+      ? status.split(',') as OrderStatus[]
+      : undefined;
+    const orders = await orderService.getOrders(statuses);
+    res.json(orders);
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    res.status(500).json({ message: 'Failed to fetch orders' });
+  }
+});
+
+// Refund a paid order (Admin only)
+router.post('/admin/orders/:id/refund', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = refundOrderSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid refund data', errors: result.error.errors });
+    }
+
+    const order = await orderService.refundOrder(req.params.id, result.data.reason);
+    res.json(order);
+  } catch (error) {
+    console.error('Error refunding order:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to refund order' });
+  }
+});
+
+// ===== RETURN ROUTES =====
+// Ask to return a paid purchase
+router.post('/purchases/:id/return', requireAuth, async (req, res) => {
+  try {
+    const result = createReturnRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid return request', errors: result.error.errors });
+    }
+
+    const request = await returnService.requestReturn(req.session.userId!, req.params.id, result.data.reason);
+    res.status(201).json(request);
+  } catch (error) {
+    console.error('Error requesting return:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to request return' });
+  }
+});
+
+router.get('/returns', requireAuth, async (req, res) => {
+  try {
+    const returns = await returnService.getUserReturns(req.session.userId!);
+    res.json(returns);
+  } catch (error) {
+    console.error('Error fetching returns:', error);
+    res.status(500).json({ message: 'Failed to fetch returns' });
+  }
+});
+
+// Get return requests, ?status=requested,approved (Admin only)
+router.get('/admin/returns', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { status } = req.query;
+    const statuses = typeof status === 'string' && status
+      ? status.split(',') as ReturnStatus[]
+      : undefined;
+    const returns = await returnService.getReturns(statuses);
+    res.json(returns);
+  } catch (error) {
+    console.error('Error fetching returns:', error);
+    res.status(500).json({ message: 'Failed to fetch returns' });
+  }
+});
+
+// Approve a return request (Admin only)
+router.post('/admin/returns/:id/approve', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = reviewReturnSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid review data', errors: result.error.errors });
+    }
+
+    const request = await returnService.approve(req.params.id, req.session.userId!, result.data.notes);
+    res.json(request);
+  } catch (error) {
+    console.error('Error approving return:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to approve return' });
+  }
+});
+
+// Reject a return request (Admin only)
+router.post('/admin/returns/:id/reject', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = reviewReturnSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid review data', errors: result.error.errors });
+    }
+
+    const request = await returnService.reject(req.params.id, req.session.userId!, result.data.notes);
+    res.json(request);
+  } catch (error) {
+    console.error('Error rejecting return:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to reject return' });
+  }
+});
+
+// Refund an approved return and reverse the income paid on it (Admin only)
+router.post('/admin/returns/:id/refund', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = refundReturnSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid refund data', errors: result.error.errors });
+    }
+
+    const request = await returnService.refund(req.params.id, result.data, req.session.userId!);
+    res.json(request);
+  } catch (error) {
+    console.error('Error refunding return:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to refund return' });
+  }
+});
+
+// ===== INVENTORY ROUTES =====
+// Franchise pickup points, nearest to the member first
+router.get('/stock-points/nearby', requireAuth, async (req, res) => {
+  try {
+    const points = await inventoryService.getNearbyFranchises(req.session.userId!);
+    res.json(points);
+  } catch (error) {
+    console.error('Error fetching pickup points:', error);
+    res.status(500).json({ message: 'Failed to fetch pickup points' });
+  }
+});
+
+// Stock points run by the signed-in franchise owner
+router.get('/franchise/stock-points', requireAuth, async (req, res) => {
+  try {
+    const points = await inventoryService.getOwnedStockPoints(req.session.userId!);
+    res.json(points);
+  } catch (error) {
+    console.error('Error fetching franchise stock points:', error);
+    res.status(500).json({ message: 'Failed to fetch stock points' });
+  }
+});
+
+router.get('/franchise/stock-points/:id/stock', requireAuth, async (req, res) => {
+  try {
+    const point = await inventoryService.getOwnedStockPoint(req.params.id, req.session.userId!);
+    const levels = await inventoryService.getStockLevels(point.id);
+    res.json(levels);
+  } catch (error) {
+    console.error('Error fetching franchise stock:', error);
+    res.status(404).json({ message: (error as any).message || 'Stock point not found' });
+  }
+});
+
+router.get('/franchise/stock-points/:id/orders', requireAuth, async (req, res) => {
+  try {
+    const point = await inventoryService.getOwnedStockPoint(req.params.id, req.session.userId!);
+    const orders = await inventoryService.getStockPointOrders(point.id);
+    res.json(orders);
+  } catch (error) {
+    console.error('Error fetching franchise orders:', error);
+    res.status(404).json({ message: (error as any).message || 'Stock point not found' });
+  }
+});
+
+// Pack, hand over or dispatch an order at the owner's franchise point
+router.post('/franchise/orders/:id/shipment', requireAuth, async (req, res) => {
+  try {
+    const result = updateShipmentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid shipment update', errors: result.error.errors });
+    }
+
+    const order = await shipmentService.updateStatus(req.params.id, result.data, { userId: req.session.userId!, isAdmin: false });
+    res.json(order);
+  } catch (error) {
+    console.error('Error updating shipment:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update shipment' });
+  }
+});
+
+// Get all stock points (Admin only)
+router.get('/admin/stock-points', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const points = await inventoryService.getStockPoints();
+    res.json(points);
+  } catch (error) {
+    console.error('Error fetching stock points:', error);
+    res.status(500).json({ message: 'Failed to fetch stock points' });
+  }
+});
+
+// Open a warehouse or franchise stock point (Admin only)
+router.post('/admin/stock-points', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = createStockPointSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid stock point data', errors: result.error.errors });
+    }
+
+    const point = await inventoryService.createStockPoint(result.data);
+    res.status(201).json(point);
+  } catch (error) {
+    console.error('Error creating stock point:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to create stock point' });
+  }
+});
+
+// Update or deactivate a stock point (Admin only)
+router.patch('/admin/stock-points/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = updateStockPointSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid stock point data', errors: result.error.errors });
+    }
+
+    const point = await inventoryService.updateStockPoint(req.params.id, result.data);
+    res.json(point);
+  } catch (error) {
+    console.error('Error updating stock point:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update stock point' });
+  }
+});
+
+router.get('/admin/stock-points/:id/stock', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const levels = await inventoryService.getStockLevels(req.params.id);
+    res.json(levels);
+  } catch (error) {
+    console.error('Error fetching stock levels:', error);
+    res.status(500).json({ message: 'Failed to fetch stock levels' });
+  }
+});
+
+// Set the low-stock alert threshold of a product at a stock point (Admin only)
+router.patch('/admin/stock-points/:id/stock/:productId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = updateStockLevelSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid stock level data', errors: result.error.errors });
+    }
+
+    const level = await inventoryService.setLowStockThreshold(req.params.id, req.params.productId, result.data.lowStockThreshold);
+    res.json(level);
+  } catch (error) {
+    console.error('Error updating stock level:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update stock level' });
+  }
+});
+
+// Stock movements at a stock point, optionally ?productId= (Admin only)
+router.get('/admin/stock-points/:id/movements', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const productId = typeof req.query.productId === 'string' ? req.query.productId : undefined;
+    const movements = await inventoryService.getMovements(req.params.id, productId);
+    res.json(movements);
+  } catch (error) {
+    console.error('Error fetching stock movements:', error);
+    res.status(500).json({ message: 'Failed to fetch stock movements' });
+  }
+});
+
+// Record stock in or stock out (Admin only)
+router.post('/admin/stock-points/:id/movements', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = createStockMovementSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid stock movement', errors: result.error.errors });
+    }
+
+    const level = await inventoryService.recordMovement(req.params.id, result.data, req.session.userId!);
+    res.status(201).json(level);
+  } catch (error) {
+    console.error('Error recording stock movement:', error);
+    res.status(error instanceof OutOfStockError ? 409 : 500).json({ message: (error as any).message || 'Failed to record stock movement' });
+  }
+});
+
+router.get('/admin/stock-points/:id/orders', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const orders = await inventoryService.getStockPointOrders(req.params.id);
+    res.json(orders);
+  } catch (error) {
+    console.error('Error fetching stock point orders:', error);
+    res.status(500).json({ message: 'Failed to fetch orders' });
+  }
+});
+
+// Products at or below their low-stock threshold anywhere (Admin only)
+router.get('/admin/inventory/low-stock', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const levels = await inventoryService.getLowStock();
+    res.json(levels);
+  } catch (error) {
+    console.error('Error fetching low stock:', error);
+    res.status(500).json({ message: 'Failed to fetch low stock' });
+  }
+});
+
+// ===== SHIPMENT ROUTES =====
+// Paid orders by ?status=pending,packed,... delivery status (Admin only)
+router.get('/admin/shipments', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const statuses = typeof req.query.status === 'string' && req.query.status
+      ? req.query.status.split(',') as DeliveryStatus[]
+      : undefined;
+    const shipments = await shipmentService.getShipments(statuses);
+    res.json(shipments);
+  } catch (error) {
+    console.error('Error fetching shipments:', error);
+    res.status(500).json({ message: 'Failed to fetch shipments' });
+  }
+});
+
+// Download shipments as a CSV to fill in and upload back (Admin only)
+router.get('/admin/shipments/export', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const statuses = typeof req.query.status === 'string' && req.query.status
+      ? req.query.status.split(',') as DeliveryStatus[]
+      : undefined;
+    const file = await shipmentService.exportShipments(statuses);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error exporting shipments:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to export shipments' });
+  }
+});
+
+// Bulk delivery status update from a CSV upload (Admin only)
+router.post('/admin/shipments/import', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = importShipmentsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid shipment file', errors: result.error.errors });
+    }
+
+    const summary = await shipmentService.importUpdates(result.data.content, req.session.userId!);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error importing shipments:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to import shipments' });
+  }
+});
+
+router.get('/admin/orders/:id/shipment', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const events = await shipmentService.getHistory(req.params.id);
+    res.json(events);
+  } catch (error) {
+    console.error('Error fetching shipment history:', error);
+    res.status(500).json({ message: 'Failed to fetch shipment history' });
+  }
+});
+
+// Move an order to packed, shipped, delivered or failed (Admin only)
+router.post('/admin/orders/:id/shipment', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = updateShipmentSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid shipment update', errors: result.error.errors });
+    }
+
+    const order = await shipmentService.updateStatus(req.params.id, result.data, { userId: req.session.userId!, isAdmin: true });
+    res.json(order);
+  } catch (error) {
+    console.error('Error updating shipment:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update shipment' });
+  }
+});
+
+// ===== GST INVOICE ROUTES =====
+const currentMonth = () => new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' }).slice(0, 7);
+
+// Get invoices for a month, ?month=YYYY-MM (Admin only)
+router.get('/admin/invoices', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const month = typeof req.query.month === 'string' ? req.query.month : currentMonth();
+    const invoices = await invoiceService.getInvoices(month);
+    res.json(invoices);
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to fetch invoices' });
+  }
+});
+
+// Download any invoice as PDF (Admin only)
+router.get('/admin/invoices/:id/pdf', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const invoice = await invoiceService.getInvoice(req.params.id);
+    const file = await invoiceService.renderPdf(invoice);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to generate invoice' });
+  }
+});
+
+// Monthly GSTR-1 style sales export, ?month=YYYY-MM&section=invoices|hsn (Admin only)
+router.get('/admin/gst/gstr1', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const month = typeof req.query.month === 'string' ? req.query.month : currentMonth();
+    const section = req.query.section === 'hsn' ? 'hsn' : 'invoices';
+    const file = await invoiceService.exportGstr1(month, section);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error exporting GSTR-1:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to export GSTR-1' });
+  }
+});
+
+// ===== PAYMENT GATEWAY ROUTES =====
+// Gateway webhook. Public: requests are authenticated by their signature.
+// Events that could not be applied answer 5xx so the gateway redelivers them.
+router.post('/payments/webhook/:provider', async (req, res) => {
+  try {
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) {
+      return res.status(400).json({ message: 'Missing request body' });
+    }
+
+    let signatureHeader: string;
+    try {
+      signatureHeader = getPaymentGateway(req.params.provider).signatureHeader;
+    } catch {
+      return res.status(404).json({ message: 'Unknown payment gateway' });
+    }
+
+    const result = await orderService.handleWebhook(
+      req.params.provider,
+      rawBody.toString('utf8'),
+      req.get(signatureHeader)
+    );
+    res.json({ received: true, ...result });
+  } catch (error) {
+    if (error instanceof PaymentWebhookError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error processing payment webhook:', error);
+    res.status(500).json({ message: 'Failed to process payment webhook' });
+  }
+});
+
+// Simulate the mock gateway's webhook for one of your orders (not in production)
+router.post('/payments/mock/:orderId/simulate', requireAuth, async (req, res) => {
+  try {
+    if (!mockPaymentGateway) {
+      return res.status(404).json({ message: 'Not found' });
+    }
+
+    const order = await orderService.getUserOrder(req.params.orderId, req.session.userId!);
+    if (order.gatewayProvider !== mockPaymentGateway.provider || !order.gatewayOrderId) {
+      return res.status(400).json({ message: 'Order is not awaiting a mock gateway payment' });
+    }
+
+    const success = req.body?.outcome !== 'failure';
+    const { rawBody, signature } = mockPaymentGateway.simulateWebhook({
+      type: success ? 'payment.captured' : 'payment.failed',
+      gatewayOrderId: order.gatewayOrderId,
+      paymentId: success ? `mock_pay_${order.orderNumber}` : undefined,
+      amount: order.totalAmount,
+      reason: success ? undefined : 'Payment declined by the mock gateway',
+    });
+    const result = await orderService.handleWebhook(mockPaymentGateway.provider, rawBody, signature);
+    res.json({ ...result, order: await orderService.getUserOrder(order.id, req.session.userId!) });
+  } catch (error) {
+    console.error('Error simulating payment:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to simulate payment' });
+  }
+});
+
+// ===== TRANSACTION PIN ROUTES =====
+const sendTxnPinError = (res: any, error: unknown, fallback: string) => {
+  if (error instanceof TxnPinError) {
+    return res.status(error.status).json({ message: error.message, lockedUntil: error.lockedUntil });
+  }
+  res.status(500).json({ message: fallback });
+};
+
+// Get transaction PIN status
+router.get('/txn-pin', requireAuth, async (req, res) => {
+  try {
+    const status = await txnPinService.getStatus(req.session.userId!);
+    res.json(status);
+  } catch (error) {
+    console.error('Error fetching transaction PIN status:', error);
+    sendTxnPinError(res, error, 'Failed to fetch transaction PIN status');
+  }
+});
+
+// Set the first transaction PIN
+router.post('/txn-pin', requireAuth, async (req, res) => {
+  try {
+    const result = setTxnPinSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid PIN data', errors: result.error.errors });
+    }
+
+    await txnPinService.setPin(req.session.userId!, result.data);
+    res.status(201).json({ message: 'Transaction PIN set successfully' });
+  } catch (error) {
+    console.error('Error setting transaction PIN:', error);
+    sendTxnPinError(res, error, 'Failed to set transaction PIN');
+  }
+});
+
+// Change the transaction PIN
+router.put('/txn-pin', requireAuth, async (req, res) => {
+  try {
+    const result = changeTxnPinSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid PIN data', errors: result.error.errors });
+    }
+
+    await txnPinService.changePin(req.session.userId!, result.data);
+    res.json({ message: 'Transaction PIN changed successfully' });
+  } catch (error) {
+    console.error('Error changing transaction PIN:', error);
+    sendTxnPinError(res, error, 'Failed to change transaction PIN');
+  }
+});
+
+// Email a transaction PIN reset link
+router.post('/txn-pin/reset-request', requireAuth, async (req, res) => {
+  try {
+    const { emailSent, devToken } = await txnPinService.requestReset(req.session.userId!);
+    if (!emailSent) {
+      return res.status(devToken ? 200 : 500).json({
+        message: devToken
+          ? 'Email service needs configuration. Use the reset token from server logs.'
+          : 'Failed to send transaction PIN reset email',
+        devToken,
+      });
+    }
+    res.json({ message: 'Transaction PIN reset instructions have been sent to your email.' });
+  } catch (error) {
+    console.error('Error requesting transaction PIN reset:', error);
+    sendTxnPinError(res, error, 'Failed to request transaction PIN reset');
+  }
+});
+
+// Reset the transaction PIN with an emailed token
+router.post('/txn-pin/reset', requireAuth, async (req, res) => {
+  try {
+    const result = resetTxnPinSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid PIN data', errors: result.error.errors });
+    }
+
+    await txnPinService.resetPin(req.session.userId!, result.data, req.ip);
+    res.json({ message: 'Transaction PIN reset successfully' });
+  } catch (error) {
+    console.error('Error resetting transaction PIN:', error);
+    sendTxnPinError(res, error, 'Failed to reset transaction PIN');
+  }
+});
+
+// ===== WALLET ROUTES =====
+// Get wallet balance
+router.get('/wallet', requireAuth, async (req, res) => {
+  try {
+    let wallet = await storage.getWalletBalance(req.session.userId!);
+    if (!wallet) {
+      wallet = await storage.createWalletBalance(req.session.userId!);
+    }
+    res.json(wallet);
+  } catch (error) {
+    console.error('Error fetching wallet:', error);
+    res.status(500).json({ message: 'Failed to fetch wallet' });
+  }
+});
+
+// Get transaction history
+router.get('/transactions', requireAuth, async (req, res) => {
+  try {
+    const transactions = await storage.getUserTransactions(req.session.userId!);
+    res.json(transactions);
+  } catch (error) {
+    console.error('Error fetching transactions:', error);
+    res.status(500).json({ message: 'Failed to fetch transactions' });
+  }
+});
+
+// Check a transfer recipient by display ID before sending
+router.get('/wallet/transfer/recipient', requireAuth, async (req, res) => {
+  try {
+    const recipientUserId = typeof req.query.userId === 'string' ? req.query.userId : '';
+    if (!recipientUserId.trim()) {
+      return res.status(400).json({ message: 'Recipient ID is required' });
+    }
+
+    const recipient = await walletTransferService.lookupRecipient(req.session.userId!, recipientUserId);
+    res.json(recipient);
+  } catch (error) {
+    console.error('Error looking up transfer recipient:', error);
+    res.status(400).json({ message: (error as any).message || 'Failed to find recipient' });
+  }
+});
+
+// Get fund transfers sent and received
+router.get('/wallet/transfers', requireAuth, async (req, res) => {
+  try {
+    const transfers = await walletTransferService.getTransfers(req.session.userId!);
+    res.json(transfers);
+  } catch (error) {
+    console.error('Error fetching fund transfers:', error);
+    res.status(500).json({ message: 'Failed to fetch fund transfers' });
+  }
+});
+
+// Transfer funds to an upline or downline member's wallet
+router.post('/wallet/transfer', requireAuth, requireTxnPin(), async (req, res) => {
+  try {
+    const result = createFundTransferSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid transfer data', errors: result.error.errors });
+    }
+
+    const transfer = await walletTransferService.transfer(req.session.userId!, result.data);
+    res.status(201).json(transfer);
+  } catch (error) {
+    console.error('Error transferring funds:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to transfer funds' });
+  }
+});
+
+// ===== LEDGER ROUTES =====
+// Reconcile the ledger and the wallet projection (Admin only)
+router.get('/admin/ledger/reconcile', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const report = await ledgerService.reconcile();
+    res.json(report);
+  } catch (error) {
+    console.error('Error reconciling ledger:', error);
+    res.status(500).json({ message: 'Failed to reconcile ledger' });
+  }
+});
+
+// Rebuild account balances and wallet projection from ledger entries (Admin only)
+router.post('/admin/ledger/rebuild-projections', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { userIds } = req.body || {};
+    await ledgerService.rebuildProjections(Array.isArray(userIds) ? userIds : undefined);
+    const report = await ledgerService.reconcile();
+    res.json(report);
+  } catch (error) {
+    console.error('Error rebuilding ledger projections:', error);
+    res.status(500).json({ message: 'Failed to rebuild ledger projections' });
+  }
+});
+
+// ===== WITHDRAWAL ROUTES =====
+// Create withdrawal request
+router.post('/withdrawals', requireAuth, requireTxnPin(), async (req, res) => {
+  try {
+    const result = createWithdrawalSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid withdrawal data', errors: result.error.errors });
+    }
+    
+    const withdrawal = await withdrawalService.requestWithdrawal(req.session.userId!, result.data);
+    res.status(201).json(withdrawal);
+  } catch (error) {
+    console.error('Error creating withdrawal:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to create withdrawal request' });
+  }
+});
+
+// Get user withdrawal requests
+router.get('/withdrawals', requireAuth, async (req, res) => {
+  try {
+    const withdrawals = await storage.getUserWithdrawals(req.session.userId!);
+    res.json(withdrawals);
+  } catch (error) {
+    console.error('Error fetching withdrawals:', error);
+    res.status(500).json({ message: 'Failed to fetch withdrawals' });
+  }
+});
+
+// Get withdrawal terms (minimum amount, TDS, admin charge, request window)
+router.get('/withdrawals/terms', requireAuth, async (req, res) => {
+  try {
+    const terms = await withdrawalService.getTerms();
+    res.json(terms);
+  } catch (error) {
+    console.error('Error fetching withdrawal terms:', error);
+    res.status(500).json({ message: 'Failed to fetch withdrawal terms' });
+  }
+});
+
+// Get all withdrawal requests, optionally filtered by ?status=pending,approved (Admin only)
+router.get('/admin/withdrawals', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const statuses = typeof req.query.status === 'string'
+      ? req.query.status.split(',').filter(Boolean) as WithdrawalStatus[]
+      : undefined;
+    const withdrawals = await withdrawalService.getWithdrawals(statuses);
+    res.json(withdrawals);
+  } catch (error) {
+    console.error('Error fetching withdrawals:', error);
+    res.status(500).json({ message: 'Failed to fetch withdrawals' });
+  }
+});
+
+// Approve or reject a pending withdrawal; rejection releases the held funds (Admin only)
+router.patch('/admin/withdrawals/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = reviewWithdrawalSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid withdrawal status', errors: result.error.errors });
     }
-    
-    const product = await storage.createProduct(result.data);
-    res.status(201).json(product);
+
+    const withdrawal = await withdrawalService.reviewWithdrawal(
+      req.params.id,
+      result.data.status,
+      req.session.userId!,
+      result.data.adminNotes
+    );
+    res.json(withdrawal);
   } catch (error) {
-    console.error('Error creating product:', error);
-    res.status(500).json({ message: 'Failed to create product' });
+    console.error('Error updating withdrawal:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update withdrawal status' });
   }
 });
 
-// Update product (Admin only)
-router.patch('/admin/products/:id', requireAuth, requireAdmin, async (req, res) => {
+// ===== PAYOUT BATCH ROUTES =====
+// Get payout batches (Admin only)
+router.get('/admin/payout-batches', requireAuth, requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params;
-    const product = await storage.updateProduct(id, req.body);
-    if (!product) {
-      return res.status(404).json({ message: 'Product not found' });
-    }
-    res.json(product);
+    const batches = await withdrawalService.getBatches();
+    res.json(batches);
   } catch (error) {
-    console.error('Error updating product:', error);
-    res.status(500).json({ message: 'Failed to update product' });
+    console.error('Error fetching payout batches:', error);
+    res.status(500).json({ message: 'Failed to fetch payout batches' });
   }
 });
 
-// ===== PURCHASE ROUTES =====
-// Create purchase
-router.post('/purchases', requireAuth, async (req, res) => {
+// Get a payout batch with its withdrawals (Admin only)
+router.get('/admin/payout-batches/:id', requireAuth, requireAdmin, async (req, res) => {
   try {
-    const result = createPurchaseSchema.safeParse(req.body);
-    if (!result.success) {
-      return res.status(400).json({ message: 'Invalid purchase data', errors: result.error.errors });
+    const detail = await withdrawalService.getBatch(req.params.id);
+    if (!detail) {
+      return res.status(404).json({ message: 'Payout batch not found' });
     }
-    
-    const purchase = await storage.createPurchase(req.session.userId!, result.data);
-    res.status(201).json(purchase);
-  } catch (error: any) {
-    console.error('Error creating purchase:', error);
-    res.status(500).json({ message: error.message || 'Failed to create purchase' });
+    res.json(detail);
+  } catch (error) {
+    console.error('Error fetching payout batch:', error);
+    res.status(500).json({ message: 'Failed to fetch payout batch' });
   }
 });
 
-// Get user purchases
-router.get('/purchases', requireAuth, async (req, res) => {
+// Group approved withdrawals into a payout batch (Admin only)
+router.post('/admin/payout-batches', requireAuth, requireAdmin, async (req, res) => {
   try {
-    const purchases = await storage.getUserPurchases(req.session.userId!);
-    res.json(purchases);
+    const result = createPayoutBatchSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid payout batch data', errors: result.error.errors });
+    }
+
+    const batch = await withdrawalService.createBatch(
+      result.data.withdrawalType,
+      req.session.userId!,
+      result.data.withdrawalIds,
+      result.data.notes
+    );
+    res.status(201).json(batch);
   } catch (error) {
-    console.error('Error fetching purchases:', error);
-    res.status(500).json({ message: 'Failed to fetch purchases' });
+    console.error('Error creating payout batch:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to create payout batch' });
   }
 });
 
-// ===== WALLET ROUTES =====
-// Get wallet balance
-router.get('/wallet', requireAuth, async (req, res) => {
+// Record the payout outcome of a batch (Admin only)
+router.post('/admin/payout-batches/:id/complete', requireAuth, requireAdmin, async (req, res) => {
   try {
-    let wallet = await storage.getWalletBalance(req.session.userId!);
-    if (!wallet) {
-      wallet = await storage.createWalletBalance(req.session.userId!);
+    const result = completePayoutBatchSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid payout result data', errors: result.error.errors });
     }
-    res.json(wallet);
+
+    const batch = await withdrawalService.completeBatch(req.params.id, req.session.userId!, result.data);
+    res.json(batch);
   } catch (error) {
-    console.error('Error fetching wallet:', error);
-    res.status(500).json({ message: 'Failed to fetch wallet' });
+    console.error('Error completing payout batch:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to complete payout batch' });
   }
 });
 
-// Get transaction history
-router.get('/transactions', requireAuth, async (req, res) => {
+// Download a bank bulk-payment file for a bank batch, ?format=csv|fixed&mode=NEFT|IMPS (Admin only)
+router.get('/admin/payout-batches/:id/export', requireAuth, requireAdmin, async (req, res) => {
   try {
-    const transactions = await storage.getUserTransactions(req.session.userId!);
-    res.json(transactions);
+    const format = req.query.format === 'fixed' ? 'fixed' : 'csv';
+    const mode = req.query.mode === 'IMPS' ? 'IMPS' : 'NEFT';
+    const file = await withdrawalService.exportBatchFile(req.params.id, format, mode);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
   } catch (error) {
-    console.error('Error fetching transactions:', error);
-    res.status(500).json({ message: 'Failed to fetch transactions' });
+    console.error('Error exporting payout batch:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to export payout batch' });
   }
 });
 
-// ===== WITHDRAWAL ROUTES =====
-// Create withdrawal request
-router.post('/withdrawals', requireAuth, async (req, res) => {
+// Import the bank's response file and settle the batch's requests (Admin only)
+router.post('/admin/payout-batches/:id/import', requireAuth, requireAdmin, async (req, res) => {
   try {
-    const result = createWithdrawalSchema.safeParse(req.body);
+    const result = importBankResponseSchema.safeParse(req.body);
     if (!result.success) {
-      return res.status(400).json({ message: 'Invalid withdrawal data', errors: result.error.errors });
+      return res.status(400).json({ message: 'Invalid response file', errors: result.error.errors });
     }
-    
-    const withdrawal = await storage.createWithdrawalRequest(req.session.userId!, result.data);
-    res.status(201).json(withdrawal);
+
+    const summary = await withdrawalService.importBatchResponse(req.params.id, result.data.content, req.session.userId!);
+    res.json(summary);
   } catch (error) {
-    console.error('Error creating withdrawal:', error);
-    res.status(500).json({ message: (error as any).message || 'Failed to create withdrawal request' });
+    console.error('Error importing bank response:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to import bank response' });
   }
 });
 
-// Get user withdrawal requests
-router.get('/withdrawals', requireAuth, async (req, res) => {
+// ===== USDT PAYOUT ROUTES =====
+// Get the whitelisted USDT payout address and its cool-down
+router.get('/crypto-wallet', requireAuth, async (req, res) => {
   try {
-    const withdrawals = await storage.getUserWithdrawals(req.session.userId!);
-    res.json(withdrawals);
+    const whitelist = await usdtPayoutService.getWhitelist(req.session.userId!);
+    res.json(whitelist);
   } catch (error) {
-    console.error('Error fetching withdrawals:', error);
-    res.status(500).json({ message: 'Failed to fetch withdrawals' });
+    console.error('Error fetching crypto wallet:', error);
+    res.status(500).json({ message: 'Failed to fetch crypto wallet' });
   }
 });
 
-// Get all withdrawal requests (Admin only)
-router.get('/admin/withdrawals', requireAuth, requireAdmin, async (req, res) => {
+// Whitelist a USDT payout address (restarts the cool-down when it changes)
+router.put('/crypto-wallet', requireAuth, requireTxnPin(), async (req, res) => {
   try {
-    const withdrawals = await storage.getAllWithdrawals();
-    res.json(withdrawals);
+    const result = updateCryptoWalletSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid wallet data', errors: result.error.errors });
+    }
+
+    const whitelist = await usdtPayoutService.updateWhitelist(req.session.userId!, result.data);
+    res.json(whitelist);
   } catch (error) {
-    console.error('Error fetching withdrawals:', error);
-    res.status(500).json({ message: 'Failed to fetch withdrawals' });
+    console.error('Error updating crypto wallet:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to update crypto wallet' });
   }
 });
 
-// Update withdrawal status (Admin only)
-router.patch('/admin/withdrawals/:id', requireAuth, requireAdmin, async (req, res) => {
+// Record the conversion rate and tx hash of a batched USDT withdrawal (Admin only)
+router.post('/admin/withdrawals/:id/usdt-payout', requireAuth, requireAdmin, async (req, res) => {
   try {
-    const { id } = req.params;
-    const { status, adminNotes } = req.body;
-    const success = await storage.updateWithdrawalStatus(id, status, adminNotes);
-    if (!success) {
-      return res.status(404).json({ message: 'Withdrawal request not found' });
+    const result = recordUsdtPayoutSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid USDT payout data', errors: result.error.errors });
     }
-    res.json({ message: 'Withdrawal status updated successfully' });
+
+    const withdrawal = await withdrawalService.recordUsdtPayout(
+      req.params.id,
+      result.data.inrPerUsdt,
+      result.data.txHash,
+      req.session.userId!
+    );
+    res.json(withdrawal);
   } catch (error) {
-    console.error('Error updating withdrawal:', error);
-    res.status(500).json({ message: 'Failed to update withdrawal status' });
+    console.error('Error recording USDT payout:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to record USDT payout' });
+  }
+});
+
+// USDT payout reconciliation for ?from=&to= (defaults to the last 30 days) (Admin only)
+router.get('/admin/usdt-payouts/reconciliation', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+
+    const reconciliation = await usdtPayoutService.getReconciliation(from, to);
+    res.json(reconciliation);
+  } catch (error) {
+    console.error('Error reconciling USDT payouts:', error);
+    res.status(500).json({ message: 'Failed to reconcile USDT payouts' });
   }
 });
 
@@ -556,6 +1851,411 @@ router.get('/bv-stats', requireAuth, async (req, res) => {
   }
 });
 
+// Verify every user's cached team BV against the purchases and repair drift (Admin only)
+router.post('/admin/bv/rebuild', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const report = await bvService.rebuild();
+    res.json(report);
+  } catch (error) {
+    console.error('Error rebuilding BV totals:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to rebuild BV totals' });
+  }
+});
+
+// Get own and leg BV dated within a period (from inclusive, to exclusive)
+router.get('/bv-ledger/summary', requireAuth, async (req, res) => {
+  try {
+    const validation = bvLedgerQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid period', errors: validation.error.errors });
+    }
+    const { from, to, interval } = validation.data;
+    const [volume, periods] = await Promise.all([
+      bvService.getLegVolume(req.session.userId!, from, to),
+      bvService.getLegVolumeByPeriod(req.session.userId!, from, to, interval),
+    ]);
+    res.json({ from, to, interval, ...volume, periods });
+  } catch (error) {
+    console.error('Error fetching BV ledger summary:', error);
+    res.status(500).json({ message: 'Failed to fetch BV ledger summary' });
+  }
+});
+
+// Get BV ledger entries within a period, optionally for one leg
+router.get('/bv-ledger/entries', requireAuth, async (req, res) => {
+  try {
+    const validation = bvLedgerQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid period', errors: validation.error.errors });
+    }
+    const { from, to, leg, limit, offset } = validation.data;
+    const result = await bvService.getLedgerEntries(req.session.userId!, from, to, { leg, limit, offset });
+    res.json(result);
+  } catch (error) {
+    console.error('Error fetching BV ledger entries:', error);
+    res.status(500).json({ message: 'Failed to fetch BV ledger entries' });
+  }
+});
+
+// ===== PLACEMENT ROUTES =====
+// Get own spillover strategy for new recruits
+router.get('/placement/preference', requireAuth, async (req, res) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json({ placementStrategy: user.placementStrategy || 'bfs', preferredLeg: user.preferredLeg, strategies: placementStrategies });
+  } catch (error) {
+    console.error('Error fetching placement preference:', error);
+    res.status(500).json({ message: 'Failed to fetch placement preference' });
+  }
+});
+
+// Set own spillover strategy for new recruits
+router.put('/placement/preference', requireAuth, async (req, res) => {
+  try {
+    const validation = updatePlacementPreferenceSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid placement preference', errors: validation.error.errors });
+    }
+    const user = await binaryTreeService.updatePlacementPreference(req.session.userId!, validation.data);
+    res.json({ placementStrategy: user.placementStrategy, preferredLeg: user.preferredLeg });
+  } catch (error) {
+    console.error('Error updating placement preference:', error);
+    res.status(500).json({ message: 'Failed to update placement preference' });
+  }
+});
+
+// Preview the parent and slot own next recruit would land in (optionally for another strategy or leg)
+router.get('/placement/preview', requireAuth, async (req, res) => {
+  try {
+    const strategy = typeof req.query.strategy === 'string' && req.query.strategy ? req.query.strategy : undefined;
+    if (strategy && !placementStrategies.includes(strategy as PlacementStrategy)) {
+      return res.status(400).json({ message: `Placement strategy must be one of: ${placementStrategies.join(', ')}` });
+    }
+    const preferredLeg = req.query.preferredLeg === 'left' || req.query.preferredLeg === 'right' ? req.query.preferredLeg : undefined;
+    const preview = await binaryTreeService.previewPlacement(req.session.userId!, strategy as PlacementStrategy | undefined, preferredLeg);
+    res.json(preview);
+  } catch (error) {
+    console.error('Error previewing placement:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to preview placement' });
+  }
+});
+
+// Check the binary tree's parent/child pointers, positions and levels (Admin only)
+router.get('/admin/tree/integrity', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const report = await treeIntegrityService.run('dry_run');
+    res.json(report);
+  } catch (error) {
+    console.error('Error checking tree integrity:', error);
+    res.status(500).json({ message: 'Failed to check tree integrity' });
+  }
+});
+
+// Check the binary tree and, in apply mode, repair what can be repaired automatically (Admin only)
+router.post('/admin/tree/integrity', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const validation = repairTreeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid repair request', errors: validation.error.errors });
+    }
+    const admin = await storage.getUser(req.session.userId!);
+    const report = await treeIntegrityService.run(validation.data.mode, { id: req.session.userId!, role: admin?.role ?? 'admin' });
+    res.json(report);
+  } catch (error) {
+    console.error('Error repairing tree integrity:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to repair tree integrity' });
+  }
+});
+
+// ===== TREE EXPLORER ROUTES =====
+// Levels below one node of own downline (own node by default), with its breadcrumb
+router.get('/binary-tree/explorer', requireAuth, async (req, res) => {
+  try {
+    const validation = treeExplorerQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid tree request', errors: validation.error.errors });
+    }
+    const { nodeId, levels } = validation.data;
+    const page = await binaryTreeService.getExplorerPage(req.session.userId!, nodeId ?? req.session.userId!, levels);
+    if (!page) {
+      return res.status(404).json({ message: 'Member not found in your downline' });
+    }
+    res.json(page);
+  } catch (error) {
+    console.error('Error fetching binary tree page:', error);
+    res.status(500).json({ message: 'Failed to fetch binary tree' });
+  }
+});
+
+// Search own downline by name, member ID or mobile
+router.get('/binary-tree/search', requireAuth, async (req, res) => {
+  try {
+    const validation = treeSearchQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ message: 'Invalid search', errors: validation.error.errors });
+    }
+    const results = await binaryTreeService.searchDownline(req.session.userId!, validation.data.q, validation.data.limit);
+    res.json(results);
+  } catch (error) {
+    console.error('Error searching downline:', error);
+    res.status(500).json({ message: 'Failed to search downline' });
+  }
+});
+
+// ===== BINARY MATCHING ROUTES =====
+// Get user's pair-matching position, carry forward and cap usage
+router.get('/binary-matching/summary', requireAuth, async (req, res) => {
+  try {
+    const summary = await binaryMatchingService.getMatchingSummary(req.session.userId!);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error fetching binary matching summary:', error);
+    res.status(500).json({ message: 'Failed to fetch binary matching summary' });
+  }
+});
+
+// ===== COMPENSATION PLAN ROUTES =====
+// Get the compensation plan in force (optionally at a given date)
+router.get('/compensation-plan/active', requireAuth, async (req, res) => {
+  try {
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+    if (isNaN(at.getTime())) {
+      return res.status(400).json({ message: 'Invalid date' });
+    }
+    const plan = await compensationPlanService.getActivePlan(at);
+    res.json(plan);
+  } catch (error) {
+    console.error('Error fetching compensation plan:', error);
+    res.status(500).json({ message: 'Failed to fetch compensation plan' });
+  }
+});
+
+// Get all published compensation plan versions (Admin only)
+router.get('/admin/compensation-plans', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const versions = await compensationPlanService.getPlanVersions();
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching compensation plans:', error);
+    res.status(500).json({ message: 'Failed to fetch compensation plans' });
+  }
+});
+
+// Publish a new compensation plan version (Admin only)
+router.post('/admin/compensation-plans', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = publishCompensationPlanSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid compensation plan', errors: result.error.errors });
+    }
+
+    const plan = await compensationPlanService.publishPlan(result.data, req.session.userId!);
+    res.status(201).json(plan);
+  } catch (error) {
+    console.error('Error publishing compensation plan:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to publish compensation plan' });
+  }
+});
+
+// ===== PAYOUT CYCLE ROUTES =====
+// Get user's payout statements
+router.get('/payout-statements', requireAuth, async (req, res) => {
+  try {
+    const statements = await payoutCycleService.getUserStatements(req.session.userId!);
+    res.json(statements);
+  } catch (error) {
+    console.error('Error fetching payout statements:', error);
+    res.status(500).json({ message: 'Failed to fetch payout statements' });
+  }
+});
+
+// Get all payout cycles (Admin only)
+router.get('/admin/payout-cycles', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const cycles = await payoutCycleService.getCycles();
+    res.json(cycles);
+  } catch (error) {
+    console.error('Error fetching payout cycles:', error);
+    res.status(500).json({ message: 'Failed to fetch payout cycles' });
+  }
+});
+
+// Open a new payout cycle (Admin only)
+router.post('/admin/payout-cycles', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = createPayoutCycleSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid payout cycle data', errors: result.error.errors });
+    }
+
+    const cycle = await payoutCycleService.openCycle(result.data.cycleType, result.data.periodStart, result.data.notes);
+    res.status(201).json(cycle);
+  } catch (error) {
+    console.error('Error opening payout cycle:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to open payout cycle' });
+  }
+});
+
+// Get a payout cycle with its statements (Admin only)
+router.get('/admin/payout-cycles/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const cycle = await payoutCycleService.getCycle(req.params.id);
+    if (!cycle) {
+      return res.status(404).json({ message: 'Payout cycle not found' });
+    }
+    const statements = await payoutCycleService.getCycleStatements(cycle.id);
+    res.json({ cycle, statements });
+  } catch (error) {
+    console.error('Error fetching payout cycle:', error);
+    res.status(500).json({ message: 'Failed to fetch payout cycle' });
+  }
+});
+
+// Dry-run a payout cycle without persisting anything (Admin only)
+router.get('/admin/payout-cycles/:id/preview', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const preview = await payoutCycleService.previewCycle(req.params.id);
+    res.json(preview);
+  } catch (error) {
+    console.error('Error previewing payout cycle:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to preview payout cycle' });
+  }
+});
+
+// Close a payout cycle and snapshot statements (Admin only)
+router.post('/admin/payout-cycles/:id/close', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const cycle = await payoutCycleService.closeCycle(req.params.id, req.session.userId!);
+    res.json(cycle);
+  } catch (error) {
+    console.error('Error closing payout cycle:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to close payout cycle' });
+  }
+});
+
+// Reopen a closed payout cycle, discarding its statements (Admin only)
+router.post('/admin/payout-cycles/:id/reopen', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const cycle = await payoutCycleService.reopenCycle(req.params.id);
+    res.json(cycle);
+  } catch (error) {
+    console.error('Error reopening payout cycle:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to reopen payout cycle' });
+  }
+});
+
+// Lock a closed payout cycle and credit wallets (Admin only)
+router.post('/admin/payout-cycles/:id/lock', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = await payoutCycleService.lockCycle(req.params.id, req.session.userId!);
+    res.json(result);
+  } catch (error) {
+    console.error('Error locking payout cycle:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to lock payout cycle' });
+  }
+});
+
+// ===== CONSISTENCY BONUS ROUTES =====
+// Get settled consistency bonus months (Admin only)
+router.get('/admin/consistency-bonus/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const runs = await consistencyBonusService.getRuns();
+    res.json(runs);
+  } catch (error) {
+    console.error('Error fetching consistency bonus runs:', error);
+    res.status(500).json({ message: 'Failed to fetch consistency bonus runs' });
+  }
+});
+
+// Get a consistency bonus month with its awards (Admin only)
+router.get('/admin/consistency-bonus/runs/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const run = await consistencyBonusService.getRun(req.params.id);
+    if (!run) {
+      return res.status(404).json({ message: 'Consistency bonus run not found' });
+    }
+    res.json(run);
+  } catch (error) {
+    console.error('Error fetching consistency bonus run:', error);
+    res.status(500).json({ message: 'Failed to fetch consistency bonus run' });
+  }
+});
+
+// Settle the consistency bonus for a finished month, or retry its uncredited awards (Admin only)
+router.post('/admin/consistency-bonus/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = runConsistencyBonusSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid consistency bonus month', errors: result.error.errors });
+    }
+
+    const settlement = await consistencyBonusService.settleMonth(result.data.month, req.session.userId!);
+    res.json(settlement);
+  } catch (error) {
+    console.error('Error settling consistency bonus:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to settle consistency bonus' });
+  }
+});
+
+// ===== REWARD POOL ROUTES =====
+// Get distributed reward pool months (Admin only)
+router.get('/admin/reward-pools/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const runs = await rewardPoolService.getRuns();
+    res.json(runs);
+  } catch (error) {
+    console.error('Error fetching reward pool runs:', error);
+    res.status(500).json({ message: 'Failed to fetch reward pool runs' });
+  }
+});
+
+// Get a reward pool month with its pool reports and payouts (Admin only)
+router.get('/admin/reward-pools/runs/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const details = await rewardPoolService.getRun(req.params.id);
+    if (!details) {
+      return res.status(404).json({ message: 'Reward pool run not found' });
+    }
+    res.json(details);
+  } catch (error) {
+    console.error('Error fetching reward pool run:', error);
+    res.status(500).json({ message: 'Failed to fetch reward pool run' });
+  }
+});
+
+// Download the audit report of a reward pool month as CSV (Admin only)
+router.get('/admin/reward-pools/runs/:id/report', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const file = await rewardPoolService.exportReport(req.params.id);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    console.error('Error exporting reward pool report:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to export reward pool report' });
+  }
+});
+
+// Distribute the reward pools for a finished month, or retry its uncredited payouts (Admin only)
+router.post('/admin/reward-pools/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const result = runRewardPoolsSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid reward pool month', errors: result.error.errors });
+    }
+
+    const distribution = await rewardPoolService.distributeMonth(result.data.month, req.session.userId!);
+    res.json(distribution);
+  } catch (error) {
+    console.error('Error distributing reward pools:', error);
+    res.status(500).json({ message: (error as any).message || 'Failed to distribute reward pools' });
+  }
+});
+
 // ===== FRANCHISE ROUTES =====
 // Create franchise request
 router.post('/franchise-requests', requireAuth, async (req, res) => {
@@ -732,8 +2432,8 @@ router.post('/admin/news', requireAuth, requireAdmin, async (req, res) => {
 });
 
 // ===== PROFILE ROUTES =====
-// Update user profile
-router.patch('/profile', requireAuth, async (req, res) => {
+// Update user profile (changing saved bank details needs the transaction PIN)
+router.patch('/profile', requireAuth, requireTxnPin({ when: (req, user) => changesBankDetails(req.body, user) }), async (req, res) => {
   try {
     const result = updateUserProfileSchema.safeParse(req.body);
     if (!result.success) {
@@ -0,0 +1,37 @@
+// Exact money arithmetic in paise. Amounts travel as decimal strings (as stored
+// in numeric columns) and are only converted to integers for calculation.
+
+/**
+ * Amount in paise. Digits beyond the paisa are rounded half-up (away from
+ * zero), as toFixed(2) does for numbers, never dropped.
+ */
+export function toPaise(amount: string | number): bigint {
+  const text = typeof amount === 'number' ? amount.toFixed(2) : amount.trim();
+  const match = /^(-)?(\d+)(?:\.(\d*))?$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid money amount: ${amount}`);
+  }
+  const [, sign, rupees, fraction = ''] = match;
+  const roundUp = fraction.length > 2 && fraction[2] >= '5';
+  const paise = BigInt(rupees) * BigInt(100) + BigInt(fraction.slice(0, 2).padEnd(2, '0')) + (roundUp ? BigInt(1) : BigInt(0));
+  return sign ? -paise : paise;
+}
+
+export function fromPaise(paise: bigint): string {
+  const negative = paise < BigInt(0);
+  const abs = negative ? -paise : paise;
+  const rupees = abs / BigInt(100);
+  const fraction = (abs % BigInt(100)).toString().padStart(2, '0');
+  return `${negative ? '-' : ''}${rupees}.${fraction}`;
+}
+
+/**
+ * Percentage of an amount, rounded half-up to the nearest paisa
+ */
+export function percentOf(paise: bigint, rate: number): bigint {
+  const rateMillionths = BigInt(Math.round(rate * 1000000));
+  const scaled = paise * rateMillionths;
+  const divisor = BigInt(1000000);
+  const half = divisor / BigInt(2);
+  return scaled >= BigInt(0) ? (scaled + half) / divisor : -((-scaled + half) / divisor);
+}
@@ -0,0 +1,791 @@
+import { randomBytes, randomUUID } from "crypto";
+import { db, runBatch, type BatchStatement } from "./db";
+import {
+  cartItems,
+  orders,
+  purchases,
+  products,
+  productVariants,
+  users,
+  paymentWebhookEvents,
+  auditLog,
+  type AddCartItem,
+  type Checkout,
+  type CreatePurchase,
+  type Order,
+  type Product,
+  type ProductVariant,
+  type Purchase,
+} from "@shared/schema";
+import { eq, and, inArray, isNull, desc, asc, lt, sql } from "drizzle-orm";
+import { ledgerService } from "./ledgerService";
+import { storage } from "./storage";
+import { getPaymentGateway, type GatewayPaymentIntent } from "./paymentGateway";
+import { invoiceService } from "./invoiceService";
+import { clawbackService } from "./clawbackService";
+import { inventoryService, OutOfStockError } from "./inventoryService";
+import { catalogService } from "./catalogService";
+import { activityService, type PurchaseType } from "./activityService";
+import { toPaise, fromPaise, percentOf } from "./money";
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'cancelled';
+export type OrderPaymentMethod = 'wallet' | 'gateway';
+
+export interface CartLine {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  purchaseType: PurchaseType;
+  imageUrl: string | null;
+  unitPrice: string;
+  unitBV: string;
+  gstRate: string; // Percent
+  quantity: number;
+  amount: string; // Unit price × quantity, before GST
+  taxAmount: string;
+  bv: string;
+  available: boolean; // False once the product or variant is withdrawn from sale
+}
+
+export interface CartSummary {
+  items: CartLine[];
+  subtotal: string;
+  taxAmount: string;
+  totalAmount: string;
+  totalBV: string;
+}
+
+export interface OrderWithItems extends Order {
+  items: (Purchase & { productName: string | null })[];
+}
+
+export interface OrderPaymentResult {
+  order: OrderWithItems;
+  payment?: GatewayPaymentIntent; // Set while the order waits for the gateway
+}
+
+export interface WebhookResult {
+  duplicate: boolean;
+  orderId?: string;
+}
+
+export class PaymentWebhookError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PaymentWebhookError';
+  }
+}
+
+// Orders in these states can be paid (again)
+const PAYABLE_STATUSES: OrderStatus[] = ['pending', 'failed'];
+
+// Pending orders are cancelled and their stock released after this long
+const PENDING_ORDER_EXPIRY_HOURS = 24;
+
+function generateOrderNumber(date: Date): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '');
+  return `VO-${day}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+// A variant carries its own price, BV and GST in place of the product's
+function priceLine(product: Product, quantity: number, variant?: ProductVariant | null): CartLine {
+  const pricing = variant || product;
+  const amount = toPaise(pricing.price) * BigInt(quantity);
+  return {
+    productId: product.id,
+    variantId: variant?.id ?? null,
+    name: variant ? `${product.name} (${variant.name})` : product.name,
+    purchaseType: product.purchaseType,
+    imageUrl: product.imageUrl,
+    unitPrice: pricing.price,
+    unitBV: pricing.bv,
+    gstRate: pricing.gst,
+    quantity,
+    amount: fromPaise(amount),
+    taxAmount: fromPaise(percentOf(amount, parseFloat(pricing.gst) / 100)),
+    bv: fromPaise(toPaise(pricing.bv) * BigInt(quantity)),
+    available: !!product.isActive && (!variant || !!variant.isActive),
+  };
+}
+
+function summarize(items: CartLine[]): CartSummary {
+  const sum = (pick: (line: CartLine) => string) =>
+    items.reduce((total, line) => total + toPaise(pick(line)), BigInt(0));
+  const subtotal = sum(line => line.amount);
+  const taxAmount = sum(line => line.taxAmount);
+  return {
+    items,
+    subtotal: fromPaise(subtotal),
+    taxAmount: fromPaise(taxAmount),
+    totalAmount: fromPaise(subtotal + taxAmount),
+    totalBV: fromPaise(sum(line => line.bv)),
+  };
+}
+
+export class OrderService {
+  // ===== CART =====
+  async getCart(userId: string): Promise<CartSummary> {
+    await catalogService.applyDuePriceChanges();
+    const rows = await db
+      .select({ item: cartItems, product: products, variant: productVariants })
+      .from(cartItems)
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .leftJoin(productVariants, eq(cartItems.variantId, productVariants.id))
+      .where(eq(cartItems.userId, userId))
+      .orderBy(asc(cartItems.createdAt));
+
+    return summarize(rows.map(({ item, product, variant }) => priceLine(product, item.quantity, variant)));
+  }
+
+  /**
+   * The variant a line is bought as. Products with active variants must be
+   * bought as one of them; products without variants are bought as is.
+   */
+  private async resolveVariant(productId: string, variantId?: string): Promise<ProductVariant | null> {
+    const variants = await db.select().from(productVariants)
+      .where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)));
+    if (!variantId) {
+      if (variants.length > 0) {
+        throw new Error('Please choose a variant of this product');
+      }
+      return null;
+    }
+    const variant = variants.find(v => v.id === variantId);
+    if (!variant) {
+      throw new Error('Variant not found');
+    }
+    return variant;
+  }
+
+  async addToCart(userId: string, data: AddCartItem): Promise<CartSummary> {
+    const product = await storage.getProductById(data.productId);
+    if (!product || !product.isActive) {
+      throw new Error('Product not found');
+    }
+    const variant = await this.resolveVariant(product.id, data.variantId);
+
+    await db
+      .insert(cartItems)
+      .values({ userId, productId: data.productId, variantId: variant?.id ?? null, quantity: data.quantity })
+      .onConflictDoUpdate({
+        target: [cartItems.userId, cartItems.productId, cartItems.variantId],
+        set: { quantity: sql`${cartItems.quantity} + ${data.quantity}`, updatedAt: new Date() },
+      });
+    return this.getCart(userId);
+  }
+
+  /**
+   * Set the quantity of a cart line; 0 removes it
+   */
+  async updateCartItem(userId: string, productId: string, quantity: number, variantId?: string): Promise<CartSummary> {
+    const line = and(
+      eq(cartItems.userId, userId),
+      eq(cartItems.productId, productId),
+      variantId ? eq(cartItems.variantId, variantId) : isNull(cartItems.variantId)
+    );
+    if (quantity <= 0) {
+      await db.delete(cartItems).where(line);
+    } else {
+      await db.update(cartItems).set({ quantity, updatedAt: new Date() }).where(line);
+    }
+    return this.getCart(userId);
+  }
+
+  // ===== ORDERS =====
+  /**
+   * Create a pending order with one purchase row per product line and
+   * reserve its stock at the chosen stock point. Nothing is distributed
+   * until the payment is confirmed; the reservation is held until the order
+   * is fulfilled, fails, is cancelled or refunded.
+   */
+  private async createOrder(
+    userId: string,
+    lines: CartLine[],
+    deliveryAddress: string,
+    paymentMethod: OrderPaymentMethod,
+    clearCart: boolean,
+    stockPointId?: string
+  ): Promise<Order> {
+    if (lines.length === 0) {
+      throw new Error('Your cart is empty');
+    }
+    const unavailable = lines.find(line => !line.available);
+    if (unavailable) {
+      throw new Error(`${unavailable.name} is no longer available. Remove it from your cart to continue`);
+    }
+    await activityService.assertCanPurchase(userId, lines);
+    if (paymentMethod === 'gateway') {
+      // Fail before reserving stock when online payment cannot be taken
+      getPaymentGateway();
+    }
+
+    const stockPoint = await inventoryService.resolveStockPoint(stockPointId);
+    await inventoryService.assertAvailable(stockPoint, lines);
+
+    const summary = summarize(lines);
+    const orderId = randomUUID();
+    const statements: BatchStatement[] = [
+      db.insert(orders).values({
+        id: orderId,
+        orderNumber: generateOrderNumber(new Date()),
+        userId,
+        paymentMethod,
+        subtotal: summary.subtotal,
+        taxAmount: summary.taxAmount,
+        totalAmount: summary.totalAmount,
+        totalBV: summary.totalBV,
+        deliveryAddress,
+        stockPointId: stockPoint.id,
+      }).returning(),
+      db.insert(purchases).values(lines.map(line => ({
+        userId,
+        productId: line.productId,
+        variantId: line.variantId,
+        quantity: line.quantity,
+        totalAmount: line.amount,
+        totalBV: line.bv,
+        gstRate: line.gstRate,
+        taxAmount: line.taxAmount,
+        paymentMethod,
+        orderId,
+        deliveryAddress,
+      }))),
+      ...inventoryService.reservationStatements(stockPoint.id, orderId, lines, userId),
+    ];
+    if (clearCart) {
+      // The cart is only emptied together with a successfully created order
+      statements.push(db.delete(cartItems).where(and(
+        eq(cartItems.userId, userId),
+        inArray(cartItems.productId, lines.map(line => line.productId))
+      )));
+    }
+    let order: Order;
+    try {
+      [[order]] = await runBatch<[Order[]]>(statements);
+    } catch (error) {
+      // Stock was taken by another order since the availability check
+      if (inventoryService.isStockConstraintError(error)) {
+        throw new OutOfStockError(`Some items are no longer in stock at ${stockPoint.name}`);
+      }
+      throw error;
+    }
+    await inventoryService.checkLowStock(stockPoint.id, lines.map(line => line.productId));
+
+    console.log(`Created order ${order.orderNumber} for user ${userId}: ${order.totalAmount} (${lines.length} lines)`);
+    return order;
+  }
+
+  /**
+   * Turn the user's cart into an order and start paying for it
+   */
+  async checkout(userId: string, data: Checkout): Promise<OrderPaymentResult> {
+    const cart = await this.getCart(userId);
+    const order = await this.createOrder(userId, cart.items, data.deliveryAddress, data.paymentMethod, true, data.stockPointId);
+    return this.pay(order.id, userId, data.paymentMethod);
+  }
+
+  /**
+   * Single-product order straight from the catalogue, bypassing the cart
+   */
+  async buyNow(userId: string, data: CreatePurchase): Promise<OrderPaymentResult> {
+    await catalogService.applyDuePriceChanges();
+    const product = await storage.getProductById(data.productId);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+    const variant = await this.resolveVariant(product.id, data.variantId);
+    const order = await this.createOrder(userId, [priceLine(product, data.quantity, variant)], data.deliveryAddress, data.paymentMethod, false, data.stockPointId);
+    return this.pay(order.id, userId, data.paymentMethod);
+  }
+
+  /**
+   * Pay a pending or failed order from the wallet (settled immediately) or
+   * through the payment gateway (settled by its webhook). The route confirms
+   * the transaction PIN for wallet payments.
+   */
+  async pay(orderId: string, userId: string, paymentMethod: OrderPaymentMethod): Promise<OrderPaymentResult> {
+    const [order] = await db.select().from(orders).where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!PAYABLE_STATUSES.includes(order.status as OrderStatus)) {
+      throw new Error(`Order ${order.orderNumber} is already ${order.status}`);
+    }
+    if (order.status === 'failed') {
+      await this.reopenFailed(order);
+    }
+
+    if (paymentMethod === 'wallet') {
+      await this.payWithWallet(order);
+      return { order: await this.getOrder(orderId) };
+    }
+
+    const payment = await this.startGatewayPayment(order);
+    return { order: await this.getOrder(orderId), payment };
+  }
+
+  private async payWithWallet(order: Order): Promise<void> {
+    const now = new Date();
+    const [claimed] = await db
+      .update(orders)
+      .set({ status: 'paid', paymentMethod: 'wallet', paidAt: now, failureReason: null, updatedAt: now })
+      .where(and(eq(orders.id, order.id), eq(orders.status, 'pending')))
+      .returning();
+    if (!claimed) {
+      throw new Error(`Order ${order.orderNumber} is not awaiting payment`);
+    }
+
+    let journalId: string;
+    try {
+      const { journal } = await ledgerService.post({
+        type: 'purchase',
+        description: `Payment for order ${order.orderNumber}`,
+        referenceId: order.id,
+        metadata: { orderId: order.id, orderNumber: order.orderNumber },
+        createdBy: order.userId,
+        lines: [
+          { account: { type: 'user_wallet', userId: order.userId }, direction: 'debit', amount: order.totalAmount },
+          { account: { type: 'sales_revenue' }, direction: 'credit', amount: order.totalAmount },
+        ],
+      });
+      journalId = journal.id;
+    } catch (error) {
+      await this.markFailed(order.id, (error as Error).message || 'Wallet payment failed', ['paid']);
+      throw error;
+    }
+
+    await this.confirmPayment(claimed, { paymentJournalId: journalId });
+  }
+
+  private async startGatewayPayment(order: Order): Promise<GatewayPaymentIntent> {
+    const gateway = getPaymentGateway();
+    const intent = await gateway.createPaymentIntent(order);
+
+    const now = new Date();
+    const [updated] = await db
+      .update(orders)
+      .set({
+        status: 'pending',
+        paymentMethod: 'gateway',
+        gatewayProvider: intent.provider,
+        gatewayOrderId: intent.gatewayOrderId,
+        failureReason: null,
+        updatedAt: now,
+      })
+      .where(and(eq(orders.id, order.id), eq(orders.status, 'pending')))
+      .returning();
+    if (!updated) {
+      throw new Error(`Order ${order.orderNumber} is not awaiting payment`);
+    }
+
+    await db
+      .update(purchases)
+      .set({ paymentStatus: 'pending', paymentMethod: 'gateway', updatedAt: now })
+      .where(eq(purchases.orderId, order.id));
+    return intent;
+  }
+
+  /**
+   * Mark a claimed order's purchases paid and release BV to the buyer's upline
+   */
+  private async confirmPayment(order: Order, details: { paymentJournalId?: string; gatewayPaymentId?: string }): Promise<void> {
+    const paidAt = order.paidAt || new Date();
+    const [, paidPurchases] = await db.batch([
+      db.update(orders).set({ ...details, updatedAt: new Date() }).where(eq(orders.id, order.id)),
+      db.update(purchases)
+        .set({ paymentStatus: 'paid', paymentMethod: order.paymentMethod, paidAt, transactionId: details.gatewayPaymentId ?? details.paymentJournalId, updatedAt: new Date() })
+        .where(eq(purchases.orderId, order.id))
+        .returning(),
+    ]);
+
+    // A qualifying first purchase activates the ID before rank and BV are refreshed
+    try {
+      await activityService.activateFromOrder({ ...order, paidAt });
+    } catch (error) {
+      console.error(`Failed to check activation for order ${order.orderNumber}:`, error);
+    }
+
+    await storage.processIncomeDistribution(paidPurchases.map(purchase => purchase.id));
+    console.log(`Order ${order.orderNumber} paid by ${order.paymentMethod}`);
+
+    // The payment stands even if invoicing fails; the invoice is issued
+    // again when the buyer asks for it
+    try {
+      await invoiceService.issueForOrder(order.id);
+    } catch (error) {
+      console.error(`Failed to issue invoice for order ${order.orderNumber}:`, error);
+    }
+  }
+
+  private async markFailed(orderId: string, reason: string, from: OrderStatus[] = ['pending']): Promise<void> {
+    const now = new Date();
+    const [failed] = await db
+      .update(orders)
+      .set({ status: 'failed', failedAt: now, paidAt: null, failureReason: reason, updatedAt: now })
+      .where(and(eq(orders.id, orderId), inArray(orders.status, from)))
+      .returning();
+    if (failed) {
+      const lines = await db
+        .update(purchases)
+        .set({ paymentStatus: 'failed', updatedAt: now })
+        .where(eq(purchases.orderId, orderId))
+        .returning();
+      // Reserved again if the buyer retries the payment
+      await inventoryService.returnLines(failed, lines.map(line => ({ productId: line.productId, quantity: line.quantity || 1, purchaseId: line.id })), `Payment failed: ${reason}`);
+      console.log(`Order ${failed.orderNumber} payment failed: ${reason}`);
+    }
+  }
+
+  /**
+   * Take a failed order up for another payment attempt: it goes back to
+   * pending and the stock released when it failed is reserved again, in one
+   * batch. Nothing happens if another attempt took it up first.
+   */
+  private async reopenFailed(order: Order): Promise<void> {
+    const now = new Date();
+    const lines = await db.select().from(purchases).where(eq(purchases.orderId, order.id));
+    const claimToken = randomUUID();
+    const reopened = sql`EXISTS (SELECT 1 FROM ${orders} WHERE ${orders.id} = ${order.id} AND ${orders.status} = 'pending' AND ${orders.claimToken} = ${claimToken})`;
+    const statements: BatchStatement[] = [
+      db.update(orders)
+        .set({ status: 'pending', failedAt: null, failureReason: null, claimToken, updatedAt: now })
+        .where(and(eq(orders.id, order.id), eq(orders.status, 'failed'))),
+      db.update(purchases)
+        .set({ paymentStatus: 'pending', updatedAt: now })
+        .where(and(eq(purchases.orderId, order.id), reopened)),
+    ];
+    if (order.stockPointId) {
+      const stockLines = lines.map(line => ({ productId: line.productId, quantity: line.quantity || 1 }));
+      statements.push(...inventoryService.reservationStatements(order.stockPointId, order.id, stockLines, order.userId, reopened));
+    }
+
+    try {
+      await runBatch(statements);
+    } catch (error) {
+      if (inventoryService.isStockConstraintError(error)) {
+        throw new OutOfStockError(`Some items of order ${order.orderNumber} are no longer in stock`);
+      }
+      throw error;
+    }
+    if (order.stockPointId) {
+      await inventoryService.checkLowStock(order.stockPointId, lines.map(line => line.productId));
+    }
+  }
+
+  // ===== GATEWAY WEBHOOKS =====
+  /**
+   * Apply a gateway webhook. The signature is checked against the raw body
+   * before anything is read from it, and each event ID is applied once. An
+   * event that could not be applied throws, so the gateway redelivers it, and
+   * the redelivery is applied again rather than dropped as a duplicate.
+   */
+  async handleWebhook(provider: string, rawBody: string, signature: string | undefined): Promise<WebhookResult> {
+    let gateway;
+    try {
+      gateway = getPaymentGateway(provider);
+    } catch {
+      throw new PaymentWebhookError(`Unknown payment gateway: ${provider}`, 404);
+    }
+    if (!gateway.verifySignature(rawBody, signature)) {
+      console.warn(`Rejected ${provider} webhook with an invalid signature`);
+      throw new PaymentWebhookError('Invalid webhook signature', 401);
+    }
+
+    let event;
+    try {
+      event = gateway.parseEvent(rawBody);
+    } catch {
+      throw new PaymentWebhookError('Malformed webhook payload', 400);
+    }
+
+    // Only an event already applied without error counts as a duplicate
+    const [recorded] = await db
+      .insert(paymentWebhookEvents)
+      .values({ provider, eventId: event.id, eventType: event.type, payload: JSON.parse(rawBody) })
+      .onConflictDoUpdate({
+        target: [paymentWebhookEvents.provider, paymentWebhookEvents.eventId],
+        set: { error: null, processedAt: null },
+        setWhere: sql`${paymentWebhookEvents.processedAt} IS NULL OR ${paymentWebhookEvents.error} IS NOT NULL`,
+      })
+      .returning();
+    if (!recorded) {
+      return { duplicate: true };
+    }
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.gatewayProvider, provider), eq(orders.gatewayOrderId, event.gatewayOrderId)));
+
+    let error: string | undefined;
+    try {
+      if (!order) {
+        throw new Error(`No order for gateway order ${event.gatewayOrderId}`);
+      }
+      if (event.type === 'payment.captured') {
+        if (toPaise(event.amount) !== toPaise(order.totalAmount)) {
+          throw new Error(`Captured amount ${event.amount} does not match order total ${order.totalAmount}`);
+        }
+        await this.markGatewayPaid(order, event.paymentId, event.amount);
+      } else if (event.type === 'payment.failed') {
+        await this.markFailed(order.id, event.reason || 'Payment failed at the gateway');
+      } else if (order.status === 'refunded' || toPaise(event.amount) < toPaise(order.totalAmount)) {
+        // Refunds started by the returns workflow have already been applied
+        console.log(`Refund of ${event.amount} on order ${order.orderNumber} acknowledged`);
+      } else {
+        await this.refundClaimed(order, event.reason || 'Refunded at the gateway', false);
+      }
+    } catch (e) {
+      error = (e as Error).message;
+      console.error(`Error applying ${provider} webhook ${event.id}:`, e);
+    }
+
+    await db
+      .update(paymentWebhookEvents)
+      .set({ orderId: order?.id, error, processedAt: new Date() })
+      .where(eq(paymentWebhookEvents.id, recorded.id));
+    if (error) {
+      throw new PaymentWebhookError(`Webhook ${event.id} could not be applied: ${error}`, 500);
+    }
+    return { duplicate: false, orderId: order?.id };
+  }
+
+  private async markGatewayPaid(order: Order, gatewayPaymentId: string | undefined, amount: string): Promise<void> {
+    if (order.status === 'failed') {
+      // A capture after a reported failure needs the released stock back
+      try {
+        await this.reopenFailed(order);
+      } catch (error) {
+        if (!(error instanceof OutOfStockError)) throw error;
+        await this.refundStrayCapture(order, gatewayPaymentId, amount, 'its stock was no longer available');
+        return;
+      }
+    }
+    const now = new Date();
+    const [claimed] = await db
+      .update(orders)
+      .set({ status: 'paid', paidAt: now, failureReason: null, updatedAt: now })
+      .where(and(eq(orders.id, order.id), eq(orders.status, 'pending')))
+      .returning();
+    if (claimed) {
+      await this.confirmPayment(claimed, { gatewayPaymentId });
+      return;
+    }
+
+    const [current] = await db.select().from(orders).where(eq(orders.id, order.id));
+    if (gatewayPaymentId && current.gatewayPaymentId === gatewayPaymentId) {
+      console.log(`Order ${current.orderNumber} already took payment ${gatewayPaymentId}; capture ignored`);
+      return;
+    }
+    await this.refundStrayCapture(current, gatewayPaymentId, amount, `the order was already ${current.status}`);
+  }
+
+  /**
+   * Give a capture back through the gateway when the order cannot take it,
+   * e.g. one arriving after the order expired unpaid, and record the refund
+   * against the order in the audit log
+   */
+  private async refundStrayCapture(order: Order, gatewayPaymentId: string | undefined, amount: string, why: string): Promise<void> {
+    if (!gatewayPaymentId || !order.gatewayProvider) {
+      throw new Error(`Capture of ${amount} on order ${order.orderNumber} cannot be refunded: no gateway payment ID`);
+    }
+    const refund = await getPaymentGateway(order.gatewayProvider).refundPayment(gatewayPaymentId, amount);
+    await db.insert(auditLog).values({
+      entityType: 'order',
+      entityId: order.id,
+      action: 'capture_refunded',
+      actorId: 'system',
+      actorRole: 'system',
+      changes: { gatewayPaymentId, amount, refundId: refund.refundId, orderStatus: order.status },
+      reason: `Payment captured after ${why}`,
+    });
+    console.log(`Refunded capture ${gatewayPaymentId} of ${amount} on order ${order.orderNumber}: ${why}`);
+  }
+
+  /**
+   * Cancel one of the user's orders before it is paid
+   */
+  async cancelOrder(orderId: string, userId: string): Promise<OrderWithItems> {
+    const order = await this.getUserOrder(orderId, userId);
+    const [cancelled] = PAYABLE_STATUSES.includes(order.status as OrderStatus)
+      ? await db
+          .update(orders)
+          .set({ status: 'cancelled', updatedAt: new Date() })
+          .where(and(eq(orders.id, orderId), eq(orders.status, order.status!)))
+          .returning()
+      : [];
+    if (!cancelled) {
+      throw new Error(`Order ${order.orderNumber} is already ${order.status}`);
+    }
+    // A failed order gave its stock back when it failed
+    await this.cancelLines(cancelled, 'Order cancelled', order.status === 'pending');
+    console.log(`Order ${cancelled.orderNumber} cancelled by the buyer`);
+    return this.getOrder(orderId);
+  }
+
+  /**
+   * Cancel orders left pending without a payment for
+   * PENDING_ORDER_EXPIRY_HOURS and give their stock back. Failed orders
+   * already gave theirs back and stay open for another attempt.
+   */
+  async expirePendingOrders(): Promise<number> {
+    const cutoff = new Date(Date.now() - PENDING_ORDER_EXPIRY_HOURS * 60 * 60 * 1000);
+    const expired = await db
+      .update(orders)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(orders.status, 'pending'), lt(orders.updatedAt, cutoff)))
+      .returning();
+    for (const order of expired) {
+      await this.cancelLines(order, 'Payment not completed in time', true);
+    }
+    if (expired.length > 0) {
+      console.log(`Expired ${expired.length} unpaid orders`);
+    }
+    return expired.length;
+  }
+
+  private async cancelLines(order: Order, note: string, releaseStock: boolean): Promise<void> {
+    const lines = await db
+      .update(purchases)
+      .set({ paymentStatus: 'cancelled', updatedAt: new Date() })
+      .where(eq(purchases.orderId, order.id))
+      .returning();
+    if (releaseStock) {
+      await inventoryService.returnLines(order, lines.map(line => ({ productId: line.productId, quantity: line.quantity || 1, purchaseId: line.id })), note);
+    }
+  }
+
+  // ===== REFUNDS =====
+  /**
+   * Refund a paid order: wallet payments are credited back through the
+   * ledger, gateway payments are refunded through the gateway. Lines already
+   * refunded through a return are left out. Income paid on the order is
+   * clawed back and its BV withdrawn from the buyer and their upline.
+   */
+  async refundOrder(orderId: string, reason: string): Promise<OrderWithItems> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    await this.refundClaimed(order, reason, true);
+    return this.getOrder(orderId);
+  }
+
+  private async refundClaimed(order: Order, reason: string, returnFunds: boolean): Promise<void> {
+    const paidLines = await db.select().from(purchases)
+      .where(and(eq(purchases.orderId, order.id), eq(purchases.paymentStatus, 'paid')));
+    await clawbackService.assertReversible(paidLines);
+    const refundAmount = fromPaise(paidLines.reduce(
+      (total, line) => total + toPaise(line.totalAmount) + toPaise(line.taxAmount || '0'),
+      BigInt(0)
+    ));
+
+    const now = new Date();
+    const [claimed] = await db
+      .update(orders)
+      .set({ status: 'refunded', refundedAt: now, refundReason: reason, updatedAt: now })
+      .where(and(eq(orders.id, order.id), eq(orders.status, 'paid')))
+      .returning();
+    if (!claimed) {
+      throw new Error(`Only paid orders can be refunded (order ${order.orderNumber} is ${order.status})`);
+    }
+
+    let refundJournalId: string | undefined;
+    try {
+      if (returnFunds && toPaise(refundAmount) === BigInt(0)) {
+        // Every line was already refunded through returns
+      } else if (returnFunds && claimed.paymentJournalId) {
+        const { journal } = await ledgerService.post({
+          type: 'purchase',
+          description: `Refund for order ${claimed.orderNumber}`,
+          referenceId: claimed.id,
+          metadata: { orderId: claimed.id, orderNumber: claimed.orderNumber, reason },
+          lines: [
+            { account: { type: 'sales_revenue' }, direction: 'debit', amount: refundAmount },
+            { account: { type: 'user_wallet', userId: claimed.userId }, direction: 'credit', amount: refundAmount },
+          ],
+        });
+        refundJournalId = journal.id;
+      } else if (returnFunds && claimed.gatewayProvider && claimed.gatewayPaymentId) {
+        await getPaymentGateway(claimed.gatewayProvider).refundPayment(claimed.gatewayPaymentId, refundAmount);
+      }
+    } catch (error) {
+      await db
+        .update(orders)
+        .set({ status: 'paid', refundedAt: null, refundReason: null, updatedAt: new Date() })
+        .where(eq(orders.id, claimed.id));
+      throw error;
+    }
+
+    const reversalId = randomUUID();
+    const [, refundedLines] = await db.batch([
+      db.update(orders).set({ refundJournalId }).where(eq(orders.id, claimed.id)),
+      db.update(purchases)
+        .set({ paymentStatus: 'refunded', updatedAt: now })
+        .where(and(eq(purchases.orderId, claimed.id), eq(purchases.paymentStatus, 'paid')))
+        .returning(),
+      clawbackService.reversalStatement(
+        reversalId,
+        and(eq(purchases.orderId, claimed.id), eq(purchases.paymentStatus, 'refunded'), eq(purchases.updatedAt, now))!,
+        reason
+      ),
+    ]);
+    await invoiceService.cancelForOrder(claimed.id, reason);
+    // Goods already handed over only come back into stock through a return
+    if (!claimed.fulfilledAt) {
+      await inventoryService.returnLines(claimed, refundedLines.map(line => ({ productId: line.productId, quantity: line.quantity || 1, purchaseId: line.id })), reason);
+    }
+    await clawbackService.applyReversal(reversalId);
+    console.log(`Order ${claimed.orderNumber} refunded: ${reason}`);
+  }
+
+  // ===== QUERIES =====
+  async getOrder(orderId: string): Promise<OrderWithItems> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    const items = await db
+      .select({ purchase: purchases, productName: products.name, variantName: productVariants.name })
+      .from(purchases)
+      .leftJoin(products, eq(purchases.productId, products.id))
+      .leftJoin(productVariants, eq(purchases.variantId, productVariants.id))
+      .where(eq(purchases.orderId, orderId));
+    return {
+      ...order,
+      items: items.map(row => ({
+        ...row.purchase,
+        productName: row.variantName ? `${row.productName} (${row.variantName})` : row.productName,
+      })),
+    };
+  }
+
+  async getUserOrder(orderId: string, userId: string): Promise<OrderWithItems> {
+    const order = await this.getOrder(orderId);
+    if (order.userId !== userId) {
+      throw new Error('Order not found');
+    }
+    return order;
+  }
+
+  async getUserOrders(userId: string): Promise<Order[]> {
+    return await db.select().from(orders)
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orders.createdAt));
+  }
+
+  async getOrders(statuses?: OrderStatus[]) {
+    const rows = await db
+      .select({
+        order: orders,
+        user: { userId: users.userId, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      })
+      .from(orders)
+      .leftJoin(users, eq(orders.userId, users.id))
+      .where(statuses?.length ? inArray(orders.status, statuses) : undefined)
+      .orderBy(desc(orders.createdAt));
+    return rows.map(row => ({ ...row.order, user: row.user }));
+  }
+}
+
+export const orderService = new OrderService();
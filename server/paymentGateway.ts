@@ -0,0 +1,128 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { z } from "zod";
+
+// Payment gateway adapters. Each adapter creates gateway-side orders, checks
+// webhook signatures and turns webhook payloads into GatewayWebhookEvents;
+// orderService applies the events.
+
+export type GatewayEventType = 'payment.captured' | 'payment.failed' | 'refund.processed';
+
+export interface GatewayPaymentIntent {
+  provider: string;
+  gatewayOrderId: string;
+  amount: string;
+  currency: 'INR';
+}
+
+export interface GatewayWebhookEvent {
+  id: string; // Gateway event ID, unique per provider
+  type: GatewayEventType;
+  gatewayOrderId: string;
+  paymentId?: string;
+  amount: string;
+  reason?: string;
+}
+
+export interface GatewayRefund {
+  refundId: string;
+}
+
+export interface PaymentGatewayAdapter {
+  readonly provider: string;
+  readonly signatureHeader: string;
+  createPaymentIntent(order: { id: string; orderNumber: string; totalAmount: string }): Promise<GatewayPaymentIntent>;
+  refundPayment(paymentId: string, amount: string): Promise<GatewayRefund>;
+  verifySignature(rawBody: string, signature: string | undefined): boolean;
+  parseEvent(rawBody: string): GatewayWebhookEvent;
+}
+
+export class PaymentGatewayUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentGatewayUnavailableError';
+  }
+}
+
+const webhookEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['payment.captured', 'payment.failed', 'refund.processed']),
+  gatewayOrderId: z.string().min(1),
+  paymentId: z.string().optional(),
+  amount: z.string(),
+  reason: z.string().optional(),
+});
+
+/**
+ * Local stand-in for a real gateway. Webhooks are signed with HMAC-SHA256 of
+ * the raw body using MOCK_GATEWAY_WEBHOOK_SECRET, like most Indian gateways.
+ * Never available in production.
+ */
+export class MockPaymentGateway implements PaymentGatewayAdapter {
+  readonly provider = 'mock';
+  readonly signatureHeader = 'x-mock-signature';
+
+  constructor(private secret: string) {}
+
+  async createPaymentIntent(order: { id: string; orderNumber: string; totalAmount: string }): Promise<GatewayPaymentIntent> {
+    return {
+      provider: this.provider,
+      gatewayOrderId: `mock_order_${randomBytes(8).toString('hex')}`,
+      amount: order.totalAmount,
+      currency: 'INR',
+    };
+  }
+
+  async refundPayment(paymentId: string, amount: string): Promise<GatewayRefund> {
+    console.log(`Mock gateway refund of ${amount} for payment ${paymentId}`);
+    return { refundId: `mock_refund_${randomBytes(8).toString('hex')}` };
+  }
+
+  sign(rawBody: string): string {
+    return createHmac('sha256', this.secret).update(rawBody).digest('hex');
+  }
+
+  verifySignature(rawBody: string, signature: string | undefined): boolean {
+    if (!signature) return false;
+    const expected = Buffer.from(this.sign(rawBody), 'hex');
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  }
+
+  parseEvent(rawBody: string): GatewayWebhookEvent {
+    return webhookEventSchema.parse(JSON.parse(rawBody));
+  }
+
+  /**
+   * Build a signed webhook the way the gateway would send it, for local testing
+   */
+  simulateWebhook(event: Omit<GatewayWebhookEvent, 'id'>): { rawBody: string; signature: string } {
+    const rawBody = JSON.stringify({ id: `mock_evt_${randomBytes(8).toString('hex')}`, ...event });
+    return { rawBody, signature: this.sign(rawBody) };
+  }
+}
+
+// Only outside production, and only with its own webhook secret
+const mockWebhookSecret = process.env.MOCK_GATEWAY_WEBHOOK_SECRET;
+export const mockPaymentGateway = process.env.NODE_ENV !== 'production' && mockWebhookSecret
+  ? new MockPaymentGateway(mockWebhookSecret)
+  : null;
+
+const adapters: Record<string, PaymentGatewayAdapter> = {};
+if (mockPaymentGateway) {
+  adapters[mockPaymentGateway.provider] = mockPaymentGateway;
+}
+
+/**
+ * Adapter for a provider, defaulting to PAYMENT_GATEWAY (or the mock gateway
+ * outside production). Throws when no such gateway is configured.
+ */
+export function getPaymentGateway(provider = process.env.PAYMENT_GATEWAY || mockPaymentGateway?.provider): PaymentGatewayAdapter {
+  if (!provider) {
+    throw new PaymentGatewayUnavailableError('Online payment is not available right now. Please pay from your wallet');
+  }
+  const adapter = adapters[provider];
+  if (!adapter) {
+    throw new PaymentGatewayUnavailableError(`Unknown payment gateway: ${provider}`);
+  }
+  return adapter;
+}
@@ -0,0 +1,655 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import { users, purchases, payoutCycles, payoutStatements, type PayoutCycle, type PayoutStatement } from "@shared/schema";
+import { eq, and, gte, lt, gt, lte, ne, asc, desc, sql } from "drizzle-orm";
+import { ledgerService, DuplicatePostingError, type LedgerPosting } from "./ledgerService";
+import { binaryMatchingService, startOfDay, startOfWeek, type DailyLegVolume } from "./binaryMatchingService";
+import { compensationPlanService } from "./compensationPlanService";
+import { clawbackService } from "./clawbackService";
+import { activityService } from "./activityService";
+
+export type PayoutCycleType = 'weekly' | 'monthly';
+
+export interface PayoutStatementLine {
+  type: 'sponsor_income' | 'sales_bonus';
+  amount: number;
+  description: string;
+  referenceId?: string; // Purchase ID for sponsor income
+  date: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface PayoutStatementDraft {
+  userId: string;
+  rank: string | null;
+  openingLeftCarryBV: number;
+  openingRightCarryBV: number;
+  periodLeftBV: number;
+  periodRightBV: number;
+  matchedBV: number;
+  closingLeftCarryBV: number;
+  closingRightCarryBV: number;
+  sponsorIncome: number;
+  salesBonus: number;
+  cappedAmount: number;
+  lapsedAmount: number; // Sales bonus forfeited because the ID was not active for the period
+  totalAmount: number;
+  lines: PayoutStatementLine[];
+}
+
+export interface PayoutCyclePreview {
+  cycle: PayoutCycle;
+  computedUntil: Date;
+  planVersion: number;
+  totalUsers: number;
+  totalSponsorIncome: number;
+  totalSalesBonus: number;
+  totalPayout: number;
+  statements: PayoutStatementDraft[];
+}
+
+interface TreeNode {
+  id: string;
+  parentId: string | null;
+  position: string | null;
+  sponsorId: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  currentRank: string | null;
+  leftCarryForwardBV: string | null;
+  rightCarryForwardBV: string | null;
+}
+
+export const DEFAULT_PAYOUT_CYCLE_TYPE: PayoutCycleType = process.env.PAYOUT_CYCLE_TYPE === 'monthly' ? 'monthly' : 'weekly';
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Period boundaries for a cycle starting at (or containing) the given date
+ */
+export function getCyclePeriod(cycleType: PayoutCycleType, date: Date): { periodStart: Date; periodEnd: Date } {
+  if (cycleType === 'monthly') {
+    const periodStart = new Date(date.getFullYear(), date.getMonth(), 1);
+    const periodEnd = new Date(date.getFullYear(), date.getMonth() + 1, 1);
+    return { periodStart, periodEnd };
+  }
+
+  const periodStart = startOfWeek(date);
+  const periodEnd = new Date(periodStart);
+  periodEnd.setDate(periodEnd.getDate() + 7);
+  return { periodStart, periodEnd };
+}
+
+export class PayoutCycleService {
+  async getCycles(): Promise<PayoutCycle[]> {
+    return await db.select().from(payoutCycles).orderBy(desc(payoutCycles.periodStart));
+  }
+
+  async getCycle(cycleId: string): Promise<PayoutCycle | undefined> {
+    const [cycle] = await db.select().from(payoutCycles).where(eq(payoutCycles.id, cycleId));
+    return cycle;
+  }
+
+  async getCycleStatements(cycleId: string): Promise<PayoutStatement[]> {
+    return await db.select().from(payoutStatements)
+      .where(eq(payoutStatements.cycleId, cycleId))
+      .orderBy(desc(payoutStatements.totalAmount));
+  }
+
+  async getUserStatements(userId: string) {
+    return await db
+      .select({
+        statement: payoutStatements,
+        cycle: payoutCycles,
+      })
+      .from(payoutStatements)
+      .innerJoin(payoutCycles, eq(payoutStatements.cycleId, payoutCycles.id))
+      .where(eq(payoutStatements.userId, userId))
+      .orderBy(desc(payoutCycles.periodStart));
+  }
+
+  /**
+   * Open a new cycle. Without an explicit start it continues from the latest
+   * cycle, or covers the current period when no cycle exists yet.
+   */
+  async openCycle(cycleType: PayoutCycleType, periodStart?: Date, notes?: string): Promise<PayoutCycle> {
+    let start = periodStart;
+    if (!start) {
+      const [latest] = await db.select().from(payoutCycles).orderBy(desc(payoutCycles.periodEnd)).limit(1);
+      start = latest ? latest.periodEnd : new Date();
+    }
+
+    const period = getCyclePeriod(cycleType, start);
+
+    // Cycles must never overlap, otherwise the same purchase would be paid twice
+    const [overlapping] = await db.select().from(payoutCycles)
+      .where(and(
+        lt(payoutCycles.periodStart, period.periodEnd),
+        gt(payoutCycles.periodEnd, period.periodStart)
+      ))
+      .limit(1);
+    if (overlapping) {
+      throw new Error(`Period overlaps an existing ${overlapping.cycleType} cycle starting ${overlapping.periodStart.toISOString()}`);
+    }
+
+    const [cycle] = await db.insert(payoutCycles).values({
+      cycleType,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      status: 'open',
+      notes,
+    }).returning();
+
+    console.log(`Opened ${cycleType} payout cycle ${cycle.id} (${period.periodStart.toISOString()} - ${period.periodEnd.toISOString()})`);
+    return cycle;
+  }
+
+  /**
+   * Compute statements for a cycle without persisting anything
+   */
+  async previewCycle(cycleId: string, now: Date = new Date()): Promise<PayoutCyclePreview> {
+    const cycle = await this.getCycle(cycleId);
+    if (!cycle) {
+      throw new Error("Payout cycle not found");
+    }
+
+    const computedUntil = cycle.periodEnd < now ? cycle.periodEnd : now;
+    const { planVersion, statements } = await this.computeStatements(cycle.periodStart, computedUntil);
+    return { cycle, computedUntil, planVersion, ...this.summarise(statements), statements };
+  }
+
+  /**
+   * Snapshot statements for a finished period and freeze the cycle for review
+   */
+  async closeCycle(cycleId: string, actorId: string, now: Date = new Date()): Promise<PayoutCycle> {
+    const cycle = await this.getCycle(cycleId);
+    if (!cycle) {
+      throw new Error("Payout cycle not found");
+    }
+    if (cycle.status !== 'open') {
+      throw new Error(`Only open cycles can be closed (current status: ${cycle.status})`);
+    }
+    if (cycle.periodEnd > now) {
+      throw new Error("Cycle period has not ended yet");
+    }
+
+    // Carry forward is read from users, so earlier cycles must be committed first
+    const [unfinished] = await db.select().from(payoutCycles)
+      .where(and(lt(payoutCycles.periodStart, cycle.periodStart), ne(payoutCycles.status, 'locked')))
+      .limit(1);
+    if (unfinished) {
+      throw new Error("Earlier payout cycles must be locked before this one can be closed");
+    }
+
+    const { planVersion, statements } = await this.computeStatements(cycle.periodStart, cycle.periodEnd);
+    const totals = this.summarise(statements);
+
+    const closeCycle = db.update(payoutCycles)
+      .set({
+        status: 'closed',
+        planVersion,
+        totalUsers: totals.totalUsers,
+        totalSponsorIncome: totals.totalSponsorIncome.toFixed(2),
+        totalSalesBonus: totals.totalSalesBonus.toFixed(2),
+        totalPayout: totals.totalPayout.toFixed(2),
+        closedBy: actorId,
+        closedAt: now,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(payoutCycles.id, cycleId), eq(payoutCycles.status, 'open')))
+      .returning();
+
+    if (statements.length > 0) {
+      const insertStatements = db.insert(payoutStatements).values(
+        statements.map(statement => ({
+          cycleId,
+          userId: statement.userId,
+          rank: statement.rank,
+          openingLeftCarryBV: statement.openingLeftCarryBV.toFixed(2),
+          openingRightCarryBV: statement.openingRightCarryBV.toFixed(2),
+          periodLeftBV: statement.periodLeftBV.toFixed(2),
+          periodRightBV: statement.periodRightBV.toFixed(2),
+          matchedBV: statement.matchedBV.toFixed(2),
+          closingLeftCarryBV: statement.closingLeftCarryBV.toFixed(2),
+          closingRightCarryBV: statement.closingRightCarryBV.toFixed(2),
+          sponsorIncome: statement.sponsorIncome.toFixed(2),
+          salesBonus: statement.salesBonus.toFixed(2),
+          cappedAmount: statement.cappedAmount.toFixed(2),
+          lapsedAmount: statement.lapsedAmount.toFixed(2),
+          totalAmount: statement.totalAmount.toFixed(2),
+          lines: statement.lines,
+        }))
+      );
+      // Both writes succeed or fail together; a concurrent close hits the unique index
+      const [closed] = await db.batch([closeCycle, insertStatements]);
+      if (!closed.length) {
+        throw new Error("Payout cycle was modified concurrently");
+      }
+      return closed[0];
+    }
+
+    const [closed] = await closeCycle;
+    if (!closed) {
+      throw new Error("Payout cycle was modified concurrently");
+    }
+    return closed;
+  }
+
+  /**
+   * Discard the statements of a closed (not yet locked) cycle so it can be recomputed
+   */
+  async reopenCycle(cycleId: string): Promise<PayoutCycle> {
+    const cycle = await this.getCycle(cycleId);
+    if (!cycle) {
+      throw new Error("Payout cycle not found");
+    }
+    if (cycle.status !== 'closed') {
+      throw new Error(`Only closed cycles can be reopened (current status: ${cycle.status})`);
+    }
+
+    const [reopened] = await db.batch([
+      db.update(payoutCycles)
+        .set({
+          status: 'open',
+          planVersion: null,
+          totalUsers: 0,
+          totalSponsorIncome: '0.00',
+          totalSalesBonus: '0.00',
+          totalPayout: '0.00',
+          closedBy: null,
+          closedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(payoutCycles.id, cycleId), eq(payoutCycles.status, 'closed')))
+        .returning(),
+      db.delete(payoutStatements).where(eq(payoutStatements.cycleId, cycleId)),
+    ]);
+
+    if (!reopened.length) {
+      throw new Error("Payout cycle was modified concurrently");
+    }
+    return reopened[0];
+  }
+
+  /**
+   * Commit a closed cycle: credit every pending statement to the wallets and
+   * move the closing carry forward onto the users. Safe to retry after a
+   * partial failure: each statement is credited all at once or stays
+   * pending, and credited statements are skipped.
+   */
+  async lockCycle(cycleId: string, actorId: string): Promise<{ cycle: PayoutCycle; credited: number; failed: number }> {
+    const cycle = await this.getCycle(cycleId);
+    if (!cycle) {
+      throw new Error("Payout cycle not found");
+    }
+
+    let lockedCycle = cycle;
+    if (cycle.status === 'closed') {
+      const [locked] = await db.update(payoutCycles)
+        .set({ status: 'locked', lockedBy: actorId, lockedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(payoutCycles.id, cycleId), eq(payoutCycles.status, 'closed')))
+        .returning();
+      if (!locked) {
+        throw new Error("Payout cycle was modified concurrently");
+      }
+      lockedCycle = locked;
+    } else if (cycle.status !== 'locked') {
+      throw new Error(`Only closed cycles can be locked (current status: ${cycle.status})`);
+    }
+
+    const pending = await db.select().from(payoutStatements)
+      .where(and(eq(payoutStatements.cycleId, cycleId), eq(payoutStatements.status, 'pending')));
+
+    let credited = 0;
+    let failed = 0;
+    for (const statement of pending) {
+      try {
+        await this.creditStatement(lockedCycle, statement);
+        credited++;
+      } catch (error) {
+        failed++;
+        console.error(`Failed to credit payout statement ${statement.id}:`, error);
+      }
+    }
+
+    console.log(`Locked payout cycle ${cycleId}: ${credited} statements credited, ${failed} failed`);
+    return { cycle: lockedCycle, credited, failed };
+  }
+
+  /**
+   * Close any open cycle whose period has ended and make sure the current
+   * period has an open cycle. Locking stays a manual admin step.
+   */
+  async runScheduledCycles(now: Date = new Date()): Promise<void> {
+    const due = await db.select().from(payoutCycles)
+      .where(and(eq(payoutCycles.status, 'open'), lte(payoutCycles.periodEnd, now)))
+      .orderBy(asc(payoutCycles.periodStart));
+
+    for (const cycle of due) {
+      try {
+        await this.closeCycle(cycle.id, 'system', now);
+        console.log(`Auto-closed payout cycle ${cycle.id}`);
+      } catch (error) {
+        // Usually an earlier cycle still awaiting lock; retried on the next run
+        console.log(`Payout cycle ${cycle.id} not closed yet: ${(error as Error).message}`);
+        break;
+      }
+    }
+
+    const [current] = await db.select().from(payoutCycles)
+      .where(and(lte(payoutCycles.periodStart, now), gt(payoutCycles.periodEnd, now)))
+      .limit(1);
+    if (!current) {
+      // Continues from the latest cycle, so missed periods are caught up one per run
+      const [latest] = await db.select().from(payoutCycles).orderBy(desc(payoutCycles.periodEnd)).limit(1);
+      await this.openCycle(latest ? (latest.cycleType as PayoutCycleType) : DEFAULT_PAYOUT_CYCLE_TYPE);
+    }
+  }
+
+  /**
+   * Credit one statement. Its wallet postings, the user's carry forward and
+   * processed BV and the statement's status commit together in one batch, so
+   * a failure leaves the statement pending for the next lock. The postings
+   * are keyed by statement, so a concurrent lock fails instead of paying twice.
+   */
+  private async creditStatement(cycle: PayoutCycle, statement: PayoutStatement): Promise<void> {
+    const period = `${cycle.periodStart.toLocaleDateString('en-IN')} - ${new Date(cycle.periodEnd.getTime() - 1).toLocaleDateString('en-IN')}`;
+    const lines = (statement.lines as PayoutStatementLine[] | null) || [];
+    const postings: LedgerPosting[] = [];
+
+    if (parseFloat(statement.sponsorIncome || '0') > 0) {
+      postings.push(ledgerService.walletMovement(
+        statement.userId,
+        statement.sponsorIncome!,
+        `Sponsor Income for payout cycle ${period}`,
+        'sponsor_income',
+        {
+          referenceId: cycle.id,
+          idempotencyKey: `payout_statement:${statement.id}:sponsor_income`,
+          metadata: {
+            cycleId: cycle.id,
+            statementId: statement.id,
+            purchases: lines.filter(line => line.type === 'sponsor_income').map(line => line.referenceId),
+          },
+        }
+      ));
+    }
+
+    if (parseFloat(statement.salesBonus || '0') > 0) {
+      postings.push(ledgerService.walletMovement(
+        statement.userId,
+        statement.salesBonus!,
+        `Binary matching bonus on ${statement.matchedBV} BV for payout cycle ${period}`,
+        'sales_bonus',
+        {
+          referenceId: cycle.id,
+          idempotencyKey: `payout_statement:${statement.id}:sales_bonus`,
+          metadata: {
+            cycleId: cycle.id,
+            statementId: statement.id,
+            matchedBV: statement.matchedBV,
+            cappedAmount: statement.cappedAmount,
+            periodLeftBV: statement.periodLeftBV,
+            periodRightBV: statement.periodRightBV,
+            leftCarryForwardBV: statement.closingLeftCarryBV,
+            rightCarryForwardBV: statement.closingRightCarryBV,
+          },
+        }
+      ));
+    }
+
+    // The user's totals only move if this batch claimed the statement, told
+    // by the token the claim writes
+    const claimToken = randomUUID();
+    const claimed = sql`EXISTS (SELECT 1 FROM ${payoutStatements} WHERE ${payoutStatements.id} = ${statement.id} AND ${payoutStatements.claimToken} = ${claimToken})`;
+
+    let results: [{ id: string }[], unknown];
+    try {
+      ({ results } = await ledgerService.postBatch<[{ id: string }[], unknown]>(postings, [
+        db.update(payoutStatements)
+          .set({ status: 'credited', creditedAt: new Date(), claimToken })
+          .where(and(eq(payoutStatements.id, statement.id), eq(payoutStatements.status, 'pending')))
+          .returning({ id: payoutStatements.id }),
+        db.update(users)
+          .set({
+            leftCarryForwardBV: statement.closingLeftCarryBV,
+            rightCarryForwardBV: statement.closingRightCarryBV,
+            processedLeftBV: sql`COALESCE(${users.processedLeftBV}, 0) + ${statement.periodLeftBV}`,
+            processedRightBV: sql`COALESCE(${users.processedRightBV}, 0) + ${statement.periodRightBV}`,
+            totalMatchedBV: sql`COALESCE(${users.totalMatchedBV}, 0) + ${statement.matchedBV}`,
+            lastMatchedAt: parseFloat(statement.matchedBV || '0') > 0 ? new Date() : undefined,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(users.id, statement.userId), claimed)),
+      ]));
+    } catch (error) {
+      // Another lock credited it first
+      if (error instanceof DuplicatePostingError) return;
+      throw error;
+    }
+    const [claimedStatement] = results;
+    if (claimedStatement.length === 0) return;
+
+    // Income taken back after refunds is recovered from the new credit first
+    try {
+      await clawbackService.recoverOutstanding(statement.userId);
+    } catch (error) {
+      console.error(`Failed to recover clawbacks for user ${statement.userId}:`, error);
+    }
+  }
+
+  /**
+   * Build per-user statements from paid purchases in [from, to) and the
+   * current binary tree: sponsor income for direct sponsors, plus day-by-day
+   * pair matching for every upline that received leg volume. Rates and caps
+   * come from the compensation plan in force at the start of the period.
+   * Uplines that are not active for the period still have their pairs
+   * matched and flushed, but the sales bonus lapses.
+   */
+  private async computeStatements(from: Date, to: Date): Promise<{ planVersion: number; statements: PayoutStatementDraft[] }> {
+    const { version: planVersion, definition: plan } = await compensationPlanService.getActivePlan(from);
+    const activeUserIds = await activityService.getActiveUserIds(from);
+
+    // Volume belongs to the period in which payment was confirmed
+    const periodPurchases = await db.select().from(purchases)
+      .where(and(
+        eq(purchases.paymentStatus, 'paid'),
+        gte(purchases.paidAt, from),
+        lt(purchases.paidAt, to)
+      ))
+      .orderBy(asc(purchases.paidAt));
+
+    const treeNodes: TreeNode[] = await db
+      .select({
+        id: users.id,
+        parentId: users.parentId,
+        position: users.position,
+        sponsorId: users.sponsorId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        currentRank: users.currentRank,
+        leftCarryForwardBV: users.leftCarryForwardBV,
+        rightCarryForwardBV: users.rightCarryForwardBV,
+      })
+      .from(users);
+    const nodes = new Map(treeNodes.map(node => [node.id, node]));
+
+    const drafts = new Map<string, PayoutStatementDraft>();
+    const dailyVolumes = new Map<string, Map<string, DailyLegVolume>>();
+    const weekStart = startOfWeek(from);
+    const paidEarlierThisWeek = await this.getSalesBonusPaid(weekStart, from);
+
+    const getDraft = (node: TreeNode): PayoutStatementDraft => {
+      let draft = drafts.get(node.id);
+      if (!draft) {
+        const openingLeft = parseFloat(node.leftCarryForwardBV || '0');
+        const openingRight = parseFloat(node.rightCarryForwardBV || '0');
+        draft = {
+          userId: node.id,
+          rank: node.currentRank,
+          openingLeftCarryBV: openingLeft,
+          openingRightCarryBV: openingRight,
+          periodLeftBV: 0,
+          periodRightBV: 0,
+          matchedBV: 0,
+          closingLeftCarryBV: openingLeft,
+          closingRightCarryBV: openingRight,
+          sponsorIncome: 0,
+          salesBonus: 0,
+          cappedAmount: 0,
+          lapsedAmount: 0,
+          totalAmount: 0,
+          lines: [],
+        };
+        drafts.set(node.id, draft);
+      }
+      return draft;
+    };
+
+    for (const purchase of periodPurchases) {
+      const buyer = nodes.get(purchase.userId);
+      if (!buyer || !purchase.paidAt) continue;
+      const bv = parseFloat(purchase.totalBV);
+
+      // Direct sponsor income
+      const sponsor = buyer.sponsorId ? nodes.get(buyer.sponsorId) : undefined;
+      if (sponsor) {
+        const amount = roundMoney(bv * plan.sponsorIncomeRate);
+        if (amount > 0) {
+          const draft = getDraft(sponsor);
+          draft.sponsorIncome = roundMoney(draft.sponsorIncome + amount);
+          draft.lines.push({
+            type: 'sponsor_income',
+            amount,
+            description: `Sponsor Income from ${buyer.firstName} ${buyer.lastName}`,
+            referenceId: purchase.id,
+            date: purchase.paidAt.toISOString(),
+            metadata: { bv, rate: plan.sponsorIncomeRate, planVersion },
+          });
+        }
+      }
+
+      // Leg volume for every upline in the binary tree
+      const dayKey = startOfDay(purchase.paidAt).toISOString();
+      const visited = new Set<string>([buyer.id]);
+      let current = buyer;
+      while (current.parentId && !visited.has(current.parentId)) {
+        const parent = nodes.get(current.parentId);
+        if (!parent) break;
+        visited.add(parent.id);
+
+        let days = dailyVolumes.get(parent.id);
+        if (!days) {
+          days = new Map();
+          dailyVolumes.set(parent.id, days);
+        }
+        let volume = days.get(dayKey);
+        if (!volume) {
+          volume = { day: new Date(dayKey), leftBV: 0, rightBV: 0 };
+          days.set(dayKey, volume);
+        }
+        if (current.position === 'left') {
+          volume.leftBV += bv;
+        } else if (current.position === 'right') {
+          volume.rightBV += bv;
+        }
+
+        current = parent;
+      }
+    }
+
+    for (const [userId, days] of Array.from(dailyVolumes.entries())) {
+      const node = nodes.get(userId)!;
+      const draft = getDraft(node);
+      const volumes = Array.from(days.values());
+      draft.periodLeftBV = roundMoney(volumes.reduce((sum, v) => sum + v.leftBV, 0));
+      draft.periodRightBV = roundMoney(volumes.reduce((sum, v) => sum + v.rightBV, 0));
+
+      const match = binaryMatchingService.matchPeriod(
+        volumes,
+        draft.openingLeftCarryBV,
+        draft.openingRightCarryBV,
+        node.currentRank,
+        plan,
+        { [weekStart.toISOString()]: paidEarlierThisWeek.get(userId) ?? 0 }
+      );
+      draft.matchedBV = match.matchedBV;
+      draft.salesBonus = match.payout;
+      draft.cappedAmount = match.cappedAmount;
+      draft.closingLeftCarryBV = match.leftCarryForwardBV;
+      draft.closingRightCarryBV = match.rightCarryForwardBV;
+
+      if (!activeUserIds.has(userId)) {
+        draft.salesBonus = 0;
+        draft.lapsedAmount = match.payout;
+        if (match.matchedBV > 0) {
+          draft.lines.push({
+            type: 'sales_bonus',
+            amount: 0,
+            description: `Binary matching on ${match.matchedBV.toFixed(2)} BV lapsed: ID not active for this period`,
+            date: from.toISOString(),
+            metadata: { matchedBV: match.matchedBV, lapsedAmount: match.payout, monthlyRepurchaseBV: plan.activation.monthlyRepurchaseBV },
+          });
+        }
+        continue;
+      }
+
+      for (const day of match.days) {
+        draft.lines.push({
+          type: 'sales_bonus',
+          amount: day.payout,
+          description: `Binary matching on ${day.matchedBV.toFixed(2)} BV`,
+          date: day.day.toISOString(),
+          metadata: {
+            matchedBV: day.matchedBV,
+            grossIncome: day.grossIncome,
+            cappedAmount: day.cappedAmount,
+            leftCarryForwardBV: day.leftCarryForwardBV,
+            rightCarryForwardBV: day.rightCarryForwardBV,
+            dailyCap: match.dailyCap,
+            weeklyCap: match.weeklyCap,
+          },
+        });
+      }
+    }
+
+    const statements = Array.from(drafts.values());
+    for (const draft of statements) {
+      draft.totalAmount = roundMoney(draft.sponsorIncome + draft.salesBonus);
+      draft.lines.sort((a, b) => a.date.localeCompare(b.date));
+    }
+    return { planVersion, statements };
+  }
+
+  /**
+   * Sales bonus per user on statements of earlier cycles for days in
+   * [from, to), read from their itemised lines. A cycle boundary can fall
+   * mid-week, and the weekly cap counts what the earlier cycle paid that week.
+   */
+  private async getSalesBonusPaid(from: Date, to: Date): Promise<Map<string, number>> {
+    if (from >= to) return new Map();
+    const result = await db.execute(sql`
+      SELECT s.user_id, SUM((line->>'amount')::numeric) AS paid
+      FROM ${payoutStatements} s
+      JOIN ${payoutCycles} c ON c.id = s.cycle_id
+      CROSS JOIN LATERAL jsonb_array_elements(COALESCE(s.lines, '[]'::jsonb)) line
+      WHERE c.period_end > ${from.toISOString()}::timestamp AND c.period_start < ${to.toISOString()}::timestamp
+        AND line->>'type' = 'sales_bonus'
+        AND (line->>'date')::timestamptz >= ${from.toISOString()}::timestamptz
+        AND (line->>'date')::timestamptz < ${to.toISOString()}::timestamptz
+      GROUP BY s.user_id
+    `);
+    return new Map((result.rows as { user_id: string; paid: string }[]).map(row => [row.user_id, parseFloat(row.paid)]));
+  }
+
+  private summarise(statements: PayoutStatementDraft[]) {
+    return {
+      totalUsers: statements.length,
+      totalSponsorIncome: roundMoney(statements.reduce((sum, s) => sum + s.sponsorIncome, 0)),
+      totalSalesBonus: roundMoney(statements.reduce((sum, s) => sum + s.salesBonus, 0)),
+      totalPayout: roundMoney(statements.reduce((sum, s) => sum + s.totalAmount, 0)),
+    };
+  }
+}
+
+export const payoutCycleService = new PayoutCycleService();
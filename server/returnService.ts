@@ -0,0 +1,270 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import {
+  purchaseReturns,
+  purchaseReversals,
+  purchases,
+  orders,
+  products,
+  users,
+  notifications,
+  type PurchaseReturn,
+  type RefundReturn,
+} from "@shared/schema";
+import { eq, and, inArray, desc, ne } from "drizzle-orm";
+import { ledgerService } from "./ledgerService";
+import { getPaymentGateway } from "./paymentGateway";
+import { invoiceService } from "./invoiceService";
+import { clawbackService } from "./clawbackService";
+import { inventoryService } from "./inventoryService";
+import { toPaise, fromPaise } from "./money";
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'refunded';
+
+// Purchases can be returned for this many days after payment
+export const RETURN_WINDOW_DAYS = 7;
+
+export class ReturnService {
+  /**
+   * Ask to return a paid purchase line within the return window
+   */
+  async requestReturn(userId: string, purchaseId: string, reason: string): Promise<PurchaseReturn> {
+    const [purchase] = await db.select().from(purchases)
+      .where(and(eq(purchases.id, purchaseId), eq(purchases.userId, userId)));
+    if (!purchase) {
+      throw new Error('Purchase not found');
+    }
+    if (purchase.paymentStatus !== 'paid' || !purchase.paidAt) {
+      throw new Error('Only paid purchases can be returned');
+    }
+    const deadline = new Date(purchase.paidAt.getTime() + RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    if (deadline < new Date()) {
+      throw new Error(`Returns are accepted within ${RETURN_WINDOW_DAYS} days of payment`);
+    }
+
+    const [open] = await db.select().from(purchaseReturns)
+      .where(and(eq(purchaseReturns.purchaseId, purchaseId), ne(purchaseReturns.status, 'rejected')));
+    if (open) {
+      throw new Error(`A return for this purchase is already ${open.status}`);
+    }
+
+    const [request] = await db.insert(purchaseReturns).values({
+      purchaseId,
+      orderId: purchase.orderId,
+      userId,
+      reason,
+      refundAmount: fromPaise(toPaise(purchase.totalAmount) + toPaise(purchase.taxAmount || '0')),
+    }).returning();
+
+    console.log(`Return ${request.id} requested for purchase ${purchaseId} by user ${userId}`);
+    return request;
+  }
+
+  async approve(returnId: string, adminId: string, notes?: string): Promise<PurchaseReturn> {
+    return this.review(returnId, 'approved', adminId, notes);
+  }
+
+  async reject(returnId: string, adminId: string, notes?: string): Promise<PurchaseReturn> {
+    const rejected = await this.review(returnId, 'rejected', adminId, notes);
+    await this.notify(rejected, 'return_rejected', 'Return Rejected',
+      `Your return request was rejected${notes ? `: ${notes}` : '.'}`);
+    return rejected;
+  }
+
+  private async review(returnId: string, status: ReturnStatus, adminId: string, notes?: string): Promise<PurchaseReturn> {
+    const now = new Date();
+    const [reviewed] = await db.update(purchaseReturns)
+      .set({ status, adminNotes: notes, reviewedBy: adminId, reviewedAt: now, updatedAt: now })
+      .where(and(eq(purchaseReturns.id, returnId), eq(purchaseReturns.status, 'requested')))
+      .returning();
+    if (!reviewed) {
+      const existing = await this.getReturn(returnId);
+      throw new Error(`Only requested returns can be reviewed (current status: ${existing.status})`);
+    }
+    return reviewed;
+  }
+
+  /**
+   * Refund an approved return to the buyer's wallet, or back through the
+   * gateway when the order was paid there ('original'; wallet-paid orders go
+   * back to the wallet either way). The line is marked refunded and the
+   * income paid on it is reversed by clawbackService.
+   */
+  async refund(returnId: string, data: RefundReturn, adminId: string): Promise<PurchaseReturn> {
+    const request = await this.getReturn(returnId);
+    if (request.status !== 'approved') {
+      throw new Error(`Only approved returns can be refunded (current status: ${request.status})`);
+    }
+    const [purchase] = await db.select().from(purchases).where(eq(purchases.id, request.purchaseId));
+    if (!purchase || purchase.paymentStatus !== 'paid') {
+      throw new Error('The purchase is no longer paid');
+    }
+    const [order] = purchase.orderId
+      ? await db.select().from(orders).where(eq(orders.id, purchase.orderId))
+      : [];
+    await clawbackService.assertReversible([purchase]);
+
+    // Claim the return and the line so a concurrent refund cannot pay out twice
+    const now = new Date();
+    const [claimed] = await db.update(purchaseReturns)
+      .set({ status: 'refunded', refundedAt: now, updatedAt: now })
+      .where(and(eq(purchaseReturns.id, returnId), eq(purchaseReturns.status, 'approved')))
+      .returning();
+    if (!claimed) {
+      throw new Error('Return was modified concurrently');
+    }
+    const reason = `Return ${returnId}: ${request.reason}`;
+    const reversalId = randomUUID();
+    const [[refundedLine]] = await db.batch([
+      db.update(purchases)
+        .set({ paymentStatus: 'refunded', updatedAt: now })
+        .where(and(eq(purchases.id, purchase.id), eq(purchases.paymentStatus, 'paid')))
+        .returning(),
+      clawbackService.reversalStatement(
+        reversalId,
+        and(eq(purchases.id, purchase.id), eq(purchases.paymentStatus, 'refunded'), eq(purchases.updatedAt, now))!,
+        reason,
+        returnId
+      ),
+    ]);
+    if (!refundedLine) {
+      await this.release(returnId);
+      throw new Error('The purchase is no longer paid');
+    }
+
+    const amount = claimed.refundAmount!;
+    const toGateway = data.refundMethod === 'original' && order?.paymentMethod === 'gateway';
+    let refundJournalId: string | undefined;
+    let gatewayRefundId: string | undefined;
+    try {
+      if (toGateway) {
+        if (!order.gatewayProvider || !order.gatewayPaymentId) {
+          throw new Error(`Order ${order.orderNumber} has no gateway payment to refund`);
+        }
+        ({ refundId: gatewayRefundId } = await getPaymentGateway(order.gatewayProvider).refundPayment(order.gatewayPaymentId, amount));
+      } else {
+        const { journal } = await ledgerService.post({
+          type: 'purchase',
+          description: `Refund for returned purchase${order ? ` on order ${order.orderNumber}` : ''}`,
+          referenceId: returnId,
+          metadata: { returnId, purchaseId: purchase.id, orderId: purchase.orderId },
+          createdBy: adminId,
+          lines: [
+            { account: { type: 'sales_revenue' }, direction: 'debit', amount },
+            { account: { type: 'user_wallet', userId: purchase.userId }, direction: 'credit', amount },
+          ],
+        });
+        refundJournalId = journal.id;
+      }
+    } catch (error) {
+      await db.batch([
+        db.update(purchases)
+          .set({ paymentStatus: 'paid', updatedAt: new Date() })
+          .where(eq(purchases.id, purchase.id)),
+        db.delete(purchaseReversals).where(eq(purchaseReversals.id, reversalId)),
+      ]);
+      await this.release(returnId);
+      throw error;
+    }
+
+    // Also stored on the return by the reversal itself, including when a retry completes it
+    const reversal = await clawbackService.applyReversal(reversalId);
+    const [refunded] = await db.update(purchaseReturns)
+      .set({
+        refundMethod: toGateway ? 'original' : 'wallet',
+        refundJournalId,
+        gatewayRefundId,
+        reversal,
+        adminNotes: data.notes ?? request.adminNotes,
+        updatedAt: new Date(),
+      })
+      .where(eq(purchaseReturns.id, returnId))
+      .returning();
+
+    if (order) {
+      await inventoryService.returnLines(order, [{ productId: purchase.productId, quantity: purchase.quantity || 1, purchaseId: purchase.id }], reason);
+      await this.closeRefundedOrder(order.id, reason);
+    }
+    await this.notify(refunded, 'return_refunded', 'Return Refunded',
+      `${amount} has been refunded ${toGateway ? 'to your original payment method' : 'to your wallet'} for your returned purchase.`);
+    console.log(`Return ${returnId} refunded: ${amount} via ${refunded.refundMethod}, ${reversal ? `${reversal.clawbacks.length} clawbacks` : 'reversal pending'}`);
+    return refunded;
+  }
+
+  private async release(returnId: string): Promise<void> {
+    await db.update(purchaseReturns)
+      .set({ status: 'approved', refundedAt: null, updatedAt: new Date() })
+      .where(eq(purchaseReturns.id, returnId));
+  }
+
+  /**
+   * Once every line of an order is refunded the order is too, and its
+   * invoice is cancelled. Partly returned orders keep their invoice.
+   */
+  private async closeRefundedOrder(orderId: string, reason: string): Promise<void> {
+    const [stillPaid] = await db.select({ id: purchases.id }).from(purchases)
+      .where(and(eq(purchases.orderId, orderId), ne(purchases.paymentStatus, 'refunded')))
+      .limit(1);
+    if (stillPaid) return;
+
+    const now = new Date();
+    const [closed] = await db.update(orders)
+      .set({ status: 'refunded', refundedAt: now, refundReason: reason, updatedAt: now })
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'paid')))
+      .returning();
+    if (closed) {
+      await invoiceService.cancelForOrder(orderId, reason);
+    }
+  }
+
+  private async notify(request: PurchaseReturn, type: string, title: string, message: string): Promise<void> {
+    await db.insert(notifications).values({
+      userId: request.userId,
+      type,
+      title,
+      message,
+      data: { returnId: request.id, purchaseId: request.purchaseId, orderId: request.orderId },
+    });
+  }
+
+  async getReturn(returnId: string): Promise<PurchaseReturn> {
+    const [request] = await db.select().from(purchaseReturns).where(eq(purchaseReturns.id, returnId));
+    if (!request) {
+      throw new Error('Return not found');
+    }
+    return request;
+  }
+
+  async getUserReturns(userId: string): Promise<PurchaseReturn[]> {
+    return db.select().from(purchaseReturns)
+      .where(eq(purchaseReturns.userId, userId))
+      .orderBy(desc(purchaseReturns.createdAt));
+  }
+
+  async getReturns(statuses?: ReturnStatus[]) {
+    const rows = await db
+      .select({
+        request: purchaseReturns,
+        productName: products.name,
+        orderNumber: orders.orderNumber,
+        paymentMethod: orders.paymentMethod,
+        user: { userId: users.userId, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      })
+      .from(purchaseReturns)
+      .leftJoin(purchases, eq(purchaseReturns.purchaseId, purchases.id))
+      .leftJoin(products, eq(purchases.productId, products.id))
+      .leftJoin(orders, eq(purchaseReturns.orderId, orders.id))
+      .leftJoin(users, eq(purchaseReturns.userId, users.id))
+      .where(statuses?.length ? inArray(purchaseReturns.status, statuses) : undefined)
+      .orderBy(desc(purchaseReturns.createdAt));
+    return rows.map(row => ({
+      ...row.request,
+      productName: row.productName,
+      orderNumber: row.orderNumber,
+      paymentMethod: row.paymentMethod,
+      user: row.user,
+    }));
+  }
+}
+
+export const returnService = new ReturnService();
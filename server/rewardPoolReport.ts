@@ -0,0 +1,69 @@
+// Reward pool audit report as CSV.
+// Pure functions only: the reward pool service supplies the run, pool reports and payouts.
+
+import type { RewardPoolRun, RewardPoolReport, RewardPoolPayout } from "@shared/schema";
+
+export interface RewardPoolReportPayout extends RewardPoolPayout {
+  memberId: string | null; // Display ID like VV0001
+  memberName: string;
+}
+
+export interface RewardPoolReportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One section per pool with its funding, qualifiers and share value,
+ * followed by every qualifier's payout
+ */
+export function buildRewardPoolReport(
+  run: RewardPoolRun,
+  reports: RewardPoolReport[],
+  payouts: RewardPoolReportPayout[]
+): RewardPoolReportFile {
+  const month = run.month.toISOString().slice(0, 7);
+  const pools = [
+    ['Pool', 'Month', 'Turnover BV', 'Turnover Rate', 'Pool Amount', 'Min Rank', 'Min Matched BV', 'Qualifiers', 'Total Shares', 'Share Value', 'Distributed', 'Undistributed'],
+    ...reports.map(report => [
+      report.poolName,
+      month,
+      run.turnoverBV,
+      report.turnoverRate,
+      report.poolAmount,
+      report.minRank,
+      report.minMatchedBV,
+      String(report.qualifiers ?? 0),
+      String(report.totalShares ?? 0),
+      report.shareValue ?? '0.00',
+      report.distributedAmount ?? '0.00',
+      report.undistributedAmount ?? '0.00',
+    ]),
+  ];
+
+  const poolNames = new Map(reports.map(report => [report.id, report.poolName]));
+  const qualifiers = [
+    ['Pool', 'Member ID', 'Member', 'Rank', 'Matched BV', 'Shares', 'Amount', 'Status'],
+    ...payouts.map(payout => [
+      poolNames.get(payout.reportId) ?? payout.poolType,
+      payout.memberId ?? payout.userId,
+      payout.memberName,
+      payout.rank,
+      payout.matchedBV,
+      String(payout.shares),
+      payout.amount,
+      payout.status ?? 'pending',
+    ]),
+  ];
+
+  return {
+    filename: `reward-pools-${month}.csv`,
+    contentType: 'text/csv',
+    content: [...pools, [], ...qualifiers].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+  };
+}
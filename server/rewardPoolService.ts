@@ -0,0 +1,347 @@
+import { randomUUID } from "crypto";
+import { db, runBatch } from "./db";
+import {
+  users,
+  purchases,
+  payoutCycles,
+  payoutStatements,
+  rankAchievements,
+  rewardPoolRuns,
+  rewardPoolReports,
+  rewardPoolPayouts,
+  transactions,
+  type RewardPoolRun,
+  type RewardPoolReport,
+  type RewardPoolPayout,
+  type TransactionType,
+} from "@shared/schema";
+import { eq, and, gte, lt, ne, or, isNull, asc, desc, sql } from "drizzle-orm";
+import { ledgerService, DuplicatePostingError } from "./ledgerService";
+import { compensationPlanService } from "./compensationPlanService";
+import { clawbackService } from "./clawbackService";
+import { toPaise, fromPaise, percentOf } from "./money";
+import { buildRewardPoolReport, type RewardPoolReportFile } from "./rewardPoolReport";
+import type { CompensationPlanDefinition } from "@shared/compensationPlan";
+
+export interface RewardPoolRunDetails {
+  run: RewardPoolRun;
+  reports: RewardPoolReport[];
+  payouts: RewardPoolPayout[];
+}
+
+// A distributor's standing for the month, as far as pool qualification is concerned
+interface PoolCandidate {
+  userId: string;
+  rank: string;
+  rankIndex: number; // Position of the rank in the plan, lowest first
+  matchedBV: number;
+}
+
+const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+const addMonths = (month: Date, months: number): Date => new Date(month.getFullYear(), month.getMonth() + months, 1);
+
+export class RewardPoolService {
+  async getRuns(): Promise<RewardPoolRun[]> {
+    return await db.select().from(rewardPoolRuns).orderBy(desc(rewardPoolRuns.month));
+  }
+
+  async getRun(runId: string): Promise<RewardPoolRunDetails | undefined> {
+    const [run] = await db.select().from(rewardPoolRuns).where(eq(rewardPoolRuns.id, runId));
+    if (!run) return undefined;
+    const reports = await db.select().from(rewardPoolReports)
+      .where(eq(rewardPoolReports.runId, runId))
+      .orderBy(asc(rewardPoolReports.createdAt));
+    const payouts = await db.select().from(rewardPoolPayouts)
+      .where(eq(rewardPoolPayouts.runId, runId))
+      .orderBy(asc(rewardPoolPayouts.poolType), desc(rewardPoolPayouts.amount));
+    return { run, reports, payouts };
+  }
+
+  /**
+   * Audit report of a run as CSV: per-pool turnover, qualifiers and share
+   * value, then every payout
+   */
+  async exportReport(runId: string): Promise<RewardPoolReportFile> {
+    const details = await this.getRun(runId);
+    if (!details) {
+      throw new Error('Reward pool run not found');
+    }
+    const members = await db
+      .select({ id: users.id, userId: users.userId, firstName: users.firstName, lastName: users.lastName })
+      .from(users)
+      .innerJoin(rewardPoolPayouts, eq(rewardPoolPayouts.userId, users.id))
+      .where(eq(rewardPoolPayouts.runId, runId));
+    const memberById = new Map(members.map(member => [member.id, member]));
+
+    return buildRewardPoolReport(details.run, details.reports, details.payouts.map(payout => {
+      const member = memberById.get(payout.userId);
+      return {
+        ...payout,
+        memberId: member?.userId ?? null,
+        memberName: [member?.firstName, member?.lastName].filter(Boolean).join(' '),
+      };
+    }));
+  }
+
+  // ===== DISTRIBUTION =====
+  /**
+   * Distribute the reward pools for the month containing the given date. Each
+   * pool is funded with its rate of the month's company-wide paid BV and split
+   * by shares among active IDs that held the pool's minimum rank at month end
+   * and matched enough BV in the month's payout cycles. A month is only ever
+   * computed once; calling again retries payouts that were not credited yet.
+   */
+  async distributeMonth(date: Date, actorId: string, now: Date = new Date()): Promise<{ run: RewardPoolRun; credited: number; failed: number }> {
+    const month = startOfMonth(date);
+    if (addMonths(month, 1) > now) {
+      throw new Error('Reward pools can only be distributed once the month has ended');
+    }
+
+    let [run] = await db.select().from(rewardPoolRuns).where(eq(rewardPoolRuns.month, month));
+    if (!run) {
+      if (await this.hasOpenCycles(month)) {
+        throw new Error("Close this month's payout cycles before distributing reward pools");
+      }
+      try {
+        await this.computeRun(month, actorId);
+      } catch (error) {
+        // Fine when a concurrent distribution of the same month got there first
+        const [existing] = await db.select().from(rewardPoolRuns).where(eq(rewardPoolRuns.month, month));
+        if (!existing) throw error;
+      }
+      [run] = await db.select().from(rewardPoolRuns).where(eq(rewardPoolRuns.month, month));
+    }
+
+    const reports = await db.select().from(rewardPoolReports).where(eq(rewardPoolReports.runId, run.id));
+    const pending = await db.select().from(rewardPoolPayouts)
+      .where(and(eq(rewardPoolPayouts.runId, run.id), eq(rewardPoolPayouts.status, 'pending')));
+
+    let credited = 0;
+    let failed = 0;
+    for (const payout of pending) {
+      try {
+        await this.creditPayout(run, reports.find(report => report.id === payout.reportId)!, payout);
+        credited++;
+      } catch (error) {
+        failed++;
+        console.error(`Failed to credit reward pool payout ${payout.id}:`, error);
+      }
+    }
+    return { run, credited, failed };
+  }
+
+  /**
+   * Distribute last month once its payout cycles are closed
+   */
+  async runScheduledDistribution(now: Date = new Date()): Promise<void> {
+    const month = addMonths(startOfMonth(now), -1);
+    const [run] = await db.select().from(rewardPoolRuns).where(eq(rewardPoolRuns.month, month));
+    if (!run && await this.hasOpenCycles(month)) {
+      // Retried on the next run
+      return;
+    }
+    await this.distributeMonth(month, 'system', now);
+  }
+
+  private async hasOpenCycles(month: Date): Promise<boolean> {
+    const [open] = await db.select({ id: payoutCycles.id }).from(payoutCycles)
+      .where(and(
+        eq(payoutCycles.status, 'open'),
+        gte(payoutCycles.periodStart, month),
+        lt(payoutCycles.periodStart, addMonths(month, 1))
+      ))
+      .limit(1);
+    return !!open;
+  }
+
+  /**
+   * Record the run, one audit report per pool and the payouts, all in one batch
+   */
+  private async computeRun(month: Date, actorId: string): Promise<void> {
+    const { version: planVersion, definition: plan } = await compensationPlanService.getActivePlan(month);
+    const nextMonth = addMonths(month, 1);
+    if (new Set(plan.rewardPools.map(pool => pool.type)).size !== plan.rewardPools.length) {
+      throw new Error(`Compensation plan v${planVersion} configures the same reward pool more than once`);
+    }
+
+    const [{ turnoverBV }] = await db
+      .select({ turnoverBV: sql<string>`coalesce(sum(${purchases.totalBV}), 0)::text` })
+      .from(purchases)
+      .where(and(
+        eq(purchases.paymentStatus, 'paid'),
+        gte(purchases.paidAt, month),
+        lt(purchases.paidAt, nextMonth)
+      ));
+    const turnoverPaise = toPaise(turnoverBV);
+    const candidates = await this.getCandidates(month, plan);
+
+    const runId = randomUUID();
+    const reports: (typeof rewardPoolReports.$inferInsert)[] = [];
+    const payouts: (typeof rewardPoolPayouts.$inferInsert)[] = [];
+    let totalPaise = BigInt(0);
+
+    for (const pool of plan.rewardPools) {
+      const reportId = randomUUID();
+      const minRankIndex = plan.ranks.findIndex(rank => rank.name === pool.minRank);
+      const qualifiers = minRankIndex < 0 ? [] : candidates
+        .filter(candidate => candidate.rankIndex >= minRankIndex && candidate.matchedBV >= pool.minMatchedBV)
+        .map(candidate => ({ ...candidate, shares: candidate.rankIndex - minRankIndex + 1 }));
+
+      // BV is valued 1:1 in rupees; the rounding remainder stays in the payout pool
+      const poolPaise = percentOf(turnoverPaise, pool.turnoverRate);
+      const totalShares = qualifiers.reduce((sum, qualifier) => sum + qualifier.shares, 0);
+      const shareValuePaise = totalShares > 0 ? poolPaise / BigInt(totalShares) : BigInt(0);
+
+      let distributedPaise = BigInt(0);
+      for (const qualifier of qualifiers) {
+        const amountPaise = shareValuePaise * BigInt(qualifier.shares);
+        if (amountPaise <= BigInt(0)) continue;
+        distributedPaise += amountPaise;
+        payouts.push({
+          runId,
+          reportId,
+          poolType: pool.type,
+          userId: qualifier.userId,
+          rank: qualifier.rank,
+          matchedBV: qualifier.matchedBV.toFixed(2),
+          shares: qualifier.shares,
+          amount: fromPaise(amountPaise),
+        });
+      }
+      totalPaise += distributedPaise;
+
+      reports.push({
+        id: reportId,
+        runId,
+        poolType: pool.type,
+        poolName: pool.name,
+        turnoverRate: pool.turnoverRate.toFixed(4),
+        poolAmount: fromPaise(poolPaise),
+        minRank: pool.minRank,
+        minMatchedBV: pool.minMatchedBV.toFixed(2),
+        qualifiers: qualifiers.length,
+        totalShares,
+        shareValue: fromPaise(shareValuePaise),
+        distributedAmount: fromPaise(distributedPaise),
+        undistributedAmount: fromPaise(poolPaise - distributedPaise),
+      });
+    }
+
+    // The run is inserted first so a concurrent run of the same month fails the whole batch
+    const statements = [
+      db.insert(rewardPoolRuns).values({
+        id: runId,
+        month,
+        planVersion,
+        turnoverBV: fromPaise(turnoverPaise),
+        totalAmount: fromPaise(totalPaise),
+        runBy: actorId,
+      }),
+      ...reports.map(report => db.insert(rewardPoolReports).values(report)),
+      ...payouts.map(payout => db.insert(rewardPoolPayouts).values(payout)),
+    ];
+    await runBatch(statements);
+    console.log(`Reward pools for ${month.toISOString()}: ${turnoverBV} BV turnover, ${payouts.length} payouts, ${fromPaise(totalPaise)} distributed`);
+  }
+
+  /**
+   * Active IDs with their highest rank held at the end of the month (revoked
+   * achievements excluded) and their matched BV from the month's closed cycles
+   */
+  private async getCandidates(month: Date, plan: CompensationPlanDefinition): Promise<PoolCandidate[]> {
+    const nextMonth = addMonths(month, 1);
+
+    const matched = await db
+      .select({ userId: payoutStatements.userId, matchedBV: sql<string>`sum(${payoutStatements.matchedBV})::text` })
+      .from(payoutStatements)
+      .innerJoin(payoutCycles, eq(payoutStatements.cycleId, payoutCycles.id))
+      .where(and(
+        ne(payoutCycles.status, 'open'),
+        gte(payoutCycles.periodStart, month),
+        lt(payoutCycles.periodStart, nextMonth)
+      ))
+      .groupBy(payoutStatements.userId);
+    const matchedBV = new Map(matched.map(row => [row.userId, parseFloat(row.matchedBV || '0')]));
+
+    const achievements = await db
+      .select({ userId: rankAchievements.userId, rank: rankAchievements.rank })
+      .from(rankAchievements)
+      .innerJoin(users, eq(rankAchievements.userId, users.id))
+      .where(and(
+        eq(users.idStatus, 'Active'),
+        lt(rankAchievements.achievedAt, nextMonth),
+        or(isNull(rankAchievements.revokedAt), gte(rankAchievements.revokedAt, nextMonth))
+      ));
+
+    const candidates = new Map<string, PoolCandidate>();
+    for (const achievement of achievements) {
+      const rankIndex = plan.ranks.findIndex(rank => rank.name === achievement.rank);
+      const current = candidates.get(achievement.userId);
+      if (rankIndex < 0 || (current && current.rankIndex >= rankIndex)) continue;
+      candidates.set(achievement.userId, {
+        userId: achievement.userId,
+        rank: achievement.rank,
+        rankIndex,
+        matchedBV: matchedBV.get(achievement.userId) ?? 0,
+      });
+    }
+    return Array.from(candidates.values());
+  }
+
+  /**
+   * Credit one payout. The wallet journal and the payout's status commit
+   * together in one batch, so a failure leaves the payout pending for the
+   * next distribution; the journal is keyed by payout, so a concurrent
+   * distribution fails instead of paying twice.
+   */
+  private async creditPayout(run: RewardPoolRun, report: RewardPoolReport, payout: RewardPoolPayout): Promise<void> {
+    const monthLabel = run.month.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+    const type = payout.poolType as TransactionType;
+    const posting = ledgerService.walletMovement(
+      payout.userId,
+      payout.amount,
+      `${report.poolName} for ${monthLabel}: ${payout.shares} share${payout.shares === 1 ? '' : 's'} at ₹${report.shareValue}`,
+      type,
+      {
+        referenceId: payout.id,
+        idempotencyKey: `reward_pool_payout:${payout.id}`,
+        metadata: {
+          runId: run.id,
+          reportId: report.id,
+          month: run.month.toISOString(),
+          rank: payout.rank,
+          matchedBV: payout.matchedBV,
+          shares: payout.shares,
+          shareValue: report.shareValue,
+          poolAmount: report.poolAmount,
+          turnoverBV: run.turnoverBV,
+        },
+      }
+    );
+
+    try {
+      await ledgerService.postBatch([posting], [
+        db.update(rewardPoolPayouts)
+          .set({
+            status: 'credited',
+            creditedAt: new Date(),
+            transactionId: sql`(SELECT ${transactions.id} FROM ${transactions} WHERE ${transactions.userId} = ${payout.userId} AND ${transactions.type} = ${type} AND ${transactions.referenceId} = ${payout.id} LIMIT 1)`,
+          })
+          .where(and(eq(rewardPoolPayouts.id, payout.id), eq(rewardPoolPayouts.status, 'pending'))),
+      ]);
+    } catch (error) {
+      // Another distribution credited it first
+      if (error instanceof DuplicatePostingError) return;
+      throw error;
+    }
+
+    // Income taken back after refunds is recovered from the new credit first
+    try {
+      await clawbackService.recoverOutstanding(payout.userId);
+    } catch (error) {
+      console.error(`Failed to recover clawbacks for user ${payout.userId}:`, error);
+    }
+  }
+}
+
+export const rewardPoolService = new RewardPoolService();
@@ -1,7 +1,7 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { createUserSchema, updateUserSchema, signupUserSchema, passwordResetSchema, recruitUserSchema, completeUserRegistrationSchema, users, pendingRecruits, referralLinks, kycDocuments } from "@shared/schema";
+import { createUserSchema, updateUserSchema, signupUserSchema, passwordResetSchema, recruitUserSchema, completeUserRegistrationSchema, placementStrategies, users, pendingRecruits, referralLinks, kycDocuments } from "@shared/schema";
 import { z } from "zod";
 import session from "express-session";
 import ConnectPgSimple from "connect-pg-simple";
@@ -9,6 +9,15 @@ import { sendSignupEmail, sendPasswordResetEmail, sendUserInvitationEmail } from
 import { nanoid } from "nanoid";
 
 import mlmRoutes from "./mlmRoutes";
+import { payoutCycleService } from "./payoutCycleService";
+import { consistencyBonusService } from "./consistencyBonusService";
+import { rewardPoolService } from "./rewardPoolService";
+import { bvService } from "./bvService";
+import { treePathService } from "./treePathService";
+import { orderService } from "./orderService";
+import { clawbackService } from "./clawbackService";
+import { PlacementError } from "./binaryTreeService";
+import { requireTxnPin, changesBankDetails } from "./txnPinService";
 import { db } from "./db";
 import { eq, lt, and, sql } from "drizzle-orm";
 
@@ -1327,7 +1336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Referral link endpoints
   app.post('/api/referral/generate', isAuthenticated, async (req: any, res) => {
     try {
-      const { placementType, placementSide, parentId } = req.body; // Placement type, side, and optional parent ID
+      const { placementType, placementSide, parentId, placementStrategy } = req.body; // Placement type, side, optional parent ID and spillover strategy
       const userId = req.user.id;
       const userRole = req.user.role;
       
@@ -1335,6 +1344,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Valid placement type and side (left/right) are required' });
       }
       
+      if (placementStrategy && !placementStrategies.includes(placementStrategy)) {
+        return res.status(400).json({ message: `Placement strategy must be one of: ${placementStrategies.join(', ')}` });
+      }
+      
       // Validate parentId requirement for strategic placement
       if (placementType === 'strategic' && !parentId) {
         return res.status(400).json({ message: 'Parent ID is required for strategic placement' });
@@ -1396,6 +1409,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         generatedBy: userId,
         generatedByRole: userRole,
         placementSide,
+        placementStrategy: placementType === 'strategic' ? null : placementStrategy || null,
         pendingRecruitId: pendingRecruitId, // Link to strategic placement info
         expiresAt
       });
@@ -1575,6 +1589,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         pendingRecruitId = pendingRecruit.id;
       }
       
+      // The link's spillover strategy decides placement at approval
+      if (referralLink.placementStrategy) {
+        await db.update(pendingRecruits)
+          .set({ placementStrategy: referralLink.placementStrategy, updatedAt: new Date() })
+          .where(eq(pendingRecruits.id, pendingRecruitId));
+      }
+      
       // Mark referral link as used
       await storage.markReferralLinkAsUsed(token, pendingRecruitId);
       
@@ -1746,18 +1767,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/founder/override-placement', isAuthenticated, isFounder, async (req: any, res) => {
     try {
-      const { userId, newParentId, position } = req.body;
+      const { userId, newParentId, position, reason } = req.body;
       
       if (!userId || !newParentId || !['left', 'right'].includes(position)) {
         return res.status(400).json({ message: 'Valid userId, newParentId, and position are required' });
       }
       
-      await storage.overridePlacement(userId, newParentId, position);
+      const move = await storage.overridePlacement(userId, newParentId, position, { id: req.user.id, role: req.user.role }, reason);
       
       res.json({
-        message: 'Placement overridden successfully'
+        message: 'Placement overridden successfully',
+        move
       });
     } catch (error) {
+      if (error instanceof PlacementError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error overriding placement:', error);
       res.status(500).json({ message: 'Failed to override placement' });
     }
@@ -2564,8 +2589,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // User profile update endpoint for pending users
-  app.put('/api/user/profile', isAuthenticated, async (req, res) => {
+  // User profile update endpoint for pending users (changing saved bank details needs the transaction PIN)
+  app.put('/api/user/profile', isAuthenticated, requireTxnPin({ when: (req, user) => changesBankDetails(req.body, user) }), async (req, res) => {
     try {
       const userId = (req.session as any)?.userId;
       if (!userId) {
@@ -2615,10 +2640,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'User is not in pending status' });
       }
 
-      // Activate the user
+      // Let the user sign in; the ID itself is activated by a first purchase
       const updatedUser = await storage.updateUser(userId, { 
-        status: 'active',
-        activationDate: new Date()
+        status: 'active'
       });
 
       res.json({ 
@@ -2776,6 +2800,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }, 60 * 60 * 1000); // Run every hour
 
+  // Cancel orders left unpaid and give their stock back
+  setInterval(async () => {
+    try {
+      await orderService.expirePendingOrders();
+    } catch (error) {
+      console.error('Error expiring unpaid orders:', error);
+    }
+  }, 60 * 60 * 1000); // Run every hour
+
+  // Finish income reversals of refunds that could not complete straight away
+  setInterval(async () => {
+    try {
+      await clawbackService.retryPendingReversals();
+    } catch (error) {
+      console.error('Error retrying purchase reversals:', error);
+    }
+  }, 60 * 60 * 1000); // Run every hour
+
+  // Close finished payout cycles and keep a cycle open for the current period
+  setInterval(async () => {
+    try {
+      await payoutCycleService.runScheduledCycles();
+    } catch (error) {
+      console.error('Error in scheduled payout cycles:', error);
+    }
+  }, 60 * 60 * 1000); // Run every hour
+
+  // Settle last month's consistency bonus once the month has ended
+  setInterval(async () => {
+    try {
+      await consistencyBonusService.runScheduledSettlement();
+    } catch (error) {
+      console.error('Error in scheduled consistency bonus:', error);
+    }
+  }, 60 * 60 * 1000); // Run every hour
+
+  // Distribute last month's reward pools once its payout cycles are closed
+  setInterval(async () => {
+    try {
+      await rewardPoolService.runScheduledDistribution();
+    } catch (error) {
+      console.error('Error in scheduled reward pools:', error);
+    }
+  }, 60 * 60 * 1000); // Run every hour
+
+  // Verify and repair the cached team BV totals
+  setInterval(async () => {
+    try {
+      await bvService.rebuild();
+    } catch (error) {
+      console.error('Error in scheduled BV rebuild:', error);
+    }
+  }, 24 * 60 * 60 * 1000); // Run daily
+
+  // Verify and repair the binary tree's ancestor index
+  setInterval(async () => {
+    try {
+      await treePathService.rebuild();
+    } catch (error) {
+      console.error('Error in scheduled tree index rebuild:', error);
+    }
+  }, 24 * 60 * 60 * 1000); // Run daily
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+// Shipment CSV export and bulk status upload parsing.
+// Pure functions only: the shipment service supplies the orders and applies the rows.
+
+export interface ShipmentFileLine {
+  orderNumber: string;
+  member: string;
+  mobile: string;
+  deliveryAddress: string;
+  stockPoint: string;
+  status: string;
+  courier: string;
+  trackingId: string;
+}
+
+export interface ShipmentFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+export interface ShipmentUpdateRow {
+  line: number;
+  orderNumber: string;
+  status: string;
+  courier?: string;
+  trackingId?: string;
+  note?: string;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Orders awaiting delivery as a CSV the warehouse can fill in (status,
+ * courier, tracking number) and upload back unchanged otherwise
+ */
+export function buildShipmentFile(lines: ShipmentFileLine[], date: Date = new Date()): ShipmentFile {
+  const header = ['Order Number', 'Member', 'Mobile', 'Delivery Address', 'Stock Point', 'Status', 'Courier', 'Tracking ID', 'Note'];
+  const rows = lines.map(line => [
+    line.orderNumber,
+    line.member,
+    line.mobile,
+    line.deliveryAddress,
+    line.stockPoint,
+    line.status,
+    line.courier,
+    line.trackingId,
+    '',
+  ]);
+
+  return {
+    filename: `shipments-${date.toISOString().slice(0, 10)}.csv`,
+    contentType: 'text/csv',
+    content: [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n',
+  };
+}
+
+function parseCsvLine(text: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+function findColumn(header: string[], names: string[]): number {
+  return header.findIndex(column => names.includes(column.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+/**
+ * Parse a bulk shipment update (CSV with a header row). Recognised columns:
+ * order number, status, courier, tracking number and note, in any order.
+ * Quoted fields may not span lines.
+ */
+export function parseShipmentFile(content: string): ShipmentUpdateRow[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Shipment file is empty');
+  }
+
+  const header = parseCsvLine(lines[0]);
+  const orderColumn = findColumn(header, ['ordernumber', 'orderno', 'order']);
+  const statusColumn = findColumn(header, ['status', 'deliverystatus', 'shipmentstatus']);
+  const courierColumn = findColumn(header, ['courier', 'carrier', 'courierpartner']);
+  const trackingColumn = findColumn(header, ['trackingid', 'trackingnumber', 'trackingno', 'awb', 'awbno', 'awbnumber']);
+  const noteColumn = findColumn(header, ['note', 'notes', 'remarks']);
+
+  if (orderColumn < 0 || statusColumn < 0) {
+    throw new Error('Shipment file must have "Order Number" and "Status" columns');
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const fields = parseCsvLine(line);
+    return {
+      line: index + 2,
+      orderNumber: (fields[orderColumn] || '').toUpperCase(),
+      status: (fields[statusColumn] || '').toLowerCase(),
+      courier: courierColumn >= 0 ? fields[courierColumn] || undefined : undefined,
+      trackingId: trackingColumn >= 0 ? fields[trackingColumn] || undefined : undefined,
+      note: noteColumn >= 0 ? fields[noteColumn] || undefined : undefined,
+    };
+  });
+}
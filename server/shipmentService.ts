@@ -0,0 +1,252 @@
+import { db } from "./db";
+import {
+  orders,
+  purchases,
+  shipmentEvents,
+  stockPoints,
+  users,
+  notifications,
+  updateShipmentSchema,
+  type Order,
+  type ShipmentEvent,
+  type UpdateShipment,
+} from "@shared/schema";
+import { eq, and, asc, desc, inArray } from "drizzle-orm";
+import { inventoryService } from "./inventoryService";
+import { buildShipmentFile, parseShipmentFile, type ShipmentFile } from "./shipmentFile";
+
+export type DeliveryStatus = 'pending' | 'packed' | 'shipped' | 'delivered' | 'failed';
+export type ShipmentSource = 'admin' | 'franchise' | 'csv';
+
+// Statuses an order may move to from each status. A failed delivery can be
+// packed or shipped again; delivered is final.
+const TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+  pending: ['packed', 'shipped', 'delivered', 'failed'],
+  packed: ['shipped', 'delivered', 'failed'],
+  shipped: ['delivered', 'failed'],
+  failed: ['packed', 'shipped', 'delivered'],
+  delivered: [],
+};
+
+export interface ShipmentImportResult {
+  updated: number;
+  skipped: { line: number; orderNumber: string; reason: string }[];
+}
+
+export class ShipmentService {
+  /**
+   * Move a paid order to its next delivery status. Goods leave the stock
+   * point (and a franchise point earns its income) the first time the order
+   * is shipped or delivered. Franchise owners may only update orders at
+   * their own points. The buyer is notified of every change.
+   */
+  async updateStatus(
+    orderId: string,
+    data: UpdateShipment,
+    actor: { userId: string; isAdmin: boolean },
+    source: ShipmentSource = actor.isAdmin ? 'admin' : 'franchise'
+  ): Promise<Order> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (!actor.isAdmin) {
+      const [point] = order.stockPointId
+        ? await db.select().from(stockPoints).where(eq(stockPoints.id, order.stockPointId))
+        : [];
+      if (!point || point.ownerId !== actor.userId) {
+        throw new Error('Order not found');
+      }
+    }
+    if (order.status !== 'paid') {
+      throw new Error(`Only paid orders can be shipped (order ${order.orderNumber} is ${order.status})`);
+    }
+    const current = order.deliveryStatus as DeliveryStatus;
+    if (!TRANSITIONS[current]?.includes(data.status)) {
+      throw new Error(`Order ${order.orderNumber} cannot go from ${current} to ${data.status}`);
+    }
+
+    // Claim the transition so concurrent updates cannot both apply
+    const now = new Date();
+    const [updated] = await db.update(orders)
+      .set({
+        deliveryStatus: data.status,
+        courier: data.courier,
+        trackingId: data.trackingId,
+        deliveredAt: data.status === 'delivered' ? now : undefined,
+        updatedAt: now,
+      })
+      .where(and(eq(orders.id, orderId), eq(orders.deliveryStatus, current)))
+      .returning();
+    if (!updated) {
+      throw new Error('Order was modified concurrently');
+    }
+
+    if ((data.status === 'shipped' || data.status === 'delivered') && order.stockPointId && !order.fulfilledAt) {
+      try {
+        await inventoryService.fulfilOrder(orderId, actor);
+      } catch (error) {
+        await db.update(orders)
+          .set({ deliveryStatus: current, courier: order.courier, trackingId: order.trackingId, deliveredAt: order.deliveredAt, updatedAt: new Date() })
+          .where(eq(orders.id, orderId));
+        throw error;
+      }
+    }
+
+    await db.batch([
+      db.update(purchases)
+        .set({ deliveryStatus: data.status, courier: updated.courier, trackingId: updated.trackingId, updatedAt: now })
+        .where(and(eq(purchases.orderId, orderId), eq(purchases.paymentStatus, 'paid'))),
+      db.insert(shipmentEvents).values({
+        orderId,
+        status: data.status,
+        courier: data.courier,
+        trackingId: data.trackingId,
+        note: data.note,
+        source,
+        createdBy: actor.userId,
+      }),
+      db.insert(notifications).values({
+        userId: order.userId,
+        type: `shipment_${data.status}`,
+        ...this.describe(updated, data.note),
+        data: { orderId, status: data.status, courier: updated.courier, trackingId: updated.trackingId },
+      }),
+    ]);
+
+    console.log(`Order ${order.orderNumber} delivery status ${current} -> ${data.status} (${source})`);
+    return updated;
+  }
+
+  private describe(order: Order, note?: string): { title: string; message: string } {
+    switch (order.deliveryStatus as DeliveryStatus) {
+      case 'packed':
+        return { title: 'Order Packed', message: `Your order ${order.orderNumber} has been packed and will be dispatched soon.` };
+      case 'shipped':
+        return {
+          title: 'Order Shipped',
+          message: `Your order ${order.orderNumber} has been shipped via ${order.courier}. Tracking number: ${order.trackingId}.`,
+        };
+      case 'delivered':
+        return { title: 'Order Delivered', message: `Your order ${order.orderNumber} has been delivered.` };
+      default:
+        return {
+          title: 'Delivery Failed',
+          message: `We could not deliver your order ${order.orderNumber}${note ? `: ${note}` : '.'} We will arrange another attempt.`,
+        };
+    }
+  }
+
+  async getHistory(orderId: string): Promise<ShipmentEvent[]> {
+    return db.select().from(shipmentEvents)
+      .where(eq(shipmentEvents.orderId, orderId))
+      .orderBy(asc(shipmentEvents.createdAt));
+  }
+
+  /**
+   * Delivery status and history of one of the buyer's own orders
+   */
+  async getUserOrderTracking(orderId: string, userId: string) {
+    const [order] = await db.select().from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, userId)));
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    return {
+      orderNumber: order.orderNumber,
+      deliveryStatus: order.deliveryStatus,
+      courier: order.courier,
+      trackingId: order.trackingId,
+      deliveredAt: order.deliveredAt,
+      events: await this.getHistory(orderId),
+    };
+  }
+
+  /**
+   * Paid orders by delivery status, newest payment first
+   */
+  async getShipments(statuses?: DeliveryStatus[]) {
+    const rows = await db
+      .select({
+        order: orders,
+        user: { userId: users.userId, firstName: users.firstName, lastName: users.lastName, mobile: users.mobile },
+        stockPoint: { code: stockPoints.code, name: stockPoints.name, type: stockPoints.type },
+      })
+      .from(orders)
+      .leftJoin(users, eq(orders.userId, users.id))
+      .leftJoin(stockPoints, eq(orders.stockPointId, stockPoints.id))
+      .where(and(
+        eq(orders.status, 'paid'),
+        statuses?.length ? inArray(orders.deliveryStatus, statuses) : undefined
+      ))
+      .orderBy(desc(orders.paidAt))
+      .limit(500);
+    return rows.map(row => ({ ...row.order, user: row.user, stockPoint: row.stockPoint }));
+  }
+
+  async exportShipments(statuses?: DeliveryStatus[]): Promise<ShipmentFile> {
+    const shipments = await this.getShipments(statuses);
+    return buildShipmentFile(shipments.map(shipment => ({
+      orderNumber: shipment.orderNumber,
+      member: [shipment.user?.firstName, shipment.user?.lastName].filter(Boolean).join(' '),
+      mobile: shipment.user?.mobile || '',
+      // Uploads are parsed line by line, so addresses are kept on one line
+      deliveryAddress: shipment.deliveryAddress.replace(/\s*\r?\n\s*/g, ', '),
+      stockPoint: shipment.stockPoint?.code || '',
+      status: shipment.deliveryStatus,
+      courier: shipment.courier || '',
+      trackingId: shipment.trackingId || '',
+    })));
+  }
+
+  /**
+   * Apply a bulk status upload. Rows that are invalid, unknown or already at
+   * their status are reported back and left untouched, so the same file can
+   * be uploaded again.
+   */
+  async importUpdates(content: string, actorId: string): Promise<ShipmentImportResult> {
+    const rows = parseShipmentFile(content);
+    const orderNumbers = Array.from(new Set(rows.map(row => row.orderNumber).filter(Boolean)));
+    const found = orderNumbers.length > 0
+      ? await db.select({ id: orders.id, orderNumber: orders.orderNumber, deliveryStatus: orders.deliveryStatus })
+          .from(orders).where(inArray(orders.orderNumber, orderNumbers))
+      : [];
+    const byNumber = new Map(found.map(order => [order.orderNumber, order]));
+    const result: ShipmentImportResult = { updated: 0, skipped: [] };
+
+    for (const row of rows) {
+      const order = byNumber.get(row.orderNumber);
+      if (!order) {
+        result.skipped.push({ line: row.line, orderNumber: row.orderNumber, reason: 'Order not found' });
+        continue;
+      }
+      if (row.status === order.deliveryStatus) {
+        result.skipped.push({ line: row.line, orderNumber: row.orderNumber, reason: `Already ${row.status}` });
+        continue;
+      }
+      const parsed = updateShipmentSchema.safeParse({
+        status: row.status,
+        courier: row.courier,
+        trackingId: row.trackingId,
+        note: row.note,
+      });
+      if (!parsed.success) {
+        result.skipped.push({ line: row.line, orderNumber: row.orderNumber, reason: parsed.error.errors[0].message });
+        continue;
+      }
+
+      try {
+        const updated = await this.updateStatus(order.id, parsed.data, { userId: actorId, isAdmin: true }, 'csv');
+        order.deliveryStatus = updated.deliveryStatus;
+        result.updated += 1;
+      } catch (error) {
+        result.skipped.push({ line: row.line, orderNumber: row.orderNumber, reason: (error as any).message || 'Update failed' });
+      }
+    }
+
+    console.log(`Shipment upload by ${actorId}: ${result.updated} updated, ${result.skipped.length} skipped`);
+    return result;
+  }
+}
+
+export const shipmentService = new ShipmentService();
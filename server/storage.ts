@@ -1,5 +1,6 @@
 import {
   users,
+  treePaths,
   emailTokens,
   pendingRecruits,
   referralLinks,
@@ -17,6 +18,7 @@ import {
   cheques,
   news,
   type User,
+  type PlacementStrategy,
   type UpsertUser,
   type CreateUser,
   type RecruitUser,
@@ -33,11 +35,10 @@ import {
   type Product,
   type CreateProduct,
   type Purchase,
-  type CreatePurchase,
   type WalletBalance,
   type Transaction,
+  type TransactionType,
   type WithdrawalRequest,
-  type CreateWithdrawal,
   type KYCDocument,
   type CreateKYC,
   type RankAchievement,
@@ -51,7 +52,13 @@ import {
   type CreateNews,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, ilike, or, desc, and, sql, gte, lte } from "drizzle-orm";
+import { eq, ilike, or, desc, and, sql, gte, lte, isNull, inArray } from "drizzle-orm";
+import { getRankRequirement, meetsRankRequirement } from "@shared/compensationPlan";
+import { compensationPlanService } from "./compensationPlanService";
+import { ledgerService } from "./ledgerService";
+import { treePathService } from "./treePathService";
+import { bvService } from "./bvService";
+import type { SubtreeMove } from "./binaryTreeService";
 
 import { nanoid } from "nanoid";
 
@@ -65,7 +72,7 @@ export interface IStorage {
   updateUserStatus(userId: string, status: string): Promise<User | undefined>;
   
   // User management operations
-  getAllUsers(search?: string): Promise<(User & { sponsorUserId: string | null })[]>;
+  getAllUsers(search?: string): Promise<(Omit<User, 'txnPin'> & { sponsorUserId: string | null; hasTxnPin: boolean })[]>;
   searchUsers(query: string, filters: {
     searchType?: 'id' | 'name' | 'bv' | 'rank';
     status?: string;
@@ -117,7 +124,7 @@ export interface IStorage {
   // Binary MLM Tree operations
   getBinaryTreeData(userId: string): Promise<any>;
   getDirectRecruits(userId: string): Promise<User[]>;
-  placeUserInBinaryTree(userId: string, sponsorId: string): Promise<void>;
+  placeUserInBinaryTree(userId: string, sponsorId: string, strategy?: PlacementStrategy | null): Promise<void>;
   
   // Pending recruits operations (new workflow)
   createPendingRecruit(data: RecruitUser, recruiterId: string): Promise<PendingRecruit>;
@@ -134,7 +141,6 @@ export interface IStorage {
   deleteProduct(id: string): Promise<boolean>;
   
   // Purchase operations
-  createPurchase(userId: string, data: CreatePurchase): Promise<Purchase>;
   getUserPurchases(userId: string): Promise<Purchase[]>;
   getPurchaseById(id: string): Promise<Purchase | undefined>;
   updatePurchaseStatus(id: string, status: string): Promise<boolean>;
@@ -142,14 +148,12 @@ export interface IStorage {
   // Wallet operations
   getWalletBalance(userId: string): Promise<WalletBalance | undefined>;
   createWalletBalance(userId: string): Promise<WalletBalance>;
-  updateWalletBalance(userId: string, amount: string, description: string, type: any): Promise<Transaction>;
+  updateWalletBalance(userId: string, amount: string, description: string, type: TransactionType, options?: { referenceId?: string; metadata?: Record<string, unknown> }): Promise<Transaction>;
   getUserTransactions(userId: string): Promise<Transaction[]>;
   
   // Withdrawal operations
-  createWithdrawalRequest(userId: string, data: CreateWithdrawal): Promise<WithdrawalRequest>;
   getUserWithdrawals(userId: string): Promise<WithdrawalRequest[]>;
   getAllWithdrawals(): Promise<WithdrawalRequest[]>;
-  updateWithdrawalStatus(id: string, status: string, adminNotes?: string): Promise<boolean>;
   
   // KYC operations
   getUserKYCDocuments(userId: string): Promise<KYCDocument[]>;
@@ -166,6 +170,7 @@ export interface IStorage {
   getUserRankHistory(userId: string): Promise<RankAchievement[]>;
   createRankAchievement(userId: string, rank: any, teamBV: string, leftBV: string, rightBV: string): Promise<RankAchievement>;
   checkRankEligibility(userId: string): Promise<{ eligible: boolean; newRank?: any; teamBV: string }>;
+  revokeUnmetRanks(userId: string, since: Date, reason: string): Promise<RankAchievement[]>;
   
   // Franchise operations
   createFranchiseRequest(userId: string, data: CreateFranchiseRequest): Promise<FranchiseRequest>;
@@ -195,8 +200,7 @@ export interface IStorage {
   
   // BV calculation operations
   calculateUserBV(userId: string): Promise<{ totalBV: string; leftBV: string; rightBV: string }>;
-  updateUserBVStats(userId: string): Promise<void>;
-  processIncomeDistribution(purchaseId: string): Promise<void>;
+  processIncomeDistribution(purchaseIds: string[]): Promise<void>;
 
   // Financial operations for admin
   getAllWalletBalances(): Promise<WalletBalance[]>;
@@ -224,7 +228,7 @@ export interface IStorage {
     rightLegUsers: number;
   }>;
   getHiddenIds(): Promise<User[]>;
-  overridePlacement(userId: string, newParentId: string, position: string): Promise<boolean>;
+  overridePlacement(userId: string, newParentId: string, position: 'left' | 'right', actor: { id: string; role: string }, reason?: string): Promise<SubtreeMove>;
   
   // Update pending recruit details after user fills registration form
   updatePendingRecruitDetails(recruitId: string, details: { fullName: string; email: string; status: string }): Promise<boolean>;
@@ -321,7 +325,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Additional user management operations
-  async getAllUsers(search?: string): Promise<(User & { sponsorUserId: string | null })[]> {
+  async getAllUsers(search?: string): Promise<(Omit<User, 'txnPin'> & { sponsorUserId: string | null; hasTxnPin: boolean })[]> {
     let query = db.select({
       id: users.id,
       userId: users.userId,
@@ -332,7 +336,7 @@ export class DatabaseStorage implements IStorage {
       sponsorId: users.sponsorId,
       packageAmount: users.packageAmount,
       cryptoWalletAddress: users.cryptoWalletAddress,
-      txnPin: users.txnPin,
+      hasTxnPin: sql<boolean>`${users.txnPin} IS NOT NULL`,
       password: users.password,
       status: users.status,
       registrationDate: users.createdAt,
@@ -371,7 +375,7 @@ export class DatabaseStorage implements IStorage {
       };
     }));
     
-    return usersWithSponsorIds as (User & { sponsorUserId: string | null })[];
+    return usersWithSponsorIds as (Omit<User, 'txnPin'> & { sponsorUserId: string | null; hasTxnPin: boolean })[];
   }
 
   // Generate next sequential user ID like VV0001, VV0002, etc.
@@ -432,6 +436,14 @@ export class DatabaseStorage implements IStorage {
       .update(users)
       .set({
         ...updates,
+        // The transaction PIN is only set through txnPinService
+        txnPin: undefined,
+        txnPinFailedAttempts: undefined,
+        txnPinLockedUntil: undefined,
+        // A changed payout address restarts the USDT withdrawal cool-down
+        cryptoWalletUpdatedAt: updates.cryptoWalletAddress !== undefined
+          ? sql`CASE WHEN ${users.cryptoWalletAddress} IS DISTINCT FROM ${updates.cryptoWalletAddress} THEN now() ELSE ${users.cryptoWalletUpdatedAt} END`
+          : undefined,
         updatedAt: new Date(),
       })
       .where(eq(users.id, id))
@@ -811,40 +823,17 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDownline(userId: string, levels: number = 10): Promise<User[]> {
-    const allMembers: User[] = [];
-    const visited = new Set<string>();
-    
-    const getLevel = async (currentUserId: string, currentLevel: number): Promise<void> => {
-      if (currentLevel > levels || visited.has(currentUserId)) return;
-      visited.add(currentUserId);
-      
-      // Use binary tree structure (leftChildId, rightChildId) instead of sponsorId
-      const currentUser = await db.select().from(users).where(eq(users.id, currentUserId)).limit(1);
-      if (!currentUser.length) return;
-      
-      const user = currentUser[0];
-      
-      // Check left child
-      if (user.leftChildId) {
-        const leftChild = await db.select().from(users).where(eq(users.id, user.leftChildId)).limit(1);
-        if (leftChild.length && !allMembers.find(m => m.id === leftChild[0].id)) {
-          allMembers.push(leftChild[0]);
-          await getLevel(leftChild[0].id, currentLevel + 1);
-        }
-      }
-      
-      // Check right child
-      if (user.rightChildId) {
-        const rightChild = await db.select().from(users).where(eq(users.id, user.rightChildId)).limit(1);
-        if (rightChild.length && !allMembers.find(m => m.id === rightChild[0].id)) {
-          allMembers.push(rightChild[0]);
-          await getLevel(rightChild[0].id, currentLevel + 1);
-        }
-      }
-    };
-    
-    await getLevel(userId, 1);
-    return allMembers.sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+    // Members down to the given depth, from the tree's ancestor index
+    return await db.select()
+      .from(users)
+      .where(inArray(users.id, db.select({ id: treePaths.descendantId })
+        .from(treePaths)
+        .where(and(
+          eq(treePaths.ancestorId, userId),
+          gte(treePaths.depth, 1),
+          lte(treePaths.depth, levels)
+        ))))
+      .orderBy(desc(users.createdAt));
   }
 
   async getTeamStats(userId: string): Promise<{
@@ -853,12 +842,12 @@ export class DatabaseStorage implements IStorage {
     activeMembers: number;
   }> {
     const directMembers = await this.getTeamMembers(userId);
-    const allDownline = await this.getDownline(userId);
+    const downline = await treePathService.getDownlineCounts(userId);
     
     return {
       directRecruits: directMembers.length,
-      totalDownline: allDownline.length,
-      activeMembers: allDownline.filter(u => u.status === 'active').length,
+      totalDownline: downline.total,
+      activeMembers: downline.active,
     };
   }
 
@@ -1147,14 +1136,22 @@ export class DatabaseStorage implements IStorage {
 
   // Get statistical information for a leg (downline count and volume)
   async getLegStats(rootUserId: string): Promise<{ count: number; volume: number }> {
-    const downlineMembers = await this.getDownline(rootUserId);
-    const totalVolume = downlineMembers.reduce((sum, member) => 
-      sum + parseFloat(member.packageAmount || '0'), 0
-    );
+    // The root user and their whole downline
+    const [stats] = await db.select({
+      count: sql<number>`count(*)::int`,
+      volume: sql<string>`COALESCE(SUM(${users.packageAmount}), 0)`,
+    })
+      .from(users)
+      .where(or(
+        eq(users.id, rootUserId),
+        inArray(users.id, db.select({ id: treePaths.descendantId })
+          .from(treePaths)
+          .where(eq(treePaths.ancestorId, rootUserId)))
+      ));
     
     return {
-      count: downlineMembers.length + 1, // Include the root user
-      volume: totalVolume + parseFloat((await this.getUser(rootUserId))?.packageAmount || '0')
+      count: stats?.count ?? 0,
+      volume: parseFloat(stats?.volume ?? '0')
     };
   }
 
@@ -1269,10 +1266,18 @@ export class DatabaseStorage implements IStorage {
     // Handle position requirement - Admin can override upline decision
     let finalPosition = pendingRecruit.position;
     
+    // A referral link's strategy places the recruit below the recruiter; so does the
+    // recruiter's own strategy when nobody chose a position
+    const placementStrategy = adminData.position ? null
+      : (pendingRecruit.placementStrategy as PlacementStrategy | null)
+        || (!finalPosition ? (recruiter?.placementStrategy as PlacementStrategy | null) : null);
+    
     // Admin can always override position if provided
     if (adminData.position) {
       finalPosition = adminData.position;
       console.log('Admin overriding position to:', finalPosition);
+    } else if (placementStrategy) {
+      console.log('Placing by spillover strategy:', placementStrategy);
     } else if (!finalPosition) {
       // If no position set anywhere, require admin to provide one
       console.log('ERROR: No position set by upline or admin');
@@ -1310,8 +1315,8 @@ export class DatabaseStorage implements IStorage {
       packageAmount: adminData.packageAmount,
       position: finalPosition, // Use final position (from upline or admin)
       registrationDate: pendingRecruit.createdAt,
-      activationDate: new Date(),
-      idStatus: 'Active',
+      // The ID stays inactive until a qualifying first purchase (see activityService)
+      idStatus: 'Inactive',
       role: 'user',
       status: 'active',
       password: passwordToUse,
@@ -1329,11 +1334,15 @@ export class DatabaseStorage implements IStorage {
       profileImageUrl: pendingRecruit.profileImageUrl,
     }).returning();
 
-    // Place user in binary tree at the final position
-    if (!pendingRecruit.uplineId) {
-      throw new Error('Upline ID is required for position placement');
+    // Place user in binary tree by strategy or at the final position
+    if (placementStrategy) {
+      await this.placeUserInBinaryTree(newUser.id, pendingRecruit.recruiterId, placementStrategy);
+    } else {
+      if (!pendingRecruit.uplineId) {
+        throw new Error('Upline ID is required for position placement');
+      }
+      await this.placeUserInBinaryTreeAtSpecificPosition(newUser.id, pendingRecruit.uplineId, finalPosition as 'left' | 'right', pendingRecruit.recruiterId);
     }
-    await this.placeUserInBinaryTreeAtSpecificPosition(newUser.id, pendingRecruit.uplineId, finalPosition as 'left' | 'right', pendingRecruit.recruiterId);
 
     // Transfer KYC documents if available from comprehensive registration
     if (pendingRecruit.panCardUrl || pendingRecruit.aadhaarCardUrl || 
@@ -1673,9 +1682,10 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async placeUserInBinaryTree(userId: string, sponsorId: string): Promise<void> {
+  // Place user by the spillover strategy given (e.g. from a referral link) or the sponsor's own
+  async placeUserInBinaryTree(userId: string, sponsorId: string, strategy?: PlacementStrategy | null): Promise<void> {
     const { binaryTreeService } = await import('./binaryTreeService');
-    const position = await binaryTreeService.findNextAvailablePosition(sponsorId);
+    const position = await binaryTreeService.findNextAvailablePosition(sponsorId, strategy);
     await binaryTreeService.placeUserInTree(userId, position.parentId, position.position, sponsorId);
   }
 
@@ -1746,31 +1756,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // ===== PURCHASE OPERATIONS =====
-  async createPurchase(userId: string, data: CreatePurchase): Promise<Purchase> {
-    const product = await this.getProductById(data.productId);
-    if (!product) {
-      throw new Error('Product not found');
-    }
-
-    const totalAmount = parseFloat(product.price) * data.quantity;
-    const totalBV = parseFloat(product.bv) * data.quantity;
-
-    const [purchase] = await db.insert(purchases).values({
-      userId,
-      productId: data.productId,
-      quantity: data.quantity,
-      totalAmount: totalAmount.toString(),
-      totalBV: totalBV.toString(),
-      paymentMethod: data.paymentMethod,
-      deliveryAddress: data.deliveryAddress,
-    }).returning();
-
-    // Process income distribution and BV updates
-    await this.processIncomeDistribution(purchase.id);
-    
-    return purchase;
-  }
-
+  // Purchases are created by orderService at checkout and only count once the order is paid
   async getUserPurchases(userId: string): Promise<Purchase[]> {
     return await db.select().from(purchases)
       .where(eq(purchases.userId, userId))
@@ -1801,37 +1787,15 @@ export class DatabaseStorage implements IStorage {
     return wallet;
   }
 
-  async updateWalletBalance(userId: string, amount: string, description: string, type: any): Promise<Transaction> {
-    let wallet = await this.getWalletBalance(userId);
-    if (!wallet) {
-      wallet = await this.createWalletBalance(userId);
-    }
-
-    const currentBalance = parseFloat(wallet.balance);
-    const changeAmount = parseFloat(amount);
-    const newBalance = currentBalance + changeAmount;
-
-    // Update wallet balance
-    await db.update(walletBalances)
-      .set({ 
-        balance: newBalance.toString(),
-        totalEarnings: type === 'withdrawal' ? wallet.totalEarnings : (parseFloat(wallet.totalEarnings) + Math.max(0, changeAmount)).toString(),
-        totalWithdrawals: type === 'withdrawal' ? (parseFloat(wallet.totalWithdrawals) + Math.abs(changeAmount)).toString() : wallet.totalWithdrawals,
-        updatedAt: new Date()
-      })
-      .where(eq(walletBalances.userId, userId));
-
-    // Create transaction record
-    const [transaction] = await db.insert(transactions).values({
-      userId,
-      type,
-      amount,
-      description,
-      balanceBefore: currentBalance.toString(),
-      balanceAfter: newBalance.toString(),
-    }).returning();
-
-    return transaction;
+  async updateWalletBalance(
+    userId: string,
+    amount: string,
+    description: string,
+    type: TransactionType,
+    options: { referenceId?: string; metadata?: Record<string, unknown> } = {}
+  ): Promise<Transaction> {
+    // Posted as a balanced ledger journal; walletBalances is updated as its projection
+    return await ledgerService.postWalletMovement(userId, amount, description, type, options);
   }
 
   async getUserTransactions(userId: string): Promise<Transaction[]> {
@@ -1841,29 +1805,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // ===== WITHDRAWAL OPERATIONS =====
-  async createWithdrawalRequest(userId: string, data: CreateWithdrawal): Promise<WithdrawalRequest> {
-    const wallet = await this.getWalletBalance(userId);
-    if (!wallet || parseFloat(wallet.balance) < parseFloat(data.amount)) {
-      throw new Error('Insufficient balance');
-    }
-
-    const withdrawalData: any = {
-      userId,
-      amount: data.amount,
-      withdrawalType: data.withdrawalType,
-    };
-
-    if (data.withdrawalType === 'bank') {
-      withdrawalData.bankDetails = data.bankDetails;
-    } else if (data.withdrawalType === 'usdt') {
-      withdrawalData.usdtWalletAddress = data.usdtWalletAddress;
-      withdrawalData.networkType = data.networkType;
-    }
-
-    const [withdrawal] = await db.insert(withdrawalRequests).values(withdrawalData).returning();
-    return withdrawal;
-  }
-
+  // Requests and status changes go through withdrawalService (holds, charges, batches)
   async getUserWithdrawals(userId: string): Promise<WithdrawalRequest[]> {
     return await db.select().from(withdrawalRequests)
       .where(eq(withdrawalRequests.userId, userId))
@@ -1875,18 +1817,6 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(withdrawalRequests.createdAt));
   }
 
-  async updateWithdrawalStatus(id: string, status: string, adminNotes?: string): Promise<boolean> {
-    const updateData: any = { status, updatedAt: new Date() };
-    if (adminNotes) updateData.adminNotes = adminNotes;
-    if (status === 'processed') updateData.processedAt = new Date();
-
-    const result = await db
-      .update(withdrawalRequests)
-      .set(updateData)
-      .where(eq(withdrawalRequests.id, id));
-    return (result.rowCount ?? 0) > 0;
-  }
-
   // ===== KYC OPERATIONS =====
   async getUserKYCDocuments(userId: string): Promise<KYCDocument[]> {
     return await db.select().from(kycDocuments)
@@ -2606,8 +2536,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createRankAchievement(userId: string, rank: any, teamBV: string, leftBV: string, rightBV: string): Promise<RankAchievement> {
-    // Check rank eligibility and calculate bonus
-    const bonus = this.calculateRankBonus(rank, teamBV);
+    // Bonus comes from the compensation plan currently in force
+    const plan = await compensationPlanService.getActivePlan();
+    const bonus = getRankRequirement(plan.definition, rank).bonus;
     
     const [achievement] = await db.insert(rankAchievements).values({
       userId,
@@ -2616,6 +2547,7 @@ export class DatabaseStorage implements IStorage {
       leftBV,
       rightBV,
       bonus: bonus.toString(),
+      metadata: { planId: plan.planId, planVersion: plan.version },
     }).returning();
 
     // Update user's current rank
@@ -2631,145 +2563,121 @@ export class DatabaseStorage implements IStorage {
     return achievement;
   }
 
-  private calculateRankBonus(rank: any, teamBV: string): number {
-    const bv = parseFloat(teamBV);
-    const bonuses: { [key: string]: number } = {
-      'Executive': 0,
-      'Bronze Star': 5000,
-      'Gold Star': 10000,
-      'Emerald Star': 36000,
-      'Ruby Star': 90000,
-      'Diamond': 225000,
-      'Wise President': 360000,
-      'President': 810000,
-      'Ambassador': 1620000,
-      'Deputy Director': 2500000,
-      'Director': 10000000,
-      'Founder': 35000000,
+  private async getRankStats(userId: string) {
+    const bvStats = await this.calculateUserBV(userId);
+    const [directs] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(users)
+      .where(eq(users.sponsorId, userId));
+
+    return {
+      teamBV: parseFloat(bvStats.totalBV),
+      leftBV: parseFloat(bvStats.leftBV),
+      rightBV: parseFloat(bvStats.rightBV),
+      directRecruits: Number(directs?.count || 0),
     };
-    return bonuses[rank] || 0;
   }
 
   async checkRankEligibility(userId: string): Promise<{ eligible: boolean; newRank?: any; teamBV: string }> {
     const user = await this.getUser(userId);
     if (!user) throw new Error('User not found');
 
-    const bvStats = await this.calculateUserBV(userId);
-    const teamBV = parseFloat(bvStats.totalBV);
-
-    // Rank eligibility criteria based on business plan
-    const rankCriteria: { [key: string]: number } = {
-      'Executive': 0,
-      'Bronze Star': 125000,
-      'Gold Star': 250000,
-      'Emerald Star': 900000,
-      'Ruby Star': 1800000,
-      'Diamond': 4500000,
-      'Wise President': 9000000,
-      'President': 27000000,
-      'Ambassador': 81000000,
-      'Deputy Director': 243000000,
-      'Director': 900000000,
-      'Founder': 2700000000,
-    };
+    const stats = await this.getRankStats(userId);
 
-    const ranks = Object.keys(rankCriteria);
-    const currentRankIndex = ranks.indexOf(user.currentRank || 'Executive');
+    // Rank criteria come from the active compensation plan (ordered lowest to highest)
+    const { definition: plan } = await compensationPlanService.getActivePlan();
+    const ranks = plan.ranks.map(r => r.name);
+    const currentRankIndex = ranks.indexOf(user.currentRank || ranks[0]);
     
     for (let i = ranks.length - 1; i > currentRankIndex; i--) {
-      const rank = ranks[i];
-      if (teamBV >= rankCriteria[rank]) {
-        return { eligible: true, newRank: rank as any, teamBV: teamBV.toString() };
+      if (meetsRankRequirement(plan.ranks[i], stats)) {
+        return { eligible: true, newRank: ranks[i] as any, teamBV: stats.teamBV.toString() };
       }
     }
 
-    return { eligible: false, teamBV: teamBV.toString() };
+    return { eligible: false, teamBV: stats.teamBV.toString() };
   }
 
-  // ===== BV CALCULATION OPERATIONS =====
-  async calculateUserBV(userId: string): Promise<{ totalBV: string; leftBV: string; rightBV: string }> {
+  // Revoke ranks achieved since a date whose criteria the user no longer meets
+  // (e.g. after a refund) and step the current rank back to the highest one
+  // still held. Returns the revoked achievements so their bonus can be recovered.
+  async revokeUnmetRanks(userId: string, since: Date, reason: string): Promise<RankAchievement[]> {
     const user = await this.getUser(userId);
-    if (!user) throw new Error('User not found');
+    if (!user) return [];
 
-    // Calculate own BV from purchases
-    const userPurchases = await this.getUserPurchases(userId);
-    const ownBV = userPurchases
-      .filter(p => p.paymentStatus === 'completed')
-      .reduce((sum, p) => sum + parseFloat(p.totalBV), 0);
+    const recent = await db.select().from(rankAchievements)
+      .where(and(
+        eq(rankAchievements.userId, userId),
+        gte(rankAchievements.achievedAt, since),
+        isNull(rankAchievements.revokedAt)
+      ));
+    if (recent.length === 0) return [];
 
-    // Calculate left leg BV
-    let leftBV = 0;
-    if (user.leftChildId) {
-      const leftStats = await this.calculateUserBV(user.leftChildId);
-      leftBV = parseFloat(leftStats.totalBV);
-    }
+    const stats = await this.getRankStats(userId);
+    const { definition: plan } = await compensationPlanService.getActivePlan();
+    const unmet = recent.filter(achievement => {
+      const requirement = plan.ranks.find(r => r.name === achievement.rank);
+      return requirement && !meetsRankRequirement(requirement, stats);
+    });
+    if (unmet.length === 0) return [];
 
-    // Calculate right leg BV
-    let rightBV = 0;
-    if (user.rightChildId) {
-      const rightStats = await this.calculateUserBV(user.rightChildId);
-      rightBV = parseFloat(rightStats.totalBV);
-    }
+    const revoked = await db.update(rankAchievements)
+      .set({ revokedAt: new Date(), revokedReason: reason })
+      .where(and(inArray(rankAchievements.id, unmet.map(a => a.id)), isNull(rankAchievements.revokedAt)))
+      .returning();
 
-    const totalBV = ownBV + leftBV + rightBV;
+    if (revoked.some(achievement => achievement.rank === user.currentRank)) {
+      const ranks = plan.ranks.map(r => r.name);
+      const held = await db.select({ rank: rankAchievements.rank }).from(rankAchievements)
+        .where(and(eq(rankAchievements.userId, userId), isNull(rankAchievements.revokedAt)));
+      const highest = held.reduce((best, { rank }) => Math.max(best, ranks.indexOf(rank)), 0);
+      await db.update(users)
+        .set({ currentRank: ranks[highest] as any, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+    }
 
-    return {
-      totalBV: totalBV.toString(),
-      leftBV: leftBV.toString(),
-      rightBV: rightBV.toString(),
-    };
+    return revoked;
   }
 
-  async updateUserBVStats(userId: string): Promise<void> {
-    const bvStats = await this.calculateUserBV(userId);
-    
-    await db.update(users)
-      .set({
-        totalBV: bvStats.totalBV,
-        leftBV: bvStats.leftBV,
-        rightBV: bvStats.rightBV,
-        updatedAt: new Date(),
-      })
+  // ===== BV CALCULATION OPERATIONS =====
+  // Team BV is cached on users and kept up to date incrementally (see bvService)
+  async calculateUserBV(userId: string): Promise<{ totalBV: string; leftBV: string; rightBV: string }> {
+    const [user] = await db
+      .select({ totalBV: users.totalBV, leftBV: users.leftBV, rightBV: users.rightBV })
+      .from(users)
       .where(eq(users.id, userId));
-  }
+    if (!user) throw new Error('User not found');
 
-  async processIncomeDistribution(purchaseId: string): Promise<void> {
-    const purchase = await this.getPurchaseById(purchaseId);
-    if (!purchase) return;
+    return {
+      totalBV: user.totalBV || '0.00',
+      leftBV: user.leftBV || '0.00',
+      rightBV: user.rightBV || '0.00',
+    };
+  }
 
-    const buyer = await this.getUser(purchase.userId);
-    if (!buyer || !buyer.sponsorId) return;
+  // Called by orderService once the purchases of an order are paid
+  async processIncomeDistribution(purchaseIds: string[]): Promise<void> {
+    // All lines of an order belong to the same buyer
+    const purchase = purchaseIds[0] ? await this.getPurchaseById(purchaseIds[0]) : undefined;
+    if (!purchase || purchase.paymentStatus !== 'paid') return;
 
-    // 10% sponsor income to direct sponsor
-    const sponsorIncome = parseFloat(purchase.totalBV) * 0.1;
-    await this.updateWalletBalance(
-      buyer.sponsorId,
-      sponsorIncome.toString(),
-      `Sponsor Income from ${buyer.firstName} ${buyer.lastName}`,
-      'sponsor_income'
-    );
+    // Sponsor income and binary matching are no longer credited here; they are
+    // computed per payout cycle and credited when the cycle is locked
+    // (see payoutCycleService)
 
-    // Update BV stats for the buyer and uplines
-    await this.updateUserBVStats(purchase.userId);
-    
-    // Update upline BV stats (recursive)
-    let currentUser = buyer;
-    while (currentUser.parentId) {
-      await this.updateUserBVStats(currentUser.parentId);
-      const parentUser = await this.getUser(currentUser.parentId);
-      if (!parentUser) break;
-      currentUser = parentUser;
-    }
+    // Add the BV to the buyer and every upline's leg
+    await bvService.applyPurchaseBV(purchaseIds);
 
-    // Check rank eligibility for buyer and sponsor
+    // Check rank eligibility for the buyer
     const buyerRankCheck = await this.checkRankEligibility(purchase.userId);
     if (buyerRankCheck.eligible && buyerRankCheck.newRank) {
+      const bvStats = await this.calculateUserBV(purchase.userId);
       await this.createRankAchievement(
         purchase.userId,
         buyerRankCheck.newRank,
         buyerRankCheck.teamBV,
-        (await this.calculateUserBV(purchase.userId)).leftBV,
-        (await this.calculateUserBV(purchase.userId)).rightBV
+        bvStats.leftBV,
+        bvStats.rightBV
       );
     }
   }
@@ -2777,7 +2685,7 @@ export class DatabaseStorage implements IStorage {
   // ===== FRANCHISE OPERATIONS =====
   async createFranchiseRequest(userId: string, data: CreateFranchiseRequest): Promise<FranchiseRequest> {
     // Calculate investment details based on franchise type
-    const franchiseDetails = this.getFranchiseDetails(data.franchiseType);
+    const franchiseDetails = await this.getFranchiseDetails(data.franchiseType);
     
     const [request] = await db.insert(franchiseRequests).values({
       userId,
@@ -2791,16 +2699,11 @@ export class DatabaseStorage implements IStorage {
     return request;
   }
 
-  private getFranchiseDetails(type: any): { amount: number; bv: number; sponsorIncome: number } {
-    const details: { [key: string]: { amount: number; bv: number; sponsorIncome: number } } = {
-      'Mini Franchise': { amount: 250000, bv: 62500, sponsorIncome: 12500 },
-      'Basic Franchise': { amount: 500000, bv: 125000, sponsorIncome: 25000 },
-      'Smart Franchise': { amount: 1000000, bv: 250000, sponsorIncome: 50000 },
-      'Growth Franchise': { amount: 2500000, bv: 625000, sponsorIncome: 125000 },
-      'Master Franchise': { amount: 5000000, bv: 1250000, sponsorIncome: 250000 },
-      'Super Franchise': { amount: 10000000, bv: 2500000, sponsorIncome: 500000 },
-    };
-    return details[type] || details['Mini Franchise'];
+  private async getFranchiseDetails(type: any): Promise<{ amount: number; bv: number; sponsorIncome: number }> {
+    const { definition: plan } = await compensationPlanService.getActivePlan();
+    const details = plan.franchises.find(f => f.type === type) || plan.franchises[0];
+    if (!details) throw new Error('No franchise terms defined in the compensation plan');
+    return details;
   }
 
   async getUserFranchiseRequests(userId: string): Promise<FranchiseRequest[]> {
@@ -3119,16 +3022,9 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async overridePlacement(userId: string, newParentId: string, position: string): Promise<boolean> {
-    try {
-      // This would implement the actual placement override logic
-      // For now, just a placeholder
-      console.log(`Override placement: User ${userId} -> Parent ${newParentId} at ${position}`);
-      return true;
-    } catch (error) {
-      console.error('Error overriding placement:', error);
-      return false;
-    }
+  async overridePlacement(userId: string, newParentId: string, position: 'left' | 'right', actor: { id: string; role: string }, reason?: string): Promise<SubtreeMove> {
+    const { binaryTreeService } = await import('./binaryTreeService');
+    return await binaryTreeService.moveSubtree(userId, newParentId, position, actor, reason);
   }
 
   async updatePendingRecruitDetails(recruitId: string, details: { fullName: string; email: string; status: string }): Promise<boolean> {
@@ -3242,6 +3138,7 @@ export class DatabaseStorage implements IStorage {
           .set({ rightChildId: newUser.id })
           .where(eq(users.id, data.parentId));
       }
+      await treePathService.addNode(newUser.id);
       
       console.log(`User created with strategic placement: ${newUser.email} under ${data.parentId} at ${data.position} position`);
       
@@ -0,0 +1,266 @@
+import { db, runBatch } from "./db";
+import { users, auditLog } from "@shared/schema";
+import { eq, and, sql } from "drizzle-orm";
+import { bvService, type BVRebuildReport } from "./bvService";
+import { treePathService, type TreePathRebuildReport } from "./treePathService";
+
+export type TreeIssueType =
+  | 'orphan' // parentId names a user that does not exist
+  | 'invalid_position' // Has a parent but no left/right position
+  | 'duplicate_slot' // More than one child claims the same slot
+  | 'pointer_mismatch' // A child pointer disagrees with the child's parentId/position
+  | 'dangling_pointer' // A child pointer names a user that does not exist
+  | 'cycle' // Following parentId loops back
+  | 'wrong_level'; // level is not the depth below the top of the tree
+
+// Columns a repair may set
+type TreeFields = {
+  parentId: string | null;
+  position: string | null;
+  leftChildId: string | null;
+  rightChildId: string | null;
+  level: string | null;
+};
+
+export interface TreeIssue {
+  type: TreeIssueType;
+  userId: string;
+  memberId: string | null; // Display ID like VV0001
+  detail: string;
+  repair: Partial<TreeFields> | null; // null when it needs a manual placement override
+}
+
+export interface TreeIntegrityReport {
+  mode: 'dry_run' | 'apply';
+  checkedUsers: number;
+  issues: TreeIssue[];
+  counts: Partial<Record<TreeIssueType, number>>;
+  repairable: number;
+  repairedUsers: number; // Users updated in apply mode
+  skippedUsers: number; // Changed since the check, so left for the next run
+  bvRebuild: BVRebuildReport | null; // When repairs moved anyone to another leg
+  indexRebuild: TreePathRebuildReport | null; // Ancestor index, on the same condition
+}
+
+interface TreeNode extends TreeFields {
+  id: string;
+  userId: string | null;
+  createdAt: Date | null;
+}
+
+// Users repaired per batch
+const REPAIR_BATCH_SIZE = 200;
+
+/**
+ * Checks the redundant tree columns on users against each other. A child's
+ * own parentId and position are taken as the truth (BV and uplines follow
+ * them); parents' child pointers and everyone's level are derived from them.
+ */
+export class TreeIntegrityService {
+  /**
+   * Report every inconsistency; in apply mode also repair what can be
+   * repaired automatically. Each repair only applies while the user still
+   * holds the values it was computed from, so concurrent placements win.
+   */
+  async run(mode: 'dry_run' | 'apply', actor?: { id: string; role: string }): Promise<TreeIntegrityReport> {
+    const nodes: TreeNode[] = await db.select({
+      id: users.id,
+      userId: users.userId,
+      parentId: users.parentId,
+      position: users.position,
+      leftChildId: users.leftChildId,
+      rightChildId: users.rightChildId,
+      level: users.level,
+      createdAt: users.createdAt,
+    }).from(users);
+
+    const issues = this.findIssues(nodes);
+    const counts: Partial<Record<TreeIssueType, number>> = {};
+    for (const issue of issues) counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+
+    const report: TreeIntegrityReport = {
+      mode,
+      checkedUsers: nodes.length,
+      issues,
+      counts,
+      repairable: issues.filter(issue => issue.repair).length,
+      repairedUsers: 0,
+      skippedUsers: 0,
+      bvRebuild: null,
+      indexRebuild: null,
+    };
+    if (mode === 'dry_run' || report.repairable === 0) return report;
+
+    // Merge each user's repairs into one update guarded by the values read
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const repairs = new Map<string, Partial<TreeFields>>();
+    for (const issue of issues) {
+      if (issue.repair) repairs.set(issue.userId, { ...repairs.get(issue.userId), ...issue.repair });
+    }
+
+    const now = new Date();
+    const statements = Array.from(repairs, ([id, fields]) => {
+      const node = byId.get(id)!;
+      const unchanged = (Object.keys(fields) as (keyof TreeFields)[])
+        .map(field => sql`${users[field]} IS NOT DISTINCT FROM ${node[field]}`);
+      return db.update(users)
+        .set({ ...fields, updatedAt: now })
+        .where(and(eq(users.id, id), ...unchanged))
+        .returning({ id: users.id });
+    });
+    for (let i = 0; i < statements.length; i += REPAIR_BATCH_SIZE) {
+      const results = await runBatch<{ id: string }[][]>(statements.slice(i, i + REPAIR_BATCH_SIZE));
+      report.repairedUsers += results.filter(rows => rows.length > 0).length;
+    }
+    report.skippedUsers = repairs.size - report.repairedUsers;
+
+    if (actor) {
+      await db.insert(auditLog).values({
+        entityType: 'binary_tree',
+        entityId: 'integrity',
+        action: 'repaired',
+        actorId: actor.id,
+        actorRole: actor.role,
+        changes: { counts, repairedUsers: report.repairedUsers, skippedUsers: report.skippedUsers, repairs: Object.fromEntries(repairs) },
+      });
+    }
+
+    // Leg membership changed, so the ancestor index and team BV have to follow
+    if (Array.from(repairs.values()).some(fields => 'parentId' in fields || 'position' in fields)) {
+      report.indexRebuild = await treePathService.rebuild();
+      report.bvRebuild = await bvService.rebuild();
+    }
+
+    console.log(`Tree integrity: ${issues.length} issues, ${report.repairedUsers} users repaired, ${report.skippedUsers} skipped`);
+    return report;
+  }
+
+  private findIssues(nodes: TreeNode[]): TreeIssue[] {
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const issues: TreeIssue[] = [];
+    const issue = (type: TreeIssueType, node: TreeNode, detail: string, repair: Partial<TreeFields> | null) =>
+      issues.push({ type, userId: node.id, memberId: node.userId, detail, repair });
+    const label = (id: string) => byId.get(id)?.userId ?? id;
+
+    // Who each child pointer names, to re-attach orphans and fix positions
+    const pointedBy = new Map<string, { parentId: string; side: 'left' | 'right' }[]>();
+    for (const node of nodes) {
+      for (const side of ['left', 'right'] as const) {
+        const childId = side === 'left' ? node.leftChildId : node.rightChildId;
+        if (childId) pointedBy.set(childId, [...(pointedBy.get(childId) ?? []), { parentId: node.id, side }]);
+      }
+    }
+
+    // Effective parent and position once orphan and position repairs apply
+    const placement = new Map<string, { parentId: string | null; position: string | null }>();
+    const detached = new Set<string>(); // Orphans left for a manual override
+    for (const node of nodes) {
+      let { parentId, position } = node;
+      const pointers = (pointedBy.get(node.id) ?? []).filter(pointer => byId.has(pointer.parentId));
+
+      if (parentId && !byId.has(parentId)) {
+        if (pointers.length === 1) {
+          issue('orphan', node, `Parent ${parentId} does not exist; re-attached to ${label(pointers[0].parentId)} (${pointers[0].side}), whose child pointer names this user`,
+            { parentId: pointers[0].parentId, position: pointers[0].side });
+          parentId = pointers[0].parentId;
+          position = pointers[0].side;
+        } else {
+          issue('orphan', node, `Parent ${parentId} does not exist; place this user again with a placement override`, null);
+          detached.add(node.id);
+          parentId = null;
+          position = null;
+        }
+      } else if (parentId && position !== 'left' && position !== 'right') {
+        const pointer = pointers.find(candidate => candidate.parentId === parentId);
+        if (pointer) {
+          issue('invalid_position', node, `Position '${position ?? ''}' under ${label(parentId)}; the parent holds this user on the ${pointer.side}`, { position: pointer.side });
+          position = pointer.side;
+        } else {
+          issue('invalid_position', node, `Position '${position ?? ''}' under ${label(parentId)}, which does not point at this user`, null);
+          position = null;
+        }
+      }
+      placement.set(node.id, { parentId, position });
+    }
+
+    // One child per slot: the one the parent points at, else the earliest placed
+    const slots = new Map<string, TreeNode[]>();
+    for (const node of nodes) {
+      const { parentId, position } = placement.get(node.id)!;
+      if (!parentId || (position !== 'left' && position !== 'right')) continue;
+      const key = `${parentId}:${position}`;
+      slots.set(key, [...(slots.get(key) ?? []), node]);
+    }
+    const occupant = new Map<string, string>();
+    slots.forEach((children, key) => {
+      const [parentId, side] = key.split(':');
+      const parent = byId.get(parentId)!;
+      const pointer = side === 'left' ? parent.leftChildId : parent.rightChildId;
+      const keeper = children.find(child => child.id === pointer)
+        ?? [...children].sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))[0];
+      occupant.set(key, keeper.id);
+      for (const child of children) {
+        if (child.id === keeper.id) continue;
+        issue('duplicate_slot', child, `${label(keeper.id)} already holds the ${side} slot under ${label(parentId)}; move this user with a placement override`, null);
+      }
+    });
+
+    // Parent pointers follow the slot occupants
+    for (const node of nodes) {
+      for (const side of ['left', 'right'] as const) {
+        const pointer = side === 'left' ? node.leftChildId : node.rightChildId;
+        const expected = occupant.get(`${node.id}:${side}`) ?? null;
+        if (pointer === expected) continue;
+        const repair = side === 'left' ? { leftChildId: expected } : { rightChildId: expected };
+        if (pointer && !byId.has(pointer)) {
+          issue('dangling_pointer', node, `${side} child ${pointer} does not exist${expected ? `; ${label(expected)} holds the slot` : ''}`, repair);
+        } else {
+          const found = pointer ? `points at ${label(pointer)}` : 'is empty';
+          issue('pointer_mismatch', node, `${side} child ${found} but ${expected ? `${label(expected)} holds the slot` : 'no user holds the slot'}`, repair);
+        }
+      }
+    }
+
+    // Levels are the depth below the top of the tree; loops and detached orphans have none
+    const NO_DEPTH = -1;
+    const depths = new Map<string, number>(Array.from(detached, id => [id, NO_DEPTH]));
+    for (const start of nodes) {
+      const path: string[] = [];
+      const onPath = new Set<string>();
+      let currentId: string | null = start.id;
+      let aboveDepth = -1;
+      let undetermined = false;
+      while (currentId) {
+        const known = depths.get(currentId);
+        if (known !== undefined) {
+          aboveDepth = known;
+          undetermined = known === NO_DEPTH;
+          break;
+        }
+        if (onPath.has(currentId)) {
+          // A new loop: everyone on it is reported once
+          const loop = path.slice(path.indexOf(currentId));
+          for (const id of loop) {
+            issue('cycle', byId.get(id)!, `Following parents loops back: ${loop.map(label).join(' → ')}; break the loop with a placement override`, null);
+          }
+          undetermined = true;
+          break;
+        }
+        onPath.add(currentId);
+        path.push(currentId);
+        currentId = placement.get(currentId)?.parentId ?? null;
+      }
+      path.reverse().forEach((id, i) => depths.set(id, undetermined ? NO_DEPTH : aboveDepth + 1 + i));
+    }
+
+    for (const node of nodes) {
+      const depth = depths.get(node.id)!;
+      if (depth === NO_DEPTH || String(depth) === node.level) continue;
+      issue('wrong_level', node, `Level ${node.level ?? 'unset'} but sits ${depth} levels deep`, { level: String(depth) });
+    }
+
+    return issues;
+  }
+}
+
+export const treeIntegrityService = new TreeIntegrityService();
@@ -0,0 +1,239 @@
+import { db } from "./db";
+import { treePaths } from "@shared/schema";
+import { sql, type SQL } from "drizzle-orm";
+
+export interface TreePathRebuildReport {
+  removedPaths: number; // Rows that no longer matched the tree
+  addedPaths: number; // Rows the index was missing
+}
+
+// Downline of one user, counted from the index
+export interface DownlineCounts {
+  total: number;
+  left: number;
+  right: number;
+  active: number;
+}
+
+// Every ancestor/descendant pair the parent pointers currently give, with the
+// ancestor's leg holding the descendant. Loops stop where they close.
+const expectedPaths = sql`
+  WITH RECURSIVE walk AS (
+    SELECT id AS ancestor_id, id AS descendant_id, 0 AS depth, NULL::varchar AS leg,
+      position AS via, parent_id AS next_id, ARRAY[id]::varchar[] AS path
+    FROM users
+    UNION ALL
+    SELECT p.id, w.descendant_id, w.depth + 1, w.via, p.position, p.parent_id, w.path || p.id
+    FROM walk w
+    JOIN users p ON p.id = w.next_id
+    WHERE NOT p.id = ANY(w.path)
+  )
+`;
+
+/**
+ * Closure table of the binary tree. Every placement writes its rows, so
+ * downline and upline questions are answered with one query instead of a
+ * walk along the child pointers; the daily rebuild repairs any drift from
+ * the users' own parentId and position.
+ */
+export class TreePathService {
+  // ===== MAINTENANCE =====
+  /**
+   * Index a user just given a parent: a row for each of their ancestors and
+   * for themselves. Ancestors' own rows are added too if they were missing.
+   */
+  async addNode(userId: string): Promise<void> {
+    await db.execute(sql`
+      INSERT INTO ${treePaths} (ancestor_id, descendant_id, depth, leg)
+      WITH RECURSIVE upline AS (
+        SELECT id, parent_id, position, 0 AS depth, NULL::varchar AS leg, ARRAY[id]::varchar[] AS path
+        FROM users
+        WHERE id = ${userId}
+        UNION ALL
+        SELECT p.id, p.parent_id, p.position, c.depth + 1, c.position, c.path || p.id
+        FROM upline c
+        JOIN users p ON p.id = c.parent_id
+        WHERE NOT p.id = ANY(c.path)
+      )
+      SELECT id, ${userId}, depth, leg FROM upline
+      UNION ALL
+      SELECT id, id, 0, NULL FROM upline WHERE depth > 0
+      ON CONFLICT (ancestor_id, descendant_id) DO UPDATE SET depth = EXCLUDED.depth, leg = EXCLUDED.leg
+    `);
+  }
+
+  /**
+   * Statements re-hanging a user's subtree under a new parent's slot, for the
+   * caller's batch. The subtree's rows to its old ancestors go, and rows to
+   * the new parent and everyone above it are added. Both only run while
+   * `guard` holds.
+   */
+  moveStatements(userId: string, newParentId: string, position: 'left' | 'right', guard: SQL): SQL[] {
+    return [
+      sql`
+        DELETE FROM ${treePaths} p
+        WHERE p.descendant_id IN (SELECT descendant_id FROM ${treePaths} WHERE ancestor_id = ${userId})
+          AND p.ancestor_id NOT IN (SELECT descendant_id FROM ${treePaths} WHERE ancestor_id = ${userId})
+          AND ${guard}
+      `,
+      sql`
+        INSERT INTO ${treePaths} (ancestor_id, descendant_id, depth, leg)
+        SELECT above.ancestor_id, below.descendant_id, above.depth + below.depth + 1,
+          CASE WHEN above.depth = 0 THEN ${position} ELSE above.leg END
+        FROM ${treePaths} above
+        JOIN ${treePaths} below ON below.ancestor_id = ${userId}
+        WHERE above.descendant_id = ${newParentId}
+          AND ${guard}
+        ON CONFLICT (ancestor_id, descendant_id) DO UPDATE SET depth = EXCLUDED.depth, leg = EXCLUDED.leg
+      `,
+    ];
+  }
+
+  // ===== FULL REBUILD =====
+  /**
+   * Verify the whole index against the parent pointers and repair drift.
+   * Stale rows are removed and missing ones added in one batch, so readers
+   * never see a half-rebuilt index.
+   */
+  async rebuild(): Promise<TreePathRebuildReport> {
+    const [removed, added] = await db.batch([
+      db.execute(sql`
+        ${expectedPaths}
+        DELETE FROM ${treePaths} t
+        WHERE NOT EXISTS (
+          SELECT 1 FROM walk e
+          WHERE e.ancestor_id = t.ancestor_id AND e.descendant_id = t.descendant_id
+            AND e.depth = t.depth AND e.leg IS NOT DISTINCT FROM t.leg
+        )
+      `),
+      db.execute(sql`
+        INSERT INTO ${treePaths} (ancestor_id, descendant_id, depth, leg)
+        ${expectedPaths}
+        SELECT ancestor_id, descendant_id, depth, leg FROM walk
+        ON CONFLICT (ancestor_id, descendant_id) DO NOTHING
+      `),
+    ]);
+
+    const report = { removedPaths: removed.rowCount ?? 0, addedPaths: added.rowCount ?? 0 };
+    if (report.removedPaths > 0 || report.addedPaths > 0) {
+      console.log(`Tree index rebuild: ${report.removedPaths} stale paths removed, ${report.addedPaths} added`);
+    }
+    return report;
+  }
+
+  // ===== QUERIES =====
+  /**
+   * Every member of a user's downline (the user included) with their depth
+   * below that user, optionally only down to `maxDepth`
+   */
+  async getSubtreeDepths(userId: string, maxDepth?: number): Promise<Map<string, number>> {
+    const result = await db.execute(sql`
+      SELECT descendant_id AS id, depth FROM ${treePaths}
+      WHERE ancestor_id = ${userId}
+        ${maxDepth !== undefined ? sql`AND depth <= ${maxDepth}` : sql``}
+    `);
+    return new Map((result.rows as { id: string; depth: number }[]).map(row => [row.id, Number(row.depth)]));
+  }
+
+  /**
+   * A user and everyone above them, each with the leg the user is in
+   * (null for the user themselves)
+   */
+  async getAncestors(userId: string): Promise<{ id: string; depth: number; leg: string | null }[]> {
+    const result = await db.execute(sql`
+      SELECT ancestor_id AS id, depth, leg FROM ${treePaths}
+      WHERE descendant_id = ${userId}
+      ORDER BY depth
+    `);
+    return (result.rows as { id: string; depth: number; leg: string | null }[])
+      .map(row => ({ ...row, depth: Number(row.depth) }));
+  }
+
+  async isInDownline(ancestorId: string, userId: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      SELECT 1 FROM ${treePaths}
+      WHERE ancestor_id = ${ancestorId} AND descendant_id = ${userId} AND depth > 0
+    `);
+    return result.rows.length > 0;
+  }
+
+  async getDownlineCounts(userId: string): Promise<DownlineCounts> {
+    const result = await db.execute(sql`
+      SELECT
+        COUNT(*) FILTER (WHERE t.depth > 0) AS total,
+        COUNT(*) FILTER (WHERE t.depth > 0 AND t.leg = 'left') AS "left",
+        COUNT(*) FILTER (WHERE t.depth > 0 AND t.leg = 'right') AS "right",
+        COUNT(*) FILTER (WHERE t.depth > 0 AND u.status = 'active') AS active
+      FROM ${treePaths} t
+      JOIN users u ON u.id = t.descendant_id
+      WHERE t.ancestor_id = ${userId}
+    `);
+    const row = result.rows[0] as Record<keyof DownlineCounts, string | number> | undefined;
+    return {
+      total: Number(row?.total ?? 0),
+      left: Number(row?.left ?? 0),
+      right: Number(row?.right ?? 0),
+      active: Number(row?.active ?? 0),
+    };
+  }
+
+  /**
+   * First free slot at or below a user, level by level and left to right
+   * within a level (the order of a breadth-first walk). Nodes are ordered by
+   * the legs taken from the start down to them.
+   */
+  async findOpenSlot(startId: string, preferredSide: 'left' | 'right' = 'left'): Promise<{ parentId: string; position: 'left' | 'right' } | null> {
+    const result = await db.execute(sql`
+      WITH open_nodes AS (
+        SELECT d.descendant_id AS id, d.depth, u.left_child_id, u.right_child_id
+        FROM ${treePaths} d
+        JOIN users u ON u.id = d.descendant_id
+        WHERE d.ancestor_id = ${startId}
+          AND (u.left_child_id IS NULL OR u.right_child_id IS NULL)
+      ),
+      shallowest AS (
+        SELECT * FROM open_nodes WHERE depth = (SELECT MIN(depth) FROM open_nodes)
+      )
+      SELECT s.id, s.left_child_id, s.right_child_id
+      FROM shallowest s
+      LEFT JOIN ${treePaths} route ON route.descendant_id = s.id AND route.depth BETWEEN 1 AND s.depth
+      GROUP BY s.id, s.left_child_id, s.right_child_id
+      ORDER BY string_agg(CASE WHEN route.leg = 'left' THEN '0' ELSE '1' END, '' ORDER BY route.depth DESC) NULLS FIRST
+      LIMIT 1
+    `);
+    const node = result.rows[0] as { id: string; left_child_id: string | null; right_child_id: string | null } | undefined;
+    if (!node) return null;
+
+    const preferredFree = preferredSide === 'left' ? !node.left_child_id : !node.right_child_id;
+    const otherSide = preferredSide === 'left' ? 'right' : 'left';
+    return { parentId: node.id, position: preferredFree ? preferredSide : otherSide };
+  }
+
+  /**
+   * Last member of the outermost line below a user on one side, reached by
+   * following only that side's children (the user themselves if that side is
+   * free). Null if the user is not in the index.
+   */
+  async findOuterEnd(startId: string, side: 'left' | 'right'): Promise<string | null> {
+    const freeSide = side === 'left' ? sql`u.left_child_id IS NULL` : sql`u.right_child_id IS NULL`;
+    const result = await db.execute(sql`
+      SELECT d.descendant_id AS id
+      FROM ${treePaths} d
+      JOIN users u ON u.id = d.descendant_id
+      WHERE d.ancestor_id = ${startId}
+        AND ${freeSide}
+        AND NOT EXISTS (
+          SELECT 1 FROM ${treePaths} route
+          WHERE route.descendant_id = d.descendant_id
+            AND route.depth BETWEEN 1 AND d.depth
+            AND route.leg IS DISTINCT FROM ${side}
+        )
+      ORDER BY d.depth
+      LIMIT 1
+    `);
+    const node = result.rows[0] as { id: string } | undefined;
+    return node?.id ?? null;
+  }
+}
+
+export const treePathService = new TreePathService();
@@ -0,0 +1,238 @@
+import bcrypt from "bcrypt";
+import { nanoid } from "nanoid";
+import { db } from "./db";
+import { users, type User, type SetTxnPin, type ChangeTxnPin, type ResetTxnPin } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { storage } from "./storage";
+import { sendTxnPinResetEmail } from "./emailService";
+
+export const TXN_PIN_MAX_ATTEMPTS = 5;
+export const TXN_PIN_LOCKOUT_MINUTES = 30;
+const TXN_PIN_RESET_TOKEN_MS = 60 * 60 * 1000; // 1 hour
+const BCRYPT_ROUNDS = 10;
+
+const BANK_DETAIL_FIELDS = ['bankAccountNumber', 'bankIFSC', 'bankName', 'bankAccountHolderName'] as const;
+
+export class TxnPinError extends Error {
+  constructor(message: string, public status: number, public lockedUntil?: Date) {
+    super(message);
+    this.name = 'TxnPinError';
+  }
+}
+
+export interface TxnPinStatus {
+  isSet: boolean;
+  updatedAt: Date | null;
+  failedAttempts: number;
+  maxAttempts: number;
+  lockedUntil: Date | null; // Only while the lockout is running
+}
+
+export interface TxnPinResetRequest {
+  emailSent: boolean;
+  devToken?: string; // Development only, when email delivery is not configured
+}
+
+export class TxnPinService {
+  private async getUser(userId: string): Promise<User> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new TxnPinError('User not found', 404);
+    }
+    return user;
+  }
+
+  private async storePin(userId: string, pin: string): Promise<void> {
+    const hash = await bcrypt.hash(pin, BCRYPT_ROUNDS);
+    await db
+      .update(users)
+      .set({
+        txnPin: hash,
+        txnPinFailedAttempts: 0,
+        txnPinLockedUntil: null,
+        txnPinUpdatedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  async getStatus(userId: string): Promise<TxnPinStatus> {
+    const user = await this.getUser(userId);
+    const locked = user.txnPinLockedUntil && user.txnPinLockedUntil > new Date();
+    return {
+      isSet: !!user.txnPin,
+      updatedAt: user.txnPinUpdatedAt,
+      failedAttempts: locked ? TXN_PIN_MAX_ATTEMPTS : user.txnPinFailedAttempts || 0,
+      maxAttempts: TXN_PIN_MAX_ATTEMPTS,
+      lockedUntil: locked ? user.txnPinLockedUntil : null,
+    };
+  }
+
+  /**
+   * Check a PIN for a sensitive operation. Wrong entries are counted and
+   * lock PIN checks for TXN_PIN_LOCKOUT_MINUTES after TXN_PIN_MAX_ATTEMPTS.
+   */
+  async verify(userId: string, pin: string | undefined): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.txnPin) {
+      throw new TxnPinError('Set a transaction PIN before making this request', 403);
+    }
+    if (user.txnPinLockedUntil && user.txnPinLockedUntil > new Date()) {
+      throw new TxnPinError(
+        `Transaction PIN is locked after too many incorrect attempts. Try again after ${user.txnPinLockedUntil.toLocaleString('en-IN')}`,
+        423,
+        user.txnPinLockedUntil
+      );
+    }
+    if (!pin) {
+      throw new TxnPinError('Transaction PIN is required', 400);
+    }
+
+    if (await bcrypt.compare(pin, user.txnPin)) {
+      if (user.txnPinFailedAttempts || user.txnPinLockedUntil) {
+        await db
+          .update(users)
+          .set({ txnPinFailedAttempts: 0, txnPinLockedUntil: null })
+          .where(eq(users.id, userId));
+      }
+      return;
+    }
+
+    // Count in SQL so concurrent wrong guesses cannot skip the lockout; an
+    // expired lockout starts a fresh count
+    const [counted] = await db
+      .update(users)
+      .set({
+        txnPinFailedAttempts: sql`CASE WHEN ${users.txnPinLockedUntil} IS NOT NULL THEN 1 ELSE coalesce(${users.txnPinFailedAttempts}, 0) + 1 END`,
+        txnPinLockedUntil: null,
+      })
+      .where(eq(users.id, userId))
+      .returning({ failedAttempts: users.txnPinFailedAttempts });
+    const failedAttempts = counted?.failedAttempts || 0;
+
+    if (failedAttempts >= TXN_PIN_MAX_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + TXN_PIN_LOCKOUT_MINUTES * 60 * 1000);
+      await db
+        .update(users)
+        .set({ txnPinFailedAttempts: 0, txnPinLockedUntil: lockedUntil })
+        .where(eq(users.id, userId));
+      console.log(`Transaction PIN locked for user ${userId} until ${lockedUntil.toISOString()}`);
+      throw new TxnPinError(
+        `Too many incorrect attempts. Transaction PIN is locked for ${TXN_PIN_LOCKOUT_MINUTES} minutes`,
+        423,
+        lockedUntil
+      );
+    }
+
+    const remaining = TXN_PIN_MAX_ATTEMPTS - failedAttempts;
+    throw new TxnPinError(`Invalid transaction PIN. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining`, 403);
+  }
+
+  /**
+   * Set the first PIN, confirmed with the account password
+   */
+  async setPin(userId: string, data: SetTxnPin): Promise<void> {
+    const user = await this.getUser(userId);
+    if (user.txnPin) {
+      throw new TxnPinError('A transaction PIN is already set. Change or reset it instead', 409);
+    }
+    const confirmed = user.userId && await storage.getUserByUserIdAndPassword(user.userId, data.password);
+    if (!confirmed || confirmed.id !== userId) {
+      throw new TxnPinError('Incorrect account password', 403);
+    }
+
+    await this.storePin(userId, data.newPin);
+    console.log(`Transaction PIN set for user ${userId}`);
+  }
+
+  async changePin(userId: string, data: ChangeTxnPin): Promise<void> {
+    await this.verify(userId, data.currentPin);
+    await this.storePin(userId, data.newPin);
+    console.log(`Transaction PIN changed for user ${userId}`);
+  }
+
+  /**
+   * Email a single-use reset link to the user's address
+   */
+  async requestReset(userId: string): Promise<TxnPinResetRequest> {
+    const user = await this.getUser(userId);
+    if (!user.email) {
+      throw new TxnPinError('Add an email address to your account before resetting your PIN', 400);
+    }
+
+    const token = nanoid(32);
+    await storage.createEmailToken({
+      email: user.email,
+      token,
+      type: 'txn_pin_reset',
+      expiresAt: new Date(Date.now() + TXN_PIN_RESET_TOKEN_MS),
+    });
+
+    const emailSent = await sendTxnPinResetEmail(user.email, token);
+    if (!emailSent) {
+      console.log(`Development mode: Transaction PIN reset token for ${user.email}: ${token}`);
+      return { emailSent, devToken: process.env.NODE_ENV === 'development' ? token : undefined };
+    }
+    return { emailSent };
+  }
+
+  /**
+   * Replace the PIN using an emailed token. The token must belong to the
+   * signed-in user; a successful reset also clears any lockout.
+   */
+  async resetPin(userId: string, data: ResetTxnPin, ipAddress?: string): Promise<void> {
+    const result = await storage.getUserByToken(data.token, ipAddress);
+    if (!result || result.tokenType !== 'txn_pin_reset' || result.user.id !== userId) {
+      throw new TxnPinError('Invalid or expired reset token', 400);
+    }
+
+    await this.storePin(userId, data.newPin);
+    await storage.deleteEmailToken(data.token);
+    console.log(`Transaction PIN reset for user ${userId}`);
+  }
+}
+
+export const txnPinService = new TxnPinService();
+
+/**
+ * Whether a profile update changes bank details the user already had on file
+ */
+export function changesBankDetails(body: Record<string, unknown> | undefined, user: User): boolean {
+  return BANK_DETAIL_FIELDS.some((field) =>
+    body?.[field] !== undefined && !!user[field] && body[field] !== user[field]
+  );
+}
+
+/**
+ * Middleware demanding the transaction PIN in `req.body.txnPin` before a
+ * sensitive operation. `when` limits the check to some requests.
+ */
+export function requireTxnPin(options: { when?: (req: any, user: User) => boolean } = {}) {
+  return async (req: any, res: any, next: any) => {
+    try {
+      const userId = req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      if (options.when) {
+        const [user] = await db.select().from(users).where(eq(users.id, userId));
+        if (!user) {
+          return res.status(404).json({ message: 'User not found' });
+        }
+        if (!options.when(req, user)) {
+          return next();
+        }
+      }
+
+      await txnPinService.verify(userId, req.body?.txnPin);
+      next();
+    } catch (error) {
+      if (error instanceof TxnPinError) {
+        return res.status(error.status).json({ message: error.message, lockedUntil: error.lockedUntil });
+      }
+      console.error('Error verifying transaction PIN:', error);
+      res.status(500).json({ message: 'Failed to verify transaction PIN' });
+    }
+  };
+}
@@ -0,0 +1,223 @@
+import { db } from "./db";
+import { users, withdrawalRequests, type User, type UpdateCryptoWallet } from "@shared/schema";
+import type { WithdrawalTerms } from "@shared/compensationPlan";
+import { sameUsdtAddress, validateUsdtAddress, type UsdtNetwork } from "@shared/cryptoAddress";
+import { eq, and, gte, lt, inArray, desc } from "drizzle-orm";
+import { compensationPlanService } from "./compensationPlanService";
+import { toPaise, fromPaise } from "./money";
+
+export interface CryptoWalletWhitelist {
+  address: string | null;
+  updatedAt: Date | null;
+  availableAt: Date | null; // When USDT withdrawals to this address are allowed
+  cooldownHours: number;
+}
+
+export interface UsdtPayoutRow {
+  withdrawalId: string;
+  userId: string;
+  userDisplayId: string | null;
+  userName: string;
+  networkType: string | null;
+  address: string | null;
+  status: string | null;
+  netAmount: string;
+  usdtRate: string | null;
+  usdtAmount: string | null;
+  txHash: string | null;
+  batchId: string | null;
+  processedAt: Date | null;
+  issues: string[];
+}
+
+export interface UsdtNetworkTotals {
+  networkType: string;
+  payouts: number;
+  netInr: string;
+  usdt: string;
+}
+
+export interface UsdtReconciliation {
+  from: Date;
+  to: Date;
+  totals: UsdtNetworkTotals[];
+  rows: UsdtPayoutRow[];
+  issueCount: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function cooldownEnd(updatedAt: Date | null, hours: number): Date | null {
+  // Addresses saved before the cool-down existed have no change timestamp
+  return updatedAt ? new Date(updatedAt.getTime() + hours * HOUR_MS) : null;
+}
+
+export class UsdtPayoutService {
+  async getWhitelist(userId: string): Promise<CryptoWalletWhitelist> {
+    const [user] = await db
+      .select({ address: users.cryptoWalletAddress, updatedAt: users.cryptoWalletUpdatedAt })
+      .from(users)
+      .where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const plan = await compensationPlanService.getActivePlan();
+    const hours = plan.definition.withdrawal.usdtAddressCooldownHours;
+    return {
+      address: user.address,
+      updatedAt: user.updatedAt,
+      availableAt: cooldownEnd(user.updatedAt, hours),
+      cooldownHours: hours,
+    };
+  }
+
+  /**
+   * Whitelist a USDT payout address. Changing it starts a cool-down during
+   * which USDT withdrawals are refused. The route confirms the transaction PIN.
+   */
+  async updateWhitelist(userId: string, data: UpdateCryptoWallet): Promise<CryptoWalletWhitelist> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const validation = validateUsdtAddress(data.address, data.networkType);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    if (!user.cryptoWalletAddress || !sameUsdtAddress(user.cryptoWalletAddress, validation.address)) {
+      await db
+        .update(users)
+        .set({ cryptoWalletAddress: validation.address, cryptoWalletUpdatedAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      console.log(`USDT payout address changed for user ${userId}`);
+    }
+    return this.getWhitelist(userId);
+  }
+
+  /**
+   * Validate a withdrawal address against its network and the user's
+   * whitelist. Returns the normalised address to store on the request.
+   */
+  assertWhitelisted(user: User, address: string, network: UsdtNetwork, terms: WithdrawalTerms): string {
+    const validation = validateUsdtAddress(address, network);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+    if (!user.cryptoWalletAddress || !sameUsdtAddress(user.cryptoWalletAddress, validation.address)) {
+      throw new Error('USDT withdrawals can only be sent to your whitelisted wallet address');
+    }
+
+    const availableAt = cooldownEnd(user.cryptoWalletUpdatedAt, terms.usdtAddressCooldownHours);
+    if (availableAt && availableAt > new Date()) {
+      throw new Error(`Your wallet address was changed recently. USDT withdrawals are available from ${availableAt.toLocaleString('en-IN')}`);
+    }
+    return validation.address;
+  }
+
+  /**
+   * USDT payouts in a period with per-network totals and flagged problems:
+   * missing or reused tx hashes, missing rate snapshots, amounts that do not
+   * match the recorded rate and payouts to a no-longer-whitelisted address
+   */
+  async getReconciliation(from: Date, to: Date): Promise<UsdtReconciliation> {
+    const rows = await db
+      .select({ withdrawal: withdrawalRequests, user: users })
+      .from(withdrawalRequests)
+      .leftJoin(users, eq(withdrawalRequests.userId, users.id))
+      .where(and(
+        eq(withdrawalRequests.withdrawalType, 'usdt'),
+        inArray(withdrawalRequests.status, ['batched', 'processed', 'failed']),
+        gte(withdrawalRequests.createdAt, from),
+        lt(withdrawalRequests.createdAt, to)
+      ))
+      .orderBy(desc(withdrawalRequests.createdAt));
+
+    const hashCounts = new Map<string, number>();
+    for (const { withdrawal } of rows) {
+      if (withdrawal.txHash) {
+        const key = withdrawal.txHash.toLowerCase();
+        hashCounts.set(key, (hashCounts.get(key) || 0) + 1);
+      }
+    }
+
+    const totals = new Map<string, { payouts: number; netPaise: bigint; microUsdt: bigint }>();
+    let issueCount = 0;
+
+    const result: UsdtPayoutRow[] = rows.map(({ withdrawal, user }) => {
+      const issues: string[] = [];
+      const netAmount = withdrawal.netAmount || withdrawal.amount;
+
+      if (withdrawal.status === 'processed') {
+        if (!withdrawal.txHash) issues.push('Paid without a transaction hash');
+        if (!withdrawal.usdtRate || !withdrawal.usdtAmount) issues.push('No conversion rate snapshot');
+        if (withdrawal.txHash && (hashCounts.get(withdrawal.txHash.toLowerCase()) || 0) > 1) {
+          issues.push('Transaction hash used by more than one payout');
+        }
+        if (withdrawal.usdtRate && withdrawal.usdtAmount) {
+          const expected = parseFloat(netAmount) / parseFloat(withdrawal.usdtRate);
+          if (Math.abs(expected - parseFloat(withdrawal.usdtAmount)) > 0.000001) {
+            issues.push('USDT amount does not match the recorded rate');
+          }
+        }
+
+        const network = withdrawal.networkType || 'UNKNOWN';
+        const total = totals.get(network) || { payouts: 0, netPaise: BigInt(0), microUsdt: BigInt(0) };
+        total.payouts += 1;
+        total.netPaise += toPaise(netAmount);
+        total.microUsdt += withdrawal.usdtAmount ? toMicro(withdrawal.usdtAmount) : BigInt(0);
+        totals.set(network, total);
+      }
+
+      if (withdrawal.usdtWalletAddress && user?.cryptoWalletAddress &&
+        !sameUsdtAddress(withdrawal.usdtWalletAddress, user.cryptoWalletAddress)) {
+        issues.push('Address differs from the current whitelist');
+      }
+
+      issueCount += issues.length;
+      return {
+        withdrawalId: withdrawal.id,
+        userId: withdrawal.userId,
+        userDisplayId: user?.userId ?? null,
+        userName: [user?.firstName, user?.lastName].filter(Boolean).join(' '),
+        networkType: withdrawal.networkType,
+        address: withdrawal.usdtWalletAddress,
+        status: withdrawal.status,
+        netAmount,
+        usdtRate: withdrawal.usdtRate,
+        usdtAmount: withdrawal.usdtAmount,
+        txHash: withdrawal.txHash,
+        batchId: withdrawal.batchId,
+        processedAt: withdrawal.processedAt,
+        issues,
+      };
+    });
+
+    return {
+      from,
+      to,
+      totals: Array.from(totals.entries()).map(([networkType, total]) => ({
+        networkType,
+        payouts: total.payouts,
+        netInr: fromPaise(total.netPaise),
+        usdt: formatMicro(total.microUsdt),
+      })),
+      rows: result,
+      issueCount,
+    };
+  }
+}
+
+// USDT amounts carry six decimals, so they are summed in micro-units
+function toMicro(amount: string): bigint {
+  const [whole, fraction = ''] = amount.split('.');
+  return BigInt(whole) * BigInt(1000000) + BigInt(fraction.padEnd(6, '0').slice(0, 6));
+}
+
+function formatMicro(micro: bigint): string {
+  return `${micro / BigInt(1000000)}.${(micro % BigInt(1000000)).toString().padStart(6, '0')}`;
+}
+
+export const usdtPayoutService = new UsdtPayoutService();
@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import { db } from "./db";
+import {
+  users,
+  notifications,
+  transactions,
+  type CreateFundTransfer,
+  type Transaction,
+  type User,
+} from "@shared/schema";
+import { eq, and, desc, sql } from "drizzle-orm";
+import { ledgerService } from "./ledgerService";
+import { treePathService } from "./treePathService";
+import { toPaise, fromPaise } from "./money";
+
+export type TransferRelation = 'upline' | 'downline';
+
+export interface TransferRecipient {
+  id: string;
+  userId: string | null; // Display ID
+  name: string;
+  relation: TransferRelation; // Recipient's position relative to the sender
+}
+
+export interface FundTransferResult {
+  transferId: string;
+  amount: string;
+  recipient: TransferRecipient;
+  transactions: Transaction[]; // [sender debit, recipient credit]
+}
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'userId'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.userId || 'Member';
+}
+
+export class WalletTransferService {
+  /**
+   * Where the recipient sits relative to the sender in the placement tree,
+   * or null if they are on different branches
+   */
+  async getRelation(senderId: string, recipientId: string): Promise<TransferRelation | null> {
+    if (await treePathService.isInDownline(senderId, recipientId)) return 'downline';
+    if (await treePathService.isInDownline(recipientId, senderId)) return 'upline';
+    return null;
+  }
+
+  /**
+   * Resolve a recipient by display ID and check the sender may transfer to them
+   */
+  async lookupRecipient(senderId: string, recipientUserId: string): Promise<TransferRecipient> {
+    const [recipient] = await db
+      .select()
+      .from(users)
+      .where(sql`upper(${users.userId}) = ${recipientUserId.trim().toUpperCase()}`);
+
+    if (!recipient) {
+      throw new Error(`No member found with ID ${recipientUserId}`);
+    }
+    if (recipient.id === senderId) {
+      throw new Error('You cannot transfer funds to yourself');
+    }
+
+    const relation = await this.getRelation(senderId, recipient.id);
+    if (!relation) {
+      throw new Error('Funds can only be transferred to members of your own upline or downline');
+    }
+
+    return { id: recipient.id, userId: recipient.userId, name: displayName(recipient), relation };
+  }
+
+  /**
+   * Move funds between two wallets as one balanced journal: the sender's
+   * debit and the recipient's credit are recorded together or not at all.
+   * The route confirms the sender's transaction PIN first.
+   */
+  async transfer(senderId: string, data: CreateFundTransfer): Promise<FundTransferResult> {
+    const [sender] = await db.select().from(users).where(eq(users.id, senderId));
+    if (!sender) {
+      throw new Error('User not found');
+    }
+
+    const recipient = await this.lookupRecipient(senderId, data.recipientUserId);
+    const amount = fromPaise(toPaise(data.amount));
+    if (toPaise(amount) <= BigInt(0)) {
+      throw new Error('Transfer amount must be positive');
+    }
+
+    const transferId = randomUUID();
+    const senderName = displayName(sender);
+    const note = data.note?.trim() || undefined;
+
+    const { transactions: postedTransactions } = await ledgerService.post({
+      type: 'fund_transfer',
+      description: `Fund transfer from ${senderName} to ${recipient.name}`,
+      referenceId: transferId,
+      metadata: { transferId, note },
+      createdBy: senderId,
+      lines: [
+        {
+          account: { type: 'user_wallet', userId: senderId },
+          direction: 'debit',
+          amount,
+          description: `Transfer to ${recipient.name} (${recipient.userId})${note ? ` - ${note}` : ''}`,
+          metadata: { direction: 'out', counterpartyId: recipient.id },
+        },
+        {
+          account: { type: 'user_wallet', userId: recipient.id },
+          direction: 'credit',
+          amount,
+          description: `Transfer from ${senderName} (${sender.userId})${note ? ` - ${note}` : ''}`,
+          metadata: { direction: 'in', counterpartyId: senderId },
+        },
+      ],
+    });
+
+    await db.insert(notifications).values({
+      userId: recipient.id,
+      type: 'fund_transfer_received',
+      title: 'Funds Received',
+      message: `${senderName} (${sender.userId}) transferred ₹${amount} to your wallet.${note ? ` Note: ${note}` : ''}`,
+      data: {
+        transferId,
+        amount,
+        senderId,
+        senderUserId: sender.userId,
+        note,
+      },
+    });
+
+    console.log(`Fund transfer ${transferId}: ${amount} from ${senderId} to ${recipient.id} (${recipient.relation})`);
+    return { transferId, amount, recipient, transactions: postedTransactions };
+  }
+
+  /**
+   * Transfers sent and received by a user, newest first
+   */
+  async getTransfers(userId: string): Promise<Transaction[]> {
+    return await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), eq(transactions.type, 'fund_transfer')))
+      .orderBy(desc(transactions.createdAt));
+  }
+}
+
+export const walletTransferService = new WalletTransferService();
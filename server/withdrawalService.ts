@@ -0,0 +1,664 @@
+import { randomBytes, randomUUID } from "crypto";
+import { db } from "./db";
+import {
+  users,
+  withdrawalRequests,
+  payoutBatches,
+  ledgerJournals,
+  type CreateWithdrawal,
+  type CompletePayoutBatch,
+  type WithdrawalRequest,
+  type PayoutBatch,
+} from "@shared/schema";
+import type { WithdrawalTerms } from "@shared/compensationPlan";
+import { isValidTxHash, type UsdtNetwork } from "@shared/cryptoAddress";
+import { eq, and, desc, gte, inArray, isNull, ne, sql, type SQL } from "drizzle-orm";
+import { ledgerService, DuplicatePostingError, type LedgerPosting, type LedgerPostingLine } from "./ledgerService";
+import { compensationPlanService } from "./compensationPlanService";
+import { usdtPayoutService } from "./usdtPayoutService";
+import { toPaise, fromPaise, percentOf } from "./money";
+import {
+  buildPayoutCsv,
+  buildPayoutFixedWidth,
+  parseBankResponseFile,
+  paymentReference,
+  validatePayoutLine,
+  type BankPayoutFile,
+  type BankPayoutLine,
+  type PayoutFileFormat,
+  type PaymentMode,
+} from "./bankPayoutFile";
+
+// Withdrawal lifecycle:
+//   pending (funds held) -> approved -> batched -> processed
+//                                              \-> failed (hold released)
+//   pending / approved -> rejected (hold released)
+export type WithdrawalStatus = 'pending' | 'approved' | 'batched' | 'processed' | 'failed' | 'rejected';
+
+// Fails a settlement batch whose request was no longer in the expected status
+const SETTLEMENT_CONSTRAINT = 'withdrawal_settlement_when_final';
+
+// Fails a request whose window overlaps another open request of the same user
+const REQUEST_WINDOW_CONSTRAINT = 'withdrawal_request_window';
+
+export interface WithdrawalOutcome {
+  status: 'processed' | 'failed';
+  transactionId?: string;
+  reason?: string;
+}
+
+export interface WithdrawalWithUser extends WithdrawalRequest {
+  user: { userId: string | null; firstName: string | null; lastName: string | null; email: string | null } | null;
+}
+
+export interface PayoutBatchDetail {
+  batch: PayoutBatch;
+  withdrawals: WithdrawalWithUser[];
+}
+
+export interface BankResponseImportResult {
+  processed: number;
+  failed: number;
+  skipped: { line: number; reference: string; reason: string }[];
+  batch: PayoutBatch;
+}
+
+export interface WithdrawalCharges {
+  amount: string;
+  tdsAmount: string;
+  adminCharge: string;
+  netAmount: string;
+}
+
+/**
+ * Split a gross withdrawal amount into TDS, admin charge and the net payout
+ */
+export function calculateWithdrawalCharges(amount: string, terms: WithdrawalTerms): WithdrawalCharges {
+  const gross = toPaise(amount);
+  const tds = percentOf(gross, terms.tdsRate);
+  const charge = percentOf(gross, terms.adminChargeRate);
+  return {
+    amount: fromPaise(gross),
+    tdsAmount: fromPaise(tds),
+    adminCharge: fromPaise(charge),
+    netAmount: fromPaise(gross - tds - charge),
+  };
+}
+
+/**
+ * USDT amount (6 decimals, rounded half-up) for an INR amount at a given rate
+ */
+export function convertInrToUsdt(amount: string, inrPerUsdt: number): string {
+  const rate = BigInt(Math.round(inrPerUsdt * 10000)); // 4 decimal places
+  const micro = (toPaise(amount) * BigInt(100000000) + rate / BigInt(2)) / rate;
+  const whole = micro / BigInt(1000000);
+  return `${whole}.${(micro % BigInt(1000000)).toString().padStart(6, '0')}`;
+}
+
+function generateBatchNumber(date: Date): string {
+  const day = date.toISOString().slice(0, 10).replace(/-/g, '');
+  return `PB-${day}-${randomBytes(2).toString('hex').toUpperCase()}`;
+}
+
+export class WithdrawalService {
+  /**
+   * Withdrawal terms (minimum, TDS, admin charge, request window) of the plan in force
+   */
+  async getTerms(): Promise<WithdrawalTerms> {
+    const plan = await compensationPlanService.getActivePlan();
+    return plan.definition.withdrawal;
+  }
+
+  /**
+   * Withdrawals with the requesting user, optionally filtered by status
+   */
+  async getWithdrawals(statuses?: WithdrawalStatus[]): Promise<WithdrawalWithUser[]> {
+    const rows = await db
+      .select({
+        withdrawal: withdrawalRequests,
+        user: {
+          userId: users.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(withdrawalRequests)
+      .leftJoin(users, eq(withdrawalRequests.userId, users.id))
+      .where(statuses?.length ? inArray(withdrawalRequests.status, statuses) : undefined)
+      .orderBy(desc(withdrawalRequests.createdAt));
+
+    return rows.map(row => ({ ...row.withdrawal, user: row.user }));
+  }
+
+  /**
+   * File a withdrawal request. The gross amount is moved from the wallet into
+   * the withdrawal hold account in the same batch that files the request, so
+   * the same balance cannot be requested twice. The route confirms the
+   * transaction PIN first.
+   */
+  async requestWithdrawal(userId: string, data: CreateWithdrawal): Promise<WithdrawalRequest> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const terms = await this.getTerms();
+    if (toPaise(data.amount) < toPaise(terms.minAmount)) {
+      throw new Error(`Minimum withdrawal amount is ₹${terms.minAmount}`);
+    }
+
+    let usdtWalletAddress: string | undefined;
+    if (data.withdrawalType === 'usdt') {
+      usdtWalletAddress = usdtPayoutService.assertWhitelisted(user, data.usdtWalletAddress!, data.networkType!, terms);
+    }
+
+    const windowError = () => new Error(`Only one withdrawal request is allowed every ${terms.requestWindowHours} hours`);
+    if (terms.requestWindowHours > 0) {
+      const windowStart = new Date(Date.now() - terms.requestWindowHours * 60 * 60 * 1000);
+      const [recent] = await db
+        .select({ id: withdrawalRequests.id })
+        .from(withdrawalRequests)
+        .where(and(
+          eq(withdrawalRequests.userId, userId),
+          gte(withdrawalRequests.createdAt, windowStart),
+          ne(withdrawalRequests.status, 'rejected')
+        ))
+        .limit(1);
+      if (recent) {
+        throw windowError();
+      }
+    }
+
+    const charges = calculateWithdrawalCharges(data.amount, terms);
+    if (toPaise(charges.netAmount) <= BigInt(0)) {
+      throw new Error('Withdrawal amount does not cover TDS and admin charges');
+    }
+
+    const withdrawalId = randomUUID();
+    const holdKey = `withdrawal:${withdrawalId}:hold`;
+    const createdAt = new Date();
+    try {
+      const { results: [[withdrawal]] } = await ledgerService.postBatch<[WithdrawalRequest[]]>([{
+        type: 'withdrawal',
+        description: `Withdrawal request (${data.withdrawalType === 'bank' ? 'Bank' : 'USDT'}) - funds on hold`,
+        referenceId: withdrawalId,
+        metadata: { withdrawalId, ...charges },
+        createdBy: userId,
+        idempotencyKey: holdKey,
+        lines: [
+          { account: { type: 'user_wallet', userId }, direction: 'debit', amount: charges.amount },
+          { account: { type: 'withdrawal_hold' }, direction: 'credit', amount: charges.amount },
+        ],
+      }], [
+        db.insert(withdrawalRequests).values({
+          id: withdrawalId,
+          userId,
+          withdrawalType: data.withdrawalType,
+          amount: charges.amount,
+          tdsAmount: charges.tdsAmount,
+          adminCharge: charges.adminCharge,
+          netAmount: charges.netAmount,
+          status: 'pending',
+          holdJournalId: sql`(SELECT ${ledgerJournals.id} FROM ${ledgerJournals} WHERE ${ledgerJournals.idempotencyKey} = ${holdKey})`,
+          bankDetails: data.withdrawalType === 'bank' ? data.bankDetails : undefined,
+          usdtWalletAddress,
+          networkType: data.withdrawalType === 'usdt' ? data.networkType : undefined,
+          // Overlapping windows are rejected by the database, which settles concurrent requests
+          windowEndsAt: new Date(createdAt.getTime() + terms.requestWindowHours * 60 * 60 * 1000),
+          createdAt,
+          updatedAt: createdAt,
+        }).returning(),
+      ]);
+      return withdrawal;
+    } catch (error) {
+      if (String((error as any)?.message || '').includes(REQUEST_WINDOW_CONSTRAINT)) {
+        throw windowError();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a pending request. Rejection returns the held funds.
+   */
+  async reviewWithdrawal(id: string, status: 'approved' | 'rejected', actorId: string, adminNotes?: string): Promise<WithdrawalRequest> {
+    if (status === 'approved') {
+      const [approved] = await db
+        .update(withdrawalRequests)
+        .set({ status, adminNotes, processedBy: actorId, updatedAt: new Date() })
+        .where(and(eq(withdrawalRequests.id, id), eq(withdrawalRequests.status, 'pending')))
+        .returning();
+      if (!approved) {
+        throw new Error('Only pending withdrawals can be approved');
+      }
+      return approved;
+    }
+
+    const allowedFrom: WithdrawalStatus[] = ['pending', 'approved'];
+    const [withdrawal] = await db.select().from(withdrawalRequests).where(eq(withdrawalRequests.id, id));
+    const rejected = withdrawal && allowedFrom.includes(withdrawal.status as WithdrawalStatus)
+      ? await this.settle(
+          withdrawal,
+          allowedFrom,
+          { status, adminNotes, processedBy: actorId },
+          this.holdRelease(withdrawal, status, `Withdrawal rejected${adminNotes ? `: ${adminNotes}` : ''}`, actorId)
+        )
+      : undefined;
+
+    if (!rejected) {
+      throw new Error('Only pending or approved withdrawals can be rejected');
+    }
+    return rejected;
+  }
+
+  async getBatches(): Promise<PayoutBatch[]> {
+    return await db.select().from(payoutBatches).orderBy(desc(payoutBatches.createdAt));
+  }
+
+  async getBatch(id: string): Promise<PayoutBatchDetail | undefined> {
+    const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, id));
+    if (!batch) return undefined;
+
+    const rows = await db
+      .select({
+        withdrawal: withdrawalRequests,
+        user: {
+          userId: users.userId,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(withdrawalRequests)
+      .leftJoin(users, eq(withdrawalRequests.userId, users.id))
+      .where(eq(withdrawalRequests.batchId, id))
+      .orderBy(withdrawalRequests.createdAt);
+
+    return { batch, withdrawals: rows.map(row => ({ ...row.withdrawal, user: row.user })) };
+  }
+
+  /**
+   * Group approved requests of one payout type into a batch. Requests claimed
+   * by another batch in the meantime are skipped.
+   */
+  async createBatch(withdrawalType: 'bank' | 'usdt', actorId: string, withdrawalIds?: string[], notes?: string): Promise<PayoutBatch> {
+    const candidates = await db
+      .select({ id: withdrawalRequests.id })
+      .from(withdrawalRequests)
+      .where(and(
+        eq(withdrawalRequests.withdrawalType, withdrawalType),
+        eq(withdrawalRequests.status, 'approved'),
+        isNull(withdrawalRequests.batchId),
+        withdrawalIds?.length ? inArray(withdrawalRequests.id, withdrawalIds) : undefined
+      ));
+
+    if (candidates.length === 0) {
+      throw new Error('No approved withdrawals available for this batch');
+    }
+
+    const batchId = randomUUID();
+    const now = new Date();
+    const [, , [batch]] = await db.batch([
+      db.insert(payoutBatches).values({
+        id: batchId,
+        batchNumber: generateBatchNumber(now),
+        withdrawalType,
+        notes,
+        createdBy: actorId,
+      }),
+      db.update(withdrawalRequests)
+        .set({ status: 'batched', batchId, updatedAt: now })
+        .where(and(
+          inArray(withdrawalRequests.id, candidates.map(c => c.id)),
+          eq(withdrawalRequests.status, 'approved'),
+          isNull(withdrawalRequests.batchId)
+        )),
+      // Totals come from the rows actually claimed above
+      db.update(payoutBatches)
+        .set({
+          requestCount: sql`(SELECT COUNT(*) FROM ${withdrawalRequests} WHERE ${withdrawalRequests.batchId} = ${batchId})`,
+          totalAmount: sql`(SELECT COALESCE(SUM(${withdrawalRequests.amount}), 0) FROM ${withdrawalRequests} WHERE ${withdrawalRequests.batchId} = ${batchId})`,
+          totalNetAmount: sql`(SELECT COALESCE(SUM(${withdrawalRequests.netAmount}), 0) FROM ${withdrawalRequests} WHERE ${withdrawalRequests.batchId} = ${batchId})`,
+        })
+        .where(eq(payoutBatches.id, batchId))
+        .returning(),
+    ]);
+
+    console.log(`Created payout batch ${batch.batchNumber} with ${batch.requestCount} ${withdrawalType} withdrawals`);
+    return batch;
+  }
+
+  /**
+   * Record the bank/chain outcome of a batch. Requests without an explicit
+   * result are treated as paid under the batch reference. Safe to retry:
+   * requests already settled are left alone.
+   */
+  async completeBatch(id: string, actorId: string, data: CompletePayoutBatch): Promise<PayoutBatch> {
+    const detail = await this.getBatch(id);
+    if (!detail) {
+      throw new Error('Payout batch not found');
+    }
+    if (detail.batch.status !== 'created') {
+      throw new Error('Payout batch has already been processed');
+    }
+
+    const results = new Map((data.results || []).map(r => [r.withdrawalId, r]));
+    const unknown = Array.from(results.keys()).filter(withdrawalId => !detail.withdrawals.some(w => w.id === withdrawalId));
+    if (unknown.length > 0) {
+      throw new Error(`Withdrawals not in this batch: ${unknown.join(', ')}`);
+    }
+
+    for (const withdrawal of detail.withdrawals) {
+      if (withdrawal.status !== 'batched') continue;
+      const result = results.get(withdrawal.id);
+      await this.recordOutcome(withdrawal.id, {
+        status: result?.status || 'processed',
+        transactionId: result?.transactionId || data.transactionId,
+        reason: result?.reason,
+      }, actorId);
+    }
+
+    const batch = await this.finalizeBatch(id, actorId, data.transactionId);
+    if (!batch) {
+      throw new Error('Payout batch has already been processed');
+    }
+    return batch;
+  }
+
+  /**
+   * Bank bulk-payment file for a bank batch. Beneficiary details come from
+   * the request, falling back to the user's profile.
+   */
+  async exportBatchFile(id: string, format: PayoutFileFormat, mode: PaymentMode = 'NEFT'): Promise<BankPayoutFile> {
+    const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, id));
+    if (!batch) {
+      throw new Error('Payout batch not found');
+    }
+    if (batch.withdrawalType !== 'bank') {
+      throw new Error('Only bank payout batches can be exported as a bank file');
+    }
+
+    const rows = await db
+      .select({ withdrawal: withdrawalRequests, user: users })
+      .from(withdrawalRequests)
+      .leftJoin(users, eq(withdrawalRequests.userId, users.id))
+      .where(and(eq(withdrawalRequests.batchId, id), eq(withdrawalRequests.status, 'batched')))
+      .orderBy(withdrawalRequests.createdAt);
+
+    if (rows.length === 0) {
+      throw new Error('No unpaid withdrawals left in this batch');
+    }
+
+    const lines: BankPayoutLine[] = rows.map(({ withdrawal, user }) => {
+      const bank = (withdrawal.bankDetails || {}) as { accountNumber?: string; ifscCode?: string; accountHolderName?: string };
+      return {
+        reference: paymentReference(withdrawal.id),
+        beneficiaryName: bank.accountHolderName || [user?.firstName, user?.lastName].filter(Boolean).join(' '),
+        accountNumber: (bank.accountNumber || user?.bankAccountNumber || '').replace(/\s/g, ''),
+        ifsc: (bank.ifscCode || user?.bankIFSC || '').trim().toUpperCase(),
+        amount: withdrawal.netAmount || withdrawal.amount,
+        email: user?.email,
+      };
+    });
+
+    const invalid = lines
+      .map(line => ({ line, error: validatePayoutLine(line) }))
+      .filter(result => result.error);
+    if (invalid.length > 0) {
+      throw new Error(`Fix beneficiary details before export: ${invalid.map(i => `${i.line.reference} (${i.error})`).join('; ')}`);
+    }
+
+    const options = { debitAccount: process.env.PAYOUT_DEBIT_ACCOUNT || '', mode };
+    return format === 'fixed'
+      ? buildPayoutFixedWidth(batch.batchNumber, lines, options)
+      : buildPayoutCsv(batch.batchNumber, lines, options);
+  }
+
+  /**
+   * Apply a bank response file to a batch: successful rows are marked
+   * processed with their UTR, failed rows release the held funds. Rows that
+   * are still pending at the bank, unknown or already settled are reported
+   * back and left untouched, so the same file can be imported again.
+   */
+  async importBatchResponse(id: string, content: string, actorId: string): Promise<BankResponseImportResult> {
+    const detail = await this.getBatch(id);
+    if (!detail) {
+      throw new Error('Payout batch not found');
+    }
+
+    const byReference = new Map(detail.withdrawals.map(w => [paymentReference(w.id), w]));
+    const result: BankResponseImportResult = { processed: 0, failed: 0, skipped: [], batch: detail.batch };
+
+    for (const row of parseBankResponseFile(content)) {
+      const withdrawal = byReference.get(row.reference);
+      if (!withdrawal) {
+        result.skipped.push({ line: row.line, reference: row.reference, reason: 'Reference not in this batch' });
+        continue;
+      }
+      if (withdrawal.status !== 'batched') {
+        result.skipped.push({ line: row.line, reference: row.reference, reason: `Already ${withdrawal.status}` });
+        continue;
+      }
+      if (row.status === 'pending') {
+        result.skipped.push({ line: row.line, reference: row.reference, reason: `Bank status ${row.rawStatus || 'missing'}` });
+        continue;
+      }
+      if (row.status === 'processed' && !row.utr) {
+        result.skipped.push({ line: row.line, reference: row.reference, reason: 'Successful payment without UTR' });
+        continue;
+      }
+
+      await this.recordOutcome(withdrawal.id, {
+        status: row.status,
+        transactionId: row.utr,
+        reason: row.remarks || row.rawStatus,
+      }, actorId);
+      withdrawal.status = row.status;
+      result[row.status] += 1;
+    }
+
+    // The batch is done once the bank has answered for every request
+    result.batch = (await this.finalizeIfSettled(id, actorId)) || detail.batch;
+    return result;
+  }
+
+  /**
+   * Record an on-chain USDT payout: the INR/USDT rate used, the USDT amount
+   * sent and the transaction hash, then settle the request
+   */
+  async recordUsdtPayout(withdrawalId: string, inrPerUsdt: number, txHash: string, actorId: string): Promise<WithdrawalRequest> {
+    const [withdrawal] = await db.select().from(withdrawalRequests).where(eq(withdrawalRequests.id, withdrawalId));
+    if (!withdrawal || withdrawal.withdrawalType !== 'usdt') {
+      throw new Error('USDT withdrawal not found');
+    }
+    if (withdrawal.status !== 'batched') {
+      throw new Error('Only batched withdrawals can be paid out');
+    }
+
+    const network = withdrawal.networkType as UsdtNetwork;
+    const hash = txHash.trim();
+    if (!isValidTxHash(hash, network)) {
+      throw new Error(`Not a valid ${network} transaction hash`);
+    }
+
+    const [reused] = await db
+      .select({ id: withdrawalRequests.id })
+      .from(withdrawalRequests)
+      .where(and(sql`lower(${withdrawalRequests.txHash}) = ${hash.toLowerCase()}`, ne(withdrawalRequests.id, withdrawalId)));
+    if (reused) {
+      throw new Error('This transaction hash is already recorded for another payout');
+    }
+
+    await db
+      .update(withdrawalRequests)
+      .set({
+        usdtRate: inrPerUsdt.toFixed(4),
+        usdtAmount: convertInrToUsdt(withdrawal.netAmount || withdrawal.amount, inrPerUsdt),
+        txHash: hash,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(withdrawalRequests.id, withdrawalId), eq(withdrawalRequests.status, 'batched')));
+
+    const settled = await this.recordOutcome(withdrawalId, { status: 'processed', transactionId: hash }, actorId);
+    if (settled.batchId) {
+      await this.finalizeIfSettled(settled.batchId, actorId);
+    }
+    return settled;
+  }
+
+  private async finalizeIfSettled(id: string, actorId: string): Promise<PayoutBatch | undefined> {
+    const [open] = await db
+      .select({ id: withdrawalRequests.id })
+      .from(withdrawalRequests)
+      .where(and(eq(withdrawalRequests.batchId, id), eq(withdrawalRequests.status, 'batched')))
+      .limit(1);
+    return open ? undefined : this.finalizeBatch(id, actorId);
+  }
+
+  private async finalizeBatch(id: string, actorId: string, transactionId?: string): Promise<PayoutBatch | undefined> {
+    const [batch] = await db
+      .update(payoutBatches)
+      .set({
+        status: 'processed',
+        transactionId,
+        processedBy: actorId,
+        processedAt: new Date(),
+        processedCount: sql`(SELECT COUNT(*) FROM ${withdrawalRequests} WHERE ${withdrawalRequests.batchId} = ${id} AND ${withdrawalRequests.status} = 'processed')`,
+        failedCount: sql`(SELECT COUNT(*) FROM ${withdrawalRequests} WHERE ${withdrawalRequests.batchId} = ${id} AND ${withdrawalRequests.status} = 'failed')`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(payoutBatches.id, id), eq(payoutBatches.status, 'created')))
+      .returning();
+    return batch;
+  }
+
+  /**
+   * Settle a batched request. A payout moves the held funds to bank
+   * settlement, TDS payable and withdrawal charges; a failure releases them
+   * back to the wallet.
+   */
+  async recordOutcome(withdrawalId: string, outcome: WithdrawalOutcome, actorId: string): Promise<WithdrawalRequest> {
+    const now = new Date();
+    const [withdrawal] = await db.select().from(withdrawalRequests).where(eq(withdrawalRequests.id, withdrawalId));
+    const settled = withdrawal?.status !== 'batched'
+      ? undefined
+      : outcome.status === 'processed'
+        ? await this.settle(
+            withdrawal,
+            ['batched'],
+            { status: 'processed', transactionId: outcome.transactionId, processedBy: actorId, processedAt: now },
+            this.payout(withdrawal, outcome, actorId)
+          )
+        : await this.settle(
+            withdrawal,
+            ['batched'],
+            { status: 'failed', adminNotes: outcome.reason, processedBy: actorId, processedAt: now },
+            this.holdRelease(withdrawal, 'failed', `Withdrawal payout failed${outcome.reason ? `: ${outcome.reason}` : ''}`, actorId)
+          );
+
+    if (!settled) {
+      throw new Error('Only batched withdrawals can be settled');
+    }
+    return settled;
+  }
+
+  /**
+   * Journal paying a request out to bank settlement, TDS payable and
+   * withdrawal charges
+   */
+  private payout(withdrawal: WithdrawalRequest, outcome: WithdrawalOutcome, actorId: string): LedgerPosting {
+    // Requests filed before holds existed are still paid straight from the wallet
+    const lines: LedgerPostingLine[] = [
+      {
+        account: withdrawal.holdJournalId ? { type: 'withdrawal_hold' } : { type: 'user_wallet', userId: withdrawal.userId },
+        direction: 'debit',
+        amount: withdrawal.amount,
+      },
+      { account: { type: 'bank_settlement' }, direction: 'credit', amount: withdrawal.netAmount || withdrawal.amount },
+    ];
+    if (toPaise(withdrawal.tdsAmount || '0') > BigInt(0)) {
+      lines.push({ account: { type: 'tds_payable' }, direction: 'credit', amount: withdrawal.tdsAmount! });
+    }
+    if (toPaise(withdrawal.adminCharge || '0') > BigInt(0)) {
+      lines.push({ account: { type: 'withdrawal_charges' }, direction: 'credit', amount: withdrawal.adminCharge! });
+    }
+
+    return {
+      type: 'withdrawal',
+      description: `Withdrawal paid out${outcome.transactionId ? ` (ref ${outcome.transactionId})` : ''}`,
+      referenceId: withdrawal.id,
+      metadata: { withdrawalId: withdrawal.id, batchId: withdrawal.batchId, transactionId: outcome.transactionId },
+      createdBy: actorId,
+      lines,
+    };
+  }
+
+
+  /**
+   * Journal returning held funds to the user's wallet, or null for a legacy
+   * request where nothing was held
+   */
+  private holdRelease(withdrawal: WithdrawalRequest, status: 'failed' | 'rejected', description: string, actorId: string): LedgerPosting | null {
+    if (!withdrawal.holdJournalId) {
+      return null;
+    }
+    return {
+      type: 'withdrawal',
+      description,
+      referenceId: withdrawal.id,
+      metadata: { withdrawalId: withdrawal.id, status },
+      createdBy: actorId,
+      lines: [
+        { account: { type: 'withdrawal_hold' }, direction: 'debit', amount: withdrawal.amount },
+        { account: { type: 'user_wallet', userId: withdrawal.userId }, direction: 'credit', amount: withdrawal.amount },
+      ],
+    };
+  }
+
+  /**
+   * Move a request from one of `fromStatuses` to its final status together
+   * with the journal settling its hold, in one batch. Each request has a
+   * single settlement key, so it is paid out or released at most once; when
+   * the status has moved on in the meantime nothing is posted and undefined
+   * comes back.
+   */
+  private async settle(
+    withdrawal: WithdrawalRequest,
+    fromStatuses: WithdrawalStatus[],
+    changes: Partial<typeof withdrawalRequests.$inferInsert>,
+    posting: LedgerPosting | null
+  ): Promise<WithdrawalRequest | undefined> {
+    const claim = (settlementJournalId?: SQL) => db
+      .update(withdrawalRequests)
+      .set({ ...changes, settlementJournalId, updatedAt: new Date() })
+      .where(and(eq(withdrawalRequests.id, withdrawal.id), inArray(withdrawalRequests.status, fromStatuses)))
+      .returning();
+
+    if (!posting) {
+      const [settled] = await claim();
+      return settled;
+    }
+
+    const idempotencyKey = `withdrawal:${withdrawal.id}:settlement`;
+    const journalId = sql`(SELECT ${ledgerJournals.id} FROM ${ledgerJournals} WHERE ${ledgerJournals.idempotencyKey} = ${idempotencyKey})`;
+    try {
+      const { results: [[settled]] } = await ledgerService.postBatch<[WithdrawalRequest[]]>([{ ...posting, idempotencyKey }], [
+        claim(journalId),
+        // A no-op after a successful claim; otherwise the request is not final
+        // and the check constraint fails the batch, journal included
+        db.update(withdrawalRequests)
+          .set({ settlementJournalId: journalId })
+          .where(eq(withdrawalRequests.id, withdrawal.id)),
+      ]);
+      return settled;
+    } catch (error) {
+      if (error instanceof DuplicatePostingError || String((error as any)?.message || '').includes(SETTLEMENT_CONSTRAINT)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+export const withdrawalService = new WithdrawalService();
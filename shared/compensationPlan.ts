@@ -0,0 +1,183 @@
+import { z } from "zod";
+
+// Compensation plan definition - stored as versioned JSON in compensation_plans
+// and read by both the server (income engines) and the client (rank progress)
+
+export const rankRequirementSchema = z.object({
+  name: z.string().min(1),
+  teamBV: z.number().min(0), // Total team BV needed to qualify
+  leftBV: z.number().min(0).default(0), // Minimum left leg BV (0 = not required)
+  rightBV: z.number().min(0).default(0), // Minimum right leg BV (0 = not required)
+  directRecruits: z.number().int().min(0).default(0),
+  bonus: z.number().min(0), // One-time rank achievement bonus (INR)
+  dailyCap: z.number().min(0), // Daily sales bonus ceiling (INR)
+  weeklyCap: z.number().min(0), // Weekly sales bonus ceiling (INR)
+});
+
+export const franchiseTermsSchema = z.object({
+  type: z.string().min(1),
+  amount: z.number().min(0), // Investment amount (INR)
+  bv: z.number().min(0),
+  sponsorIncome: z.number().min(0),
+});
+
+export const withdrawalTermsSchema = z.object({
+  minAmount: z.number().min(0), // Smallest gross amount a user may request (INR)
+  tdsRate: z.number().min(0).max(1), // Tax deducted at source on the gross amount
+  adminChargeRate: z.number().min(0).max(1), // Processing charge on the gross amount
+  requestWindowHours: z.number().int().min(0), // One request per user per window (0 = unlimited)
+  usdtAddressCooldownHours: z.number().min(0).default(48), // Wait after changing the whitelisted USDT address
+});
+
+export const activationTermsSchema = z.object({
+  firstPurchaseAmount: z.number().min(0), // First-purchase value (INR, before GST) in one order that activates an ID
+  monthlyRepurchaseBV: z.number().min(0), // Repurchase BV in a month that keeps an ID active for the next month's payouts
+});
+
+export const consistencySlabSchema = z.object({
+  name: z.string().min(1),
+  streakMonths: z.number().int().min(1), // Consecutive months meeting the monthly repurchase BV, ending with the month paid for
+  teamBV: z.number().min(0), // Team repurchase BV in the month paid for
+  amount: z.number().min(0), // Monthly consistency bonus (INR)
+});
+
+export const rewardPoolSchema = z.object({
+  type: z.enum(['car_fund', 'travel_fund', 'leadership_fund', 'house_fund', 'millionaire_club', 'royalty_income']),
+  name: z.string().min(1),
+  turnoverRate: z.number().min(0).max(1), // Share of company-wide BV put into the pool each month
+  minRank: z.string().min(1), // Lowest achieved rank that qualifies; each rank above it earns one more share
+  minMatchedBV: z.number().min(0), // Binary matched BV needed in the month
+});
+
+export const compensationPlanDefinitionSchema = z.object({
+  sponsorIncomeRate: z.number().min(0).max(1), // Share of purchase BV paid to the direct sponsor
+  binary: z.object({
+    matchingRate: z.number().min(0).max(1), // Share of matched BV paid as sales bonus
+  }),
+  ranks: z.array(rankRequirementSchema).min(1), // Ordered lowest to highest
+  franchises: z.array(franchiseTermsSchema),
+  franchiseIncomeRate: z.number().min(0).max(1).default(0.05), // Share of order BV paid to the franchise that fulfils it
+  // Versions published before withdrawal, activation, consistency or pool terms existed fall back to the defaults
+  withdrawal: withdrawalTermsSchema.default({ minAmount: 500, tdsRate: 0.05, adminChargeRate: 0.05, requestWindowHours: 24, usdtAddressCooldownHours: 48 }),
+  activation: activationTermsSchema.default({ firstPurchaseAmount: 5000, monthlyRepurchaseBV: 500 }),
+  consistencySlabs: z.array(consistencySlabSchema).default([
+    { name: 'Consistent 3', streakMonths: 3, teamBV: 5000, amount: 1000 },
+    { name: 'Consistent 6', streakMonths: 6, teamBV: 15000, amount: 2500 },
+    { name: 'Consistent 12', streakMonths: 12, teamBV: 50000, amount: 7500 },
+  ]), // Ordered lowest to highest
+  rewardPools: z.array(rewardPoolSchema).default([
+    { type: 'travel_fund', name: 'Travel Fund', turnoverRate: 0.02, minRank: 'Gold Star', minMatchedBV: 10000 },
+    { type: 'car_fund', name: 'Car Fund', turnoverRate: 0.03, minRank: 'Emerald Star', minMatchedBV: 25000 },
+    { type: 'leadership_fund', name: 'Leadership Fund', turnoverRate: 0.02, minRank: 'Ruby Star', minMatchedBV: 25000 },
+    { type: 'house_fund', name: 'House Fund', turnoverRate: 0.02, minRank: 'Diamond', minMatchedBV: 50000 },
+    { type: 'millionaire_club', name: 'Millionaire Club', turnoverRate: 0.01, minRank: 'President', minMatchedBV: 100000 },
+  ]),
+});
+
+export type RankRequirement = z.infer<typeof rankRequirementSchema>;
+export type FranchiseTerms = z.infer<typeof franchiseTermsSchema>;
+export type WithdrawalTerms = z.infer<typeof withdrawalTermsSchema>;
+export type ActivationTerms = z.infer<typeof activationTermsSchema>;
+export type ConsistencySlab = z.infer<typeof consistencySlabSchema>;
+export type RewardPool = z.infer<typeof rewardPoolSchema>;
+export type CompensationPlanDefinition = z.infer<typeof compensationPlanDefinitionSchema>;
+
+// Plan in force before any version has been published
+export const DEFAULT_COMPENSATION_PLAN: CompensationPlanDefinition = {
+  sponsorIncomeRate: 0.10,
+  binary: {
+    matchingRate: 0.10,
+  },
+  ranks: [
+    { name: 'Executive', teamBV: 0, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 0, dailyCap: 5000, weeklyCap: 25000 },
+    { name: 'Bronze Star', teamBV: 125000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 5000, dailyCap: 10000, weeklyCap: 50000 },
+    { name: 'Gold Star', teamBV: 250000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 10000, dailyCap: 20000, weeklyCap: 100000 },
+    { name: 'Emerald Star', teamBV: 900000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 36000, dailyCap: 40000, weeklyCap: 200000 },
+    { name: 'Ruby Star', teamBV: 1800000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 90000, dailyCap: 75000, weeklyCap: 375000 },
+    { name: 'Diamond', teamBV: 4500000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 225000, dailyCap: 150000, weeklyCap: 750000 },
+    { name: 'Wise President', teamBV: 9000000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 360000, dailyCap: 250000, weeklyCap: 1250000 },
+    { name: 'President', teamBV: 27000000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 810000, dailyCap: 500000, weeklyCap: 2500000 },
+    { name: 'Ambassador', teamBV: 81000000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 1620000, dailyCap: 1000000, weeklyCap: 5000000 },
+    { name: 'Deputy Director', teamBV: 243000000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 2500000, dailyCap: 2000000, weeklyCap: 10000000 },
+    { name: 'Director', teamBV: 900000000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 10000000, dailyCap: 5000000, weeklyCap: 25000000 },
+    { name: 'Founder', teamBV: 2700000000, leftBV: 0, rightBV: 0, directRecruits: 0, bonus: 35000000, dailyCap: 10000000, weeklyCap: 50000000 },
+  ],
+  franchises: [
+    { type: 'Mini Franchise', amount: 250000, bv: 62500, sponsorIncome: 12500 },
+    { type: 'Basic Franchise', amount: 500000, bv: 125000, sponsorIncome: 25000 },
+    { type: 'Smart Franchise', amount: 1000000, bv: 250000, sponsorIncome: 50000 },
+    { type: 'Growth Franchise', amount: 2500000, bv: 625000, sponsorIncome: 125000 },
+    { type: 'Master Franchise', amount: 5000000, bv: 1250000, sponsorIncome: 250000 },
+    { type: 'Super Franchise', amount: 10000000, bv: 2500000, sponsorIncome: 500000 },
+  ],
+  franchiseIncomeRate: 0.05,
+  withdrawal: {
+    minAmount: 500,
+    tdsRate: 0.05,
+    adminChargeRate: 0.05,
+    requestWindowHours: 24,
+    usdtAddressCooldownHours: 48,
+  },
+  activation: {
+    firstPurchaseAmount: 5000,
+    monthlyRepurchaseBV: 500,
+  },
+  consistencySlabs: [
+    { name: 'Consistent 3', streakMonths: 3, teamBV: 5000, amount: 1000 },
+    { name: 'Consistent 6', streakMonths: 6, teamBV: 15000, amount: 2500 },
+    { name: 'Consistent 12', streakMonths: 12, teamBV: 50000, amount: 7500 },
+  ],
+  rewardPools: [
+    { type: 'travel_fund', name: 'Travel Fund', turnoverRate: 0.02, minRank: 'Gold Star', minMatchedBV: 10000 },
+    { type: 'car_fund', name: 'Car Fund', turnoverRate: 0.03, minRank: 'Emerald Star', minMatchedBV: 25000 },
+    { type: 'leadership_fund', name: 'Leadership Fund', turnoverRate: 0.02, minRank: 'Ruby Star', minMatchedBV: 25000 },
+    { type: 'house_fund', name: 'House Fund', turnoverRate: 0.02, minRank: 'Diamond', minMatchedBV: 50000 },
+    { type: 'millionaire_club', name: 'Millionaire Club', turnoverRate: 0.01, minRank: 'President', minMatchedBV: 100000 },
+  ],
+};
+
+/**
+ * The calendar month whose repurchase BV decides whether an ID is active in
+ * a payout period: the month before the one the period starts in
+ */
+export function getQualificationMonth(periodStart: Date): { start: Date; end: Date } {
+  return {
+    start: new Date(periodStart.getFullYear(), periodStart.getMonth() - 1, 1),
+    end: new Date(periodStart.getFullYear(), periodStart.getMonth(), 1),
+  };
+}
+
+/**
+ * Highest consistency slab reached with the given streak and team repurchase BV
+ */
+export function getConsistencySlab(plan: CompensationPlanDefinition, streakMonths: number, teamBV: number): ConsistencySlab | undefined {
+  let reached: ConsistencySlab | undefined;
+  for (const slab of plan.consistencySlabs) {
+    if (streakMonths >= slab.streakMonths && teamBV >= slab.teamBV && (!reached || slab.amount >= reached.amount)) {
+      reached = slab;
+    }
+  }
+  return reached;
+}
+
+export function getRankRequirement(plan: CompensationPlanDefinition, rank: string | null | undefined): RankRequirement {
+  return plan.ranks.find(r => r.name === rank) || plan.ranks[0];
+}
+
+export function getNextRank(plan: CompensationPlanDefinition, rank: string | null | undefined): RankRequirement | undefined {
+  const index = plan.ranks.findIndex(r => r.name === (rank || plan.ranks[0].name));
+  return index >= 0 ? plan.ranks[index + 1] : plan.ranks[1];
+}
+
+/**
+ * Whether the given team figures satisfy every requirement of a rank
+ */
+export function meetsRankRequirement(
+  requirement: RankRequirement,
+  stats: { teamBV: number; leftBV: number; rightBV: number; directRecruits: number }
+): boolean {
+  return stats.teamBV >= requirement.teamBV &&
+    stats.leftBV >= requirement.leftBV &&
+    stats.rightBV >= requirement.rightBV &&
+    stats.directRecruits >= requirement.directRecruits;
+}
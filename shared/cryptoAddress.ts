@@ -0,0 +1,105 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+// USDT address and transaction hash validation, shared by the withdrawal
+// form and the server so both reject the same input
+
+export type UsdtNetwork = 'TRC20' | 'ERC20' | 'BEP20';
+
+export type AddressValidation =
+  | { valid: true; address: string } // Normalised form to store
+  | { valid: false; error: string };
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const TRON_ADDRESS_PREFIX = 0x41;
+
+function base58Decode(text: string): Uint8Array | null {
+  let value = BigInt(0);
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value % BigInt(256)));
+    value = value / BigInt(256);
+  }
+  // Leading '1's encode leading zero bytes
+  for (const char of text) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function validateTronAddress(address: string): AddressValidation {
+  if (!/^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address)) {
+    return { valid: false, error: 'TRC20 addresses start with T and are 34 characters long' };
+  }
+
+  const decoded = base58Decode(address);
+  if (!decoded || decoded.length !== 25 || decoded[0] !== TRON_ADDRESS_PREFIX) {
+    return { valid: false, error: 'Not a valid TRON address' };
+  }
+
+  const payload = decoded.slice(0, 21);
+  const checksum = sha256(sha256(payload)).slice(0, 4);
+  if (!checksum.every((byte, i) => byte === decoded[21 + i])) {
+    return { valid: false, error: 'TRON address checksum does not match' };
+  }
+  return { valid: true, address };
+}
+
+/**
+ * EIP-55 mixed-case checksum form of a 0x address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
+
+function validateEvmAddress(address: string, network: UsdtNetwork): AddressValidation {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return { valid: false, error: `${network} addresses are 0x followed by 40 hex characters` };
+  }
+
+  // All-lower/all-upper addresses carry no checksum; mixed case must match EIP-55
+  const body = address.slice(2);
+  const checksummed = toChecksumAddress(address);
+  if (body !== body.toLowerCase() && body !== body.toUpperCase() && address !== checksummed) {
+    return { valid: false, error: `${network} address checksum does not match` };
+  }
+  return { valid: true, address: checksummed };
+}
+
+/**
+ * Check a USDT address against the format and checksum rules of its network
+ */
+export function validateUsdtAddress(address: string, network: UsdtNetwork): AddressValidation {
+  const trimmed = address.trim();
+  return network === 'TRC20' ? validateTronAddress(trimmed) : validateEvmAddress(trimmed, network);
+}
+
+/**
+ * Networks an address could belong to (ERC20 and BEP20 share a format)
+ */
+export function detectUsdtNetworks(address: string): UsdtNetwork[] {
+  return (['TRC20', 'ERC20', 'BEP20'] as UsdtNetwork[]).filter(network => validateUsdtAddress(address, network).valid);
+}
+
+export function isValidTxHash(txHash: string, network: UsdtNetwork): boolean {
+  return network === 'TRC20' ? /^[0-9a-fA-F]{64}$/.test(txHash) : /^0x[0-9a-fA-F]{64}$/.test(txHash);
+}
+
+export function sameUsdtAddress(a: string, b: string): boolean {
+  // EVM addresses are case-insensitive; base58 TRON addresses are not
+  return a.startsWith('0x') && b.startsWith('0x') ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
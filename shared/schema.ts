@@ -10,9 +10,13 @@ import {
   boolean,
   decimal,
   integer,
+  uniqueIndex,
+  unique,
+  check,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { compensationPlanDefinitionSchema } from "./compensationPlan";
 
 // Session storage table - mandatory for Replit Auth
 export const sessions = pgTable(
@@ -35,7 +39,7 @@ export const userStatusEnum = pgEnum('user_status', ['invited', 'registered', 'a
 export const rankEnum = pgEnum('rank', ['Executive', 'Bronze Star', 'Gold Star', 'Emerald Star', 'Ruby Star', 'Diamond', 'Wise President', 'President', 'Ambassador', 'Deputy Director', 'Director', 'Founder']);
 
 // Transaction type enum
-export const transactionTypeEnum = pgEnum('transaction_type', ['sponsor_income', 'sales_incentive', 'sales_bonus', 'consistency_bonus', 'franchise_income', 'car_fund', 'travel_fund', 'leadership_fund', 'house_fund', 'millionaire_club', 'royalty_income', 'withdrawal', 'purchase', 'admin_credit', 'admin_debit']);
+export const transactionTypeEnum = pgEnum('transaction_type', ['sponsor_income', 'sales_incentive', 'sales_bonus', 'consistency_bonus', 'franchise_income', 'car_fund', 'travel_fund', 'leadership_fund', 'house_fund', 'millionaire_club', 'royalty_income', 'withdrawal', 'purchase', 'admin_credit', 'admin_debit', 'fund_transfer']);
 
 // KYC status enum
 export const kycStatusEnum = pgEnum('kyc_status', ['pending', 'approved', 'rejected']);
@@ -74,6 +78,8 @@ export const users = pgTable("users", {
   rightChildId: varchar("right_child_id"),
   position: varchar("position"), // 'left' or 'right' position under parent
   level: varchar("level").default('0'), // Depth in the binary tree
+  placementStrategy: varchar("placement_strategy"), // Spillover strategy for own recruits (see placementStrategies); breadth-first when unset
+  preferredLeg: varchar("preferred_leg"), // 'left' or 'right', for the preferred_leg strategy
   
   // Team Management Fields
   packageAmount: decimal("package_amount", { precision: 10, scale: 2 }).default('0.00'),
@@ -104,15 +110,27 @@ export const users = pgTable("users", {
   totalDirects: integer("total_directs").default(0),
   leftDirects: integer("left_directs").default(0),
   rightDirects: integer("right_directs").default(0),
-  
+
+  // Binary Matching State (moved only when a payout cycle statement is credited)
+  processedLeftBV: decimal("processed_left_bv", { precision: 12, scale: 2 }).default('0.00'), // Portion of leftBV consumed by credited payout cycle statements
+  processedRightBV: decimal("processed_right_bv", { precision: 12, scale: 2 }).default('0.00'), // Portion of rightBV consumed by credited payout cycle statements
+  leftCarryForwardBV: decimal("left_carry_forward_bv", { precision: 12, scale: 2 }).default('0.00'),
+  rightCarryForwardBV: decimal("right_carry_forward_bv", { precision: 12, scale: 2 }).default('0.00'),
+  totalMatchedBV: decimal("total_matched_bv", { precision: 12, scale: 2 }).default('0.00'),
+  lastMatchedAt: timestamp("last_matched_at"),
+
   // KYC Status
   kycStatus: kycStatusEnum("kyc_status").default('pending'),
   kycSubmittedAt: timestamp("kyc_submitted_at"),
   kycApprovedAt: timestamp("kyc_approved_at"),
   
   // Security & Financial Fields
-  txnPin: varchar("txn_pin"), // Transaction PIN for secure operations
+  txnPin: varchar("txn_pin"), // bcrypt hash of the transaction PIN for secure operations
+  txnPinFailedAttempts: integer("txn_pin_failed_attempts").default(0), // Consecutive wrong PIN entries
+  txnPinLockedUntil: timestamp("txn_pin_locked_until"), // PIN checks refused until this time
+  txnPinUpdatedAt: timestamp("txn_pin_updated_at"),
   cryptoWalletAddress: varchar("crypto_wallet_address"), // USDT/Crypto wallet address
+  cryptoWalletUpdatedAt: timestamp("crypto_wallet_updated_at"), // Start of the withdrawal cool-down after a change
   
   // Password change tracking
   firstLogin: boolean("first_login").default(true),
@@ -132,7 +150,7 @@ export const emailTokens = pgTable("email_tokens", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").notNull(),
   token: varchar("token").notNull().unique(),
-  type: varchar("type").notNull(), // 'signup', 'password_reset', 'invitation', 'referral'
+  type: varchar("type").notNull(), // 'signup', 'password_reset', 'invitation', 'referral', 'txn_pin_reset'
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   
@@ -155,6 +173,7 @@ export const referralLinks = pgTable("referral_links", {
   generatedBy: varchar("generated_by").notNull(), // User ID who generated the link
   generatedByRole: varchar("generated_by_role").notNull(), // 'user', 'admin', 'founder'
   placementSide: varchar("placement_side").notNull(), // 'left' or 'right'
+  placementStrategy: varchar("placement_strategy"), // Overrides the sponsor's spillover strategy for this link
   pendingRecruitId: varchar("pending_recruit_id"), // Link to pending recruit for upline-generated links
   isUsed: boolean("is_used").default(false),
   usedBy: varchar("used_by"), // User ID who used the link
@@ -189,6 +208,7 @@ export const pendingRecruits = pgTable("pending_recruits", {
   uplineId: varchar("upline_id"), // Parent of the recruiter who decides position
   packageAmount: varchar("package_amount").default('0.00'),
   position: varchar("position"), // Will be set by upline decision
+  placementStrategy: varchar("placement_strategy"), // From the referral link; placed by this strategy under the recruiter
   uplineDecision: varchar("upline_decision").default('pending'), // 'pending', 'approved', 'rejected'
   uplineDecisionAt: timestamp("upline_decision_at"),
   status: varchar("status").default('awaiting_upline'), // 'awaiting_upline', 'awaiting_details', 'awaiting_admin', 'approved', 'rejected'
@@ -248,9 +268,10 @@ export const products = pgTable("products", {
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   bv: decimal("bv", { precision: 10, scale: 2 }).notNull(), // Business Volume
   gst: decimal("gst", { precision: 5, scale: 2 }).notNull(), // GST percentage
-  category: varchar("category").notNull(), // 'water_purifier', 'led', 'fan', etc.
+  category: varchar("category").notNull(), // Slug of a product_categories row: 'water_purifier', 'led', 'fan', etc.
+  hsnCode: varchar("hsn_code"), // HSN code printed on GST invoices
   purchaseType: purchaseTypeEnum("purchase_type").notNull(),
-  imageUrl: varchar("image_url"),
+  imageUrl: varchar("image_url"), // Primary image; the first of product_images when there are any
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -261,14 +282,21 @@ export const purchases = pgTable("purchases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
   productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"), // Capacity/colour variant the line was priced at, if any
   quantity: integer("quantity").default(1),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   totalBV: decimal("total_bv", { precision: 10, scale: 2 }).notNull(),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }), // GST percentage at the time of the order
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }), // GST on totalAmount, which is the taxable value
   paymentMethod: varchar("payment_method"),
-  paymentStatus: varchar("payment_status").default('pending'),
+  paymentStatus: varchar("payment_status").default('pending'), // 'pending', 'paid', 'failed', 'refunded', 'cancelled' (mirrors the order; a returned line is refunded on its own)
   transactionId: varchar("transaction_id"),
+  orderId: varchar("order_id"), // Checkout order this line belongs to
+  paidAt: timestamp("paid_at"), // When payment was confirmed; BV counts from here
+  bvAppliedAt: timestamp("bv_applied_at"), // Set while the line's BV is counted in the cached upline totals
   deliveryAddress: text("delivery_address"),
-  deliveryStatus: varchar("delivery_status").default('pending'),
+  deliveryStatus: varchar("delivery_status").default('pending'), // Mirrors the order: 'pending', 'packed', 'shipped', 'delivered', 'failed'
+  courier: varchar("courier"),
   trackingId: varchar("tracking_id"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -282,7 +310,7 @@ export const walletBalances = pgTable("wallet_balances", {
   totalEarnings: decimal("total_earnings", { precision: 12, scale: 2 }).default('0.00'),
   totalWithdrawals: decimal("total_withdrawals", { precision: 12, scale: 2 }).default('0.00'),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [check("wallet_balance_non_negative", sql`${table.balance} >= 0`)]); // Projection of the user's ledger wallet account
 
 // Transactions table for all financial activities
 export const transactions = pgTable("transactions", {
@@ -304,17 +332,30 @@ export const withdrawalRequests = pgTable("withdrawal_requests", {
   userId: varchar("user_id").notNull(),
   withdrawalType: varchar("withdrawal_type").notNull().default('bank'), // 'bank', 'usdt'
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status").default('pending'), // 'pending', 'approved', 'rejected', 'processed'
+  status: varchar("status").default('pending'), // 'pending', 'approved', 'batched', 'processed', 'failed', 'rejected'
+  tdsAmount: decimal("tds_amount", { precision: 10, scale: 2 }).default('0.00'),
+  adminCharge: decimal("admin_charge", { precision: 10, scale: 2 }).default('0.00'),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }), // Amount actually paid out (amount - TDS - admin charge)
+  batchId: varchar("batch_id"), // Payout batch the request was paid in
+  holdJournalId: varchar("hold_journal_id"), // Ledger journal that moved the funds into withdrawal hold
+  settlementJournalId: varchar("settlement_journal_id"), // Ledger journal that paid out or released the hold
   bankDetails: jsonb("bank_details"), // Now optional for USDT withdrawals
   usdtWalletAddress: varchar("usdt_wallet_address"), // For USDT withdrawals
   networkType: varchar("network_type"), // 'TRC20', 'ERC20', 'BEP20' for USDT
+  usdtRate: decimal("usdt_rate", { precision: 12, scale: 4 }), // INR per USDT at payout time
+  usdtAmount: decimal("usdt_amount", { precision: 18, scale: 6 }), // netAmount converted at usdtRate
+  txHash: varchar("tx_hash"), // On-chain transaction hash of the USDT payout
   adminNotes: text("admin_notes"),
   processedBy: varchar("processed_by"),
   processedAt: timestamp("processed_at"),
   transactionId: varchar("transaction_id"),
+  windowEndsAt: timestamp("window_ends_at"), // End of the request window this request opened (see migration 0032)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // A settlement journal is only recorded against a request that reached its final status
+  check("withdrawal_settlement_when_final", sql`${table.settlementJournalId} IS NULL OR ${table.status} IN ('processed', 'failed', 'rejected')`),
+]);
 
 // KYC documents table
 export const kycDocuments = pgTable("kyc_documents", {
@@ -346,6 +387,8 @@ export const rankAchievements = pgTable("rank_achievements", {
   rightBV: decimal("right_bv", { precision: 12, scale: 2 }).notNull(),
   bonus: decimal("bonus", { precision: 10, scale: 2 }).default('0.00'),
   metadata: jsonb("metadata"), // Additional achievement data
+  revokedAt: timestamp("revoked_at"), // Set when a refund took the team back below the rank
+  revokedReason: text("revoked_reason"),
 });
 
 // Franchise requests table
@@ -574,25 +617,36 @@ export const createProductSchema = createInsertSchema(products).pick({
   bv: true,
   gst: true,
   category: true,
+  hsnCode: true,
   purchaseType: true,
   imageUrl: true,
 }).extend({
   name: z.string().min(1, "Product name is required"),
+  hsnCode: z.string().regex(/^\d{4,8}$/, "HSN code must be 4 to 8 digits").optional(),
   price: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Valid price is required"),
   bv: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Valid BV is required"),
   gst: z.string().refine((val) => !isNaN(Number(val)) && Number(val) >= 0, "Valid GST is required"),
 });
 
+export const updateProductSchema = createProductSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
 // Schema for purchases
 export const createPurchaseSchema = createInsertSchema(purchases).pick({
   productId: true,
+  variantId: true,
   quantity: true,
   paymentMethod: true,
   deliveryAddress: true,
 }).extend({
   productId: z.string().min(1, "Product is required"),
-  quantity: z.number().min(1, "Quantity must be at least 1"),
+  variantId: z.string().optional(),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  paymentMethod: z.enum(['wallet', 'gateway']),
   deliveryAddress: z.string().min(10, "Complete delivery address is required"),
+  stockPointId: z.string().optional(), // Pickup/fulfilment point; the main warehouse when omitted
+  txnPin: z.string().optional(), // Required for wallet payments
 });
 
 // Schema for withdrawal requests
@@ -609,6 +663,7 @@ export const createWithdrawalSchema = z.object({
   // USDT details (required for USDT withdrawals)
   usdtWalletAddress: z.string().optional(),
   networkType: z.enum(['TRC20', 'ERC20', 'BEP20']).optional(),
+  txnPin: z.string().min(1, "Transaction PIN is required"),
 }).refine((data) => {
   if (data.withdrawalType === 'bank') {
     return data.bankDetails !== undefined;
@@ -705,7 +760,6 @@ export const updateUserSchema = createInsertSchema(users).pick({
   mobile: true,
   packageAmount: true,
   cryptoWalletAddress: true,
-  txnPin: true,
 }).partial();
 
 // Type exports
@@ -718,6 +772,7 @@ export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
 export type CreateToken = z.infer<typeof createTokenSchema>;
 export type PasswordReset = z.infer<typeof passwordResetSchema>;
 export type CreateProduct = z.infer<typeof createProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
 export type CreatePurchase = z.infer<typeof createPurchaseSchema>;
 export type CreateWithdrawal = z.infer<typeof createWithdrawalSchema>;
 export type CreateKYC = z.infer<typeof createKYCSchema>;
@@ -750,6 +805,7 @@ export const createReferralLinkSchema = createInsertSchema(referralLinks).pick({
   generatedBy: true,
   generatedByRole: true,
   placementSide: true,
+  placementStrategy: true,
   pendingRecruitId: true,
   expiresAt: true,
 });
@@ -831,3 +887,928 @@ export const auditLog = pgTable("audit_log", {
 // Enhanced type exports
 export type ApprovalRequest = typeof approvalRequests.$inferSelect;
 export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// Payout Cycles - Periodic commission runs (weekly/monthly)
+export const payoutCycles = pgTable("payout_cycles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cycleType: varchar("cycle_type").notNull(), // 'weekly', 'monthly'
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Exclusive upper bound
+  status: varchar("status").default('open').notNull(), // 'open', 'closed', 'locked'
+  planVersion: integer("plan_version"), // Compensation plan version applied when the cycle was closed
+  
+  // Totals captured when the cycle is closed
+  totalUsers: integer("total_users").default(0),
+  totalSponsorIncome: decimal("total_sponsor_income", { precision: 14, scale: 2 }).default('0.00'),
+  totalSalesBonus: decimal("total_sales_bonus", { precision: 14, scale: 2 }).default('0.00'),
+  totalPayout: decimal("total_payout", { precision: 14, scale: 2 }).default('0.00'),
+  
+  closedBy: varchar("closed_by"),
+  closedAt: timestamp("closed_at"),
+  lockedBy: varchar("locked_by"),
+  lockedAt: timestamp("locked_at"),
+  notes: text("notes"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_payout_cycle_period").on(table.cycleType, table.periodStart)]);
+
+// Payout Statements - Per-user snapshot of a closed cycle
+export const payoutStatements = pgTable("payout_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cycleId: varchar("cycle_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  rank: varchar("rank"), // Rank at the time the cycle was closed
+  
+  // Binary snapshot
+  openingLeftCarryBV: decimal("opening_left_carry_bv", { precision: 12, scale: 2 }).default('0.00'),
+  openingRightCarryBV: decimal("opening_right_carry_bv", { precision: 12, scale: 2 }).default('0.00'),
+  periodLeftBV: decimal("period_left_bv", { precision: 12, scale: 2 }).default('0.00'),
+  periodRightBV: decimal("period_right_bv", { precision: 12, scale: 2 }).default('0.00'),
+  matchedBV: decimal("matched_bv", { precision: 12, scale: 2 }).default('0.00'),
+  closingLeftCarryBV: decimal("closing_left_carry_bv", { precision: 12, scale: 2 }).default('0.00'),
+  closingRightCarryBV: decimal("closing_right_carry_bv", { precision: 12, scale: 2 }).default('0.00'),
+  
+  // Income
+  sponsorIncome: decimal("sponsor_income", { precision: 12, scale: 2 }).default('0.00'),
+  salesBonus: decimal("sales_bonus", { precision: 12, scale: 2 }).default('0.00'),
+  cappedAmount: decimal("capped_amount", { precision: 12, scale: 2 }).default('0.00'), // Sales bonus flushed by rank caps
+  lapsedAmount: decimal("lapsed_amount", { precision: 12, scale: 2 }).default('0.00'), // Sales bonus forfeited while the ID was not active
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).default('0.00'),
+  lines: jsonb("lines"), // Itemised income lines explaining the statement
+  
+  status: varchar("status").default('pending'), // 'pending', 'credited'
+  creditedAt: timestamp("credited_at"),
+  claimToken: varchar("claim_token"), // Written by the batch that credited the statement
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_payout_statement_cycle_user").on(table.cycleId, table.userId)]);
+
+// Schema for opening a payout cycle
+export const createPayoutCycleSchema = z.object({
+  cycleType: z.enum(['weekly', 'monthly']),
+  periodStart: z.coerce.date().optional(),
+  notes: z.string().optional(),
+});
+
+export type CreatePayoutCycle = z.infer<typeof createPayoutCycleSchema>;
+export type PayoutCycle = typeof payoutCycles.$inferSelect;
+export type PayoutStatement = typeof payoutStatements.$inferSelect;
+
+// Compensation Plans - Versioned plan definitions (ranks, rates, franchise terms)
+export const compensationPlans = pgTable("compensation_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  planId: varchar("plan_id").default('binary').notNull(), // Matches approvalRequests.planId
+  version: integer("version").notNull(),
+  name: varchar("name").notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(), // Applies to periods starting on or after this date
+  definition: jsonb("definition").notNull(), // CompensationPlanDefinition
+  status: varchar("status").default('published').notNull(), // 'published', 'retired'
+  notes: text("notes"),
+  publishedBy: varchar("published_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_compensation_plan_version").on(table.planId, table.version)]);
+
+// Schema for publishing a compensation plan version
+export const publishCompensationPlanSchema = z.object({
+  planId: z.string().default('binary'),
+  name: z.string().min(1, "Plan name is required"),
+  effectiveFrom: z.coerce.date(),
+  definition: compensationPlanDefinitionSchema,
+  notes: z.string().optional(),
+});
+
+export type PublishCompensationPlan = z.infer<typeof publishCompensationPlanSchema>;
+export type CompensationPlan = typeof compensationPlans.$inferSelect;
+
+// Ledger Accounts - Double-entry accounts (balance = credits - debits)
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").notNull().unique(), // 'user_wallet:<userId>', 'payout_pool', 'tds_payable', ...
+  accountType: varchar("account_type").notNull(), // 'user_wallet', 'payout_pool', 'tds_payable', 'admin_adjustment', 'bank_settlement', 'sales_revenue'
+  userId: varchar("user_id"), // Set for user wallet accounts
+  name: varchar("name").notNull(),
+  balance: decimal("balance", { precision: 14, scale: 2 }).default('0.00').notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  check("ledger_user_wallet_non_negative", sql`${table.accountType} <> 'user_wallet' OR ${table.balance} >= 0`),
+]);
+
+// Ledger Journals - One balanced posting per money movement
+export const ledgerJournals = pgTable("ledger_journals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionType: transactionTypeEnum("transaction_type").notNull(),
+  description: text("description").notNull(),
+  referenceId: varchar("reference_id"),
+  metadata: jsonb("metadata"),
+  createdBy: varchar("created_by"),
+  idempotencyKey: varchar("idempotency_key"), // Set when a journal must only ever be posted once (e.g. 'payout_statement:<id>:sales_bonus')
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_ledger_journals_idempotency_key").on(table.idempotencyKey),
+]);
+
+// Ledger Entries - Debit/credit lines of a journal
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  journalId: varchar("journal_id").notNull(),
+  accountId: varchar("account_id").notNull(),
+  direction: varchar("direction").notNull(), // 'debit', 'credit'
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_ledger_entries_journal").on(table.journalId),
+  index("IDX_ledger_entries_account").on(table.accountId),
+  check("ledger_entry_amount_positive", sql`${table.amount} > 0`),
+]);
+
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerJournal = typeof ledgerJournals.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+// Payout Batches - Approved withdrawals paid out together
+export const payoutBatches = pgTable("payout_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  batchNumber: varchar("batch_number").notNull().unique(), // PB-YYYYMMDD-XXXX
+  withdrawalType: varchar("withdrawal_type").notNull(), // 'bank', 'usdt'
+  status: varchar("status").default('created').notNull(), // 'created', 'processed'
+  requestCount: integer("request_count").default(0).notNull(),
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).default('0.00').notNull(),
+  totalNetAmount: decimal("total_net_amount", { precision: 14, scale: 2 }).default('0.00').notNull(),
+  processedCount: integer("processed_count").default(0).notNull(),
+  failedCount: integer("failed_count").default(0).notNull(),
+  transactionId: varchar("transaction_id"), // Bank / chain reference for the whole batch
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  processedBy: varchar("processed_by"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Schema for approving or rejecting a pending withdrawal
+export const reviewWithdrawalSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  adminNotes: z.string().optional(),
+});
+
+// Schema for grouping approved withdrawals into a payout batch
+export const createPayoutBatchSchema = z.object({
+  withdrawalType: z.enum(['bank', 'usdt']),
+  withdrawalIds: z.array(z.string()).optional(), // Defaults to every approved request of the type
+  notes: z.string().optional(),
+});
+
+// Schema for recording the outcome of a payout batch
+export const completePayoutBatchSchema = z.object({
+  transactionId: z.string().min(1, "Transaction reference is required"),
+  results: z.array(z.object({
+    withdrawalId: z.string(),
+    status: z.enum(['processed', 'failed']),
+    transactionId: z.string().optional(),
+    reason: z.string().optional(),
+  })).optional(), // Requests not listed are marked processed
+});
+
+// Schema for importing a bank response file against a payout batch
+export const importBankResponseSchema = z.object({
+  content: z.string().min(1, "Response file content is required"),
+});
+
+// Schema for whitelisting the user's USDT payout address
+export const updateCryptoWalletSchema = z.object({
+  address: z.string().min(1, "Wallet address is required"),
+  networkType: z.enum(['TRC20', 'ERC20', 'BEP20']),
+  txnPin: z.string().min(1, "Transaction PIN is required"),
+});
+
+// Schema for recording an on-chain USDT payout
+export const recordUsdtPayoutSchema = z.object({
+  inrPerUsdt: z.coerce.number().positive("Conversion rate must be positive"),
+  txHash: z.string().min(1, "Transaction hash is required"),
+});
+
+// Schema for moving wallet funds to an upline or downline member
+export const createFundTransferSchema = z.object({
+  recipientUserId: z.string().min(1, "Recipient ID is required"), // Display ID like VV0002
+  amount: z.string().refine((val) => !isNaN(Number(val)) && Number(val) > 0, "Valid amount is required"),
+  txnPin: z.string().min(1, "Transaction PIN is required"),
+  note: z.string().max(200).optional(),
+});
+
+// Transaction PINs are 4 to 6 digits
+const txnPinValue = z.string().regex(/^\d{4,6}$/, "Transaction PIN must be 4 to 6 digits");
+
+// Schema for setting the first transaction PIN
+export const setTxnPinSchema = z.object({
+  password: z.string().min(1, "Account password is required"),
+  newPin: txnPinValue,
+  confirmPin: z.string(),
+}).refine((data) => data.newPin === data.confirmPin, {
+  message: "PINs don't match",
+  path: ["confirmPin"],
+});
+
+// Schema for changing the transaction PIN
+export const changeTxnPinSchema = z.object({
+  currentPin: z.string().min(1, "Current PIN is required"),
+  newPin: txnPinValue,
+  confirmPin: z.string(),
+}).refine((data) => data.newPin === data.confirmPin, {
+  message: "PINs don't match",
+  path: ["confirmPin"],
+});
+
+// Schema for resetting the transaction PIN with an emailed token
+export const resetTxnPinSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  newPin: txnPinValue,
+  confirmPin: z.string(),
+}).refine((data) => data.newPin === data.confirmPin, {
+  message: "PINs don't match",
+  path: ["confirmPin"],
+});
+
+export type ReviewWithdrawal = z.infer<typeof reviewWithdrawalSchema>;
+export type CreatePayoutBatch = z.infer<typeof createPayoutBatchSchema>;
+export type CompletePayoutBatch = z.infer<typeof completePayoutBatchSchema>;
+export type ImportBankResponse = z.infer<typeof importBankResponseSchema>;
+export type UpdateCryptoWallet = z.infer<typeof updateCryptoWalletSchema>;
+export type RecordUsdtPayout = z.infer<typeof recordUsdtPayoutSchema>;
+export type CreateFundTransfer = z.infer<typeof createFundTransferSchema>;
+export type SetTxnPin = z.infer<typeof setTxnPinSchema>;
+export type ChangeTxnPin = z.infer<typeof changeTxnPinSchema>;
+export type ResetTxnPin = z.infer<typeof resetTxnPinSchema>;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+
+// Shopping cart, one line per product
+export const cartItems = pgTable("cart_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  quantity: integer("quantity").default(1).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("UQ_cart_items_user_product_variant").on(table.userId, table.productId, table.variantId).nullsNotDistinct()]);
+
+// Checkout orders; each order owns one purchase row per product line
+export const orders = pgTable("orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderNumber: varchar("order_number").notNull().unique(), // VO-YYYYMMDD-XXXXXX
+  userId: varchar("user_id").notNull(),
+  status: varchar("status").default('pending').notNull(), // 'pending', 'paid', 'failed', 'refunded', 'cancelled'
+  paymentMethod: varchar("payment_method").notNull(), // 'wallet', 'gateway'
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(), // Amount payable (subtotal + GST)
+  totalBV: decimal("total_bv", { precision: 12, scale: 2 }).notNull(),
+  deliveryAddress: text("delivery_address").notNull(),
+  stockPointId: varchar("stock_point_id"), // Warehouse or franchise the order is reserved at and fulfilled from
+  fulfilledAt: timestamp("fulfilled_at"), // Stock dispatched or handed over at the stock point
+  fulfilledBy: varchar("fulfilled_by"),
+  deliveryStatus: varchar("delivery_status").default('pending').notNull(), // 'pending', 'packed', 'shipped', 'delivered', 'failed'
+  courier: varchar("courier"),
+  trackingId: varchar("tracking_id"),
+  deliveredAt: timestamp("delivered_at"),
+  gatewayProvider: varchar("gateway_provider"),
+  gatewayOrderId: varchar("gateway_order_id"),
+  gatewayPaymentId: varchar("gateway_payment_id"),
+  paymentJournalId: varchar("payment_journal_id"), // Ledger journal of a wallet payment
+  refundJournalId: varchar("refund_journal_id"),
+  franchiseJournalId: varchar("franchise_journal_id"), // Franchise income paid when a franchise point fulfilled it
+  failureReason: text("failure_reason"),
+  refundReason: text("refund_reason"),
+  claimToken: varchar("claim_token"), // Written by the batch that last reopened or fulfilled the order
+  paidAt: timestamp("paid_at"),
+  failedAt: timestamp("failed_at"),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_orders_user").on(table.userId),
+  uniqueIndex("UQ_orders_gateway_order").on(table.gatewayProvider, table.gatewayOrderId),
+  // Franchise income is only recorded against an order that was fulfilled
+  check("orders_franchise_journal_when_fulfilled", sql`${table.franchiseJournalId} IS NULL OR ${table.fulfilledAt} IS NOT NULL`),
+]);
+
+// Payment gateway webhooks that passed signature verification, kept so
+// redelivered events are applied once
+export const paymentWebhookEvents = pgTable("payment_webhook_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(),
+  eventId: varchar("event_id").notNull(),
+  eventType: varchar("event_type").notNull(),
+  orderId: varchar("order_id"),
+  payload: jsonb("payload"),
+  error: text("error"), // Why the last attempt could not be applied; cleared when it is redelivered
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_payment_webhook_event").on(table.provider, table.eventId)]);
+
+// Schema for adding a product to the cart
+export const addCartItemSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  variantId: z.string().optional(),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").default(1),
+});
+
+// Schema for changing a cart line (0 removes it)
+export const updateCartItemSchema = z.object({
+  quantity: z.number().int().min(0),
+});
+
+// Schema for turning the cart into an order
+export const checkoutSchema = z.object({
+  deliveryAddress: z.string().min(10, "Complete delivery address is required"),
+  paymentMethod: z.enum(['wallet', 'gateway']),
+  stockPointId: z.string().optional(), // Pickup/fulfilment point; the main warehouse when omitted
+  txnPin: z.string().optional(), // Required for wallet payments
+});
+
+// Schema for paying (or retrying payment of) an existing order
+export const payOrderSchema = z.object({
+  paymentMethod: z.enum(['wallet', 'gateway']),
+  txnPin: z.string().optional(),
+});
+
+// Schema for refunding a paid order
+export const refundOrderSchema = z.object({
+  reason: z.string().min(1, "Refund reason is required"),
+});
+
+export type AddCartItem = z.infer<typeof addCartItemSchema>;
+export type Checkout = z.infer<typeof checkoutSchema>;
+export type PayOrder = z.infer<typeof payOrderSchema>;
+export type CartItem = typeof cartItems.$inferSelect;
+export type Order = typeof orders.$inferSelect;
+export type PaymentWebhookEvent = typeof paymentWebhookEvents.$inferSelect;
+
+// GST invoice numbers run gap-free per financial year (April to March)
+export const invoiceSequences = pgTable("invoice_sequences", {
+  financialYear: varchar("financial_year").primaryKey(), // e.g. '2026-27'
+  lastNumber: integer("last_number").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// GST tax invoices, one per paid order
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceNumber: varchar("invoice_number").notNull().unique(), // VV/2026-27/000001
+  financialYear: varchar("financial_year").notNull(),
+  sequenceNumber: integer("sequence_number").notNull(),
+  orderId: varchar("order_id").notNull().unique(),
+  userId: varchar("user_id").notNull(),
+  invoiceDate: timestamp("invoice_date").notNull(),
+  status: varchar("status").default('issued').notNull(), // 'issued', 'cancelled'
+  sellerName: varchar("seller_name").notNull(),
+  sellerGstin: varchar("seller_gstin").notNull(),
+  sellerAddress: text("seller_address"),
+  sellerStateCode: varchar("seller_state_code", { length: 2 }).notNull(),
+  buyerName: varchar("buyer_name").notNull(),
+  buyerUserId: varchar("buyer_user_id"), // Member ID shown on the invoice
+  buyerGstin: varchar("buyer_gstin"), // Only for registered (B2B) buyers
+  billingAddress: text("billing_address"),
+  shippingAddress: text("shipping_address"),
+  placeOfSupply: varchar("place_of_supply", { length: 2 }).notNull(), // GST state code
+  supplyType: varchar("supply_type").notNull(), // 'intra_state' (CGST + SGST), 'inter_state' (IGST)
+  taxableValue: decimal("taxable_value", { precision: 12, scale: 2 }).notNull(),
+  cgstAmount: decimal("cgst_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  sgstAmount: decimal("sgst_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  igstAmount: decimal("igst_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  totalTax: decimal("total_tax", { precision: 12, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationReason: text("cancellation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_invoices_user").on(table.userId),
+  index("IDX_invoices_date").on(table.invoiceDate),
+]);
+
+export const invoiceLines = pgTable("invoice_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull(),
+  purchaseId: varchar("purchase_id"),
+  productId: varchar("product_id"),
+  description: varchar("description").notNull(),
+  hsnCode: varchar("hsn_code"),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
+  taxableValue: decimal("taxable_value", { precision: 12, scale: 2 }).notNull(),
+  gstRate: decimal("gst_rate", { precision: 5, scale: 2 }).notNull(),
+  cgstAmount: decimal("cgst_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  sgstAmount: decimal("sgst_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  igstAmount: decimal("igst_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+}, (table) => [index("IDX_invoice_lines_invoice").on(table.invoiceId)]);
+
+export type InvoiceSequence = typeof invoiceSequences.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+
+// Return requests on purchase lines: requested -> approved -> refunded, or rejected
+export const purchaseReturns = pgTable("purchase_returns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseId: varchar("purchase_id").notNull(),
+  orderId: varchar("order_id"),
+  userId: varchar("user_id").notNull(),
+  reason: text("reason").notNull(),
+  status: varchar("status").default('requested').notNull(), // 'requested', 'approved', 'rejected', 'refunded'
+  refundMethod: varchar("refund_method"), // 'wallet', 'original'
+  refundAmount: decimal("refund_amount", { precision: 12, scale: 2 }), // Line amount including GST
+  refundJournalId: varchar("refund_journal_id"), // Ledger journal of a wallet refund
+  gatewayRefundId: varchar("gateway_refund_id"),
+  reversal: jsonb("reversal"), // Clawbacks, carry forward and rank changes made by the refund
+  adminNotes: text("admin_notes"),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_purchase_returns_user").on(table.userId),
+  // One open or completed return per purchase line; rejected ones may be retried
+  uniqueIndex("UQ_purchase_returns_active").on(table.purchaseId).where(sql`${table.status} <> 'rejected'`),
+]);
+
+// Income taken back after a refund. Whatever the wallet cannot cover stays
+// outstanding and is recovered from later payouts.
+export const commissionClawbacks = pgTable("commission_clawbacks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Member the income is taken back from
+  sourceType: varchar("source_type").notNull(), // 'sponsor_income', 'rank_bonus', 'franchise_income'
+  purchaseId: varchar("purchase_id"),
+  returnId: varchar("return_id"),
+  reversalId: varchar("reversal_id"), // Purchase reversal that raised it
+  referenceId: varchar("reference_id"), // Payout statement, rank achievement or order
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  recoveredAmount: decimal("recovered_amount", { precision: 12, scale: 2 }).default('0.00').notNull(),
+  status: varchar("status").default('outstanding').notNull(), // 'outstanding', 'recovered'
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_commission_clawbacks_user_status").on(table.userId, table.status),
+  // A retried reversal cannot raise the same clawback twice
+  uniqueIndex("UQ_commission_clawbacks_reversal_source").on(table.reversalId, table.sourceType, table.referenceId, table.purchaseId),
+  // A revoked rank bonus is only taken back once
+  uniqueIndex("UQ_commission_clawbacks_rank_bonus").on(table.referenceId).where(sql`${table.sourceType} = 'rank_bonus'`),
+]);
+
+// Income reversal owed on refunded purchases. It is recorded in the batch
+// that marks the purchases refunded and retried until every step has gone
+// through, so a refund never stands without its clawbacks.
+export const purchaseReversals = pgTable("purchase_reversals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseIds: jsonb("purchase_ids").notNull(), // Purchases refunded together
+  returnId: varchar("return_id"),
+  reason: text("reason").notNull(),
+  status: varchar("status").default('pending').notNull(), // 'pending', 'completed'
+  clawedBackAt: timestamp("clawed_back_at"), // Cycle income clawed back and carry forward withdrawn
+  claimToken: varchar("claim_token"), // Written by the batch that clawed the income back
+  summary: jsonb("summary"), // Clawbacks, carry forward and rank changes made
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [index("IDX_purchase_reversals_status").on(table.status)]);
+
+// Schema for asking to return a purchase
+export const createReturnRequestSchema = z.object({
+  reason: z.string().min(5, "Please describe why you are returning this product"),
+});
+
+// Schema for approving or rejecting a return
+export const reviewReturnSchema = z.object({
+  notes: z.string().optional(),
+});
+
+// Schema for refunding an approved return
+export const refundReturnSchema = z.object({
+  refundMethod: z.enum(['wallet', 'original']),
+  notes: z.string().optional(),
+});
+
+export type CreateReturnRequest = z.infer<typeof createReturnRequestSchema>;
+export type RefundReturn = z.infer<typeof refundReturnSchema>;
+export type PurchaseReturn = typeof purchaseReturns.$inferSelect;
+export type CommissionClawback = typeof commissionClawbacks.$inferSelect;
+export type PurchaseReversalRecord = typeof purchaseReversals.$inferSelect;
+
+// Warehouses and franchise outlets that hold stock. Franchise points are run
+// by the member who owns the franchise and earn franchise income on the
+// orders they fulfil.
+export const stockPoints = pgTable("stock_points", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").notNull().unique(), // e.g. WH-MAIN, FR-0001
+  name: varchar("name").notNull(),
+  type: varchar("type").notNull(), // 'warehouse', 'franchise'
+  ownerId: varchar("owner_id"), // Franchise owner (users.id)
+  franchiseRequestId: varchar("franchise_request_id"), // Approved request the franchise point was opened for
+  franchiseType: franchiseTypeEnum("franchise_type"),
+  address: text("address"),
+  city: varchar("city"),
+  state: varchar("state"),
+  pincode: varchar("pincode"),
+  phone: varchar("phone"),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_stock_points_owner").on(table.ownerId)]);
+
+// Stock of a product at a stock point. Reserved units belong to unfulfilled
+// orders; the constraints make over-reservation fail inside the order's batch.
+export const stockLevels = pgTable("stock_levels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stockPointId: varchar("stock_point_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  quantity: integer("quantity").default(0).notNull(), // Units on hand, including reserved ones
+  reserved: integer("reserved").default(0).notNull(),
+  lowStockThreshold: integer("low_stock_threshold").default(5).notNull(),
+  lowStockAlertedAt: timestamp("low_stock_alerted_at"), // Cleared once stock is back above the threshold
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_stock_levels_point_product").on(table.stockPointId, table.productId),
+  check("stock_quantity_non_negative", sql`${table.quantity} >= 0`),
+  check("stock_reserved_within_quantity", sql`${table.reserved} >= 0 AND ${table.reserved} <= ${table.quantity}`),
+]);
+
+// Every change to a stock level
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stockPointId: varchar("stock_point_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  type: varchar("type").notNull(), // 'stock_in', 'stock_out', 'reserved', 'released', 'dispatched', 'returned'
+  quantity: integer("quantity").notNull(), // Always positive; the type gives the direction
+  orderId: varchar("order_id"),
+  purchaseId: varchar("purchase_id"),
+  note: text("note"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_stock_movements_point_product").on(table.stockPointId, table.productId),
+  index("IDX_stock_movements_order").on(table.orderId),
+]);
+
+// Schema for opening a warehouse or franchise stock point
+export const createStockPointSchema = z.object({
+  code: z.string().regex(/^[A-Z0-9-]{3,20}$/, "Code must be 3-20 upper-case letters, digits or dashes"),
+  name: z.string().min(1, "Name is required"),
+  type: z.enum(['warehouse', 'franchise']),
+  franchiseRequestId: z.string().optional(), // Required for franchise points
+  address: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  pincode: z.string().regex(/^\d{6}$/, "PIN code must be 6 digits").optional(),
+  phone: z.string().optional(),
+});
+
+export const updateStockPointSchema = createStockPointSchema
+  .pick({ name: true, address: true, city: true, state: true, pincode: true, phone: true })
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+// Schema for stock received at or taken out of a stock point by hand
+export const createStockMovementSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  type: z.enum(['stock_in', 'stock_out']),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  note: z.string().optional(),
+});
+
+export const updateStockLevelSchema = z.object({
+  lowStockThreshold: z.number().int().min(0),
+});
+
+export type CreateStockPoint = z.infer<typeof createStockPointSchema>;
+export type UpdateStockPoint = z.infer<typeof updateStockPointSchema>;
+export type CreateStockMovement = z.infer<typeof createStockMovementSchema>;
+export type StockPoint = typeof stockPoints.$inferSelect;
+export type StockLevel = typeof stockLevels.$inferSelect;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Every delivery status change of an order, oldest first
+export const shipmentEvents = pgTable("shipment_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  status: varchar("status").notNull(), // 'packed', 'shipped', 'delivered', 'failed'
+  courier: varchar("courier"),
+  trackingId: varchar("tracking_id"),
+  note: text("note"),
+  source: varchar("source").notNull(), // 'admin', 'franchise', 'csv'
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_shipment_events_order").on(table.orderId)]);
+
+// Schema for moving an order along packed -> shipped -> delivered (or failed)
+export const updateShipmentSchema = z.object({
+  status: z.enum(['packed', 'shipped', 'delivered', 'failed']),
+  courier: z.string().trim().min(2, "Courier name is required").optional(),
+  trackingId: z.string().trim().min(4, "Tracking number is required").optional(),
+  note: z.string().max(500).optional(),
+}).refine(data => data.status !== 'shipped' || (data.courier && data.trackingId), {
+  message: "Courier and tracking number are required to mark an order shipped",
+  path: ["trackingId"],
+});
+
+export const importShipmentsSchema = z.object({
+  content: z.string().min(1, "Shipment file content is required"),
+});
+
+export type UpdateShipment = z.infer<typeof updateShipmentSchema>;
+export type ShipmentEvent = typeof shipmentEvents.$inferSelect;
+
+// Product categories; products.category holds the slug
+export const productCategories = pgTable("product_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: varchar("slug").notNull().unique(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Product images in object storage, first one is the primary image
+export const productImages = pgTable("product_images", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  url: varchar("url").notNull(), // /api/objects/uploads/<id>
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_product_images_product").on(table.productId)]);
+
+// Capacity/colour variants sold at their own price, BV and GST. Stock is
+// tracked per product.
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  sku: varchar("sku").notNull().unique(),
+  name: varchar("name").notNull(), // e.g. '10 L / White'
+  capacity: varchar("capacity"),
+  colour: varchar("colour"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  bv: decimal("bv", { precision: 10, scale: 2 }).notNull(),
+  gst: decimal("gst", { precision: 5, scale: 2 }).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_product_variants_product").on(table.productId)]);
+
+// Price changes of a product or one of its variants that take effect later
+export const productPriceChanges = pgTable("product_price_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"), // Null changes the product itself
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  bv: decimal("bv", { precision: 10, scale: 2 }), // Unchanged when null
+  gst: decimal("gst", { precision: 5, scale: 2 }), // Unchanged when null
+  effectiveFrom: timestamp("effective_from").notNull(),
+  status: varchar("status").default('scheduled').notNull(), // 'scheduled', 'applied', 'cancelled'
+  appliedAt: timestamp("applied_at"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_product_price_changes_product").on(table.productId),
+  index("IDX_product_price_changes_due").on(table.status, table.effectiveFrom),
+]);
+
+const amountSchema = (label: string, allowZero = false) => z.string().refine(
+  (val) => !isNaN(Number(val)) && (allowZero ? Number(val) >= 0 : Number(val) > 0),
+  `Valid ${label} is required`
+);
+
+export const createCategorySchema = z.object({
+  slug: z.string().regex(/^[a-z0-9_]{2,40}$/, "Slug may only use lowercase letters, digits and underscores"),
+  name: z.string().min(1, "Category name is required"),
+  description: z.string().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.omit({ slug: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const createVariantSchema = z.object({
+  sku: z.string().regex(/^[A-Z0-9-]{3,40}$/, "SKU may only use uppercase letters, digits and dashes"),
+  name: z.string().min(1, "Variant name is required"),
+  capacity: z.string().optional(),
+  colour: z.string().optional(),
+  price: amountSchema('price'),
+  bv: amountSchema('BV'),
+  gst: amountSchema('GST', true),
+  sortOrder: z.number().int().optional(),
+});
+
+export const updateVariantSchema = createVariantSchema.omit({ sku: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const schedulePriceChangeSchema = z.object({
+  variantId: z.string().optional(),
+  price: amountSchema('price'),
+  bv: amountSchema('BV').optional(),
+  gst: amountSchema('GST', true).optional(),
+  effectiveFrom: z.coerce.date().refine(date => date > new Date(), "Effective date must be in the future"),
+});
+
+// Image PUT to the signed upload URL from /api/admin/products/images/upload-url
+export const addProductImageSchema = z.object({
+  uploadURL: z.string().url("Upload URL is required"),
+});
+
+export const importCatalogSchema = z.object({
+  content: z.string().min(1, "Catalog file content is required"),
+});
+
+export type CreateCategory = z.infer<typeof createCategorySchema>;
+export type UpdateCategory = z.infer<typeof updateCategorySchema>;
+export type CreateVariant = z.infer<typeof createVariantSchema>;
+export type UpdateVariant = z.infer<typeof updateVariantSchema>;
+export type SchedulePriceChange = z.infer<typeof schedulePriceChangeSchema>;
+export type ProductCategory = typeof productCategories.$inferSelect;
+export type ProductImage = typeof productImages.$inferSelect;
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type ProductPriceChange = typeof productPriceChanges.$inferSelect;
+
+// Consistency Bonus Runs - One per month the consistency bonus was settled for
+export const consistencyBonusRuns = pgTable("consistency_bonus_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  month: timestamp("month").notNull(), // Start of the calendar month paid for
+  planVersion: integer("plan_version").notNull(),
+  totalUsers: integer("total_users").default(0),
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).default('0.00'),
+  runBy: varchar("run_by").notNull(), // Admin user ID, or 'system' for the scheduled job
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_consistency_bonus_run_month").on(table.month)]);
+
+// Consistency Bonus Awards - Per-user bonus for a month, credited to the wallet
+export const consistencyBonusAwards = pgTable("consistency_bonus_awards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  month: timestamp("month").notNull(),
+  slab: varchar("slab").notNull(), // Name of the plan slab reached
+  streakMonths: integer("streak_months").notNull(),
+  repurchaseBV: decimal("repurchase_bv", { precision: 12, scale: 2 }).notNull(), // Own repurchase BV in the month
+  teamBV: decimal("team_bv", { precision: 14, scale: 2 }).notNull(), // Binary downline repurchase BV in the month
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  status: varchar("status").default('pending'), // 'pending', 'credited'
+  transactionId: varchar("transaction_id"),
+  creditedAt: timestamp("credited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_consistency_bonus_award_user_month").on(table.userId, table.month),
+  index("IDX_consistency_bonus_awards_run").on(table.runId),
+]);
+
+export const runConsistencyBonusSchema = z.object({
+  month: z.coerce.date(), // Any date in the month to settle
+});
+
+export type ConsistencyBonusRun = typeof consistencyBonusRuns.$inferSelect;
+export type ConsistencyBonusAward = typeof consistencyBonusAwards.$inferSelect;
+
+// Reward Pool Runs - One per month the reward pools were distributed for
+export const rewardPoolRuns = pgTable("reward_pool_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  month: timestamp("month").notNull(), // Start of the calendar month distributed
+  planVersion: integer("plan_version").notNull(),
+  turnoverBV: decimal("turnover_bv", { precision: 14, scale: 2 }).notNull(), // Company-wide paid BV in the month
+  totalAmount: decimal("total_amount", { precision: 14, scale: 2 }).default('0.00'), // Paid out across all pools
+  runBy: varchar("run_by").notNull(), // Admin user ID, or 'system' for the scheduled job
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_reward_pool_run_month").on(table.month)]);
+
+// Reward Pool Reports - Audit of one pool in a run: funding, qualifiers and share value
+export const rewardPoolReports = pgTable("reward_pool_reports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(),
+  poolType: transactionTypeEnum("pool_type").notNull(),
+  poolName: varchar("pool_name").notNull(),
+  turnoverRate: decimal("turnover_rate", { precision: 6, scale: 4 }).notNull(),
+  poolAmount: decimal("pool_amount", { precision: 14, scale: 2 }).notNull(), // Turnover x rate
+  minRank: varchar("min_rank").notNull(),
+  minMatchedBV: decimal("min_matched_bv", { precision: 12, scale: 2 }).notNull(),
+  qualifiers: integer("qualifiers").default(0),
+  totalShares: integer("total_shares").default(0),
+  shareValue: decimal("share_value", { precision: 14, scale: 2 }).default('0.00'),
+  distributedAmount: decimal("distributed_amount", { precision: 14, scale: 2 }).default('0.00'),
+  undistributedAmount: decimal("undistributed_amount", { precision: 14, scale: 2 }).default('0.00'), // Rounding remainder, or the whole pool without qualifiers
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_reward_pool_report_run_pool").on(table.runId, table.poolType)]);
+
+// Reward Pool Payouts - A qualifier's shares of a pool, credited to the wallet
+export const rewardPoolPayouts = pgTable("reward_pool_payouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(),
+  reportId: varchar("report_id").notNull(),
+  poolType: transactionTypeEnum("pool_type").notNull(),
+  userId: varchar("user_id").notNull(),
+  rank: varchar("rank").notNull(), // Highest rank held at the end of the month
+  matchedBV: decimal("matched_bv", { precision: 12, scale: 2 }).notNull(),
+  shares: integer("shares").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  status: varchar("status").default('pending'), // 'pending', 'credited'
+  transactionId: varchar("transaction_id"),
+  creditedAt: timestamp("credited_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_reward_pool_payout_report_user").on(table.reportId, table.userId),
+  index("IDX_reward_pool_payouts_run").on(table.runId),
+  index("IDX_reward_pool_payouts_user").on(table.userId),
+]);
+
+export const runRewardPoolsSchema = z.object({
+  month: z.coerce.date(), // Any date in the month to distribute
+});
+
+export type RewardPoolRun = typeof rewardPoolRuns.$inferSelect;
+export type RewardPoolReport = typeof rewardPoolReports.$inferSelect;
+export type RewardPoolPayout = typeof rewardPoolPayouts.$inferSelect;
+
+// BV Ledger - Dated BV movements per user and leg; sums to the cached totals on users
+export const bvLedger = pgTable("bv_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // Buyer ('self') or the upline whose leg received the BV
+  leg: varchar("leg").notNull(), // 'self', 'left', 'right'
+  bv: decimal("bv", { precision: 12, scale: 2 }).notNull(), // Negative when a refund takes BV back
+  sourceUserId: varchar("source_user_id"), // Buyer of the source purchase
+  purchaseId: varchar("purchase_id"),
+  entryType: varchar("entry_type").notNull(), // 'purchase', 'refund', 'adjustment' (BV rebuild repair), 'placement' (subtree moved)
+  occurredAt: timestamp("occurred_at").notNull(), // Payment date for purchases, refund date for refunds
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_bv_ledger_user_date").on(table.userId, table.occurredAt),
+  index("IDX_bv_ledger_purchase").on(table.purchaseId),
+]);
+
+export const bvLedgerQuerySchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(), // Exclusive
+  interval: z.enum(['day', 'week', 'month']).default('month'),
+  leg: z.enum(['self', 'left', 'right']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+}).refine(query => query.from < query.to, { message: "'from' must be before 'to'", path: ['to'] });
+
+export type BVLedgerEntry = typeof bvLedger.$inferSelect;
+export type BVLedgerQuery = z.infer<typeof bvLedgerQuerySchema>;
+
+// Spillover strategies for placing a sponsor's new recruits
+export const placementStrategies = [
+  'bfs', // First free slot level by level across both legs
+  'extreme_left', // Bottom of the outer left line
+  'extreme_right', // Bottom of the outer right line
+  'weaker_leg_bv', // Leg with less team BV, filled breadth-first
+  'weaker_leg_count', // Leg with fewer members, filled breadth-first
+  'preferred_leg', // Sponsor's preferred leg, spilling down that side
+] as const;
+
+export const updatePlacementPreferenceSchema = z.object({
+  placementStrategy: z.enum(placementStrategies),
+  preferredLeg: z.enum(['left', 'right']).optional(),
+}).refine(data => data.placementStrategy !== 'preferred_leg' || !!data.preferredLeg, {
+  message: 'Choose the preferred leg',
+  path: ['preferredLeg'],
+});
+
+export type PlacementStrategy = typeof placementStrategies[number];
+export type UpdatePlacementPreference = z.infer<typeof updatePlacementPreferenceSchema>;
+
+// Binary tree integrity check; 'apply' also repairs what can be repaired automatically
+export const repairTreeSchema = z.object({
+  mode: z.enum(['dry_run', 'apply']).default('dry_run'),
+});
+
+// Ancestor index of the binary tree: one row per ancestor/descendant pair,
+// including each user with themselves at depth 0 (see treePathService)
+export const treePaths = pgTable("tree_paths", {
+  ancestorId: varchar("ancestor_id").notNull(),
+  descendantId: varchar("descendant_id").notNull(),
+  depth: integer("depth").notNull(), // Levels below the ancestor, 0 for the user themselves
+  leg: varchar("leg"), // 'left' or 'right' leg of the ancestor holding the descendant; null at depth 0
+}, (table) => [
+  uniqueIndex("UQ_tree_paths_pair").on(table.ancestorId, table.descendantId),
+  index("IDX_tree_paths_descendant").on(table.descendantId),
+  index("IDX_tree_paths_ancestor_leg").on(table.ancestorId, table.leg, table.depth),
+]);
+
+export type TreePath = typeof treePaths.$inferSelect;
+
+// Lazy binary tree explorer: a page of levels below one node of own downline
+export const treeExplorerQuerySchema = z.object({
+  nodeId: z.string().min(1).optional(), // Defaults to the viewer
+  levels: z.coerce.number().int().min(1).max(5).default(3),
+});
+
+export const treeSearchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(100), // Name, member ID or mobile
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type TreeExplorerQuery = z.infer<typeof treeExplorerQuerySchema>;
+export type TreeSearchQuery = z.infer<typeof treeSearchQuerySchema>;